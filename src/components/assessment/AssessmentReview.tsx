@@ -6,21 +6,39 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ArrowLeft, CheckCircle, XCircle, AlertTriangle } from "lucide-react";
 import { toast } from "sonner";
+import { OPTION_LETTERS, QuestionOptions, answerLetters, describeTypedAnswer, getOptions, isTypedQuestion } from "@/lib/questionTypes";
+import QuestionImage from "@/components/assessment/QuestionImage";
+import RichText from "@/components/assessment/RichText";
+import QuestionExplanation from "@/components/assessment/QuestionExplanation";
+import { useQuestionImageUrls } from "@/hooks/useQuestionImageUrls";
 
-interface Question {
+// Options and option images come back in the order the student saw them
+interface Question extends QuestionOptions {
   id: string;
   question_text: string;
-  option_a: string;
-  option_b: string;
-  option_c: string;
-  option_d: string;
-  correct_answer: string;
+  correct_answer: string | null;
+  option_order: string;
+  question_type: string;
+  scoring_mode: string;
+  numeric_answer: number | null;
+  numeric_tolerance: number | null;
+  numeric_min: number | null;
+  numeric_max: number | null;
+  answer_unit: string | null;
+  accepted_answers: string[] | null;
+  explanation: string | null;
+  reference_title: string | null;
+  reference_url: string | null;
+  // Left out of the score after an answer key correction
+  voided: boolean | null;
 }
 
 interface Answer {
   question_id: string;
-  selected_answer: string;
-  is_correct: boolean;
+  selected_answer: string | null;
+  response_text: string | null;
+  is_correct: boolean | null;
+  credit: number | null;
 }
 
 interface Attempt {
@@ -46,6 +64,7 @@ const AssessmentReview = () => {
   const [attempt, setAttempt] = useState<Attempt | null>(null);
   const [questions, setQuestions] = useState<Question[]>([]);
   const [answers, setAnswers] = useState<Answer[]>([]);
+  const imageUrls = useQuestionImageUrls(questions);
 
   useEffect(() => {
     fetchReviewData();
@@ -139,9 +158,12 @@ const AssessmentReview = () => {
     ? Math.round((attempt.score / attempt.total_questions) * 100) 
     : 0;
 
-  const correctCount = answers.filter(a => a.is_correct).length;
-  const incorrectCount = answers.filter(a => !a.is_correct).length;
-  const unansweredCount = questions.length - answers.length;
+  const counted = questions.filter(q => !q.voided);
+  const countedAnswers = answers.filter(a => counted.some(q => q.id === a.question_id));
+  const correctCount = countedAnswers.filter(a => a.is_correct).length;
+  const partialCount = countedAnswers.filter(a => !a.is_correct && Number(a.credit) > 0).length;
+  const incorrectCount = countedAnswers.filter(a => !a.is_correct).length - partialCount;
+  const unansweredCount = counted.length - countedAnswers.length;
 
   return (
     <div className="min-h-screen bg-background">
@@ -169,7 +191,7 @@ const AssessmentReview = () => {
             </div>
           </CardHeader>
           <CardContent>
-            <div className="grid md:grid-cols-5 gap-4 text-center">
+            <div className={`grid gap-4 text-center ${partialCount > 0 ? "md:grid-cols-6" : "md:grid-cols-5"}`}>
               <div className="bg-muted p-4 rounded-lg">
                 <p className="text-sm text-muted-foreground">Score</p>
                 <p className="text-3xl font-bold">{attempt.score}/{attempt.total_questions}</p>
@@ -182,6 +204,12 @@ const AssessmentReview = () => {
                 <p className="text-sm text-muted-foreground">Correct</p>
                 <p className="text-3xl font-bold text-green-600">{correctCount}</p>
               </div>
+              {partialCount > 0 && (
+                <div className="bg-blue-100 dark:bg-blue-900/20 p-4 rounded-lg">
+                  <p className="text-sm text-muted-foreground">Partially Correct</p>
+                  <p className="text-3xl font-bold text-blue-600">{partialCount}</p>
+                </div>
+              )}
               <div className="bg-red-100 dark:bg-red-900/20 p-4 rounded-lg">
                 <p className="text-sm text-muted-foreground">Incorrect</p>
                 <p className="text-3xl font-bold text-red-600">{incorrectCount}</p>
@@ -224,17 +252,31 @@ const AssessmentReview = () => {
             questions.map((question, index) => {
               const answer = answers.find(a => a.question_id === question.id);
               const isCorrect = answer?.is_correct || false;
+              const isPartial = !isCorrect && Number(answer?.credit) > 0;
               const isAnswered = !!answer;
-              const selectedAnswer = answer?.selected_answer || null;
+              // Answers are stored with canonical letters; show them as the student saw them
+              const selectedLetters = answerLetters(answer?.selected_answer)
+                .map((letter) => OPTION_LETTERS[question.option_order.indexOf(letter)] ?? letter)
+                .sort();
+              const isTyped = isTypedQuestion(question.question_type);
+              const selectedAnswer = isTyped
+                ? answer?.response_text
+                : selectedLetters.length > 0 ? selectedLetters.join(", ") : null;
+              const correctLetters = answerLetters(question.correct_answer);
+              const correctAnswer = isTyped ? describeTypedAnswer(question) : correctLetters.join(", ");
 
               return (
                 <Card 
                   key={question.id} 
                   className={`border-l-4 ${
-                    !isAnswered
+                    question.voided
+                      ? "border-l-muted-foreground"
+                      : !isAnswered
                       ? "border-l-amber-500"
                       : isCorrect 
                       ? "border-l-green-500" 
+                      : isPartial
+                      ? "border-l-blue-500"
                       : "border-l-red-500"
                   }`}
                 >
@@ -243,15 +285,25 @@ const AssessmentReview = () => {
                       <div className="flex-1">
                         <CardTitle className="text-lg flex items-center gap-2">
                           Question {index + 1}
-                          {!isAnswered ? (
+                          {question.voided ? (
+                            <Badge variant="secondary">Voided – not counted</Badge>
+                          ) : !isAnswered ? (
                             <Badge variant="outline" className="border-amber-500 text-amber-600">Unanswered</Badge>
                           ) : isCorrect ? (
                             <Badge variant="default" className="bg-green-500">Correct</Badge>
+                          ) : isPartial ? (
+                            <Badge variant="outline" className="border-blue-500 text-blue-600">
+                              Partially correct ({Math.round(Number(answer?.credit) * 100)}%)
+                            </Badge>
                           ) : (
                             <Badge variant="destructive">Incorrect</Badge>
                           )}
+                          {question.question_type === "multiple" && (
+                            <Badge variant="secondary">Multiple answers</Badge>
+                          )}
                         </CardTitle>
-                        <p className="mt-2 text-base font-normal">{question.question_text}</p>
+                        <RichText content={question.question_text} className="mt-2 text-base font-normal" />
+                        <QuestionImage path={question.question_image} urls={imageUrls} alt={`Question ${index + 1}`} className="mt-3 max-h-80" />
                       </div>
                       {!isAnswered ? (
                         <AlertTriangle className="w-6 h-6 text-amber-500 flex-shrink-0" />
@@ -263,19 +315,34 @@ const AssessmentReview = () => {
                     </div>
                   </CardHeader>
                   <CardContent className="space-y-4">
+                    {isTyped && (
+                      <div className="grid gap-2">
+                        {isAnswered && (
+                          <div
+                            className={`p-3 rounded-lg border-2 ${
+                              isCorrect ? "border-green-500 bg-green-50 dark:bg-green-950/20" : "border-red-500 bg-red-50 dark:bg-red-950/20"
+                            }`}
+                          >
+                            <span className="text-sm text-muted-foreground mr-2">Your answer:</span>
+                            <span className="font-medium">{answer?.response_text}</span>
+                          </div>
+                        )}
+                        <div className="p-3 rounded-lg border-2 border-green-500 bg-green-50 dark:bg-green-950/20">
+                          <span className="text-sm text-muted-foreground mr-2">
+                            {question.question_type === "short_text" && (question.accepted_answers?.length || 0) > 1 ? "Accepted answers:" : "Accepted answer:"}
+                          </span>
+                          <span className="font-medium">{correctAnswer}</span>
+                        </div>
+                      </div>
+                    )}
                     <div className="grid gap-2">
-                      {[
-                        { label: "A", value: question.option_a },
-                        { label: "B", value: question.option_b },
-                        { label: "C", value: question.option_c },
-                        { label: "D", value: question.option_d },
-                      ].map((option) => {
-                        const isSelected = selectedAnswer === option.label;
-                        const isCorrectAnswer = question.correct_answer === option.label;
+                      {getOptions(question).map((option) => {
+                        const isSelected = selectedLetters.includes(option.key);
+                        const isCorrectAnswer = correctLetters.includes(option.key);
 
                         return (
                           <div
-                            key={option.label}
+                            key={option.key}
                             className={`p-3 rounded-lg border-2 transition-all ${
                               isCorrectAnswer
                                 ? "border-green-500 bg-green-50 dark:bg-green-950/20"
@@ -285,8 +352,11 @@ const AssessmentReview = () => {
                             }`}
                           >
                             <div className="flex items-center gap-2">
-                              <span className="font-semibold w-6">{option.label}.</span>
-                              <span className="flex-1">{option.value}</span>
+                              <span className="font-semibold w-6">{option.key}.</span>
+                              <span className="flex-1">
+                                <RichText content={option.text} inline />
+                                <QuestionImage path={option.image} urls={imageUrls} alt={`Option ${option.key}`} className="mt-2 max-h-48" />
+                              </span>
                               {isCorrectAnswer && (
                                 <Badge variant="default" className="bg-green-500 ml-auto">
                                   <CheckCircle className="w-3 h-3 mr-1" />
@@ -313,17 +383,21 @@ const AssessmentReview = () => {
 
                     {(!isAnswered || !isCorrect) && (
                       <div className="bg-muted p-4 rounded-lg mt-4">
-                        <p className="font-semibold text-sm mb-1">Explanation:</p>
+                        <p className="font-semibold text-sm mb-1">Answer:</p>
                         <p className="text-sm text-muted-foreground">
-                          The correct answer is <strong className="text-green-600">{question.correct_answer}</strong>. 
+                          {isTyped
+                            ? "The accepted answer is "
+                            : correctLetters.length > 1 ? "The correct answers are " : "The correct answer is "}
+                          <strong className="text-green-600">{correctAnswer}</strong>. 
                           {!isAnswered ? (
                             <> You did not answer this question.</>
                           ) : (
-                            <> You selected <strong className="text-red-600">{selectedAnswer}</strong>.</>
+                            <> You {isTyped ? "answered" : "selected"} <strong className="text-red-600">{selectedAnswer}</strong>.</>
                           )}
                         </p>
                       </div>
                     )}
+                    <QuestionExplanation question={question} />
                   </CardContent>
                 </Card>
               );
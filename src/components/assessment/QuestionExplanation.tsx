@@ -0,0 +1,35 @@
+import { ExternalLink } from "lucide-react";
+import RichText from "@/components/assessment/RichText";
+import { QuestionExplanation as QuestionExplanationValue } from "@/lib/questionTypes";
+
+interface QuestionExplanationProps {
+  question: Partial<QuestionExplanationValue>;
+}
+
+// The author's explanation and reference, for after a question is graded
+const QuestionExplanation = ({ question }: QuestionExplanationProps) => {
+  const { explanation, reference_title, reference_url } = question;
+  if (!explanation && !reference_title && !reference_url) return null;
+
+  return (
+    <div className="rounded-lg border border-blue-200 bg-blue-50 dark:border-blue-900 dark:bg-blue-950/20 p-4 text-sm space-y-2">
+      <p className="font-semibold">Explanation</p>
+      <RichText content={explanation} />
+      {(reference_title || reference_url) && (
+        <p className="text-muted-foreground">
+          Reference:{" "}
+          {reference_url ? (
+            <a href={reference_url} target="_blank" rel="noopener noreferrer" className="text-primary underline inline-flex items-center gap-1">
+              {reference_title || reference_url}
+              <ExternalLink className="w-3 h-3" />
+            </a>
+          ) : (
+            reference_title
+          )}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default QuestionExplanation;
@@ -0,0 +1,15 @@
+interface QuestionImageProps {
+  path: string | null | undefined;
+  // Signed URLs keyed by path, from useQuestionImageUrls
+  urls: Record<string, string>;
+  alt: string;
+  className?: string;
+}
+
+const QuestionImage = ({ path, urls, alt, className = "max-h-80" }: QuestionImageProps) => {
+  if (!path) return null;
+  if (!urls[path]) return <div className="h-24 w-40 rounded-md bg-muted animate-pulse" />;
+  return <img src={urls[path]} alt={alt} className={`block rounded-md border object-contain ${className}`} />;
+};
+
+export default QuestionImage;
@@ -0,0 +1,69 @@
+import ReactMarkdown, { Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import rehypeKatex from "rehype-katex";
+import "katex/dist/katex.min.css";
+import { cn } from "@/lib/utils";
+
+interface RichTextProps {
+  content: string | null | undefined;
+  // Renders paragraphs as spans, for options inside labels and buttons
+  inline?: boolean;
+  className?: string;
+}
+
+// Markdown is limited to text formatting: raw HTML is dropped rather than
+// rendered, images come from the question's own image fields instead, and
+// KaTeX runs untrusted so commands like \href cannot run script
+const DISALLOWED_ELEMENTS = ["img", "iframe", "script", "style"];
+
+const KATEX_OPTIONS = { throwOnError: false, trust: false, strict: "ignore" as const };
+
+const components: Components = {
+  p: ({ children }) => <p className="[&:not(:first-child)]:mt-2">{children}</p>,
+  ul: ({ children }) => <ul className="list-disc pl-5 my-2 space-y-1">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-5 my-2 space-y-1">{children}</ol>,
+  table: ({ children }) => (
+    <div className="my-2 overflow-x-auto">
+      <table className="border-collapse text-sm">{children}</table>
+    </div>
+  ),
+  th: ({ children }) => <th className="border px-2 py-1 bg-muted text-left font-semibold">{children}</th>,
+  td: ({ children }) => <td className="border px-2 py-1">{children}</td>,
+  code: ({ children }) => <code className="rounded bg-muted px-1 font-mono text-[0.9em]">{children}</code>,
+  blockquote: ({ children }) => <blockquote className="border-l-4 pl-3 my-2 text-muted-foreground">{children}</blockquote>,
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="text-primary underline">
+      {children}
+    </a>
+  ),
+};
+
+const inlineComponents: Components = {
+  ...components,
+  p: ({ children }) => <span className="[&:not(:first-child)]:before:content-['_']">{children}</span>,
+};
+
+// Question stems, options and explanations, written in Markdown with
+// $inline$ and $$display$$ math
+const RichText = ({ content, inline = false, className }: RichTextProps) => {
+  if (!content) return null;
+  const Wrapper = inline ? "span" : "div";
+
+  return (
+    <Wrapper className={cn("break-words", className)}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[[rehypeKatex, KATEX_OPTIONS]]}
+        components={inline ? inlineComponents : components}
+        disallowedElements={DISALLOWED_ELEMENTS}
+        unwrapDisallowed
+        skipHtml
+      >
+        {content}
+      </ReactMarkdown>
+    </Wrapper>
+  );
+};
+
+export default RichText;
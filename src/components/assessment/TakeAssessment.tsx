@@ -6,29 +6,51 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Button } from "@/components/ui/button";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
-import { Clock, ChevronLeft, ChevronRight, AlertTriangle } from "lucide-react";
+import { Clock, ChevronLeft, ChevronRight, AlertTriangle, Maximize } from "lucide-react";
+import { useProctoring } from "@/hooks/useProctoring";
+import { useAttemptHeartbeat } from "@/hooks/useAttemptHeartbeat";
+import { ProctoringPolicy, toProctoringPolicy } from "@/lib/proctoring";
+import { answerLetters, countAnswered, getOptions, hasAnswer, isTypedQuestion, toggleAnswerLetter } from "@/lib/questionTypes";
+import TypedAnswerInput from "@/components/assessment/TypedAnswerInput";
+import QuestionImage from "@/components/assessment/QuestionImage";
+import RichText from "@/components/assessment/RichText";
+import { useQuestionImageUrls } from "@/hooks/useQuestionImageUrls";
 
 interface Question {
   id: string;
   question_text: string;
-  option_a: string;
-  option_b: string;
-  option_c: string;
-  option_d: string;
+  option_a: string | null;
+  option_b: string | null;
+  option_c: string | null;
+  option_d: string | null;
+  option_e: string | null;
+  option_f: string | null;
   assessment_id: string;
+  question_type: string;
+  scoring_mode: string;
+  answer_unit: string | null;
+  question_image: string | null;
+  option_a_image: string | null;
+  option_b_image: string | null;
+  option_c_image: string | null;
+  option_d_image: string | null;
+  option_e_image: string | null;
+  option_f_image: string | null;
 }
 
-interface Assessment {
+interface Assessment extends ProctoringPolicy {
   id: string;
   title: string;
   duration_minutes: number;
   passing_score: number;
 }
 
-const MAX_VIOLATIONS = 3;
+const getSecondsUntil = (deadline: Date) =>
+  Math.max(0, Math.ceil((deadline.getTime() - Date.now()) / 1000));
 
 const TakeAssessment = () => {
   const { attemptId } = useParams();
@@ -38,11 +60,16 @@ const TakeAssessment = () => {
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [answers, setAnswers] = useState<Record<string, string>>({});
   const [assessment, setAssessment] = useState<Assessment | null>(null);
+  const [deadline, setDeadline] = useState<Date | null>(null);
   const [timeRemaining, setTimeRemaining] = useState(0);
-  const [violations, setViolations] = useState(0);
+  const [initialViolations, setInitialViolations] = useState(0);
+  const imageUrls = useQuestionImageUrls(questions);
 
   const [loading, setLoading] = useState(true);
   const isSubmittingRef = useRef(false);
+  // The latest autosave per question; each waits for the one before it so an
+  // older, slower write can't land after a newer one
+  const draftWritesRef = useRef(new Map<string, Promise<void>>());
 
   const loadAssessment = async () => {
     try {
@@ -72,33 +99,34 @@ const TakeAssessment = () => {
         return;
       }
 
-      setViolations(attempt.violations || 0);
-
-      const { data: previousAttempts, error: prevError } = await supabase
-        .from("attempts")
-        .select("id")
-        .eq("assessment_id", attempt.assessment_id)
-        .eq("student_id", user.id)
-        .not("submitted_at", "is", null);
-
-      if (prevError) {
-        toast.error("Failed to verify assessment history");
+      if (attempt.locked_at) {
+        toast.error("This attempt has been locked. Please contact your invigilator.");
         navigate("/dashboard");
         return;
       }
 
-      if (previousAttempts && previousAttempts.length > 0) {
-        toast.error("You have already completed this assessment");
-        navigate("/dashboard");
-        return;
-      }
+      setInitialViolations(attempt.violations || 0);
+
+      // The deadline is fixed on the server when the attempt starts, so a
+      // reload keeps counting down from the same point.
+      const attemptDeadline = attempt.deadline_at
+        ? new Date(attempt.deadline_at)
+        : new Date(new Date(attempt.started_at).getTime() + (attempt.assessments as Assessment).duration_minutes * 60 * 1000);
 
       setAssessment(attempt.assessments as Assessment);
-      setTimeRemaining((attempt.assessments as Assessment).duration_minutes * 60);
+      setDeadline(attemptDeadline);
+      setTimeRemaining(getSecondsUntil(attemptDeadline));
+
+      // Time ran out (or the window closed) while the student was away, so
+      // grade what was autosaved instead of showing the questions again.
+      if (getSecondsUntil(attemptDeadline) === 0) {
+        handleSubmit(true);
+        return;
+      }
 
       const { data: questionsResponse, error: questionsError } = await supabase.functions.invoke(
         "get-assessment-questions",
-        { body: { assessment_id: attempt.assessment_id } }
+        { body: { assessment_id: attempt.assessment_id, attempt_id: attemptId } }
       );
 
       if (questionsError || !questionsResponse?.questions) {
@@ -110,10 +138,21 @@ const TakeAssessment = () => {
 
       setQuestions(questionsResponse.questions);
 
-      await supabase
-        .from("attempts")
-        .update({ total_questions: questionsResponse.questions.length })
-        .eq("id", attemptId);
+      // Restore autosaved answers and position from a previous session
+      const { data: drafts, error: draftsError } = await supabase
+        .from("answer_drafts")
+        .select("question_id, selected_answer")
+        .eq("attempt_id", attemptId);
+
+      if (draftsError) {
+        console.error("Error fetching saved answers:", draftsError);
+      } else if (drafts && drafts.length > 0) {
+        setAnswers(Object.fromEntries(drafts.map((d) => [d.question_id, d.selected_answer])));
+        toast.info(`Resumed your attempt with ${drafts.length} saved answer(s)`);
+      }
+
+      const savedIndex = attempt.current_question_index || 0;
+      setCurrentQuestionIndex(Math.min(savedIndex, Math.max(questionsResponse.questions.length - 1, 0)));
 
       setLoading(false);
 
@@ -134,56 +173,65 @@ const TakeAssessment = () => {
   }, [attemptId]);
 
   useEffect(() => {
-    if (!assessment) return;
-
-    if (timeRemaining <= 0) {
-      handleSubmit(true);
-      return;
-    }
+    if (!deadline) return;
 
     const timer = setInterval(() => {
-      setTimeRemaining((t) => Math.max(t - 1, 0));
+      setTimeRemaining(getSecondsUntil(deadline));
     }, 1000);
 
     return () => clearInterval(timer);
-  }, [timeRemaining, assessment]);
+  }, [deadline]);
 
   useEffect(() => {
-    if (!assessment) return;
-
-    const handleVisibilityChange = async () => {
-      if (document.hidden && !isSubmittingRef.current) {
-        const newViolations = violations + 1;
-        setViolations(newViolations);
+    if (loading || !assessment || !deadline) return;
 
-        const { error: violationError } = await supabase
-          .from("attempts")
-          .update({ violations: newViolations })
-          .eq("id", attemptId);
-
-        if (violationError) {
-          console.error("Failed to update violations:", violationError);
-        }
+    if (timeRemaining <= 0) {
+      handleSubmit(true);
+    }
+  }, [timeRemaining, assessment, deadline, loading]);
 
-        if (newViolations >= MAX_VIOLATIONS) {
-          toast.error(`You have exceeded ${MAX_VIOLATIONS} violations. Your exam is being auto-submitted...`);
-          await handleSubmit(true);
-        } else {
-          const remaining = MAX_VIOLATIONS - newViolations;
-          toast.warning(
-            `Warning: You left the assessment tab! Violation ${newViolations}/${MAX_VIOLATIONS}. ${remaining} chance(s) remaining.`,
-            { duration: 5000 }
-          );
-        }
+  useEffect(() => {
+    if (loading || !attemptId) return;
+
+    supabase
+      .from("attempts")
+      .update({ current_question_index: currentQuestionIndex })
+      .eq("id", attemptId)
+      .then(({ error }) => {
+        if (error) console.error("Failed to save position:", error);
+      });
+  }, [currentQuestionIndex, loading, attemptId]);
+
+  const handleAnswerChange = async (questionId: string, value: string) => {
+    // Unticking every option of a multiple-response question clears the answer
+    setAnswers((prev) => {
+      const { [questionId]: _previous, ...rest } = prev;
+      return value ? { ...rest, [questionId]: value } : rest;
+    });
+
+    const saveDraft = async () => {
+      const { error: draftError } = value
+        ? await supabase
+          .from("answer_drafts")
+          .upsert(
+            { attempt_id: attemptId, question_id: questionId, selected_answer: value },
+            { onConflict: "attempt_id,question_id" }
+          )
+        : await supabase
+          .from("answer_drafts")
+          .delete()
+          .eq("attempt_id", attemptId)
+          .eq("question_id", questionId);
+
+      if (draftError) {
+        console.error("Failed to autosave answer:", draftError);
+        toast.error("Your answer could not be saved. Check your connection.", { id: "autosave-error" });
       }
     };
 
-    document.addEventListener("visibilitychange", handleVisibilityChange);
-    return () => document.removeEventListener("visibilitychange", handleVisibilityChange);
-  }, [assessment, violations, attemptId]);
-
-  const handleAnswerChange = (questionId: string, value: string) => {
-    setAnswers((prev) => ({ ...prev, [questionId]: value }));
+    const write = (draftWritesRef.current.get(questionId) ?? Promise.resolve()).then(saveDraft);
+    draftWritesRef.current.set(questionId, write);
+    await write;
   };
 
   const handleSubmit = async (autoSubmitted = false) => {
@@ -200,6 +248,9 @@ const TakeAssessment = () => {
         toast.loading("Saving your results...", { id: "auto-submit" });
       }
 
+      // A late submit is graded from the drafts, so let pending autosaves finish
+      await Promise.all(draftWritesRef.current.values());
+
       const { data: result, error: submitError } = await supabase.functions.invoke(
         "submit-assessment-answers",
         {
@@ -243,6 +294,40 @@ const TakeAssessment = () => {
     }
   };
 
+  const policy = toProctoringPolicy(assessment);
+  const { violations, isFullscreen, enterFullscreen } = useProctoring({
+    enabled: !loading && !!assessment && !isSubmittingRef.current,
+    policy,
+    attemptId,
+    initialViolations,
+    onLimitReached: (action) => {
+      if (action === "lock") {
+        isSubmittingRef.current = true;
+        navigate("/dashboard");
+      } else {
+        handleSubmit(true);
+      }
+    },
+  });
+
+  useAttemptHeartbeat({
+    enabled: !loading && !!assessment,
+    attemptId,
+    answeredCount: countAnswered(answers),
+    onDeadlineChange: (newDeadline) => {
+      if (deadline && newDeadline.getTime() > deadline.getTime()) {
+        toast.info("Your invigilator has given you extra time.");
+      }
+      setDeadline((prev) => (prev && prev.getTime() === newDeadline.getTime() ? prev : newDeadline));
+    },
+    onClosed: () => {
+      if (isSubmittingRef.current) return;
+      isSubmittingRef.current = true;
+      toast.info("Your attempt was submitted by your invigilator. Your saved answers have been graded.");
+      navigate("/dashboard");
+    },
+  });
+
   const formatTime = (seconds: number) => {
     const hrs = Math.floor(seconds / 3600);
     const mins = Math.floor((seconds % 3600) / 60);
@@ -251,7 +336,7 @@ const TakeAssessment = () => {
   };
 
   // Derived stats for the navigator legend
-  const answeredCount = Object.keys(answers).length;
+  const answeredCount = countAnswered(answers);
   const unansweredCount = questions.length - answeredCount;
 
   if (loading)
@@ -275,6 +360,27 @@ const TakeAssessment = () => {
     );
   }
 
+  if (policy.require_fullscreen && !isFullscreen) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-6">
+        <Card className="max-w-md text-center">
+          <CardHeader>
+            <CardTitle>Fullscreen required</CardTitle>
+            <CardDescription>
+              This assessment must be taken in fullscreen. Leaving fullscreen counts as a violation.
+              Your timer keeps running.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button onClick={enterFullscreen}>
+              <Maximize className="w-4 h-4 mr-2" /> Enter Fullscreen ({formatTime(timeRemaining)} left)
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen p-6">
       <div className="max-w-6xl mx-auto">
@@ -293,7 +399,7 @@ const TakeAssessment = () => {
                 {violations > 0 && (
                   <Badge variant="destructive" className="flex items-center gap-1">
                     <AlertTriangle className="w-3 h-3" />
-                    {violations}/{MAX_VIOLATIONS} Violations
+                    {violations}/{policy.max_violations} Violations
                   </Badge>
                 )}
                 <div className={`flex items-center gap-2 font-bold ${timeRemaining < 60 ? "text-red-500 animate-pulse" : ""}`}>
@@ -313,30 +419,71 @@ const TakeAssessment = () => {
           <div className="flex-1 min-w-0">
             <Card>
               <CardHeader>
-                <CardTitle className="text-base leading-relaxed">
-                  {currentQuestionIndex + 1}. {q.question_text}
+                <CardTitle className="text-base leading-relaxed flex gap-1">
+                  <span>{currentQuestionIndex + 1}.</span>
+                  <RichText content={q.question_text} className="flex-1 min-w-0" />
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <RadioGroup
-                  value={answers[q.id] || ""}
-                  onValueChange={(v) => handleAnswerChange(q.id, v)}
-                >
-                  {["A", "B", "C", "D"].map((opt) => (
-                    <div
-                      key={opt}
-                      className={`border p-3 rounded-lg flex items-center gap-3 cursor-pointer transition-colors ${
-                        answers[q.id] === opt ? "border-primary bg-primary/5" : "hover:bg-muted/50"
-                      }`}
-                    >
-                      <RadioGroupItem value={opt} id={`opt-${opt}`} />
-                      <Label htmlFor={`opt-${opt}`} className="flex-1 cursor-pointer">
-                        <span className="font-medium mr-2">{opt}.</span>
-                        {q[`option_${opt.toLowerCase()}` as keyof Question]}
-                      </Label>
-                    </div>
-                  ))}
-                </RadioGroup>
+                <QuestionImage path={q.question_image} urls={imageUrls} alt={`Question ${currentQuestionIndex + 1}`} className="mb-4 max-h-80" />
+                {isTypedQuestion(q.question_type) ? (
+                  <TypedAnswerInput
+                    questionType={q.question_type}
+                    unit={q.answer_unit}
+                    value={answers[q.id] || ""}
+                    onChange={(v) => setAnswers((prev) => ({ ...prev, [q.id]: v }))}
+                    onCommit={(v) => handleAnswerChange(q.id, v)}
+                  />
+                ) : q.question_type === "multiple" ? (
+                  <div className="grid gap-2">
+                    <p className="text-sm text-muted-foreground">
+                      Select all that apply{q.scoring_mode === "partial" && " (partial credit is given)"}
+                    </p>
+                    {getOptions(q).map(({ key: opt, text, image }) => {
+                      const checked = answerLetters(answers[q.id]).includes(opt);
+                      return (
+                        <div
+                          key={opt}
+                          className={`border p-3 rounded-lg flex items-center gap-3 cursor-pointer transition-colors ${
+                            checked ? "border-primary bg-primary/5" : "hover:bg-muted/50"
+                          }`}
+                        >
+                          <Checkbox
+                            id={`opt-${opt}`}
+                            checked={checked}
+                            onCheckedChange={() => handleAnswerChange(q.id, toggleAnswerLetter(answers[q.id], opt))}
+                          />
+                          <Label htmlFor={`opt-${opt}`} className="flex-1 cursor-pointer">
+                            <span className="font-medium mr-2">{opt}.</span>
+                            <RichText content={text} inline />
+                            <QuestionImage path={image} urls={imageUrls} alt={`Option ${opt}`} className="mt-2 max-h-48" />
+                          </Label>
+                        </div>
+                      );
+                    })}
+                  </div>
+                ) : (
+                  <RadioGroup
+                    value={answers[q.id] || ""}
+                    onValueChange={(v) => handleAnswerChange(q.id, v)}
+                  >
+                    {getOptions(q).map(({ key: opt, text, image }) => (
+                      <div
+                        key={opt}
+                        className={`border p-3 rounded-lg flex items-center gap-3 cursor-pointer transition-colors ${
+                          answers[q.id] === opt ? "border-primary bg-primary/5" : "hover:bg-muted/50"
+                        }`}
+                      >
+                        <RadioGroupItem value={opt} id={`opt-${opt}`} />
+                        <Label htmlFor={`opt-${opt}`} className="flex-1 cursor-pointer">
+                          {q.question_type !== "true_false" && <span className="font-medium mr-2">{opt}.</span>}
+                          <RichText content={text} inline />
+                          <QuestionImage path={image} urls={imageUrls} alt={`Option ${opt}`} className="mt-2 max-h-48" />
+                        </Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                )}
               </CardContent>
             </Card>
 
@@ -391,7 +538,7 @@ const TakeAssessment = () => {
                 {/* Grid of question number buttons — 7 cols on desktop, 10 cols on mobile (horizontal scroll) */}
                 <div className="grid grid-cols-10 lg:grid-cols-7 gap-1">
                   {questions.map((question, index) => {
-                    const isAnswered = !!answers[question.id];
+                    const isAnswered = hasAnswer(answers[question.id]);
                     const isCurrent = index === currentQuestionIndex;
 
                     let btnClass =
@@ -1,24 +1,45 @@
-import { useEffect, useState, useCallback } from "react";
+import { useEffect, useRef, useState, useCallback } from "react";
 import { useNavigate, useParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "sonner";
-import { Clock, BookOpen, CheckCircle2, Circle } from "lucide-react";
+import { Clock, BookOpen, CheckCircle2, Circle, AlertTriangle, Maximize } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useProctoring } from "@/hooks/useProctoring";
+import { useAttemptHeartbeat } from "@/hooks/useAttemptHeartbeat";
+import { ProctoringPolicy, toProctoringPolicy } from "@/lib/proctoring";
+import { answerLetters, countAnswered, getOptions, hasAnswer, isTypedQuestion, toggleAnswerLetter } from "@/lib/questionTypes";
+import TypedAnswerInput from "@/components/assessment/TypedAnswerInput";
+import QuestionImage from "@/components/assessment/QuestionImage";
+import RichText from "@/components/assessment/RichText";
+import { useQuestionImageUrls } from "@/hooks/useQuestionImageUrls";
 
 interface Question {
   id: string;
   question_text: string;
-  option_a: string;
-  option_b: string;
-  option_c: string;
-  option_d: string;
+  option_a: string | null;
+  option_b: string | null;
+  option_c: string | null;
+  option_d: string | null;
+  option_e: string | null;
+  option_f: string | null;
   assessment_id: string;
+  question_type: string;
+  scoring_mode: string;
+  answer_unit: string | null;
+  question_image: string | null;
+  option_a_image: string | null;
+  option_b_image: string | null;
+  option_c_image: string | null;
+  option_d_image: string | null;
+  option_e_image: string | null;
+  option_f_image: string | null;
 }
 
 interface SubjectWithQuestions {
@@ -29,14 +50,15 @@ interface SubjectWithQuestions {
   questions: Question[];
 }
 
-interface MockExam {
+interface MockExam extends ProctoringPolicy {
   id: string;
   title: string;
   total_duration_minutes: number;
   duration_per_subject_minutes: number;
 }
 
-const MAX_VIOLATIONS = 3;
+const getSecondsUntil = (deadline: Date) =>
+  Math.max(0, Math.ceil((deadline.getTime() - Date.now()) / 1000));
 
 const TakeMockExam = () => {
   const { mockExamId } = useParams();
@@ -49,13 +71,17 @@ const TakeMockExam = () => {
   const [answers, setAnswers] = useState<Record<string, string>>({});
   const [subjectResults, setSubjectResults] = useState<Record<string, { score: number; total: number }>>({});
   const [submittedSubjects, setSubmittedSubjects] = useState<Set<string>>(new Set());
+  const [deadline, setDeadline] = useState<Date | null>(null);
   const [timeRemaining, setTimeRemaining] = useState(0);
   const [attemptId, setAttemptId] = useState<string | null>(null);
-  const [violations, setViolations] = useState(0);
+  const [initialViolations, setInitialViolations] = useState(0);
 
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [examCompleted, setExamCompleted] = useState(false);
+  // Each question's latest autosave, chained so writes land in order
+  const draftWritesRef = useRef(new Map<string, Promise<void>>());
+  const imageUrls = useQuestionImageUrls(subjects.flatMap((s) => s.questions));
 
   const loadMockExam = useCallback(async () => {
     if (!mockExamId) {
@@ -74,7 +100,7 @@ const TakeMockExam = () => {
 
       const { data: existingAttempt } = await supabase
         .from("mock_exam_attempts")
-        .select("id, is_completed")
+        .select("id, is_completed, started_at, deadline_at, violations, locked_at")
         .eq("mock_exam_id", mockExamId)
         .eq("student_id", user.id)
         .maybeSingle();
@@ -85,9 +111,15 @@ const TakeMockExam = () => {
         return;
       }
 
+      if (existingAttempt?.locked_at) {
+        toast.error("This mock exam attempt has been locked. Please contact your invigilator.");
+        navigate("/dashboard");
+        return;
+      }
+
       const { data: mock, error: mockError } = await supabase
         .from("mock_exams")
-        .select("id, title, total_duration_minutes, duration_per_subject_minutes, is_active")
+        .select("id, title, total_duration_minutes, duration_per_subject_minutes, is_active, max_violations, violation_action, require_fullscreen, block_copy_paste, detect_window_blur")
         .eq("id", mockExamId)
         .single();
 
@@ -122,6 +154,27 @@ const TakeMockExam = () => {
         return;
       }
 
+      // Questions are only served into an open attempt, so start it first
+      let currentAttempt = existingAttempt;
+      
+      if (!currentAttempt) {
+        const { data: newAttempt, error: attemptError } = await supabase
+          .from("mock_exam_attempts")
+          .insert({
+            mock_exam_id: mockExamId,
+            student_id: user.id,
+          })
+          .select("id, is_completed, started_at, deadline_at, violations, locked_at")
+          .single();
+
+        if (attemptError) {
+          toast.error("Failed to start exam");
+          navigate("/dashboard");
+          return;
+        }
+        currentAttempt = newAttempt;
+      }
+
       const subjectsWithQuestions: SubjectWithQuestions[] = [];
       
       // Normalize title for comparison (remove extra whitespace)
@@ -161,7 +214,7 @@ const TakeMockExam = () => {
           
           const { data: questionsResponse, error: questionsError } = await supabase.functions.invoke(
             "get-assessment-questions",
-            { body: { assessment_id: assessment.id } }
+            { body: { assessment_id: assessment.id, mock_exam_attempt_id: currentAttempt.id } }
           );
 
           console.log(`Questions response for ${subject.name}:`, { 
@@ -195,32 +248,31 @@ const TakeMockExam = () => {
 
       subjectsWithQuestions.sort((a, b) => a.order_position - b.order_position);
 
-      let currentAttemptId = existingAttempt?.id;
-      
-      if (!currentAttemptId) {
-        const { data: newAttempt, error: attemptError } = await supabase
-          .from("mock_exam_attempts")
-          .insert({
-            mock_exam_id: mockExamId,
-            student_id: user.id,
-            started_at: new Date().toISOString(),
-          })
-          .select()
-          .single();
-
-        if (attemptError) {
-          toast.error("Failed to start exam");
-          navigate("/dashboard");
-          return;
-        }
-        currentAttemptId = newAttempt.id;
+      // Deadline is set by the server when the attempt is created
+      const attemptDeadline = currentAttempt.deadline_at
+        ? new Date(currentAttempt.deadline_at)
+        : new Date(new Date(currentAttempt.started_at).getTime() + mock.total_duration_minutes * 60 * 1000);
+
+      // Restore autosaved answers from a previous session
+      const { data: drafts, error: draftsError } = await supabase
+        .from("mock_exam_answer_drafts")
+        .select("question_id, selected_answer")
+        .eq("attempt_id", currentAttempt.id);
+
+      if (draftsError) {
+        console.error("Error fetching saved answers:", draftsError);
+      } else if (drafts && drafts.length > 0) {
+        setAnswers(Object.fromEntries(drafts.map((d) => [d.question_id, d.selected_answer])));
+        toast.info(`Resumed your exam with ${drafts.length} saved answer(s)`);
       }
 
-      setAttemptId(currentAttemptId);
-      setMockExam(mock);
+      setAttemptId(currentAttempt.id);
+      setInitialViolations(currentAttempt.violations || 0);
+      setMockExam({ ...mock, ...toProctoringPolicy(mock) });
       setSubjects(subjectsWithQuestions);
       setActiveSubjectId(subjectsWithQuestions[0].id);
-      setTimeRemaining(mock.total_duration_minutes * 60);
+      setDeadline(attemptDeadline);
+      setTimeRemaining(getSecondsUntil(attemptDeadline));
       setLoading(false);
 
     } catch (err) {
@@ -234,47 +286,57 @@ const TakeMockExam = () => {
     loadMockExam();
   }, [loadMockExam]);
 
-  // Timer for entire exam
+  // Timer for entire exam, always derived from the server deadline
   useEffect(() => {
-    if (!mockExam || examCompleted) return;
-
-    if (timeRemaining <= 0) {
-      handleSubmitExam(true);
-      return;
-    }
+    if (!deadline || examCompleted) return;
 
     const timer = setInterval(() => {
-      setTimeRemaining((t) => Math.max(t - 1, 0));
+      setTimeRemaining(getSecondsUntil(deadline));
     }, 1000);
 
     return () => clearInterval(timer);
-  }, [timeRemaining, mockExam, examCompleted]);
+  }, [deadline, examCompleted]);
 
-  // Handle tab visibility change - 3 violations rule
   useEffect(() => {
-    if (!mockExam || examCompleted) return;
+    if (!mockExam || !deadline || examCompleted) return;
 
-    const handleVisibilityChange = async () => {
-      if (document.hidden && !submitting) {
-        const newViolations = violations + 1;
-        setViolations(newViolations);
-
-        if (newViolations >= MAX_VIOLATIONS) {
-          toast.error(`You have exceeded ${MAX_VIOLATIONS} violations. Your exam is being auto-submitted...`);
-          await handleSubmitExam(true);
-        } else {
-          const remaining = MAX_VIOLATIONS - newViolations;
-          toast.warning(
-            `Warning: You left the exam tab! Violation ${newViolations}/${MAX_VIOLATIONS}. ${remaining} chance(s) remaining.`,
-            { duration: 5000 }
-          );
-        }
+    if (timeRemaining <= 0) {
+      handleSubmitExam(true);
+    }
+  }, [timeRemaining, mockExam, deadline, examCompleted]);
+
+  const policy = toProctoringPolicy(mockExam);
+  const { violations, isFullscreen, enterFullscreen } = useProctoring({
+    enabled: !!mockExam && !!attemptId && !examCompleted && !submitting,
+    policy,
+    mockExamAttemptId: attemptId,
+    initialViolations,
+    onLimitReached: (action) => {
+      if (action === "lock") {
+        navigate("/dashboard");
+      } else {
+        handleSubmitExam(true);
       }
-    };
-
-    document.addEventListener("visibilitychange", handleVisibilityChange);
-    return () => document.removeEventListener("visibilitychange", handleVisibilityChange);
-  }, [mockExam, examCompleted, submitting, violations]);
+    },
+  });
+
+  useAttemptHeartbeat({
+    enabled: !!mockExam && !!attemptId && !examCompleted,
+    mockExamAttemptId: attemptId,
+    answeredCount: countAnswered(answers),
+    questionCount: subjects.reduce((sum, s) => sum + s.questions.length, 0),
+    onDeadlineChange: (newDeadline) => {
+      if (deadline && newDeadline.getTime() > deadline.getTime()) {
+        toast.info("Your invigilator has given you extra time.");
+      }
+      setDeadline((prev) => (prev && prev.getTime() === newDeadline.getTime() ? prev : newDeadline));
+    },
+    onClosed: () => {
+      if (submitting || examCompleted) return;
+      toast.info("Your mock exam was submitted by your invigilator.");
+      navigate("/dashboard");
+    },
+  });
 
   const formatTime = (seconds: number) => {
     const hrs = Math.floor(seconds / 3600);
@@ -286,8 +348,37 @@ const TakeMockExam = () => {
     return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
   };
 
-  const handleAnswerChange = (questionId: string, value: string) => {
-    setAnswers((prev) => ({ ...prev, [questionId]: value }));
+  const handleAnswerChange = async (questionId: string, value: string) => {
+    // Unticking every option of a multiple-response question clears the answer
+    setAnswers((prev) => {
+      const { [questionId]: _previous, ...rest } = prev;
+      return value ? { ...rest, [questionId]: value } : rest;
+    });
+    if (!attemptId) return;
+
+    const saveDraft = async () => {
+      const { error: draftError } = value
+        ? await supabase
+          .from("mock_exam_answer_drafts")
+          .upsert(
+            { attempt_id: attemptId, question_id: questionId, selected_answer: value },
+            { onConflict: "attempt_id,question_id" }
+          )
+        : await supabase
+          .from("mock_exam_answer_drafts")
+          .delete()
+          .eq("attempt_id", attemptId)
+          .eq("question_id", questionId);
+
+      if (draftError) {
+        console.error("Failed to autosave answer:", draftError);
+        toast.error("Your answer could not be saved. Check your connection.", { id: "autosave-error" });
+      }
+    };
+
+    const write = (draftWritesRef.current.get(questionId) ?? Promise.resolve()).then(saveDraft);
+    draftWritesRef.current.set(questionId, write);
+    await write;
   };
 
   const getActiveSubject = () => subjects.find(s => s.id === activeSubjectId);
@@ -295,7 +386,7 @@ const TakeMockExam = () => {
   const getAnsweredCount = (subjectId: string) => {
     const subject = subjects.find(s => s.id === subjectId);
     if (!subject) return 0;
-    return subject.questions.filter(q => answers[q.id]).length;
+    return subject.questions.filter(q => hasAnswer(answers[q.id])).length;
   };
 
   const handleSubmitExam = async (autoSubmitted = false) => {
@@ -308,6 +399,9 @@ const TakeMockExam = () => {
     }
 
     try {
+      // A late submit is graded from the drafts, so let pending autosaves finish
+      await Promise.all(draftWritesRef.current.values());
+
       // Submit all subjects that haven't been submitted yet
       for (const subject of subjects) {
         if (submittedSubjects.has(subject.id)) continue;
@@ -442,6 +536,27 @@ const TakeMockExam = () => {
     );
   }
 
+  if (policy.require_fullscreen && !isFullscreen) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-6">
+        <Card className="max-w-md text-center">
+          <CardHeader>
+            <CardTitle>Fullscreen required</CardTitle>
+            <CardDescription>
+              This mock exam must be taken in fullscreen. Leaving fullscreen counts as a violation.
+              Your timer keeps running.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button onClick={enterFullscreen}>
+              <Maximize className="w-4 h-4 mr-2" /> Enter Fullscreen ({formatTime(timeRemaining)} left)
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-background">
       {/* Fixed Header */}
@@ -454,6 +569,13 @@ const TakeMockExam = () => {
                 {subjects.reduce((acc, s) => acc + s.questions.length, 0)} Total Questions
               </p>
             </div>
+            <div className="flex items-center gap-3">
+            {violations > 0 && (
+              <span className="flex items-center gap-1 text-sm font-medium text-destructive">
+                <AlertTriangle className="w-4 h-4" />
+                {violations}/{policy.max_violations} Violations
+              </span>
+            )}
             <div className={cn(
               "flex items-center gap-2 text-lg font-bold px-4 py-2 rounded-lg",
               timeRemaining < 300 ? "bg-destructive/10 text-destructive animate-pulse" : "bg-muted"
@@ -461,6 +583,7 @@ const TakeMockExam = () => {
               <Clock className="w-5 h-5" />
               {formatTime(timeRemaining)}
             </div>
+            </div>
           </div>
         </div>
       </div>
@@ -515,7 +638,7 @@ const TakeMockExam = () => {
                   <CardContent>
                     <div className="grid grid-cols-5 gap-2">
                       {subject.questions.map((q, idx) => {
-                        const isAnswered = !!answers[q.id];
+                        const isAnswered = hasAnswer(answers[q.id]);
                         const isCurrent = currentQuestionIndex === idx && activeSubjectId === subject.id;
                         
                         return (
@@ -555,7 +678,7 @@ const TakeMockExam = () => {
                     <div className="flex items-center justify-between">
                       <CardTitle className="text-base flex items-center gap-2">
                         Question {currentQuestionIndex + 1}
-                        {answers[currentQuestion.id] ? (
+                        {hasAnswer(answers[currentQuestion.id]) ? (
                           <CheckCircle2 className="w-5 h-5 text-green-500" />
                         ) : (
                           <Circle className="w-5 h-5 text-muted-foreground" />
@@ -567,30 +690,75 @@ const TakeMockExam = () => {
                     </div>
                   </CardHeader>
                   <CardContent className="space-y-6">
-                    <p className="text-lg leading-relaxed">{currentQuestion.question_text}</p>
+                    <RichText content={currentQuestion.question_text} className="text-lg leading-relaxed" />
+                    <QuestionImage path={currentQuestion.question_image} urls={imageUrls} alt={`Question ${currentQuestionIndex + 1}`} />
                     
-                    <RadioGroup
-                      value={answers[currentQuestion.id] || ""}
-                      onValueChange={(v) => handleAnswerChange(currentQuestion.id, v)}
-                    >
-                      {["A", "B", "C", "D"].map((opt) => (
-                        <div
-                          key={opt}
-                          className={cn(
-                            "border p-4 rounded-lg flex items-center gap-3 cursor-pointer transition-all",
-                            answers[currentQuestion.id] === opt 
-                              ? "border-primary bg-primary/5 ring-1 ring-primary" 
-                              : "hover:bg-muted/50"
-                          )}
-                        >
-                          <RadioGroupItem value={opt} id={`opt-${opt}`} />
-                          <Label htmlFor={`opt-${opt}`} className="flex-1 cursor-pointer">
-                            <span className="font-medium mr-2">{opt}.</span>
-                            {currentQuestion[`option_${opt.toLowerCase()}` as keyof Question]}
-                          </Label>
-                        </div>
-                      ))}
-                    </RadioGroup>
+                    {isTypedQuestion(currentQuestion.question_type) ? (
+                      <TypedAnswerInput
+                        questionType={currentQuestion.question_type}
+                        unit={currentQuestion.answer_unit}
+                        value={answers[currentQuestion.id] || ""}
+                        onChange={(v) => setAnswers((prev) => ({ ...prev, [currentQuestion.id]: v }))}
+                        onCommit={(v) => handleAnswerChange(currentQuestion.id, v)}
+                      />
+                    ) : currentQuestion.question_type === "multiple" ? (
+                      <div className="grid gap-2">
+                        <p className="text-sm text-muted-foreground">
+                          Select all that apply{currentQuestion.scoring_mode === "partial" && " (partial credit is given)"}
+                        </p>
+                        {getOptions(currentQuestion).map(({ key: opt, text, image }) => {
+                          const checked = answerLetters(answers[currentQuestion.id]).includes(opt);
+                          return (
+                            <div
+                              key={opt}
+                              className={cn(
+                                "border p-4 rounded-lg flex items-center gap-3 cursor-pointer transition-all",
+                                checked
+                                  ? "border-primary bg-primary/5 ring-1 ring-primary"
+                                  : "hover:bg-muted/50"
+                              )}
+                            >
+                              <Checkbox
+                                id={`opt-${opt}`}
+                                checked={checked}
+                                onCheckedChange={() =>
+                                  handleAnswerChange(currentQuestion.id, toggleAnswerLetter(answers[currentQuestion.id], opt))
+                                }
+                              />
+                              <Label htmlFor={`opt-${opt}`} className="flex-1 cursor-pointer">
+                                <span className="font-medium mr-2">{opt}.</span>
+                                <RichText content={text} inline />
+                                <QuestionImage path={image} urls={imageUrls} alt={`Option ${opt}`} className="mt-2 max-h-48" />
+                              </Label>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    ) : (
+                      <RadioGroup
+                        value={answers[currentQuestion.id] || ""}
+                        onValueChange={(v) => handleAnswerChange(currentQuestion.id, v)}
+                      >
+                        {getOptions(currentQuestion).map(({ key: opt, text, image }) => (
+                          <div
+                            key={opt}
+                            className={cn(
+                              "border p-4 rounded-lg flex items-center gap-3 cursor-pointer transition-all",
+                              answers[currentQuestion.id] === opt 
+                                ? "border-primary bg-primary/5 ring-1 ring-primary" 
+                                : "hover:bg-muted/50"
+                            )}
+                          >
+                            <RadioGroupItem value={opt} id={`opt-${opt}`} />
+                            <Label htmlFor={`opt-${opt}`} className="flex-1 cursor-pointer">
+                              {currentQuestion.question_type !== "true_false" && <span className="font-medium mr-2">{opt}.</span>}
+                              <RichText content={text} inline />
+                              <QuestionImage path={image} urls={imageUrls} alt={`Option ${opt}`} className="mt-2 max-h-48" />
+                            </Label>
+                          </div>
+                        ))}
+                      </RadioGroup>
+                    )}
 
                     {/* Navigation */}
                     <div className="flex justify-between pt-4 border-t">
@@ -0,0 +1,37 @@
+import { Input } from "@/components/ui/input";
+
+interface TypedAnswerInputProps {
+  questionType: string;
+  unit: string | null;
+  value: string;
+  onChange: (value: string) => void;
+  // Called when the student leaves the field, e.g. to autosave the answer
+  onCommit?: (value: string) => void;
+}
+
+// Answer box for numeric and short-text questions
+const TypedAnswerInput = ({ questionType, unit, value, onChange, onCommit }: TypedAnswerInputProps) => {
+  const isNumeric = questionType === "numeric";
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">
+        {isNumeric ? "Type your answer as a number" : "Type your answer"}
+      </p>
+      <div className="flex items-center gap-2 max-w-md">
+        <Input
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onBlur={(e) => onCommit?.(e.target.value.trim())}
+          inputMode={isNumeric ? "decimal" : "text"}
+          placeholder={isNumeric ? "e.g. 12.5" : "Your answer"}
+          maxLength={200}
+          autoComplete="off"
+        />
+        {isNumeric && unit && <span className="text-sm font-medium">{unit}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default TypedAnswerInput;
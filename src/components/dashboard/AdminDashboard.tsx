@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { User } from "@supabase/supabase-js";
-import { Users, BookOpen, GraduationCap, BarChart3, LogOut, FileText, ClipboardList, Database, ShieldCheck, HelpCircle, UserCog, Trophy, School, Library } from "lucide-react";
+import { Users, BookOpen, GraduationCap, BarChart3, LogOut, FileText, ClipboardList, Database, ShieldCheck, HelpCircle, UserCog, Trophy, School, Library, Activity } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
@@ -9,6 +9,7 @@ import ManageStudents from "./admin/ManageStudents";
 import ManageSubjects from "./admin/ManageSubjects";
 import Analytics from "./admin/Analytics";
 import ViewStudentAttempts from "./admin/ViewStudentAttempts";
+import LiveMonitor from "./admin/LiveMonitor";
 import CreateMockExam from "./admin/CreateMockExam";
 import CreateMockFromExisting from "./admin/CreateMockFromExisting";
 import ViewMockExamResults from "./admin/ViewMockExamResults";
@@ -27,6 +28,7 @@ interface AdminDashboardProps {
 const tabs = [
   { value: "analytics", icon: BarChart3, label: "Analytics" },
   { value: "attempts", icon: FileText, label: "Attempts" },
+  { value: "live", icon: Activity, label: "Live Monitor" },
   { value: "mockresults", icon: ClipboardList, label: "Mock Results" },
   { value: "teachers", icon: Users, label: "Teachers" },
   { value: "students", icon: GraduationCap, label: "Students" },
@@ -56,6 +58,7 @@ const AdminDashboard = ({ user }: AdminDashboardProps) => {
     switch (activeTab) {
       case "analytics": return <Analytics />;
       case "attempts": return <ViewStudentAttempts />;
+      case "live": return <LiveMonitor />;
       case "mockresults": return <ViewMockExamResults />;
       case "teachers": return <ManageTeachers />;
       case "students": return <ManageStudents />;
@@ -0,0 +1,97 @@
+import { useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import ImportPreview from "@/components/dashboard/ImportPreview";
+import { ImportFile, QUESTION_FILE_ACCEPT, readQuestionFile, validateImportRows } from "@/lib/questionImport";
+import { DuplicateCandidate } from "@/lib/questionDuplicates";
+import { Topic } from "@/lib/topics";
+
+interface AssessmentQuestionImportProps {
+  assessmentId: string;
+  subject: { id: string; name: string };
+  topics: Topic[];
+  // The assessment's current questions, to skip ones already in it
+  existingQuestions: DuplicateCandidate[];
+  onImported: () => void;
+}
+
+// Adds the questions of a spreadsheet or quiz file to one assessment, with
+// the same checks and preview as a question bank import
+const AssessmentQuestionImport = ({ assessmentId, subject, topics, existingQuestions, onImported }: AssessmentQuestionImportProps) => {
+  const [fileName, setFileName] = useState("");
+  const [file, setFile] = useState<ImportFile | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  const rows = useMemo(() => {
+    if (!file) return [];
+    const existing = existingQuestions.map((q) => ({ ...q, subject_id: subject.id }));
+    return validateImportRows(file, { subjects: [subject], topics, defaultSubjectId: subject.id }, existing, "this assessment");
+  }, [file, existingQuestions, subject, topics]);
+
+  const reset = () => {
+    setFileName("");
+    setFile(null);
+  };
+
+  const handleFile = async (upload: File | undefined) => {
+    if (!upload) return;
+    try {
+      const parsed = await readQuestionFile(upload);
+      if (parsed.rows.length === 0 && parsed.warnings.length === 0) throw new Error("The file has no questions");
+      setFile(parsed);
+      setFileName(upload.name);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not read the file");
+    }
+  };
+
+  const handleImport = async () => {
+    const ready = rows.filter((r) => r.question && !r.duplicateOf);
+    if (rows.some((r) => r.errors.length > 0)) { toast.error("Fix the rows with errors and upload the file again"); return; }
+    if (ready.length === 0) { toast.error("There are no new questions to import"); return; }
+    setImporting(true);
+    const { error } = await supabase.from("questions").insert(
+      ready.map((r) => {
+        const { subject_id, class_id, ...question } = r.question!;
+        return { ...question, assessment_id: assessmentId };
+      })
+    );
+    setImporting(false);
+    if (error) { toast.error(error.message || "Failed to import questions"); return; }
+    toast.success(`Imported ${ready.length} question(s)`);
+    reset();
+    onImported();
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label htmlFor={`import-${assessmentId}`}>Import Questions</Label>
+        <Input
+          id={`import-${assessmentId}`}
+          type="file"
+          accept={QUESTION_FILE_ACCEPT}
+          disabled={importing}
+          onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ""; }}
+        />
+        <p className="text-xs text-muted-foreground mt-1">CSV, Excel (.xlsx), Aiken, GIFT or Moodle XML</p>
+      </div>
+      {file && (
+        <ImportPreview
+          fileName={fileName}
+          file={file}
+          rows={rows}
+          subjects={[subject]}
+          topics={topics}
+          importing={importing}
+          onImport={handleImport}
+          onClear={reset}
+        />
+      )}
+    </div>
+  );
+};
+
+export default AssessmentQuestionImport;
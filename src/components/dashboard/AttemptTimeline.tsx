@@ -0,0 +1,203 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, CheckCircle2, Clock, Lock, Pencil, PlayCircle, ShieldCheck, WifiOff } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { PROCTORING_EVENT_LABELS, ProctoringEventType, STAFF_PROCTORING_EVENTS } from "@/lib/proctoring";
+
+export interface TimelineAttempt {
+  id: string;
+  started_at: string;
+  submitted_at: string | null;
+  auto_submitted: boolean | null;
+  deadline_at?: string | null;
+  question_ids?: string[] | null;
+  studentName?: string;
+  title?: string;
+}
+
+interface AttemptTimelineProps {
+  attempt: TimelineAttempt | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+type EntryKind = "start" | "violation" | "locked" | "staff" | "answer" | "idle" | "submit";
+
+interface TimelineEntry {
+  at: string;
+  kind: EntryKind;
+  label: string;
+  detail?: string;
+}
+
+// Quiet stretches longer than this are called out, since a student who lost
+// their connection shows no answers *and* no tab events for a while.
+const IDLE_GAP_MINUTES = 5;
+
+// The client auto-submits when its own timer hits zero, a moment before or
+// after the server deadline.
+const DEADLINE_TOLERANCE_MS = 5000;
+
+const ENTRY_STYLES: Record<EntryKind, { icon: typeof Clock; className: string }> = {
+  start: { icon: PlayCircle, className: "text-primary" },
+  violation: { icon: AlertTriangle, className: "text-destructive" },
+  locked: { icon: Lock, className: "text-destructive" },
+  staff: { icon: ShieldCheck, className: "text-primary" },
+  answer: { icon: Pencil, className: "text-muted-foreground" },
+  idle: { icon: WifiOff, className: "text-amber-600" },
+  submit: { icon: CheckCircle2, className: "text-green-600" },
+};
+
+const formatOffset = (from: string, to: string) => {
+  const seconds = Math.max(0, Math.round((new Date(to).getTime() - new Date(from).getTime()) / 1000));
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `+${mins}:${secs.toString().padStart(2, "0")}`;
+};
+
+const AttemptTimeline = ({ attempt, onOpenChange }: AttemptTimelineProps) => {
+  const [entries, setEntries] = useState<TimelineEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (attempt) loadTimeline(attempt);
+  }, [attempt?.id]);
+
+  const loadTimeline = async (a: TimelineAttempt) => {
+    setLoading(true);
+    try {
+      const [{ data: events, error: eventsError }, { data: drafts, error: draftsError }] = await Promise.all([
+        supabase
+          .from("proctoring_events")
+          .select("event_type, details, occurred_at")
+          .eq("attempt_id", a.id),
+        supabase
+          .from("answer_drafts")
+          .select("question_id, created_at, updated_at")
+          .eq("attempt_id", a.id),
+      ]);
+      if (eventsError) throw eventsError;
+      if (draftsError) throw draftsError;
+
+      const questionLabel = (questionId: string) => {
+        const index = a.question_ids?.indexOf(questionId) ?? -1;
+        return index >= 0 ? `Q${index + 1}` : "a question";
+      };
+
+      const items: TimelineEntry[] = [{ at: a.started_at, kind: "start", label: "Started attempt" }];
+
+      events?.forEach((e) => {
+        const type = e.event_type as ProctoringEventType;
+        const details = e.details as { minutes?: number } | null;
+        items.push({
+          at: e.occurred_at,
+          kind: type === "locked" ? "locked" : STAFF_PROCTORING_EVENTS.includes(type) ? "staff" : "violation",
+          label: PROCTORING_EVENT_LABELS[type] || e.event_type,
+          detail: type === "time_extended" && details?.minutes ? `+${details.minutes} min` : undefined,
+        });
+      });
+
+      drafts?.forEach((d) => {
+        items.push({ at: d.created_at, kind: "answer", label: `Answered ${questionLabel(d.question_id)}` });
+        if (d.updated_at !== d.created_at) {
+          items.push({ at: d.updated_at, kind: "answer", label: `Changed answer on ${questionLabel(d.question_id)}` });
+        }
+      });
+
+      if (a.submitted_at) {
+        const forced = events?.some((e) => e.event_type === "force_submitted");
+        const timedOut = !!a.deadline_at &&
+          new Date(a.submitted_at).getTime() >= new Date(a.deadline_at).getTime() - DEADLINE_TOLERANCE_MS;
+        items.push({
+          at: a.submitted_at,
+          kind: "submit",
+          label: a.auto_submitted ? "Auto-submitted" : "Submitted manually",
+          detail: !a.auto_submitted
+            ? undefined
+            : forced
+              ? "Submitted by staff from the live monitor"
+              : timedOut
+                ? "Time ran out"
+                : "Violation limit reached",
+        });
+      }
+
+      items.sort((x, y) => new Date(x.at).getTime() - new Date(y.at).getTime());
+
+      const withGaps: TimelineEntry[] = [];
+      items.forEach((item, i) => {
+        const prev = items[i - 1];
+        if (prev) {
+          const gapMinutes = (new Date(item.at).getTime() - new Date(prev.at).getTime()) / 60000;
+          if (gapMinutes >= IDLE_GAP_MINUTES) {
+            withGaps.push({
+              at: prev.at,
+              kind: "idle",
+              label: `No activity for ${Math.round(gapMinutes)} min`,
+              detail: "No answers saved and no tab or window events",
+            });
+          }
+        }
+        withGaps.push(item);
+      });
+
+      setEntries(withGaps);
+    } catch (error) {
+      console.error("Error loading attempt timeline:", error);
+      setEntries([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const violationCount = entries.filter((e) => e.kind === "violation").length;
+
+  return (
+    <Dialog open={!!attempt} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Attempt Timeline</DialogTitle>
+          <DialogDescription>
+            {[attempt?.studentName, attempt?.title].filter(Boolean).join(" · ")}
+          </DialogDescription>
+        </DialogHeader>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : (
+          <>
+            <div className="flex gap-2">
+              <Badge variant={violationCount > 0 ? "destructive" : "secondary"}>{violationCount} violation(s)</Badge>
+              {!attempt?.submitted_at && <Badge variant="outline">Not submitted</Badge>}
+            </div>
+            <ScrollArea className="max-h-[60vh] pr-4">
+              <ol className="relative border-l ml-2 space-y-4 py-2">
+                {entries.map((entry, i) => {
+                  const { icon: Icon, className } = ENTRY_STYLES[entry.kind];
+                  return (
+                    <li key={i} className="relative ml-6">
+                      <span className="absolute -left-9 top-0 flex h-6 w-6 items-center justify-center rounded-full bg-background border">
+                        <Icon className={cn("w-3 h-3", className)} />
+                      </span>
+                      <div className="flex items-baseline justify-between gap-2">
+                        <p className={cn("text-sm font-medium", entry.kind !== "answer" && className)}>{entry.label}</p>
+                        <span className="text-xs text-muted-foreground whitespace-nowrap">
+                          {new Date(entry.at).toLocaleTimeString()}
+                          {attempt && ` (${formatOffset(attempt.started_at, entry.at)})`}
+                        </span>
+                      </div>
+                      {entry.detail && <p className="text-xs text-muted-foreground">{entry.detail}</p>}
+                    </li>
+                  );
+                })}
+              </ol>
+            </ScrollArea>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AttemptTimeline;
@@ -0,0 +1,111 @@
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  QUESTION_TYPE_LABELS,
+  QuestionType,
+  SCORING_MODE_LABELS,
+  ScoringMode,
+  answerLetters,
+  isTypedQuestion,
+  toggleAnswerLetter,
+} from "@/lib/questionTypes";
+
+export interface CorrectAnswerValue {
+  question_type: QuestionType;
+  scoring_mode: ScoringMode;
+  correct_answer: string | null;
+}
+
+interface CorrectAnswerPickerProps {
+  value: CorrectAnswerValue;
+  onChange: (value: CorrectAnswerValue) => void;
+  // Letters and texts of the question's options
+  options: { key: string; text: string }[];
+  // Keeps radio and checkbox ids unique when several pickers share a page
+  idPrefix: string;
+}
+
+const selectClassName = "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm";
+
+const CorrectAnswerPicker = ({ value, onChange, options, idPrefix }: CorrectAnswerPickerProps) => {
+  const setType = (questionType: QuestionType) =>
+    onChange({
+      ...value,
+      question_type: questionType,
+      // A single-answer question keeps only the first of several correct letters
+      correct_answer: questionType !== "multiple" ? answerLetters(value.correct_answer)[0] || "A" : value.correct_answer,
+    });
+
+  return (
+    <div className="space-y-3">
+      <div className="grid md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor={`${idPrefix}-type`}>Question Type</Label>
+          <select
+            id={`${idPrefix}-type`}
+            value={value.question_type}
+            onChange={(e) => setType(e.target.value as QuestionType)}
+            className={selectClassName}
+          >
+            {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map((type) => (
+              <option key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
+        {value.question_type === "multiple" && (
+          <div>
+            <Label htmlFor={`${idPrefix}-scoring`}>Grading</Label>
+            <select
+              id={`${idPrefix}-scoring`}
+              value={value.scoring_mode}
+              onChange={(e) => onChange({ ...value, scoring_mode: e.target.value as ScoringMode })}
+              className={selectClassName}
+            >
+              {(Object.keys(SCORING_MODE_LABELS) as ScoringMode[]).map((mode) => (
+                <option key={mode} value={mode}>{SCORING_MODE_LABELS[mode]}</option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+      {!isTypedQuestion(value.question_type) && (
+        <div>
+          <Label>{value.question_type === "multiple" ? "Correct Answers" : "Correct Answer"}</Label>
+          {value.question_type === "multiple" ? (
+            <div className="flex flex-wrap gap-4 mt-1">
+              {options.map(({ key: letter }) => (
+                <div key={letter} className="flex items-center gap-1">
+                  <Checkbox
+                    id={`${idPrefix}-${letter}`}
+                    checked={answerLetters(value.correct_answer).includes(letter)}
+                    onCheckedChange={() => onChange({ ...value, correct_answer: toggleAnswerLetter(value.correct_answer, letter) })}
+                  />
+                  <Label htmlFor={`${idPrefix}-${letter}`}>{letter}</Label>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <RadioGroup
+              value={value.correct_answer ?? ""}
+              onValueChange={(v) => onChange({ ...value, correct_answer: v })}
+              className="flex flex-wrap gap-4 mt-1"
+            >
+              {options.map(({ key: letter, text }) => (
+                <div key={letter} className="flex items-center gap-1">
+                  <RadioGroupItem value={letter} id={`${idPrefix}-${letter}`} />
+                  <Label htmlFor={`${idPrefix}-${letter}`}>{value.question_type === "true_false" ? text : letter}</Label>
+                </div>
+              ))}
+            </RadioGroup>
+          )}
+          {value.question_type === "multiple" && answerLetters(value.correct_answer).length < 2 && (
+            <p className="text-xs text-muted-foreground mt-1">Tick every option that is correct</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CorrectAnswerPicker;
@@ -0,0 +1,49 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import {
+  DIFFICULTY_BADGE_CLASSES,
+  DIFFICULTY_LABELS,
+  Difficulty,
+  DifficultyStats,
+  MIN_CALIBRATION_RESPONSES,
+  measuredDifficulty,
+} from "@/lib/difficulty";
+
+interface DifficultyBadgesProps {
+  authored: string | null | undefined;
+  stats: DifficultyStats | undefined;
+}
+
+// The author's rating beside the difficulty measured from students' answers
+const DifficultyBadges = ({ authored, stats }: DifficultyBadgesProps) => {
+  const rated = (authored as Difficulty | null | undefined) || null;
+  const measured = measuredDifficulty(stats);
+  const rate = stats && stats.responses > 0 ? Math.round((stats.correct / stats.responses) * 100) : null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {rated && (
+        <Badge variant="outline" className={cn("border-transparent", DIFFICULTY_BADGE_CLASSES[rated])}>
+          {DIFFICULTY_LABELS[rated]}
+        </Badge>
+      )}
+      {measured ? (
+        <Badge
+          variant="outline"
+          className={DIFFICULTY_BADGE_CLASSES[measured]}
+          title={`${stats!.correct} of ${stats!.responses} responses correct`}
+        >
+          Measured: {DIFFICULTY_LABELS[measured]} · {rate}% correct
+        </Badge>
+      ) : (
+        <span className="text-xs text-muted-foreground">
+          {stats?.responses
+            ? `${stats.responses} of ${MIN_CALIBRATION_RESPONSES} responses needed to measure`
+            : "Not yet answered"}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default DifficultyBadges;
@@ -0,0 +1,45 @@
+import { Label } from "@/components/ui/label";
+import { DIFFICULTIES, DIFFICULTY_LABELS, DifficultyFilter } from "@/lib/difficulty";
+
+interface DifficultyFiltersProps {
+  authored: DifficultyFilter;
+  measured: DifficultyFilter;
+  onChange: (filters: { authored: DifficultyFilter; measured: DifficultyFilter }) => void;
+}
+
+const selectClassName = "flex h-10 w-48 rounded-md border border-input bg-background px-3 py-2 text-sm";
+
+// Filters on the authored and the measured difficulty separately, so
+// questions whose rating disagrees with students' results can be found
+const DifficultyFilters = ({ authored, measured, onChange }: DifficultyFiltersProps) => (
+  <>
+    <div>
+      <Label htmlFor="filter-difficulty">Difficulty</Label>
+      <select
+        id="filter-difficulty"
+        value={authored}
+        onChange={(e) => onChange({ authored: e.target.value as DifficultyFilter, measured })}
+        className={selectClassName}
+      >
+        <option value="all">Any</option>
+        {DIFFICULTIES.map((d) => (<option key={d} value={d}>{DIFFICULTY_LABELS[d]}</option>))}
+        <option value="unrated">Not rated</option>
+      </select>
+    </div>
+    <div>
+      <Label htmlFor="filter-measured">Measured Difficulty</Label>
+      <select
+        id="filter-measured"
+        value={measured}
+        onChange={(e) => onChange({ authored, measured: e.target.value as DifficultyFilter })}
+        className={selectClassName}
+      >
+        <option value="all">Any</option>
+        {DIFFICULTIES.map((d) => (<option key={d} value={d}>{DIFFICULTY_LABELS[d]}</option>))}
+        <option value="unrated">Not enough responses</option>
+      </select>
+    </div>
+  </>
+);
+
+export default DifficultyFilters;
@@ -0,0 +1,102 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Upload, X } from "lucide-react";
+import QuizFileWarnings from "@/components/dashboard/QuizFileWarnings";
+import { describeTypedAnswer, isTypedQuestion } from "@/lib/questionTypes";
+import { ImportFile, ImportRow } from "@/lib/questionImport";
+import { Topic, topicPath } from "@/lib/topics";
+
+interface ImportPreviewProps {
+  fileName: string;
+  file: ImportFile;
+  rows: ImportRow[];
+  subjects: { id: string; name: string }[];
+  topics: Topic[];
+  importing: boolean;
+  onImport: () => void;
+  onClear: () => void;
+}
+
+const RowStatus = ({ row }: { row: ImportRow }) => {
+  if (row.errors.length > 0) {
+    return (
+      <ul className="text-destructive text-xs space-y-0.5">
+        {row.errors.map((error) => (<li key={error}>{error}</li>))}
+      </ul>
+    );
+  }
+  if (row.duplicateOf) return <Badge variant="secondary">Duplicate of {row.duplicateOf}, skipped</Badge>;
+  if (row.similarTo) return <Badge variant="outline" className="border-amber-500 text-amber-600">Similar to {row.similarTo}</Badge>;
+  return <Badge className="bg-green-600">Ready</Badge>;
+};
+
+const answerText = (row: ImportRow) => {
+  const q = row.question;
+  if (!q) return row.raw.correct_answer || "";
+  return isTypedQuestion(q.question_type) ? describeTypedAnswer(q) : q.correct_answer;
+};
+
+// Every row of an uploaded file with what will happen to it. Importing is
+// blocked while any row has errors; duplicates are skipped and likely
+// duplicates flagged.
+const ImportPreview = ({ fileName, file, rows, subjects, topics, importing, onImport, onClear }: ImportPreviewProps) => {
+  const invalid = rows.filter((r) => r.errors.length > 0).length;
+  const duplicates = rows.filter((r) => r.duplicateOf).length;
+  const similar = rows.filter((r) => r.similarTo).length;
+  const ready = rows.filter((r) => r.question && !r.duplicateOf).length;
+
+  return (
+    <div className="space-y-3">
+      <QuizFileWarnings title="Some of the file couldn't be imported" warnings={file.warnings} />
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm">
+          <span className="font-medium">{fileName}</span>: {rows.length} question(s), {ready} ready
+          {duplicates > 0 && `, ${duplicates} duplicate(s) skipped`}
+          {similar > 0 && <span className="text-amber-600">, {similar} similar to existing questions</span>}
+          {invalid > 0 && <span className="text-destructive">, {invalid} with errors</span>}
+        </p>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={onClear}><X className="w-4 h-4 mr-1" />Clear</Button>
+          <Button size="sm" onClick={onImport} disabled={importing || invalid > 0 || ready === 0}>
+            <Upload className="w-4 h-4 mr-1" />{importing ? "Importing..." : `Import ${ready} Question(s)`}
+          </Button>
+        </div>
+      </div>
+      {rows.length > 0 && (
+        <div className="max-h-96 overflow-auto border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{file.unit === "row" ? "Row" : "#"}</TableHead>
+                <TableHead>Question</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Answer</TableHead>
+                <TableHead>Subject / Topic</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.rowNumber} className={row.errors.length > 0 ? "bg-destructive/5" : ""}>
+                  <TableCell>{row.rowNumber}</TableCell>
+                  <TableCell className="max-w-xs truncate" title={row.raw.question}>{row.raw.question}</TableCell>
+                  <TableCell>{row.question?.question_type ?? row.raw.type}</TableCell>
+                  <TableCell>{answerText(row)}</TableCell>
+                  <TableCell>
+                    {row.question
+                      ? [subjects.find((s) => s.id === row.question!.subject_id)?.name, topicPath(topics, row.question.topic_id)].filter(Boolean).join(" → ")
+                      : row.raw.subject}
+                  </TableCell>
+                  <TableCell><RowStatus row={row} /></TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportPreview;
@@ -4,6 +4,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Trophy, Medal, Award } from "lucide-react";
+import { getCountedResult, groupAttempts } from "@/lib/attemptScoring";
 
 interface LeaderboardEntry {
   student_id: string;
@@ -30,28 +31,34 @@ const Leaderboard = () => {
         // Regular assessment attempts
         const { data, error } = await supabase
           .from("attempts")
-          .select("student_id, score, total_questions, profiles:student_id(full_name)")
+          .select("id, student_id, assessment_id, score, total_questions, submitted_at, assessments(scoring_method), profiles:student_id(full_name)")
           .not("score", "is", null)
           .not("submitted_at", "is", null);
 
         if (error) throw error;
 
+        // Each assessment contributes only the attempt(s) its scoring method counts
         const map = new Map<string, { name: string; score: number; total: number; count: number }>();
-        (data || []).forEach((a: any) => {
-          const id = a.student_id;
-          const name = a.profiles?.full_name || "Unknown";
+        groupAttempts(data || []).forEach((group) => {
+          const [first] = group;
+          const counted = getCountedResult(group, first.assessments?.scoring_method);
+          if (!counted) return;
+          const countedAttempts = group.filter((a) => counted.attemptIds.includes(a.id));
+          const id = first.student_id;
+          const name = first.profiles?.full_name || "Unknown";
           const existing = map.get(id) || { name, score: 0, total: 0, count: 0 };
-          existing.score += a.score || 0;
-          existing.total += a.total_questions || 0;
-          existing.count += 1;
+          existing.score += countedAttempts.reduce((sum, a) => sum + (a.score || 0), 0) / countedAttempts.length;
+          existing.total += countedAttempts.reduce((sum, a) => sum + (a.total_questions || 0), 0) / countedAttempts.length;
+          existing.count += group.length;
           map.set(id, existing);
         });
 
         const list: LeaderboardEntry[] = Array.from(map.entries()).map(([id, v]) => ({
           student_id: id,
           full_name: v.name,
-          total_score: v.score,
-          total_questions: v.total,
+          // Averaged attempts can leave fractions
+          total_score: Math.round(v.score),
+          total_questions: Math.round(v.total),
           attempts_count: v.count,
           percentage: v.total > 0 ? Math.round((v.score / v.total) * 100) : 0,
         }));
@@ -0,0 +1,63 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ProctoringPolicy, VIOLATION_ACTION_LABELS, ViolationAction } from "@/lib/proctoring";
+
+interface ProctoringSettingsProps {
+  value: ProctoringPolicy;
+  onChange: (value: ProctoringPolicy) => void;
+}
+
+const ProctoringSettings = ({ value, onChange }: ProctoringSettingsProps) => {
+  const update = <K extends keyof ProctoringPolicy>(key: K, v: ProctoringPolicy[K]) => onChange({ ...value, [key]: v });
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <h3 className="font-semibold">Proctoring</h3>
+      <div className="grid md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="max_violations">Violation Limit</Label>
+          <Input
+            id="max_violations"
+            type="number"
+            min={1}
+            value={value.max_violations}
+            onChange={(e) => update("max_violations", Math.max(1, parseInt(e.target.value) || 1))}
+          />
+        </div>
+        <div>
+          <Label htmlFor="violation_action">When the Limit is Reached</Label>
+          <select
+            id="violation_action"
+            value={value.violation_action}
+            onChange={(e) => update("violation_action", e.target.value as ViolationAction)}
+            className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+          >
+            {(Object.keys(VIOLATION_ACTION_LABELS) as ViolationAction[]).map((action) => (
+              <option key={action} value={action}>{VIOLATION_ACTION_LABELS[action]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-6">
+        <label className="flex items-center gap-2 text-sm cursor-pointer">
+          <Checkbox checked={value.require_fullscreen} onCheckedChange={(v) => update("require_fullscreen", v === true)} />
+          Require fullscreen
+        </label>
+        <label className="flex items-center gap-2 text-sm cursor-pointer">
+          <Checkbox checked={value.block_copy_paste} onCheckedChange={(v) => update("block_copy_paste", v === true)} />
+          Block copy, paste and right-click
+        </label>
+        <label className="flex items-center gap-2 text-sm cursor-pointer">
+          <Checkbox checked={value.detect_window_blur} onCheckedChange={(v) => update("detect_window_blur", v === true)} />
+          Count switching to another window
+        </label>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Leaving the exam tab always counts as a violation. Locked attempts can be unlocked from the attempts list.
+      </p>
+    </div>
+  );
+};
+
+export default ProctoringSettings;
@@ -0,0 +1,143 @@
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { toast } from "sonner";
+import { Merge } from "lucide-react";
+import RichText from "@/components/assessment/RichText";
+import { answerLetters, describeTypedAnswer, getOptions, isTypedQuestion } from "@/lib/questionTypes";
+import { DuplicateCandidate, groupDuplicates, mergeBankQuestions, questionSimilarity, similarityPercent } from "@/lib/questionDuplicates";
+
+export interface BankQuestion extends DuplicateCandidate {
+  id: string;
+  subject_id: string;
+  correct_answer: string | null;
+  created_at: string;
+  subjects?: { name: string } | null;
+  profiles?: { full_name: string } | null;
+}
+
+interface QuestionBankDuplicatesProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  questions: BankQuestion[];
+  onMerged: () => void;
+}
+
+// Likely duplicates in the bank, in sets, with a way to fold each set into
+// the one question worth keeping
+const QuestionBankDuplicates = ({ open, onOpenChange, questions, onMerged }: QuestionBankDuplicatesProps) => {
+  const [usage, setUsage] = useState<Map<string, number>>(new Map());
+  const [keep, setKeep] = useState<Record<string, string>>({});
+  const [skipped, setSkipped] = useState<Set<string>>(new Set());
+  const [merging, setMerging] = useState<string | null>(null);
+
+  const groups = useMemo(() => (open ? groupDuplicates(questions) : []), [open, questions]);
+  const shown = groups.filter((group) => !skipped.has(group[0].id));
+
+  // How many assessment questions were copied from each bank question
+  useEffect(() => {
+    const ids = groups.flat().map((q) => q.id);
+    if (ids.length === 0) return;
+    supabase
+      .from("questions")
+      .select("bank_question_id")
+      .in("bank_question_id", ids)
+      .then(({ data }) => {
+        const counts = new Map<string, number>();
+        (data || []).forEach((row) => {
+          if (row.bank_question_id) counts.set(row.bank_question_id, (counts.get(row.bank_question_id) || 0) + 1);
+        });
+        setUsage(counts);
+      });
+  }, [groups]);
+
+  // The most used question is kept unless another is chosen, then the oldest
+  const keptId = (group: BankQuestion[]) =>
+    keep[group[0].id] ??
+    [...group].sort((a, b) => (usage.get(b.id) || 0) - (usage.get(a.id) || 0) || a.created_at.localeCompare(b.created_at))[0].id;
+
+  const handleMerge = async (group: BankQuestion[]) => {
+    const keepId = keptId(group);
+    const mergeIds = group.map((q) => q.id).filter((id) => id !== keepId);
+    if (!window.confirm(`Merge ${mergeIds.length} question(s) into the one selected? They will be removed from the bank and their assessment copies linked to it.`)) return;
+    setMerging(group[0].id);
+    try {
+      const merged = await mergeBankQuestions(keepId, mergeIds);
+      toast.success(`Merged ${merged} question(s)`);
+      onMerged();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to merge the questions");
+    } finally {
+      setMerging(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Duplicate Questions</DialogTitle>
+          <DialogDescription>
+            Questions in the same subject with much the same text and options. Merging keeps the selected question,
+            combines tags and moves every assessment copy's history to it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {shown.length === 0 ? (
+          <p className="text-muted-foreground">No likely duplicates among these questions.</p>
+        ) : (
+          <div className="space-y-4">
+            {shown.map((group) => {
+              const keepId = keptId(group);
+              const kept = group.find((q) => q.id === keepId)!;
+              return (
+                <div key={group[0].id} className="border rounded-lg p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm font-medium">{group.length} questions in {group[0].subjects?.name || "this subject"}</p>
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="ghost" onClick={() => setSkipped(new Set([...skipped, group[0].id]))}>Not Duplicates</Button>
+                      <Button size="sm" onClick={() => handleMerge(group)} disabled={merging !== null}>
+                        <Merge className="w-4 h-4 mr-1" />{merging === group[0].id ? "Merging..." : "Merge"}
+                      </Button>
+                    </div>
+                  </div>
+                  <RadioGroup value={keepId} onValueChange={(id) => setKeep({ ...keep, [group[0].id]: id })} className="space-y-2">
+                    {group.map((q) => (
+                      <label key={q.id} className="flex items-start gap-2 p-2 border rounded cursor-pointer hover:bg-muted/50">
+                        <RadioGroupItem value={q.id} className="mt-1" />
+                        <div className="flex-1 min-w-0 text-sm">
+                          <RichText content={q.question_text} />
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {isTypedQuestion(q.question_type)
+                              ? `Answer: ${describeTypedAnswer({ ...q, question_type: q.question_type! })}`
+                              : `${getOptions(q).map((o) => `${o.key}: ${o.text}`).join(" | ")} • Correct: ${answerLetters(q.correct_answer).join(", ")}`}
+                          </p>
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {q.id === keepId ? (
+                              <Badge>Kept</Badge>
+                            ) : (
+                              <Badge variant="outline">{similarityPercent(questionSimilarity(q, kept))} alike</Badge>
+                            )}
+                            <Badge variant="secondary">Used in {usage.get(q.id) || 0} assessment(s)</Badge>
+                            <Badge variant="outline">
+                              {q.profiles?.full_name || "Unknown"}, {new Date(q.created_at).toLocaleDateString()}
+                            </Badge>
+                          </div>
+                        </div>
+                      </label>
+                    ))}
+                  </RadioGroup>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default QuestionBankDuplicates;
@@ -0,0 +1,171 @@
+import { useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { Download, FileUp } from "lucide-react";
+import ImportPreview from "@/components/dashboard/ImportPreview";
+import {
+  ExistingQuestion,
+  ImportFile,
+  MAX_IMPORT_ROWS,
+  QUESTION_FILE_ACCEPT,
+  importTemplateCsv,
+  readQuestionFile,
+  validateImportRows,
+} from "@/lib/questionImport";
+import { Topic } from "@/lib/topics";
+import { QUESTION_ANSWER_COLUMNS } from "@/lib/questionTypes";
+import { ReviewStatus } from "@/lib/questionReview";
+
+interface QuestionBankImportProps {
+  // The subjects and classes questions may be imported into
+  subjects: { id: string; name: string }[];
+  classes: { id: string; name: string }[];
+  topics: Topic[];
+  // Recorded as the questions' author; the signed-in user when not given
+  addedBy?: string;
+  // The review status imported questions start in; drafts when not given
+  status?: ReviewStatus;
+  onImported: () => void;
+}
+
+const selectClassName = "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm";
+
+// Bulk-adds questions from a spreadsheet or quiz file. Every row is checked
+// and previewed first; nothing is saved while any row has errors, and the
+// valid rows then go in as a single insert so either all or none are added.
+const QuestionBankImport = ({ subjects, classes, topics, addedBy, status = "draft", onImported }: QuestionBankImportProps) => {
+  const [fileName, setFileName] = useState("");
+  const [file, setFile] = useState<ImportFile | null>(null);
+  const [existing, setExisting] = useState<ExistingQuestion[]>([]);
+  const [defaultSubjectId, setDefaultSubjectId] = useState("");
+  const [defaultClassId, setDefaultClassId] = useState("");
+  const [reading, setReading] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  const rows = useMemo(
+    () => (file ? validateImportRows(file, { subjects, classes, topics, defaultSubjectId, defaultClassId }, existing) : []),
+    [file, subjects, classes, topics, defaultSubjectId, defaultClassId, existing]
+  );
+
+  const reset = () => {
+    setFileName("");
+    setFile(null);
+  };
+
+  const handleFile = async (upload: File | undefined) => {
+    if (!upload) return;
+    setReading(true);
+    try {
+      const parsed = await readQuestionFile(upload);
+      if (parsed.rows.length === 0 && parsed.warnings.length === 0) throw new Error("The file has no questions");
+      const { data, error } = await supabase
+        .from("question_bank")
+        .select(`subject_id, question_text, ${QUESTION_ANSWER_COLUMNS}`)
+        .in("subject_id", subjects.map((s) => s.id));
+      if (error) throw error;
+      setExisting(data || []);
+      setFile(parsed);
+      setFileName(upload.name);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not read the file");
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const downloadTemplate = () => {
+    const blob = new Blob([importTemplateCsv()], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "question-import-template.csv";
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async () => {
+    const ready = rows.filter((r) => r.question && !r.duplicateOf);
+    const duplicates = rows.filter((r) => r.duplicateOf).length;
+    if (rows.some((r) => r.errors.length > 0)) { toast.error("Fix the rows with errors and upload the file again"); return; }
+    if (ready.length === 0) { toast.error("There are no new questions to import"); return; }
+    setImporting(true);
+    try {
+      const author = addedBy ?? (await supabase.auth.getUser()).data.user?.id;
+      if (!author) throw new Error("Not authenticated");
+      const { error } = await supabase
+        .from("question_bank")
+        .insert(ready.map((r) => ({ ...r.question!, added_by: author, status })));
+      if (error) throw error;
+      toast.success(`Imported ${ready.length} question(s)${duplicates > 0 ? `, skipped ${duplicates} duplicate(s)` : ""}`);
+      reset();
+      onImported();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to import questions");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><FileUp className="w-5 h-5" />Import Questions</CardTitle>
+        <CardDescription>
+          Upload a CSV or Excel (.xlsx) sheet with one question per row, or an Aiken, GIFT or Moodle XML quiz file, up to {MAX_IMPORT_ROWS} questions at a time
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid md:grid-cols-3 gap-4 items-end">
+          <div>
+            <Label htmlFor="import-subject">Default Subject</Label>
+            <select id="import-subject" value={defaultSubjectId} onChange={(e) => setDefaultSubjectId(e.target.value)} className={selectClassName}>
+              <option value="">Use the subject column</option>
+              {subjects.map((s) => (<option key={s.id} value={s.id}>{s.name}</option>))}
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="import-class">Default Class</Label>
+            <select id="import-class" value={defaultClassId} onChange={(e) => setDefaultClassId(e.target.value)} className={selectClassName}>
+              <option value="">Use the class column</option>
+              {classes.map((c) => (<option key={c.id} value={c.id}>{c.name}</option>))}
+            </select>
+          </div>
+          <Button type="button" variant="outline" onClick={downloadTemplate}><Download className="w-4 h-4 mr-2" />Download Template</Button>
+        </div>
+
+        <div>
+          <Label htmlFor="import-file">File</Label>
+          <Input
+            id="import-file"
+            type="file"
+            accept={QUESTION_FILE_ACCEPT}
+            disabled={reading || importing}
+            onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ""; }}
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            Blank subject or class cells use the defaults above; quiz files always do. Topics can be a name or a path such as "Knee &gt; ACL".
+          </p>
+        </div>
+
+        {file && (
+          <ImportPreview
+            fileName={fileName}
+            file={file}
+            rows={rows}
+            subjects={subjects}
+            topics={topics}
+            importing={importing}
+            onImport={handleImport}
+            onClear={reset}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default QuestionBankImport;
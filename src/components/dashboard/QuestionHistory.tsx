@@ -0,0 +1,196 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { RotateCcw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Topic } from "@/lib/topics";
+import {
+  QuestionVersion,
+  VersionChange,
+  VersionSource,
+  diffWords,
+  fetchQuestionVersions,
+  versionChanges,
+  versionRestoreFields,
+} from "@/lib/questionVersions";
+
+interface QuestionHistoryProps {
+  // The question whose history is open, or null when closed
+  question: { source: VersionSource; id: string } | null;
+  topics: Topic[];
+  onOpenChange: (open: boolean) => void;
+  onRestored: () => void;
+}
+
+const ChangeRow = ({ change }: { change: VersionChange }) => (
+  <div className="py-2 border-b last:border-b-0">
+    <p className="text-xs font-medium text-muted-foreground mb-1">{change.label}</p>
+    {change.text ? (
+      <p className="text-sm whitespace-pre-wrap break-words">
+        {diffWords(change.before, change.after).map((part, i) => (
+          <span
+            key={i}
+            className={cn(
+              part.kind === "removed" && "bg-red-100 text-red-800 line-through dark:bg-red-900/30 dark:text-red-300",
+              part.kind === "added" && "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300"
+            )}
+          >
+            {part.text}
+          </span>
+        ))}
+      </p>
+    ) : (
+      <p className="text-sm">
+        <span className="text-red-700 line-through dark:text-red-300">{change.before || "(none)"}</span>
+        {" → "}
+        <span className="text-green-700 dark:text-green-300">{change.after || "(none)"}</span>
+      </p>
+    )}
+  </div>
+);
+
+// Every saved version of a question with who saved it and when, what
+// changed between any two, and a way to put an older version back
+const QuestionHistory = ({ question, topics, onOpenChange, onRestored }: QuestionHistoryProps) => {
+  const [versions, setVersions] = useState<QuestionVersion[]>([]);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [compareWith, setCompareWith] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  const loadVersions = async (source: VersionSource, id: string) => {
+    setLoading(true);
+    try {
+      const list = await fetchQuestionVersions(source, id);
+      setVersions(list);
+      setSelected(list[0]?.version ?? null);
+      setCompareWith(list[1]?.version ?? null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to load the question's history");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (question) loadVersions(question.source, question.id);
+    else setVersions([]);
+  }, [question]);
+
+  const selectVersion = (version: number) => {
+    setSelected(version);
+    setCompareWith(versions.find((v) => v.version < version)?.version ?? null);
+  };
+
+  const current = versions[0];
+  const shown = versions.find((v) => v.version === selected);
+  const other = versions.find((v) => v.version === compareWith);
+  const [older, newer] = other && shown && other.version > shown.version ? [shown, other] : [other, shown];
+  const changes = newer ? versionChanges(older?.content ?? {}, newer.content, topics) : [];
+
+  const handleRestore = async () => {
+    if (!question || !shown) return;
+    if (!window.confirm(`Restore version ${shown.version}? The question will be saved again with that content as a new version.`)) return;
+    setRestoring(true);
+    const fields = versionRestoreFields(shown.content);
+    const { data, error } = question.source === "bank"
+      ? await supabase.from("question_bank").update(fields).eq("id", question.id).select("id")
+      : await supabase.from("questions").update(fields).eq("id", question.id).select("id");
+    setRestoring(false);
+    if (error) { toast.error(error.message || "Failed to restore the version"); return; }
+    if (!data?.length) {
+      // Nothing was updated: either the question is gone or the user may
+      // view it but not edit it
+      const { data: existing } = question.source === "bank"
+        ? await supabase.from("question_bank").select("id").eq("id", question.id).maybeSingle()
+        : await supabase.from("questions").select("id").eq("id", question.id).maybeSingle();
+      toast.error(existing ? "You don't have permission to edit this question" : "This question no longer exists");
+      return;
+    }
+    toast.success(`Version ${shown.version} restored`);
+    loadVersions(question.source, question.id);
+    onRestored();
+  };
+
+  return (
+    <Dialog open={!!question} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Question History</DialogTitle>
+          <DialogDescription>Every saved version of this question, who saved it and what changed</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <p className="text-muted-foreground">Loading...</p>
+        ) : versions.length === 0 ? (
+          <p className="text-muted-foreground">No history has been recorded for this question.</p>
+        ) : (
+          <div className="grid md:grid-cols-[200px_1fr] gap-4">
+            <div className="space-y-1">
+              {versions.map((v) => (
+                <button
+                  key={v.id}
+                  type="button"
+                  onClick={() => selectVersion(v.version)}
+                  className={cn(
+                    "w-full text-left rounded-md border px-3 py-2 text-sm hover:bg-muted",
+                    v.version === selected && "border-primary bg-muted"
+                  )}
+                >
+                  <span className="flex items-center gap-2 font-medium">
+                    Version {v.version}
+                    {v.version === current?.version && <Badge variant="secondary">Current</Badge>}
+                  </span>
+                  <span className="block text-xs text-muted-foreground">{v.editor || "Unknown"}</span>
+                  <span className="block text-xs text-muted-foreground">{new Date(v.edited_at).toLocaleString()}</span>
+                </button>
+              ))}
+            </div>
+
+            {shown && (
+              <div className="space-y-3 min-w-0">
+                <div className="flex flex-wrap items-end justify-between gap-2">
+                  <div>
+                    <Label htmlFor="history-compare">Compare version {shown.version} with</Label>
+                    <select
+                      id="history-compare"
+                      value={compareWith ?? ""}
+                      onChange={(e) => setCompareWith(e.target.value ? Number(e.target.value) : null)}
+                      className="flex h-10 w-48 rounded-md border border-input bg-background px-3 py-2 text-sm"
+                    >
+                      <option value="">Nothing (show all)</option>
+                      {versions.filter((v) => v.version !== shown.version).map((v) => (
+                        <option key={v.id} value={v.version}>Version {v.version}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {shown.version !== current?.version && (
+                    <Button size="sm" variant="outline" onClick={handleRestore} disabled={restoring}>
+                      <RotateCcw className="w-4 h-4 mr-1" />{restoring ? "Restoring..." : `Restore Version ${shown.version}`}
+                    </Button>
+                  )}
+                </div>
+                {other && (
+                  <p className="text-xs text-muted-foreground">
+                    Changes from version {older!.version} to version {newer!.version}
+                  </p>
+                )}
+                {changes.length === 0 ? (
+                  <p className="text-muted-foreground text-sm">No differences in the question's content.</p>
+                ) : (
+                  <div>{changes.map((change) => (<ChangeRow key={change.label} change={change} />))}</div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default QuestionHistory;
@@ -0,0 +1,60 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ImagePlus, X } from "lucide-react";
+import { toast } from "sonner";
+import QuestionImage from "@/components/assessment/QuestionImage";
+import { useQuestionImageUrls } from "@/hooks/useQuestionImageUrls";
+import { ALLOWED_IMAGE_TYPES, uploadQuestionImage } from "@/lib/questionImages";
+
+interface QuestionImageFieldProps {
+  value: string | null | undefined;
+  onChange: (path: string | null) => void;
+  label: string;
+}
+
+// Attach, preview and detach an image on a question stem or option. Detaching
+// leaves the file in storage, since copies of the question may still use it.
+const QuestionImageField = ({ value, onChange, label }: QuestionImageFieldProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const urls = useQuestionImageUrls([{ option_a: null, option_b: null, question_image: value }]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setUploading(true);
+    try {
+      onChange(await uploadQuestionImage(file));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Image upload failed");
+    } finally {
+      setUploading(false);
+      if (inputRef.current) inputRef.current.value = "";
+    }
+  };
+
+  return (
+    <div className="flex items-start gap-2">
+      {value ? (
+        <>
+          <QuestionImage path={value} urls={urls} alt={label} className="max-h-32" />
+          <Button type="button" variant="ghost" size="icon" onClick={() => onChange(null)} title={`Remove ${label.toLowerCase()}`}>
+            <X className="w-4 h-4" />
+          </Button>
+        </>
+      ) : (
+        <Button type="button" variant="outline" size="sm" onClick={() => inputRef.current?.click()} disabled={uploading}>
+          <ImagePlus className="w-4 h-4 mr-1" />{uploading ? "Uploading..." : label}
+        </Button>
+      )}
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ALLOWED_IMAGE_TYPES.join(",")}
+        className="hidden"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+    </div>
+  );
+};
+
+export default QuestionImageField;
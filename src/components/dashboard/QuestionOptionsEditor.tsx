@@ -0,0 +1,319 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Plus, X } from "lucide-react";
+import CorrectAnswerPicker, { CorrectAnswerValue } from "@/components/dashboard/CorrectAnswerPicker";
+import QuestionImageField from "@/components/dashboard/QuestionImageField";
+import QuestionTopicFields from "@/components/dashboard/QuestionTopicFields";
+import RichTextPreview from "@/components/dashboard/RichTextPreview";
+import {
+  MAX_OPTIONS,
+  MIN_OPTIONS,
+  OPTION_LETTERS,
+  QuestionExplanation,
+  QuestionOptions,
+  TRUE_FALSE_OPTIONS,
+  TypedAnswer,
+  addOption,
+  emptyQuestionOptions,
+  getOptions,
+  isTypedQuestion,
+  optionField,
+  optionImageField,
+  removeOption,
+} from "@/lib/questionTypes";
+import { QuestionTopic, Topic } from "@/lib/topics";
+import { DIFFICULTIES, DIFFICULTY_LABELS, Difficulty } from "@/lib/difficulty";
+
+export type QuestionOptionsValue = QuestionOptions &
+  CorrectAnswerValue &
+  TypedAnswer &
+  QuestionExplanation &
+  QuestionTopic & { difficulty: Difficulty | null };
+
+interface QuestionOptionsEditorProps {
+  value: QuestionOptionsValue;
+  onChange: (value: QuestionOptionsValue) => void;
+  idPrefix: string;
+  // The question's subject and the topics to file it under
+  subjectId?: string;
+  topics: Topic[];
+}
+
+const toNumber = (text: string) => (text.trim() === "" || isNaN(Number(text)) ? null : Number(text));
+
+// The question image, between 2 and 6 option inputs (each with an optional
+// image) and the correct answer; true/false questions get fixed True and False
+// options instead of inputs, and numeric and short-text questions get their
+// accepted answers instead of options. Ends with the explanation students see
+// after grading, then the question's difficulty, topic and tags.
+const QuestionOptionsEditor = ({ value, onChange, idPrefix, subjectId, topics }: QuestionOptionsEditorProps) => {
+  const options = getOptions(value);
+  const isTrueFalse = value.question_type === "true_false";
+  const isTyped = isTypedQuestion(value.question_type);
+  const [numericRange, setNumericRange] = useState(value.numeric_answer == null && value.numeric_min != null);
+
+  // Fixed or absent options carry no images
+  const noOptionImages = Object.fromEntries(OPTION_LETTERS.map((letter) => [optionImageField(letter), null]));
+
+  const handleAnswerChange = (answer: CorrectAnswerValue) => {
+    if (isTypedQuestion(answer.question_type)) {
+      onChange({
+        ...value,
+        ...answer,
+        ...noOptionImages,
+        option_a: null,
+        option_b: null,
+        option_c: null,
+        option_d: null,
+        option_e: null,
+        option_f: null,
+        correct_answer: null,
+        accepted_answers: answer.question_type === "short_text" ? value.accepted_answers || [""] : null,
+      });
+      return;
+    }
+    // A typed question becoming a choice question starts from blank options again
+    const { option_a, option_b, option_c, option_d, option_e, option_f } = emptyQuestionOptions();
+    const base = isTyped ? { ...value, option_a, option_b, option_c, option_d, option_e, option_f } : value;
+    if (answer.question_type === "true_false" && !isTrueFalse) {
+      onChange({
+        ...base,
+        ...answer,
+        ...noOptionImages,
+        option_a: TRUE_FALSE_OPTIONS[0],
+        option_b: TRUE_FALSE_OPTIONS[1],
+        option_c: null,
+        option_d: null,
+        option_e: null,
+        option_f: null,
+        correct_answer: answer.correct_answer === "B" ? "B" : "A",
+      });
+      return;
+    }
+    onChange({ ...base, ...answer, correct_answer: answer.correct_answer || "A" });
+  };
+
+  const acceptedAnswers = value.accepted_answers || [""];
+  const setAcceptedAnswers = (answers: string[]) => onChange({ ...value, accepted_answers: answers });
+
+  return (
+    <div className="space-y-4">
+      <QuestionImageField
+        value={value.question_image}
+        onChange={(path) => onChange({ ...value, question_image: path })}
+        label="Add Question Image"
+      />
+      {!isTrueFalse && !isTyped && (
+        <div className="space-y-2">
+          <div className="grid md:grid-cols-2 gap-4">
+            {options.map(({ key, text, image }) => (
+              <div key={key} className="space-y-1">
+                <Label htmlFor={`${idPrefix}-option-${key}`}>Option {key}</Label>
+                <div className="flex gap-1">
+                  <Input
+                    id={`${idPrefix}-option-${key}`}
+                    value={text}
+                    onChange={(e) => onChange({ ...value, [optionField(key)]: e.target.value })}
+                    maxLength={500}
+                    required
+                  />
+                  {options.length > MIN_OPTIONS && (
+                    <Button type="button" variant="ghost" size="icon" onClick={() => onChange(removeOption(value, key))} title={`Remove option ${key}`}>
+                      <X className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+                <RichTextPreview content={text} inline />
+                <QuestionImageField
+                  value={image}
+                  onChange={(path) => onChange({ ...value, [optionImageField(key)]: path })}
+                  label="Add Image"
+                />
+              </div>
+            ))}
+          </div>
+          {options.length < MAX_OPTIONS && (
+            <Button type="button" variant="outline" size="sm" onClick={() => onChange(addOption(value))}>
+              <Plus className="w-4 h-4 mr-1" />Add Option
+            </Button>
+          )}
+        </div>
+      )}
+      <CorrectAnswerPicker value={value} onChange={handleAnswerChange} options={options} idPrefix={idPrefix} />
+      {value.question_type === "numeric" && (
+        <div className="space-y-3">
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor={`${idPrefix}-numeric-mode`}>Accept</Label>
+              <select
+                id={`${idPrefix}-numeric-mode`}
+                value={numericRange ? "range" : "exact"}
+                onChange={(e) => {
+                  setNumericRange(e.target.value === "range");
+                  onChange({ ...value, numeric_answer: null, numeric_tolerance: null, numeric_min: null, numeric_max: null });
+                }}
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              >
+                <option value="exact">A value, with optional tolerance</option>
+                <option value="range">Any value in a range</option>
+              </select>
+            </div>
+            <div>
+              <Label htmlFor={`${idPrefix}-unit`}>Unit (optional)</Label>
+              <Input
+                id={`${idPrefix}-unit`}
+                value={value.answer_unit ?? ""}
+                onChange={(e) => onChange({ ...value, answer_unit: e.target.value })}
+                placeholder="e.g. kg, m/s, %"
+                maxLength={20}
+              />
+            </div>
+          </div>
+          {numericRange ? (
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor={`${idPrefix}-min`}>Lowest Accepted</Label>
+                <Input
+                  id={`${idPrefix}-min`}
+                  type="number"
+                  step="any"
+                  value={value.numeric_min ?? ""}
+                  onChange={(e) => onChange({ ...value, numeric_min: toNumber(e.target.value) })}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor={`${idPrefix}-max`}>Highest Accepted</Label>
+                <Input
+                  id={`${idPrefix}-max`}
+                  type="number"
+                  step="any"
+                  value={value.numeric_max ?? ""}
+                  onChange={(e) => onChange({ ...value, numeric_max: toNumber(e.target.value) })}
+                  required
+                />
+              </div>
+            </div>
+          ) : (
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor={`${idPrefix}-numeric`}>Correct Value</Label>
+                <Input
+                  id={`${idPrefix}-numeric`}
+                  type="number"
+                  step="any"
+                  value={value.numeric_answer ?? ""}
+                  onChange={(e) => onChange({ ...value, numeric_answer: toNumber(e.target.value) })}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor={`${idPrefix}-tolerance`}>Tolerance (±)</Label>
+                <Input
+                  id={`${idPrefix}-tolerance`}
+                  type="number"
+                  step="any"
+                  min={0}
+                  value={value.numeric_tolerance ?? ""}
+                  onChange={(e) => onChange({ ...value, numeric_tolerance: toNumber(e.target.value) })}
+                  placeholder="0"
+                />
+              </div>
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground">Students may type the unit after the number; it is ignored when grading</p>
+        </div>
+      )}
+      {value.question_type === "short_text" && (
+        <div className="space-y-2">
+          <Label>Accepted Answers</Label>
+          {acceptedAnswers.map((answer, i) => (
+            <div key={i} className="flex gap-1">
+              <Input
+                value={answer}
+                onChange={(e) => setAcceptedAnswers(acceptedAnswers.map((a, j) => (j === i ? e.target.value : a)))}
+                placeholder={i === 0 ? "e.g. photosynthesis" : "Another accepted answer"}
+                maxLength={200}
+              />
+              {acceptedAnswers.length > 1 && (
+                <Button type="button" variant="ghost" size="icon" onClick={() => setAcceptedAnswers(acceptedAnswers.filter((_, j) => j !== i))} title="Remove answer">
+                  <X className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+          <div className="flex flex-wrap items-center gap-4">
+            <Button type="button" variant="outline" size="sm" onClick={() => setAcceptedAnswers([...acceptedAnswers, ""])}>
+              <Plus className="w-4 h-4 mr-1" />Add Accepted Answer
+            </Button>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`${idPrefix}-case`}
+                checked={value.case_sensitive}
+                onCheckedChange={(checked) => onChange({ ...value, case_sensitive: checked === true })}
+              />
+              <Label htmlFor={`${idPrefix}-case`}>Case sensitive</Label>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">Extra spaces in a student's answer are ignored when grading</p>
+        </div>
+      )}
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-explanation`}>Explanation (optional)</Label>
+        <Textarea
+          id={`${idPrefix}-explanation`}
+          value={value.explanation ?? ""}
+          onChange={(e) => onChange({ ...value, explanation: e.target.value })}
+          placeholder="Why the correct answer is right, shown to students after grading"
+          maxLength={4000}
+          rows={2}
+        />
+        <RichTextPreview content={value.explanation} />
+        <div className="grid md:grid-cols-2 gap-4">
+          <Input
+            aria-label="Reference"
+            value={value.reference_title ?? ""}
+            onChange={(e) => onChange({ ...value, reference_title: e.target.value })}
+            placeholder="Reference, e.g. Kisner & Colby, ch. 4 or a class material"
+            maxLength={200}
+          />
+          <Input
+            aria-label="Reference link"
+            type="url"
+            value={value.reference_url ?? ""}
+            onChange={(e) => onChange({ ...value, reference_url: e.target.value })}
+            placeholder="https://..."
+            maxLength={500}
+          />
+        </div>
+      </div>
+      <div className="grid md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor={`${idPrefix}-difficulty`}>Difficulty</Label>
+          <select
+            id={`${idPrefix}-difficulty`}
+            value={value.difficulty ?? ""}
+            onChange={(e) => onChange({ ...value, difficulty: (e.target.value || null) as Difficulty | null })}
+            className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+          >
+            <option value="">Not rated</option>
+            {DIFFICULTIES.map((d) => (<option key={d} value={d}>{DIFFICULTY_LABELS[d]}</option>))}
+          </select>
+        </div>
+      </div>
+      <QuestionTopicFields
+        value={value}
+        onChange={(topic) => onChange({ ...value, ...topic })}
+        subjectId={subjectId}
+        topics={topics}
+        idPrefix={idPrefix}
+      />
+    </div>
+  );
+};
+
+export default QuestionOptionsEditor;
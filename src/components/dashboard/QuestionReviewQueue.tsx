@@ -0,0 +1,158 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { Check, ClipboardCheck, X } from "lucide-react";
+import RichText from "@/components/assessment/RichText";
+import QuestionReviewStatus from "@/components/dashboard/QuestionReviewStatus";
+import { BankQuestion } from "@/components/dashboard/QuestionBankDuplicates";
+import { answerLetters, describeTypedAnswer, getOptions, isTypedQuestion } from "@/lib/questionTypes";
+import { reviewQuestions } from "@/lib/questionReview";
+import { Topic, topicPath } from "@/lib/topics";
+
+type QueuedQuestion = BankQuestion & {
+  status: string;
+  review_comment: string | null;
+  topic_id: string | null;
+  explanation: string | null;
+};
+
+interface QuestionReviewQueueProps {
+  // Subjects whose questions are reviewed here; every subject when not given
+  subjectIds?: string[];
+  // A subject lead's own questions are left for another lead or an admin
+  excludeAuthorId?: string;
+  topics: Topic[];
+  onReviewed: () => void;
+}
+
+// Submitted bank questions waiting for an admin or subject lead to approve
+// or reject them, one at a time or several with the same comment
+const QuestionReviewQueue = ({ subjectIds, excludeAuthorId, topics, onReviewed }: QuestionReviewQueueProps) => {
+  const [questions, setQuestions] = useState<QueuedQuestion[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [bulkComment, setBulkComment] = useState("");
+  const [saving, setSaving] = useState(false);
+  const subjectKey = subjectIds?.join("|");
+
+  const fetchQueue = async () => {
+    if (subjectIds && subjectIds.length === 0) { setQuestions([]); return; }
+    let query = supabase
+      .from("question_bank")
+      .select("*, subjects(name), profiles!question_bank_added_by_fkey(full_name)")
+      .eq("status", "submitted")
+      .order("created_at");
+    if (subjectIds) query = query.in("subject_id", subjectIds);
+    if (excludeAuthorId) query = query.neq("added_by", excludeAuthorId);
+    const { data, error } = await query;
+    if (error) { toast.error("Failed to load the review queue"); return; }
+    setQuestions(data || []);
+    setSelected(new Set());
+  };
+
+  useEffect(() => { fetchQueue(); }, [subjectKey, excludeAuthorId]);
+
+  const review = async (ids: string[], status: "approved" | "rejected", comment: string) => {
+    if (status === "rejected" && !comment.trim()) { toast.error("Add a comment saying why the question is rejected"); return; }
+    setSaving(true);
+    try {
+      await reviewQuestions(ids, status, comment);
+      toast.success(`${ids.length} question(s) ${status}`);
+      setComments((prev) => Object.fromEntries(Object.entries(prev).filter(([id]) => !ids.includes(id))));
+      setBulkComment("");
+      fetchQueue();
+      onReviewed();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save the review");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggle = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><ClipboardCheck className="w-5 h-5" />Review Queue</CardTitle>
+        <CardDescription>Questions submitted for the bank. Approved questions become available to students and assessment builders.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {questions.length === 0 ? (
+          <p className="text-muted-foreground">No questions are waiting for review.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-end gap-2 p-3 bg-muted rounded-lg">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setSelected(selected.size === questions.length ? new Set() : new Set(questions.map((q) => q.id)))}
+              >
+                {selected.size === questions.length ? "Deselect All" : "Select All"}
+              </Button>
+              <Textarea
+                value={bulkComment}
+                onChange={(e) => setBulkComment(e.target.value)}
+                placeholder="Comment for the selected questions"
+                className="flex-1 min-w-[200px] min-h-[40px]"
+              />
+              <Button size="sm" onClick={() => review([...selected], "approved", bulkComment)} disabled={saving || selected.size === 0}>
+                <Check className="w-4 h-4 mr-1" />Approve {selected.size || ""}
+              </Button>
+              <Button size="sm" variant="destructive" onClick={() => review([...selected], "rejected", bulkComment)} disabled={saving || selected.size === 0}>
+                <X className="w-4 h-4 mr-1" />Reject {selected.size || ""}
+              </Button>
+            </div>
+
+            {questions.map((q) => (
+              <div key={q.id} className="flex items-start gap-3 p-4 border rounded-lg">
+                <Checkbox checked={selected.has(q.id)} onCheckedChange={() => toggle(q.id)} className="mt-1" />
+                <div className="flex-1 min-w-0 space-y-2">
+                  <p className="text-xs text-muted-foreground">
+                    {q.subjects?.name}{q.topic_id && ` → ${topicPath(topics, q.topic_id)}`} • By {q.profiles?.full_name || "Unknown"}
+                  </p>
+                  <RichText content={q.question_text} className="font-medium" />
+                  <div className="grid grid-cols-2 gap-1 text-sm">
+                    {getOptions(q).map((o) => (
+                      <p key={o.key} className={answerLetters(q.correct_answer).includes(o.key) ? "text-green-600 font-semibold" : ""}>{o.key}: <RichText content={o.text} inline /></p>
+                    ))}
+                    {isTypedQuestion(q.question_type) && <p className="col-span-2 text-green-600 font-semibold">Answer: {describeTypedAnswer({ ...q, question_type: q.question_type! })}</p>}
+                  </div>
+                  {q.explanation && <p className="text-xs text-muted-foreground">Explanation: {q.explanation}</p>}
+                  <QuestionReviewStatus question={q} />
+                  <div className="flex flex-wrap items-end gap-2">
+                    <Textarea
+                      value={comments[q.id] || ""}
+                      onChange={(e) => setComments({ ...comments, [q.id]: e.target.value })}
+                      placeholder="Comment for the author (required to reject)"
+                      className="flex-1 min-w-[200px] min-h-[40px]"
+                    />
+                    <Button size="sm" onClick={() => review([q.id], "approved", comments[q.id] || "")} disabled={saving}>
+                      <Check className="w-4 h-4 mr-1" />Approve
+                    </Button>
+                    <Button size="sm" variant="destructive" onClick={() => review([q.id], "rejected", comments[q.id] || "")} disabled={saving}>
+                      <X className="w-4 h-4 mr-1" />Reject
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default QuestionReviewQueue;
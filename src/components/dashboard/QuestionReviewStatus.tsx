@@ -0,0 +1,78 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import {
+  QuestionReview,
+  REVIEW_STATUS_BADGE_CLASSES,
+  REVIEW_STATUS_LABELS,
+  ReviewStatus,
+  fetchQuestionReviews,
+} from "@/lib/questionReview";
+
+interface QuestionReviewStatusProps {
+  question: { id: string; status: string; review_comment: string | null };
+}
+
+// How each entry of the review history reads
+const REVIEW_EVENT_LABELS: Record<ReviewStatus, string> = {
+  draft: "Returned to draft",
+  submitted: "Submitted",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+export const ReviewStatusBadge = ({ status }: { status: string }) => (
+  <Badge variant="outline" className={cn("border-transparent", REVIEW_STATUS_BADGE_CLASSES[status as ReviewStatus])}>
+    {REVIEW_STATUS_LABELS[status as ReviewStatus] ?? status}
+  </Badge>
+);
+
+// A bank question's review status, the reviewer's latest comment and, on
+// request, every submission and decision so far
+const QuestionReviewStatus = ({ question }: QuestionReviewStatusProps) => {
+  const [reviews, setReviews] = useState<QuestionReview[] | null>(null);
+
+  const toggleHistory = async () => {
+    if (reviews) { setReviews(null); return; }
+    try {
+      setReviews(await fetchQuestionReviews(question.id));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to load the question's reviews");
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <ReviewStatusBadge status={question.status} />
+        <Button type="button" variant="link" size="sm" className="h-auto p-0 text-xs" onClick={toggleHistory}>
+          {reviews ? "Hide reviews" : "Reviews"}
+        </Button>
+      </div>
+      {question.review_comment && (
+        <p className={cn("text-xs", question.status === "rejected" ? "text-destructive" : "text-muted-foreground")}>
+          Reviewer: {question.review_comment}
+        </p>
+      )}
+      {reviews && (
+        reviews.length === 0 ? (
+          <p className="text-xs text-muted-foreground">Not yet submitted for review.</p>
+        ) : (
+          <ul className="text-xs space-y-0.5 border-l pl-2">
+            {reviews.map((r) => (
+              <li key={r.id}>
+                <span className="font-medium">{REVIEW_EVENT_LABELS[r.status]}</span>
+                {" "}by {r.reviewer || "Unknown"}, {new Date(r.created_at).toLocaleString()}
+                {r.comment && <span className="text-muted-foreground">: {r.comment}</span>}
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+};
+
+export default QuestionReviewStatus;
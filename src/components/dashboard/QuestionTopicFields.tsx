@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { X } from "lucide-react";
+import TopicSelect from "@/components/dashboard/TopicSelect";
+import { QuestionTopic, Topic, cleanTags } from "@/lib/topics";
+
+interface QuestionTopicFieldsProps {
+  value: QuestionTopic;
+  onChange: (value: QuestionTopic) => void;
+  // The question's subject and its topics; without a subject only tags can be set
+  subjectId?: string;
+  topics: Topic[];
+  idPrefix: string;
+}
+
+// The topic a question is filed under and its free-form tags. Tags are
+// added with Enter or a comma and removed from their chips.
+const QuestionTopicFields = ({ value, onChange, subjectId, topics, idPrefix }: QuestionTopicFieldsProps) => {
+  const [draft, setDraft] = useState("");
+  const subjectTopics = topics.filter((t) => t.subject_id === subjectId);
+
+  const addTags = (text: string) => {
+    const tags = cleanTags([...value.tags, ...text.split(",")]);
+    if (tags.length !== value.tags.length) onChange({ ...value, tags });
+    setDraft("");
+  };
+
+  return (
+    <div className="grid md:grid-cols-2 gap-4">
+      <div>
+        <Label htmlFor={`${idPrefix}-topic`}>Topic</Label>
+        {!subjectId ? (
+          <p className="text-sm text-muted-foreground py-2">Select a subject to choose a topic</p>
+        ) : subjectTopics.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-2">No topics for this subject yet</p>
+        ) : (
+          <TopicSelect
+            id={`${idPrefix}-topic`}
+            topics={subjectTopics}
+            subjectId={subjectId}
+            value={value.topic_id}
+            onChange={(topicId) => onChange({ ...value, topic_id: topicId })}
+            emptyLabel="No topic"
+          />
+        )}
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-tags`}>Tags (optional)</Label>
+        <Input
+          id={`${idPrefix}-tags`}
+          value={draft}
+          onChange={(e) => (e.target.value.includes(",") ? addTags(e.target.value) : setDraft(e.target.value))}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              addTags(draft);
+            }
+          }}
+          onBlur={() => draft.trim() && addTags(draft)}
+          placeholder="e.g. sports injury, revision"
+          maxLength={50}
+        />
+        {value.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-2">
+            {value.tags.map((tag) => (
+              <Badge key={tag} variant="secondary" className="gap-1">
+                {tag}
+                <button
+                  type="button"
+                  onClick={() => onChange({ ...value, tags: value.tags.filter((t) => t !== tag) })}
+                  aria-label={`Remove tag ${tag}`}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuestionTopicFields;
@@ -0,0 +1,52 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { Download } from "lucide-react";
+import QuizFileWarnings from "@/components/dashboard/QuizFileWarnings";
+import { ExportableQuestion, QUIZ_FORMATS, QUIZ_FORMAT_LABELS, QuizFormat, downloadQuizFile, exportQuestions } from "@/lib/quizFormats";
+
+interface QuizExportProps {
+  questions: ExportableQuestion[];
+  // File name without extension, e.g. the assessment title
+  fileName: string;
+  idPrefix: string;
+}
+
+// Downloads the questions as an Aiken, GIFT or Moodle XML file and lists
+// anything the format couldn't hold
+const QuizExport = ({ questions, fileName, idPrefix }: QuizExportProps) => {
+  const [format, setFormat] = useState<QuizFormat>("moodle_xml");
+  const [warnings, setWarnings] = useState<string[]>([]);
+
+  const handleExport = () => {
+    if (questions.length === 0) { toast.error("There are no questions to export"); return; }
+    const { content, warnings } = exportQuestions(questions, format);
+    setWarnings(warnings);
+    if (!content.trim()) { toast.error(`None of these questions can be written as ${QUIZ_FORMAT_LABELS[format]}`); return; }
+    downloadQuizFile(content, format, fileName);
+    toast.success(warnings.length > 0 ? "Exported; some content wasn't supported by the format" : `Exported ${questions.length} question(s)`);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-end gap-2">
+        <div>
+          <Label htmlFor={`${idPrefix}-export-format`}>Export Format</Label>
+          <select
+            id={`${idPrefix}-export-format`}
+            value={format}
+            onChange={(e) => { setFormat(e.target.value as QuizFormat); setWarnings([]); }}
+            className="flex h-10 w-48 rounded-md border border-input bg-background px-3 py-2 text-sm"
+          >
+            {QUIZ_FORMATS.map((f) => (<option key={f} value={f}>{QUIZ_FORMAT_LABELS[f]}</option>))}
+          </select>
+        </div>
+        <Button type="button" variant="outline" onClick={handleExport}><Download className="w-4 h-4 mr-2" />Export</Button>
+      </div>
+      <QuizFileWarnings title="Not everything could be exported" warnings={warnings} />
+    </div>
+  );
+};
+
+export default QuizExport;
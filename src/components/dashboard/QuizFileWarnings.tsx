@@ -0,0 +1,23 @@
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertTriangle } from "lucide-react";
+
+interface QuizFileWarningsProps {
+  title: string;
+  warnings: string[];
+}
+
+// What an import or export couldn't carry across, one line per construct
+const QuizFileWarnings = ({ title, warnings }: QuizFileWarningsProps) =>
+  warnings.length === 0 ? null : (
+    <Alert>
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>{title}</AlertTitle>
+      <AlertDescription>
+        <ul className="list-disc pl-4 text-sm space-y-0.5">
+          {warnings.map((warning) => (<li key={warning}>{warning}</li>))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+
+export default QuizFileWarnings;
@@ -0,0 +1,286 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import RichText from "@/components/assessment/RichText";
+import { QuestionOptions, TypedAnswer, answerLetters, describeTypedAnswer, getOptions, isTypedQuestion, toggleAnswerLetter } from "@/lib/questionTypes";
+import { REGRADE_ACTION_LABELS, RegradeAction, RegradeRequest, RegradeResult, regradeQuestion, scoreChanged } from "@/lib/regrade";
+
+export interface RegradableQuestion extends QuestionOptions, Partial<TypedAnswer> {
+  id: string;
+  question_text: string;
+  question_type: string;
+  correct_answer: string | null;
+  accepted_options?: string[] | null;
+  voided?: boolean;
+}
+
+interface RegradeQuestionProps {
+  // The question being regraded, or null when closed
+  question: RegradableQuestion | null;
+  onOpenChange: (open: boolean) => void;
+  onRegraded: () => void;
+}
+
+const selectClassName = "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm";
+
+const SummaryTile = ({ label, value }: { label: string; value: number }) => (
+  <div className="bg-muted p-3 rounded-lg text-center">
+    <p className="text-xs text-muted-foreground">{label}</p>
+    <p className="text-xl font-bold">{value}</p>
+  </div>
+);
+
+// Regrades every submitted attempt and mock exam result that included a
+// question after its key is corrected, with a before/after preview first
+const RegradeQuestion = ({ question, onOpenChange, onRegraded }: RegradeQuestionProps) => {
+  const [action, setAction] = useState<RegradeAction>("key");
+  const [correctAnswer, setCorrectAnswer] = useState("");
+  const [accepted, setAccepted] = useState<string[]>([]);
+  const [clearCorrections, setClearCorrections] = useState(false);
+  const [notify, setNotify] = useState(false);
+  const [result, setResult] = useState<RegradeResult | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    setAction("key");
+    setCorrectAnswer(question?.correct_answer || "");
+    setAccepted(question?.accepted_options || []);
+    setClearCorrections(false);
+    setNotify(false);
+    setResult(null);
+  }, [question]);
+
+  if (!question) return null;
+
+  const options = getOptions(question);
+  const isTyped = isTypedQuestion(question.question_type);
+  const isSingleAnswer = question.question_type === "single" || question.question_type === "true_false";
+  const hasCorrections = !!question.voided || (question.accepted_options?.length || 0) > 0;
+  const optionLabel = (key: string, text: string) => (question.question_type === "true_false" ? text : key);
+
+  // Any change to the choices makes the preview stale
+  const edit = <T,>(set: (value: T) => void) => (value: T) => { set(value); setResult(null); };
+
+  const request = (): RegradeRequest => ({
+    question_id: question.id,
+    action,
+    ...(action === "key" && !isTyped && { correct_answer: correctAnswer }),
+    ...(action === "key" && clearCorrections && { clear_corrections: true }),
+    ...(action === "accept" && { accepted_options: accepted }),
+    notify,
+  });
+
+  const validationError = () => {
+    if (action === "key" && !isTyped && !correctAnswer) return "Choose the correct answer";
+    if (action === "accept" && accepted.length === 0) return "Choose at least one other option to accept";
+    return null;
+  };
+
+  const run = async (apply: boolean) => {
+    const error = validationError();
+    if (error) { toast.error(error); return; }
+    if (apply && !window.confirm("Apply this regrade? Scores and results of every affected attempt will be updated.")) return;
+    setBusy(true);
+    try {
+      const outcome = await regradeQuestion(request(), apply);
+      setResult(outcome);
+      if (apply) {
+        toast.success(
+          `Regraded ${outcome.summary.attempts + outcome.summary.mock_results} result(s)` +
+          (notify ? `, notified ${outcome.notified || 0} student(s)` : "")
+        );
+        onRegraded();
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to regrade the question");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const changed = result?.changes.filter(scoreChanged) ?? [];
+
+  return (
+    <Dialog open={!!question} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Regrade Question</DialogTitle>
+          <DialogDescription>Recalculate every submitted attempt and mock exam result that included this question</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="p-3 border rounded-lg text-sm">
+            <div className="flex items-center gap-2 mb-1">
+              {question.voided && <Badge variant="destructive">Voided</Badge>}
+              {(question.accepted_options?.length || 0) > 0 && (
+                <Badge variant="secondary">Also accepts {question.accepted_options!.join(", ")}</Badge>
+              )}
+            </div>
+            <RichText content={question.question_text} />
+            <div className="grid grid-cols-2 gap-1 text-xs mt-1">
+              {options.map((o) => (
+                <p key={o.key} className={answerLetters(question.correct_answer).includes(o.key) ? "text-green-600 font-semibold" : ""}>
+                  {o.key}: <RichText content={o.text} inline />
+                </p>
+              ))}
+              {isTyped && <p className="col-span-2 text-green-600 font-semibold">Answer: {describeTypedAnswer(question)}</p>}
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="regrade-action">Regrade By</Label>
+            <select
+              id="regrade-action"
+              value={action}
+              onChange={(e) => edit(setAction)(e.target.value as RegradeAction)}
+              className={selectClassName}
+            >
+              {(Object.keys(REGRADE_ACTION_LABELS) as RegradeAction[]).map((a) => (
+                <option key={a} value={a} disabled={a === "accept" && !isSingleAnswer}>{REGRADE_ACTION_LABELS[a]}</option>
+              ))}
+            </select>
+          </div>
+
+          {action === "key" && (isTyped ? (
+            <p className="text-sm text-muted-foreground">
+              Answers are regraded against the question's saved answer. Edit the question first if that answer is wrong.
+            </p>
+          ) : question.question_type === "multiple" ? (
+            <div>
+              <Label>Correct Answers</Label>
+              <div className="flex flex-wrap gap-4 mt-1">
+                {options.map(({ key }) => (
+                  <div key={key} className="flex items-center gap-1">
+                    <Checkbox
+                      id={`regrade-key-${key}`}
+                      checked={answerLetters(correctAnswer).includes(key)}
+                      onCheckedChange={() => edit(setCorrectAnswer)(toggleAnswerLetter(correctAnswer, key))}
+                    />
+                    <Label htmlFor={`regrade-key-${key}`}>{key}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <div>
+              <Label>Correct Answer</Label>
+              <RadioGroup value={correctAnswer} onValueChange={edit(setCorrectAnswer)} className="flex flex-wrap gap-4 mt-1">
+                {options.map(({ key, text }) => (
+                  <div key={key} className="flex items-center gap-1">
+                    <RadioGroupItem value={key} id={`regrade-key-${key}`} />
+                    <Label htmlFor={`regrade-key-${key}`}>{optionLabel(key, text)}</Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+          ))}
+
+          {action === "key" && hasCorrections && (
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <Checkbox checked={clearCorrections} onCheckedChange={(v) => edit(setClearCorrections)(v === true)} />
+              Clear the earlier void and accepted options
+            </label>
+          )}
+
+          {action === "accept" && (
+            <div>
+              <Label>Also Accept</Label>
+              <div className="flex flex-wrap gap-4 mt-1">
+                {options.filter((o) => o.key !== question.correct_answer).map(({ key, text }) => (
+                  <div key={key} className="flex items-center gap-1">
+                    <Checkbox
+                      id={`regrade-accept-${key}`}
+                      checked={accepted.includes(key)}
+                      onCheckedChange={() => edit(setAccepted)(accepted.includes(key) ? accepted.filter((k) => k !== key) : [...accepted, key].sort())}
+                    />
+                    <Label htmlFor={`regrade-accept-${key}`}>{optionLabel(key, text)}</Label>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">Students who chose any of these get full marks, as do those who chose the key</p>
+            </div>
+          )}
+
+          {action === "void" && (
+            <p className="text-sm text-muted-foreground">
+              The question is left out of every total. Answers to it neither earn nor lose marks.
+            </p>
+          )}
+
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <Checkbox checked={notify} onCheckedChange={(v) => setNotify(v === true)} />
+            Email students whose score changes
+          </label>
+
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => run(false)} disabled={busy}>{busy && !result ? "Calculating..." : "Preview"}</Button>
+            <Button onClick={() => run(true)} disabled={busy || !result || result.applied}>
+              {result?.applied ? "Regraded" : busy && result ? "Applying..." : "Apply Regrade"}
+            </Button>
+          </div>
+
+          {result && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+                <SummaryTile label="Attempts" value={result.summary.attempts} />
+                <SummaryTile label="Mock Results" value={result.summary.mock_results} />
+                <SummaryTile label="Raised" value={result.summary.raised} />
+                <SummaryTile label="Lowered" value={result.summary.lowered} />
+                <SummaryTile label="Now Passing" value={result.summary.newly_passed} />
+                <SummaryTile label="Now Failing" value={result.summary.newly_failed} />
+              </div>
+              {result.summary.unrecorded_mock_results > 0 && (
+                <Alert>
+                  <AlertDescription>
+                    {result.summary.unrecorded_mock_results} mock exam result(s) were submitted before answers were recorded per question and can't be regraded.
+                  </AlertDescription>
+                </Alert>
+              )}
+              {changed.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No scores change.</p>
+              ) : (
+                <div className="rounded-md border overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Student</TableHead>
+                        <TableHead>Result</TableHead>
+                        <TableHead>Before</TableHead>
+                        <TableHead>After</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {changed.map((c, i) => (
+                        <TableRow key={`${c.kind}-${c.student_id}-${i}`}>
+                          <TableCell>{c.student_name}</TableCell>
+                          <TableCell>{c.kind === "mock" ? "Mock exam" : "Assessment"}</TableCell>
+                          <TableCell>
+                            {c.before_score}/{c.before_max}
+                            {c.passed_before !== null && <span className="text-muted-foreground"> ({c.passed_before ? "passed" : "failed"})</span>}
+                          </TableCell>
+                          <TableCell className="font-medium">
+                            {c.after_score}/{c.after_max}
+                            {c.passed_after !== null && <span className="text-muted-foreground"> ({c.passed_after ? "passed" : "failed"})</span>}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RegradeQuestion;
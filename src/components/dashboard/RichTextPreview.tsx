@@ -0,0 +1,24 @@
+import RichText from "@/components/assessment/RichText";
+
+interface RichTextPreviewProps {
+  content: string | null | undefined;
+  inline?: boolean;
+}
+
+// Markdown or math syntax: emphasis, code, math, headings, tables, quotes,
+// links and list markers at the start of a line
+const FORMATTING_PATTERN = /[*_`$#|>\\[\]~]|^\s*([-+]|\d+\.)\s/m;
+
+// Live preview under an authoring field, shown once the text uses formatting
+const RichTextPreview = ({ content, inline = false }: RichTextPreviewProps) => {
+  if (!content || !FORMATTING_PATTERN.test(content)) return null;
+
+  return (
+    <div className="mt-1 rounded-md border border-dashed bg-muted/30 px-3 py-2 text-sm">
+      <p className="text-xs text-muted-foreground mb-1">Preview</p>
+      <RichText content={content} inline={inline} />
+    </div>
+  );
+};
+
+export default RichTextPreview;
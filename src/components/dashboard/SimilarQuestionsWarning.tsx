@@ -0,0 +1,44 @@
+import { useMemo } from "react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertTriangle } from "lucide-react";
+import { DuplicateCandidate, PooledQuestion, findSimilarQuestions, similarityPercent } from "@/lib/questionDuplicates";
+
+interface SimilarQuestionsWarningProps {
+  question: DuplicateCandidate;
+  pool: PooledQuestion[];
+  // Saved questions that are this question itself or its source
+  excludeIds?: (string | null | undefined)[];
+}
+
+const MAX_SHOWN = 3;
+
+// Warns while a question is written that the bank or an assessment already
+// has one much like it
+const SimilarQuestionsWarning = ({ question, pool, excludeIds = [] }: SimilarQuestionsWarningProps) => {
+  const excluded = excludeIds.filter(Boolean).join("|");
+  const matches = useMemo(
+    () => findSimilarQuestions(question, pool.filter((q) => !excluded.split("|").includes(q.id))),
+    [question, pool, excluded]
+  );
+
+  if (matches.length === 0) return null;
+
+  return (
+    <Alert className="border-amber-500 text-amber-700 dark:text-amber-400">
+      <AlertTriangle className="h-4 w-4 !text-amber-600" />
+      <AlertDescription>
+        <p className="font-medium">This looks like {matches.length === 1 ? "an existing question" : `${matches.length} existing questions`}:</p>
+        <ul className="mt-1 space-y-0.5 text-xs">
+          {matches.slice(0, MAX_SHOWN).map(({ question: match, similarity }) => (
+            <li key={match.id} className="truncate">
+              {similarityPercent(similarity)} alike, {match.label}: {match.question_text}
+            </li>
+          ))}
+          {matches.length > MAX_SHOWN && <li>and {matches.length - MAX_SHOWN} more</li>}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default SimilarQuestionsWarning;
@@ -0,0 +1,49 @@
+import { Label } from "@/components/ui/label";
+import TopicSelect from "@/components/dashboard/TopicSelect";
+import { Topic } from "@/lib/topics";
+
+interface TopicFiltersProps {
+  topics: Topic[];
+  // Topics belong to a subject, so the topic filter needs one picked first
+  subjectId: string | null;
+  tags: string[];
+  topicId: string | null;
+  tag: string | null;
+  onChange: (filters: { topicId: string | null; tag: string | null }) => void;
+}
+
+// Topic and tag filters shown beside a subject filter
+const TopicFilters = ({ topics, subjectId, tags, topicId, tag, onChange }: TopicFiltersProps) => (
+  <>
+    {subjectId && (
+      <div>
+        <Label htmlFor="filter-topic">Filter by Topic</Label>
+        <TopicSelect
+          id="filter-topic"
+          topics={topics}
+          subjectId={subjectId}
+          value={topicId}
+          onChange={(value) => onChange({ topicId: value, tag })}
+          emptyLabel="All topics"
+          className="w-64"
+        />
+      </div>
+    )}
+    {tags.length > 0 && (
+      <div>
+        <Label htmlFor="filter-tag">Filter by Tag</Label>
+        <select
+          id="filter-tag"
+          value={tag ?? ""}
+          onChange={(e) => onChange({ topicId, tag: e.target.value || null })}
+          className="flex h-10 w-64 rounded-md border border-input bg-background px-3 py-2 text-sm"
+        >
+          <option value="">All tags</option>
+          {tags.map((t) => (<option key={t} value={t}>{t}</option>))}
+        </select>
+      </div>
+    )}
+  </>
+);
+
+export default TopicFilters;
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { Check, FolderTree, Pencil, Plus, Trash2, X } from "lucide-react";
+import TopicSelect from "@/components/dashboard/TopicSelect";
+import { useTopics } from "@/hooks/useTopics";
+import { topicOutline, topicSubtreeIds } from "@/lib/topics";
+
+interface TopicManagerProps {
+  subjects: { id: string; name: string }[];
+  // Only admins delete topics; teachers add and rename them
+  canDelete: boolean;
+  // Lets a screen showing topics elsewhere reload them after a change
+  onTopicsChange?: () => void;
+}
+
+const topicErrorMessage = (error: { code?: string; message: string }) =>
+  error.code === "23505" ? "A topic with that name already exists there" : error.message;
+
+// Builds each subject's topic tree, e.g. Musculoskeletal → Knee → ACL
+const TopicManager = ({ subjects, canDelete, onTopicsChange }: TopicManagerProps) => {
+  const [subjectId, setSubjectId] = useState("");
+  const [name, setName] = useState("");
+  const [parentId, setParentId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+  const { topics, refresh } = useTopics(subjectId ? [subjectId] : []);
+
+  const reload = () => {
+    refresh();
+    onTopicsChange?.();
+  };
+
+  const outline = subjectId ? topicOutline(topics, subjectId) : [];
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!subjectId) { toast.error("Please select a subject"); return; }
+    if (!name.trim()) { toast.error("Topic name is required"); return; }
+    const user = (await supabase.auth.getUser()).data.user;
+    const { error } = await supabase.from("topics").insert({
+      subject_id: subjectId,
+      parent_id: parentId,
+      name: name.trim(),
+      created_by: user?.id ?? null,
+    });
+    if (error) { toast.error(topicErrorMessage(error)); return; }
+    toast.success("Topic added");
+    setName("");
+    reload();
+  };
+
+  const handleRename = async () => {
+    if (!editingId || !editName.trim()) { toast.error("Topic name is required"); return; }
+    const { error } = await supabase.from("topics").update({ name: editName.trim() }).eq("id", editingId);
+    if (error) { toast.error(topicErrorMessage(error)); return; }
+    toast.success("Topic renamed");
+    setEditingId(null);
+    reload();
+  };
+
+  const handleDelete = async (id: string, topicName: string) => {
+    const subtopics = topicSubtreeIds(topics, id).length - 1;
+    const message = subtopics > 0
+      ? `Delete "${topicName}" and its ${subtopics} subtopic(s)? Questions filed under them will have no topic.`
+      : `Delete "${topicName}"? Questions filed under it will have no topic.`;
+    if (!window.confirm(message)) return;
+    const { error } = await supabase.from("topics").delete().eq("id", id);
+    if (error) { toast.error(error.message); return; }
+    toast.success("Topic deleted");
+    if (parentId && topicSubtreeIds(topics, id).includes(parentId)) setParentId(null);
+    reload();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><FolderTree className="w-5 h-5" />Topics</CardTitle>
+        <CardDescription>Organise each subject into topics and subtopics for tagging questions and reporting scores</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid md:grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="topic-subject">Subject</Label>
+            <select
+              id="topic-subject"
+              value={subjectId}
+              onChange={(e) => { setSubjectId(e.target.value); setParentId(null); setEditingId(null); }}
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+            >
+              <option value="">Select subject</option>
+              {subjects.map((s) => (<option key={s.id} value={s.id}>{s.name}</option>))}
+            </select>
+          </div>
+          {subjectId && (
+            <form onSubmit={handleAdd} className="md:col-span-2 grid md:grid-cols-2 gap-4 items-end">
+              <div>
+                <Label htmlFor="topic-parent">Under</Label>
+                <TopicSelect id="topic-parent" topics={topics} subjectId={subjectId} value={parentId} onChange={setParentId} emptyLabel="Top level" />
+              </div>
+              <div className="flex gap-2">
+                <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Knee" maxLength={100} aria-label="Topic name" />
+                <Button type="submit"><Plus className="w-4 h-4 mr-1" />Add</Button>
+              </div>
+            </form>
+          )}
+        </div>
+
+        {subjectId && (outline.length === 0 ? (
+          <p className="text-muted-foreground">No topics for this subject yet.</p>
+        ) : (
+          <div className="space-y-1">
+            {outline.map(({ topic, depth }) => (
+              <div key={topic.id} className="flex items-center justify-between gap-2 py-1 border-b last:border-b-0" style={{ paddingLeft: `${depth * 1.5}rem` }}>
+                {editingId === topic.id ? (
+                  <div className="flex-1 flex items-center gap-2">
+                    <Input value={editName} onChange={(e) => setEditName(e.target.value)} maxLength={100} className="max-w-[250px]" />
+                    <Button size="sm" variant="ghost" onClick={handleRename}><Check className="w-4 h-4 text-green-600" /></Button>
+                    <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}><X className="w-4 h-4 text-red-600" /></Button>
+                  </div>
+                ) : (
+                  <>
+                    <span className={depth === 0 ? "font-medium" : ""}>{topic.name}</span>
+                    <div className="flex gap-1">
+                      <Button size="sm" variant="ghost" onClick={() => setParentId(topic.id)} title="Add a subtopic here"><Plus className="w-4 h-4" /></Button>
+                      <Button size="sm" variant="ghost" onClick={() => { setEditingId(topic.id); setEditName(topic.name); }} title="Rename"><Pencil className="w-4 h-4" /></Button>
+                      {canDelete && (
+                        <Button size="sm" variant="ghost" onClick={() => handleDelete(topic.id, topic.name)} title="Delete"><Trash2 className="w-4 h-4 text-destructive" /></Button>
+                      )}
+                    </div>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TopicManager;
@@ -0,0 +1,37 @@
+import { Topic, topicOutline } from "@/lib/topics";
+import { cn } from "@/lib/utils";
+
+interface TopicSelectProps {
+  topics: Topic[];
+  subjectId: string;
+  value: string | null;
+  onChange: (topicId: string | null) => void;
+  // Label of the empty choice, e.g. "No topic" or "All topics"
+  emptyLabel: string;
+  id?: string;
+  className?: string;
+}
+
+// Option text collapses ordinary spaces, so subtopics indent with no-break spaces
+const INDENT = "\u00a0\u00a0\u00a0\u00a0";
+
+// A subject's topics as one indented list, subtopics under their parents.
+// Native select, like the other selects used inside forms and tab panels.
+const TopicSelect = ({ topics, subjectId, value, onChange, emptyLabel, id, className }: TopicSelectProps) => (
+  <select
+    id={id}
+    value={value ?? ""}
+    onChange={(e) => onChange(e.target.value || null)}
+    className={cn("flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm", className)}
+  >
+    <option value="">{emptyLabel}</option>
+    {topicOutline(topics, subjectId).map(({ topic, depth }) => (
+      <option key={topic.id} value={topic.id}>
+        {"   ".repeat(depth)}
+        {topic.name}
+      </option>
+    ))}
+  </select>
+);
+
+export default TopicSelect;
@@ -3,6 +3,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -10,14 +11,15 @@ import { toast } from "sonner";
 import { Plus, Trash2 } from "lucide-react";
 import { notifyUserAction } from "@/lib/emailNotifications";
 import { User } from "@supabase/supabase-js";
-
-interface Question {
+import { DEFAULT_PROCTORING_POLICY, toProctoringPolicy } from "@/lib/proctoring";
+import ProctoringSettings from "@/components/dashboard/ProctoringSettings";
+import QuestionOptionsEditor, { QuestionOptionsValue } from "@/components/dashboard/QuestionOptionsEditor";
+import RichTextPreview from "@/components/dashboard/RichTextPreview";
+import { useTopics } from "@/hooks/useTopics";
+import { answerKeyError, emptyQuestionOptions, hasBlankOption, questionAnswerFields, trimOptions } from "@/lib/questionTypes";
+
+interface Question extends QuestionOptionsValue {
   question_text: string;
-  option_a: string;
-  option_b: string;
-  option_c: string;
-  option_d: string;
-  correct_answer: string;
 }
 
 interface Subject {
@@ -42,6 +44,7 @@ const CreateMockExam = () => {
     marks_per_question: 1,
     is_active: true,
     class_id: "",
+    ...DEFAULT_PROCTORING_POLICY,
   });
 
   const [availableSubjects, setAvailableSubjects] = useState<Subject[]>([]);
@@ -50,6 +53,7 @@ const CreateMockExam = () => {
   const [subjects, setSubjects] = useState<SubjectData[]>([]);
   const [user, setUser] = useState<User | null>(null);
   const [isAdmin, setIsAdmin] = useState(false);
+  const { topics } = useTopics(selectedSubjectIds);
 
   useEffect(() => {
     const getUser = async () => {
@@ -98,7 +102,7 @@ const CreateMockExam = () => {
     setSubjects(selected.map(sub => ({
       subjectId: sub.id,
       subject: sub.name,
-      questions: [{ question_text: "", option_a: "", option_b: "", option_c: "", option_d: "", correct_answer: "A" }]
+      questions: [{ question_text: "", ...emptyQuestionOptions() }]
     })));
   }, [selectedSubjectIds, availableSubjects]);
 
@@ -114,14 +118,7 @@ const CreateMockExam = () => {
 
   const addQuestion = (subjectIndex: number) => {
     const updatedSubjects = [...subjects];
-    updatedSubjects[subjectIndex].questions.push({
-      question_text: "",
-      option_a: "",
-      option_b: "",
-      option_c: "",
-      option_d: "",
-      correct_answer: "A",
-    });
+    updatedSubjects[subjectIndex].questions.push({ question_text: "", ...emptyQuestionOptions() });
     setSubjects(updatedSubjects);
   };
 
@@ -161,10 +158,15 @@ const CreateMockExam = () => {
     }
 
     for (const subj of subjects) {
-      if (subj.questions.length === 0 || subj.questions.some(q => !q.question_text || !q.option_a || !q.option_b || !q.option_c || !q.option_d)) {
+      if (subj.questions.length === 0 || subj.questions.some(q => !q.question_text || hasBlankOption(q))) {
         toast.error(`Please fill in all fields for ${subj.subject}`);
         return;
       }
+      const keyError = subj.questions.map(answerKeyError).find(Boolean);
+      if (keyError) {
+        toast.error(`${subj.subject}: ${keyError}`);
+        return;
+      }
     }
 
     try {
@@ -181,6 +183,7 @@ const CreateMockExam = () => {
           marks_per_question: formData.marks_per_question,
           is_active: formData.is_active,
           class_id: formData.class_id,
+          ...toProctoringPolicy(formData),
           created_by: user.id,
         })
         .select()
@@ -225,7 +228,7 @@ const CreateMockExam = () => {
         if (assessError) throw assessError;
 
         // Insert questions
-        const questionsWithId = subj.questions.map(q => ({ ...q, assessment_id: assessment.id }));
+        const questionsWithId = subj.questions.map(q => ({ question_text: q.question_text, ...questionAnswerFields(q), ...trimOptions(q), assessment_id: assessment.id }));
         const { error: qError } = await supabase.from("questions").insert(questionsWithId);
         if (qError) throw qError;
       }
@@ -260,6 +263,7 @@ const CreateMockExam = () => {
         marks_per_question: 1,
         is_active: true,
         class_id: "",
+        ...DEFAULT_PROCTORING_POLICY,
       });
       setSelectedSubjectIds([]);
       setSubjects([]);
@@ -379,6 +383,8 @@ const CreateMockExam = () => {
               </select>
             </div>
 
+            <ProctoringSettings value={formData} onChange={(policy) => setFormData({ ...formData, ...policy })} />
+
             <div>
               <Label className="text-base font-semibold">
                 Select 4 Subjects ({selectedSubjectIds.length}/4 selected)
@@ -433,27 +439,20 @@ const CreateMockExam = () => {
                             </div>
                             <div>
                               <Label>Question Text</Label>
-                              <Input value={question.question_text} onChange={(e) => updateQuestion(subjIndex, qIndex, "question_text", e.target.value)} required />
-                            </div>
-                            <div className="grid md:grid-cols-2 gap-4">
-                              <div><Label>Option A</Label><Input value={question.option_a} onChange={(e) => updateQuestion(subjIndex, qIndex, "option_a", e.target.value)} required /></div>
-                              <div><Label>Option B</Label><Input value={question.option_b} onChange={(e) => updateQuestion(subjIndex, qIndex, "option_b", e.target.value)} required /></div>
-                              <div><Label>Option C</Label><Input value={question.option_c} onChange={(e) => updateQuestion(subjIndex, qIndex, "option_c", e.target.value)} required /></div>
-                              <div><Label>Option D</Label><Input value={question.option_d} onChange={(e) => updateQuestion(subjIndex, qIndex, "option_d", e.target.value)} required /></div>
-                            </div>
-                            <div>
-                              <Label>Correct Answer</Label>
-                              <select
-                                className="w-full p-2 border rounded"
-                                value={question.correct_answer}
-                                onChange={(e) => updateQuestion(subjIndex, qIndex, "correct_answer", e.target.value)}
-                              >
-                                <option value="A">A</option>
-                                <option value="B">B</option>
-                                <option value="C">C</option>
-                                <option value="D">D</option>
-                              </select>
+                              <Textarea value={question.question_text} onChange={(e) => updateQuestion(subjIndex, qIndex, "question_text", e.target.value)} maxLength={2000} required />
+                              <RichTextPreview content={question.question_text} />
                             </div>
+                            <QuestionOptionsEditor
+                              idPrefix={`s${subjIndex}-q${qIndex}`}
+                              value={question}
+                              onChange={(value) => {
+                                const updatedSubjects = [...subjects];
+                                updatedSubjects[subjIndex].questions[qIndex] = { ...question, ...value };
+                                setSubjects(updatedSubjects);
+                              }}
+                              subjectId={subj.subjectId}
+                              topics={topics}
+                            />
                           </CardContent>
                         </Card>
                       ))}
@@ -10,6 +10,24 @@ import { toast } from "sonner";
 import { Loader2, RefreshCw, Eye, ChevronDown, ChevronUp, Shuffle, X, Replace } from "lucide-react";
 import { notifyUserAction } from "@/lib/emailNotifications";
 import { User } from "@supabase/supabase-js";
+import { DEFAULT_PROCTORING_POLICY, toProctoringPolicy } from "@/lib/proctoring";
+import ProctoringSettings from "@/components/dashboard/ProctoringSettings";
+import TopicSelect from "@/components/dashboard/TopicSelect";
+import { useTopics } from "@/hooks/useTopics";
+import { QuestionTopic, topicPath, topicSubtreeIds } from "@/lib/topics";
+import DifficultyBadges from "@/components/dashboard/DifficultyBadges";
+import {
+  DEFAULT_DIFFICULTY_MIX,
+  DIFFICULTIES,
+  DIFFICULTY_LABELS,
+  DifficultyMix,
+  DifficultyStats,
+  effectiveDifficulty,
+  fetchDifficultyStats,
+  pickByDifficultyMix,
+} from "@/lib/difficulty";
+import RichText from "@/components/assessment/RichText";
+import { QUESTION_ANSWER_COLUMNS, QuestionOptions, answerLetters, describeTypedAnswer, getOptions, isTypedQuestion } from "@/lib/questionTypes";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { ScrollArea } from "@/components/ui/scroll-area";
 
@@ -24,16 +42,24 @@ interface SelectedSubject {
   subjectName: string;
   questionCount: number;
   selectedCount: number;
+  // Limits the pool to a topic and its subtopics
+  topicId: string | null;
 }
 
-interface PreviewQuestion {
-  id?: string;
+interface PreviewQuestion extends QuestionOptions, Partial<QuestionTopic> {
+  id: string;
+  difficulty: string | null;
   question_text: string;
-  option_a: string;
-  option_b: string;
-  option_c: string;
-  option_d: string;
-  correct_answer: string;
+  correct_answer: string | null;
+  question_type: string;
+  scoring_mode: string;
+  numeric_answer: number | null;
+  numeric_tolerance: number | null;
+  numeric_min: number | null;
+  numeric_max: number | null;
+  answer_unit: string | null;
+  accepted_answers: string[] | null;
+  case_sensitive: boolean;
 }
 
 interface PreviewData {
@@ -55,6 +81,7 @@ const CreateMockFromExisting = () => {
     marks_per_question: 1,
     is_active: true,
     class_id: "",
+    ...DEFAULT_PROCTORING_POLICY,
   });
   const [classes, setClasses] = useState<{ id: string; name: string }[]>([]);
 
@@ -69,6 +96,10 @@ const CreateMockFromExisting = () => {
   const [isPreviewLoading, setIsPreviewLoading] = useState(false);
   const [showPreview, setShowPreview] = useState(false);
   const [expandedSubjects, setExpandedSubjects] = useState<string[]>([]);
+  const { topics } = useTopics(selectedSubjects.map((s) => s.subjectId));
+  // Null fills each subject with a plain shuffle
+  const [difficultyMix, setDifficultyMix] = useState<DifficultyMix | null>(null);
+  const [difficultyStats, setDifficultyStats] = useState<Map<string, DifficultyStats>>(new Map());
 
   useEffect(() => {
     const getUser = async () => {
@@ -166,6 +197,7 @@ const CreateMockFromExisting = () => {
           subjectName: subject.name,
           questionCount: subject.questionCount,
           selectedCount: Math.min(30, subject.questionCount),
+          topicId: null,
         }]);
       }
     } else {
@@ -193,6 +225,65 @@ const CreateMockFromExisting = () => {
     setAvailablePool({});
   };
 
+  const updateSelectedTopic = (subjectId: string, topicId: string | null) => {
+    setSelectedSubjects(prev => prev.map(s =>
+      s.subjectId === subjectId ? { ...s, topicId } : s
+    ));
+    setShowPreview(false);
+    setPreviewData({});
+    setAvailablePool({});
+  };
+
+  // The subject's questions from its regular assessments, within its topic if one is set
+  // Copies of bank questions are only offered while the bank question is
+  // approved; the bank's review status is dropped before the rows are used
+  const fetchSubjectQuestions = async (subj: SelectedSubject, assessmentIds: string[]) => {
+    let query = supabase
+      .from("questions")
+      .select(`id, question_text, ${QUESTION_ANSWER_COLUMNS}, bank_question_id, question_bank(status)`)
+      .in("assessment_id", assessmentIds);
+    if (subj.topicId) query = query.in("topic_id", topicSubtreeIds(topics, subj.topicId));
+    const { data, error } = await query;
+    return {
+      data: data
+        ?.filter((q) => !q.bank_question_id || q.question_bank?.status === "approved")
+        .map(({ question_bank, bank_question_id, ...q }) => q),
+      error,
+    };
+  };
+
+  const mixTotal = difficultyMix ? DIFFICULTIES.reduce((sum, d) => sum + difficultyMix[d], 0) : 100;
+
+  const updateDifficultyMix = (mix: DifficultyMix | null) => {
+    setDifficultyMix(mix);
+    setShowPreview(false);
+    setPreviewData({});
+    setAvailablePool({});
+  };
+
+  // Splits a subject's questions into the picked ones and the swap pool,
+  // following the difficulty mix when one is set. A question counts at its
+  // measured difficulty once calibrated, at its authored one until then.
+  const pickQuestions = async (subj: SelectedSubject, allQuestions: PreviewQuestion[]) => {
+    if (!difficultyMix) {
+      const shuffled = [...allQuestions].sort(() => Math.random() - 0.5);
+      return { selected: shuffled.slice(0, subj.selectedCount), remaining: shuffled.slice(subj.selectedCount) };
+    }
+
+    const stats = await fetchDifficultyStats(allQuestions.map(q => q.id), "assessment");
+    setDifficultyStats(prev => new Map([...prev, ...stats]));
+    const { selected, remaining, shortfall } = pickByDifficultyMix(
+      allQuestions,
+      subj.selectedCount,
+      difficultyMix,
+      (q) => effectiveDifficulty(q.difficulty, stats.get(q.id))
+    );
+    if (shortfall > 0) {
+      toast.warning(`${subj.subjectName}: not enough questions at each difficulty, ${shortfall} filled from other levels`);
+    }
+    return { selected, remaining };
+  };
+
   const getQuestionOptions = (maxCount: number) => {
     const options = [];
     for (let i = 4; i <= Math.min(maxCount, 100); i++) {
@@ -225,19 +316,16 @@ const CreateMockFromExisting = () => {
 
         const assessmentIds = assessments.map(a => a.id);
         
-        const { data: allQuestions, error: qFetchError } = await supabase
-          .from("questions")
-          .select("id, question_text, option_a, option_b, option_c, option_d, correct_answer")
-          .in("assessment_id", assessmentIds);
+        const { data: allQuestions, error: qFetchError } = await fetchSubjectQuestions(subj, assessmentIds);
 
         if (qFetchError) throw qFetchError;
         if (!allQuestions || allQuestions.length < subj.selectedCount) {
-          throw new Error(`Not enough questions for ${subj.subjectName}`);
+          throw new Error(subj.topicId
+            ? `Not enough questions for ${subj.subjectName} in ${topicPath(topics, subj.topicId)}`
+            : `Not enough questions for ${subj.subjectName}`);
         }
 
-        const shuffled = [...allQuestions].sort(() => Math.random() - 0.5);
-        const selected = shuffled.slice(0, subj.selectedCount);
-        const remaining = shuffled.slice(subj.selectedCount);
+        const { selected, remaining } = await pickQuestions(subj, allQuestions);
         
         newPreviewData[subj.subjectId] = selected;
         newAvailablePool[subj.subjectId] = remaining;
@@ -270,16 +358,11 @@ const CreateMockFromExisting = () => {
 
       const assessmentIds = assessments.map(a => a.id);
       
-      const { data: allQuestions } = await supabase
-        .from("questions")
-        .select("id, question_text, option_a, option_b, option_c, option_d, correct_answer")
-        .in("assessment_id", assessmentIds);
+      const { data: allQuestions } = await fetchSubjectQuestions(subj, assessmentIds);
 
       if (!allQuestions || allQuestions.length < subj.selectedCount) return;
 
-      const shuffled = [...allQuestions].sort(() => Math.random() - 0.5);
-      const selected = shuffled.slice(0, subj.selectedCount);
-      const remaining = shuffled.slice(subj.selectedCount);
+      const { selected, remaining } = await pickQuestions(subj, allQuestions);
       
       setPreviewData(prev => ({
         ...prev,
@@ -414,6 +497,7 @@ const CreateMockFromExisting = () => {
           marks_per_question: formData.marks_per_question,
           is_active: formData.is_active,
           class_id: formData.class_id,
+          ...toProctoringPolicy(formData),
           created_by: user.id,
         })
         .select()
@@ -490,6 +574,7 @@ const CreateMockFromExisting = () => {
         marks_per_question: 1,
         is_active: true,
         class_id: "",
+        ...DEFAULT_PROCTORING_POLICY,
       });
       setSelectedSubjects([]);
       setPreviewData({});
@@ -616,6 +701,8 @@ const CreateMockFromExisting = () => {
               </select>
             </div>
 
+            <ProctoringSettings value={formData} onChange={(policy) => setFormData({ ...formData, ...policy })} />
+
             <div>
               <div className="flex items-center justify-between mb-2">
                 <Label className="text-base font-semibold">
@@ -687,9 +774,19 @@ const CreateMockFromExisting = () => {
                     {selectedSubjects.map((subj, index) => (
                       <div key={subj.subjectId} className="flex items-center gap-3 p-3 border rounded-lg">
                         <span className="font-medium w-8">{index + 1}.</span>
-                        <div className="flex-1">
+                        <div className="flex-1 space-y-1">
                           <p className="font-medium">{subj.subjectName}</p>
                           <p className="text-xs text-muted-foreground">{subj.questionCount} available</p>
+                          {topics.some(t => t.subject_id === subj.subjectId) && (
+                            <TopicSelect
+                              topics={topics}
+                              subjectId={subj.subjectId}
+                              value={subj.topicId}
+                              onChange={(topicId) => updateSelectedTopic(subj.subjectId, topicId)}
+                              emptyLabel="All topics"
+                              className="h-8 py-1"
+                            />
+                          )}
                         </div>
                         <Select
                           value={subj.selectedCount.toString()}
@@ -719,13 +816,48 @@ const CreateMockFromExisting = () => {
                     </p>
                   </div>
 
+                  <div className="mt-4 space-y-2">
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="difficulty_mix"
+                        checked={!!difficultyMix}
+                        onCheckedChange={(checked) => updateDifficultyMix(checked ? DEFAULT_DIFFICULTY_MIX : null)}
+                      />
+                      <Label htmlFor="difficulty_mix">Target a difficulty mix instead of a plain shuffle</Label>
+                    </div>
+                    {difficultyMix && (
+                      <>
+                        <div className="grid grid-cols-3 gap-3">
+                          {DIFFICULTIES.map((d) => (
+                            <div key={d}>
+                              <Label htmlFor={`mix_${d}`}>{DIFFICULTY_LABELS[d]} (%)</Label>
+                              <Input
+                                id={`mix_${d}`}
+                                type="number"
+                                min={0}
+                                max={100}
+                                value={difficultyMix[d]}
+                                onChange={(e) => updateDifficultyMix({ ...difficultyMix, [d]: Math.max(0, parseInt(e.target.value) || 0) })}
+                              />
+                            </div>
+                          ))}
+                        </div>
+                        <p className={`text-xs ${mixTotal === 100 ? "text-muted-foreground" : "text-destructive"}`}>
+                          {mixTotal === 100
+                            ? "Questions count at their measured difficulty once enough students have answered them, otherwise at their authored difficulty"
+                            : `The mix adds up to ${mixTotal}%, it must add up to 100%`}
+                        </p>
+                      </>
+                    )}
+                  </div>
+
                   {selectedSubjects.length === 4 && (
                     <Button
                       type="button"
                       variant="outline"
                       className="w-full mt-4"
                       onClick={fetchPreviewQuestions}
-                      disabled={isPreviewLoading}
+                      disabled={isPreviewLoading || mixTotal !== 100}
                     >
                       {isPreviewLoading ? (
                         <>
@@ -769,7 +901,7 @@ const CreateMockFromExisting = () => {
                           ) : (
                             <ChevronDown className="w-4 h-4" />
                           )}
-                          <span className="font-medium">{subj.subjectName}</span>
+                          <span className="font-medium">{subj.subjectName}{subj.topicId && ` → ${topicPath(topics, subj.topicId)}`}</span>
                           <span className="text-sm text-muted-foreground">
                             ({previewData[subj.subjectId]?.length || 0} questions, {availablePool[subj.subjectId]?.length || 0} in pool)
                           </span>
@@ -816,22 +948,21 @@ const CreateMockFromExisting = () => {
                                     <X className="w-3 h-3" />
                                   </Button>
                                 </div>
-                                <p className="font-medium text-sm mb-2 pr-16">
-                                  {idx + 1}. {q.question_text}
-                                </p>
+                                <div className="font-medium text-sm mb-2 pr-16 flex gap-1">
+                                  <span>{idx + 1}.</span>
+                                  <RichText content={q.question_text} className="flex-1 min-w-0" />
+                                </div>
+                                {q.topic_id && <p className="text-xs text-muted-foreground mb-2">{topicPath(topics, q.topic_id)}</p>}
+                                {difficultyMix && <div className="mb-2"><DifficultyBadges authored={q.difficulty} stats={difficultyStats.get(q.id)} /></div>}
                                 <div className="grid grid-cols-2 gap-2 text-sm">
-                                  <div className={`p-2 rounded ${q.correct_answer === 'A' ? 'bg-green-100 dark:bg-green-900/30' : 'bg-muted'}`}>
-                                    A: {q.option_a}
-                                  </div>
-                                  <div className={`p-2 rounded ${q.correct_answer === 'B' ? 'bg-green-100 dark:bg-green-900/30' : 'bg-muted'}`}>
-                                    B: {q.option_b}
-                                  </div>
-                                  <div className={`p-2 rounded ${q.correct_answer === 'C' ? 'bg-green-100 dark:bg-green-900/30' : 'bg-muted'}`}>
-                                    C: {q.option_c}
-                                  </div>
-                                  <div className={`p-2 rounded ${q.correct_answer === 'D' ? 'bg-green-100 dark:bg-green-900/30' : 'bg-muted'}`}>
-                                    D: {q.option_d}
-                                  </div>
+                                  {getOptions(q).map((o) => (
+                                    <div key={o.key} className={`p-2 rounded ${answerLetters(q.correct_answer).includes(o.key) ? 'bg-green-100 dark:bg-green-900/30' : 'bg-muted'}`}>
+                                      {o.key}: <RichText content={o.text} inline />
+                                    </div>
+                                  ))}
+                                  {isTypedQuestion(q.question_type) && (
+                                    <div className="col-span-2 p-2 rounded bg-green-100 dark:bg-green-900/30">Answer: {describeTypedAnswer(q)}</div>
+                                  )}
                                 </div>
                               </div>
                             ))}
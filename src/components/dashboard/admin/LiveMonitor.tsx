@@ -0,0 +1,334 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Activity, AlertTriangle, Clock, Send } from "lucide-react";
+import { toast } from "sonner";
+import { HEARTBEAT_INTERVAL_MS } from "@/hooks/useAttemptHeartbeat";
+
+type ExamKind = "assessment" | "mock";
+
+interface LiveAttempt {
+  id: string;
+  started_at: string | null;
+  deadline_at: string | null;
+  violations: number | null;
+  locked_at: string | null;
+  answered_count: number;
+  total: number;
+  last_heartbeat_at: string | null;
+  profiles: {
+    full_name: string;
+    email: string;
+  } | null;
+}
+
+// Columns shared by attempts and mock_exam_attempts rows
+interface AttemptRow {
+  id: string;
+  deadline_at: string | null;
+  violations: number | null;
+  locked_at: string | null;
+  answered_count: number;
+  total_questions?: number | null;
+  question_count?: number;
+  last_heartbeat_at: string | null;
+  submitted_at?: string | null;
+  is_completed?: boolean | null;
+}
+
+// Two missed heartbeats (plus some slack) and the student is shown as stalled
+const STALLED_AFTER_MS = HEARTBEAT_INTERVAL_MS * 2 + 15000;
+
+const selectClassName = "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm";
+
+const formatTimeLeft = (deadline: string | null, now: number) => {
+  if (!deadline) return "—";
+  const seconds = Math.max(0, Math.ceil((new Date(deadline).getTime() - now) / 1000));
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+};
+
+const LiveMonitor = () => {
+  const [kind, setKind] = useState<ExamKind>("assessment");
+  const [exams, setExams] = useState<{ id: string; title: string }[]>([]);
+  const [selectedId, setSelectedId] = useState("");
+  const [attempts, setAttempts] = useState<LiveAttempt[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [extraMinutes, setExtraMinutes] = useState(5);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const tick = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(tick);
+  }, []);
+
+  useEffect(() => {
+    setSelectedId("");
+    setAttempts([]);
+    loadExams();
+  }, [kind]);
+
+  useEffect(() => {
+    if (!selectedId) return;
+
+    loadAttempts();
+
+    const table = kind === "assessment" ? "attempts" : "mock_exam_attempts";
+    const column = kind === "assessment" ? "assessment_id" : "mock_exam_id";
+    const channel = supabase
+      .channel(`live-monitor-${selectedId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table, filter: `${column}=eq.${selectedId}` },
+        (payload) => {
+          const row = payload.new as AttemptRow;
+          if (payload.eventType === "INSERT") {
+            // New rows need the student's profile, so fetch the list again
+            loadAttempts();
+            return;
+          }
+          setAttempts((prev) =>
+            row.submitted_at || row.is_completed
+              ? prev.filter((a) => a.id !== row.id)
+              : prev.map((a) => (a.id === row.id ? { ...a, ...toLiveFields(row) } : a))
+          );
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [selectedId, kind]);
+
+  const toLiveFields = (row: AttemptRow) => ({
+    deadline_at: row.deadline_at,
+    violations: row.violations,
+    locked_at: row.locked_at,
+    answered_count: row.answered_count,
+    total: (kind === "assessment" ? row.total_questions : row.question_count) || 0,
+    last_heartbeat_at: row.last_heartbeat_at,
+  });
+
+  const loadExams = async () => {
+    const { data, error } = kind === "assessment"
+      ? await supabase.from("assessments").select("id, title").eq("is_active", true).order("created_at", { ascending: false })
+      : await supabase.from("mock_exams").select("id, title").eq("is_active", true).order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error loading exams:", error);
+      return;
+    }
+    setExams(data || []);
+  };
+
+  const loadAttempts = async () => {
+    setLoading(true);
+    try {
+      if (kind === "assessment") {
+        const { data, error } = await supabase
+          .from("attempts")
+          .select(`
+            id, started_at, deadline_at, violations, locked_at, answered_count, total_questions, last_heartbeat_at,
+            profiles!attempts_student_id_fkey (full_name, email)
+          `)
+          .eq("assessment_id", selectedId)
+          .is("submitted_at", null)
+          .order("started_at");
+        if (error) throw error;
+        setAttempts((data || []).map((a) => ({ ...a, ...toLiveFields(a), profiles: a.profiles })));
+      } else {
+        const { data, error } = await supabase
+          .from("mock_exam_attempts")
+          .select(`
+            id, started_at, deadline_at, violations, locked_at, answered_count, question_count, last_heartbeat_at,
+            profiles!mock_exam_attempts_student_id_fkey (full_name, email)
+          `)
+          .eq("mock_exam_id", selectedId)
+          .eq("is_completed", false)
+          .order("started_at");
+        if (error) throw error;
+        setAttempts((data || []).map((a) => ({ ...a, ...toLiveFields(a), profiles: a.profiles })));
+      }
+    } catch (error) {
+      console.error("Error loading live attempts:", error);
+      toast.error("Failed to load attempts in progress");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddTime = async (attempt: LiveAttempt) => {
+    const { error } = await supabase.rpc("extend_attempt_deadline", {
+      _minutes: extraMinutes,
+      ...(kind === "assessment" ? { _attempt_id: attempt.id } : { _mock_exam_attempt_id: attempt.id }),
+    });
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    toast.success(`Added ${extraMinutes} min for ${attempt.profiles?.full_name || "student"}`);
+  };
+
+  const handleForceSubmit = async (attempt: LiveAttempt) => {
+    const warning = kind === "assessment"
+      ? "Their autosaved answers will be graded."
+      : "Subjects they have not submitted yet will score zero.";
+    if (!window.confirm(`Force-submit the attempt for ${attempt.profiles?.full_name || "this student"}? ${warning}`)) return;
+
+    const { data, error } = kind === "assessment"
+      ? await supabase.functions.invoke("submit-assessment-answers", { body: { attempt_id: attempt.id, auto_submitted: true } })
+      : await supabase.functions.invoke("force-submit-mock-exam", { body: { attempt_id: attempt.id } });
+
+    if (error || !data?.success) {
+      console.error("Force submit error:", error);
+      toast.error("Failed to force-submit attempt");
+      return;
+    }
+    toast.success("Attempt submitted");
+    setAttempts((prev) => prev.filter((a) => a.id !== attempt.id));
+  };
+
+  const getStatus = (attempt: LiveAttempt) => {
+    if (attempt.locked_at) return { label: "Locked", variant: "destructive" as const };
+    if (!attempt.last_heartbeat_at) return { label: "Not connected", variant: "outline" as const };
+    if (now - new Date(attempt.last_heartbeat_at).getTime() > STALLED_AFTER_MS) {
+      return { label: "Stalled", variant: "destructive" as const };
+    }
+    return { label: "Connected", variant: "default" as const };
+  };
+
+  const stalledCount = attempts.filter((a) => getStatus(a).label !== "Connected").length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Activity className="w-5 h-5" />
+          Live Exam Monitor
+        </CardTitle>
+        <CardDescription>Students currently sitting an assessment or mock exam, updated in real time</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid md:grid-cols-3 gap-4">
+          <div>
+            <Label>Exam Type</Label>
+            <select value={kind} onChange={(e) => setKind(e.target.value as ExamKind)} className={selectClassName}>
+              <option value="assessment">Assessment</option>
+              <option value="mock">Mock Exam</option>
+            </select>
+          </div>
+          <div>
+            <Label>{kind === "assessment" ? "Assessment" : "Mock Exam"}</Label>
+            <select value={selectedId} onChange={(e) => setSelectedId(e.target.value)} className={selectClassName}>
+              <option value="">Select...</option>
+              {exams.map((exam) => (
+                <option key={exam.id} value={exam.id}>{exam.title}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="extra_minutes">Extra Time per Click (minutes)</Label>
+            <Input
+              id="extra_minutes"
+              type="number"
+              min={1}
+              max={240}
+              value={extraMinutes}
+              onChange={(e) => setExtraMinutes(Math.max(1, parseInt(e.target.value) || 1))}
+            />
+          </div>
+        </div>
+
+        {!selectedId ? (
+          <p className="text-muted-foreground">Select an exam to start monitoring</p>
+        ) : loading ? (
+          <p className="text-muted-foreground">Loading...</p>
+        ) : attempts.length === 0 ? (
+          <p className="text-muted-foreground">No students are currently sitting this exam</p>
+        ) : (
+          <>
+            <div className="flex gap-2">
+              <Badge variant="secondary">{attempts.length} in progress</Badge>
+              {stalledCount > 0 && <Badge variant="destructive">{stalledCount} need attention</Badge>}
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Progress</TableHead>
+                  <TableHead>Time Left</TableHead>
+                  <TableHead>Violations</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {attempts.map((attempt) => {
+                  const status = getStatus(attempt);
+                  return (
+                    <TableRow key={attempt.id}>
+                      <TableCell>
+                        <p className="font-medium">{attempt.profiles?.full_name || "Unknown"}</p>
+                        <p className="text-sm text-muted-foreground">{attempt.profiles?.email}</p>
+                      </TableCell>
+                      <TableCell className="min-w-[140px]">
+                        <p className="text-sm">
+                          {attempt.answered_count}/{attempt.total || "?"} answered
+                        </p>
+                        <Progress value={attempt.total ? (attempt.answered_count / attempt.total) * 100 : 0} className="h-2" />
+                      </TableCell>
+                      <TableCell>
+                        <span className="flex items-center gap-1 font-mono">
+                          <Clock className="w-3 h-3" />
+                          {formatTimeLeft(attempt.deadline_at, now)}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        {(attempt.violations || 0) > 0 ? (
+                          <Badge variant="destructive" className="flex items-center gap-1 w-fit">
+                            <AlertTriangle className="w-3 h-3" />
+                            {attempt.violations}
+                          </Badge>
+                        ) : (
+                          <span className="text-muted-foreground">0</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={status.variant}>{status.label}</Badge>
+                        {attempt.last_heartbeat_at && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Seen {new Date(attempt.last_heartbeat_at).toLocaleTimeString()}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button size="sm" variant="outline" onClick={() => handleAddTime(attempt)}>
+                            +{extraMinutes} min
+                          </Button>
+                          <Button size="sm" variant="destructive" onClick={() => handleForceSubmit(attempt)}>
+                            <Send className="w-3 h-3 mr-1" />Submit
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LiveMonitor;
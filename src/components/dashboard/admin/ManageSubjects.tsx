@@ -8,6 +8,7 @@ import { toast } from "sonner";
 import { Plus, Pencil, Trash2, Check, X } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { subjectSchema } from "@/lib/validationSchemas";
+import TopicManager from "@/components/dashboard/TopicManager";
 
 const ManageSubjects = () => {
   const [subjects, setSubjects] = useState<any[]>([]);
@@ -165,6 +166,8 @@ const ManageSubjects = () => {
           )}
         </CardContent>
       </Card>
+
+      <TopicManager subjects={subjects} canDelete />
     </div>
   );
 };
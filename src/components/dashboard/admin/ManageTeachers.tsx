@@ -36,6 +36,13 @@ const ManageTeachers = () => {
     fetchTeachers();
   };
 
+  // Subject leads review bank questions submitted for their subject
+  const toggleSubjectLead = async (teacherId: string, subjectId: string, isLead: boolean) => {
+    const { error } = await supabase.from("teacher_subjects").update({ is_lead: !isLead }).eq("teacher_id", teacherId).eq("subject_id", subjectId);
+    if (error) { toast.error(error.message); return; }
+    fetchTeachers();
+  };
+
   const fetchTeachers = async () => {
     try {
       // First get all teacher user_ids
@@ -64,7 +71,7 @@ const ManageTeachers = () => {
       // Get teacher subjects
       const { data: teacherSubjects, error: subjectsError } = await supabase
         .from("teacher_subjects")
-        .select("teacher_id, subject_id, subjects(id, name)")
+        .select("teacher_id, subject_id, is_lead, subjects(id, name)")
         .in("teacher_id", teacherIds);
 
       if (subjectsError) throw subjectsError;
@@ -241,12 +248,18 @@ const ManageTeachers = () => {
                     <p className="text-sm text-muted-foreground">{teacher.profiles?.email}</p>
                     {teacher.teacher_subjects && teacher.teacher_subjects.length > 0 && (
                       <div className="mt-2">
-                        <p className="text-xs font-medium text-muted-foreground mb-1">Assigned Subjects:</p>
+                        <p className="text-xs font-medium text-muted-foreground mb-1">Assigned Subjects (click to make subject lead):</p>
                         <div className="flex flex-wrap gap-1">
                           {teacher.teacher_subjects.map((ts: any) => (
-                            <span key={ts.subject_id} className="px-2 py-1 bg-primary/10 text-primary rounded-md text-xs">
-                              {ts.subjects?.name || 'Unknown'}
-                            </span>
+                            <button
+                              key={ts.subject_id}
+                              type="button"
+                              title={ts.is_lead ? "Subject lead: reviews bank questions. Click to remove." : "Make subject lead"}
+                              onClick={() => toggleSubjectLead(teacher.user_id, ts.subject_id, ts.is_lead)}
+                              className={`px-2 py-1 rounded-md text-xs ${ts.is_lead ? "bg-primary text-primary-foreground" : "bg-primary/10 text-primary hover:bg-primary/20"}`}
+                            >
+                              {ts.subjects?.name || 'Unknown'}{ts.is_lead && " (Lead)"}
+                            </button>
                           ))}
                         </div>
                       </div>
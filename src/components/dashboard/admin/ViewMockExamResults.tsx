@@ -6,8 +6,10 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { Download, Search, Filter } from "lucide-react";
+import { Download, Search, Filter, Unlock, RefreshCw } from "lucide-react";
 import { toast } from "sonner";
+import RichText from "@/components/assessment/RichText";
+import RegradeQuestion, { RegradableQuestion } from "@/components/dashboard/RegradeQuestion";
 
 interface MockExamResult {
   id: string;
@@ -18,6 +20,8 @@ interface MockExamResult {
   is_completed: boolean;
   started_at: string;
   submitted_at: string | null;
+  violations: number;
+  locked_at: string | null;
   profiles: {
     full_name: string;
     email: string;
@@ -28,6 +32,7 @@ interface MockExamResult {
   };
   subject_results: {
     subject_id: string;
+    assessment_id: string | null;
     score: number;
     total_questions: number;
     subjects: {
@@ -43,6 +48,9 @@ const ViewMockExamResults = () => {
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedExam, setSelectedExam] = useState<string>("all");
+  const [examQuestions, setExamQuestions] = useState<(RegradableQuestion & { subject: string })[]>([]);
+  const [showQuestions, setShowQuestions] = useState(false);
+  const [regrading, setRegrading] = useState<RegradableQuestion | null>(null);
 
   useEffect(() => {
     fetchResults();
@@ -53,6 +61,11 @@ const ViewMockExamResults = () => {
     filterResults();
   }, [searchTerm, selectedExam, results]);
 
+  useEffect(() => {
+    setShowQuestions(false);
+    setExamQuestions([]);
+  }, [selectedExam]);
+
   const fetchMockExams = async () => {
     const { data } = await supabase
       .from("mock_exams")
@@ -75,6 +88,8 @@ const ViewMockExamResults = () => {
           is_completed,
           started_at,
           submitted_at,
+          violations,
+          locked_at,
           profiles!mock_exam_attempts_student_id_fkey (
             full_name,
             email
@@ -95,6 +110,7 @@ const ViewMockExamResults = () => {
             .from("mock_exam_subject_results")
             .select(`
               subject_id,
+              assessment_id,
               score,
               total_questions,
               subjects (
@@ -140,6 +156,55 @@ const ViewMockExamResults = () => {
     setFilteredResults(filtered);
   };
 
+  const handleUnlock = async (attemptId: string) => {
+    const { error } = await supabase.from("mock_exam_attempts").update({ locked_at: null }).eq("id", attemptId);
+    if (error) {
+      toast.error("Failed to unlock attempt");
+      return;
+    }
+    toast.success("Attempt unlocked. The student can resume the mock exam.");
+    fetchResults();
+  };
+
+  // The questions this exam's students were given: the copies kept with
+  // their attempts, or the live questions of subjects sat before copies were kept
+  const fetchExamQuestions = async () => {
+    const { data: copies, error: copiesError } = await supabase.rpc("get_mock_exam_questions", { _mock_exam_id: selectedExam });
+    if (copiesError) {
+      toast.error("Failed to load the exam's questions");
+      return;
+    }
+    const copiedIds = new Set((copies || []).map((c) => c.assessment_id));
+    const uncopiedIds = [...new Set(
+      results
+        .filter((r) => r.mock_exam_id === selectedExam)
+        .flatMap((r) => r.subject_results.map((sr) => sr.assessment_id))
+        .filter((id): id is string => !!id && !copiedIds.has(id))
+    )];
+    if (copiedIds.size === 0 && uncopiedIds.length === 0) {
+      setExamQuestions([]);
+      setShowQuestions(true);
+      return;
+    }
+    const [{ data: assessments }, { data, error }] = await Promise.all([
+      supabase.from("assessments").select("id, subjects(name)").in("id", [...copiedIds]),
+      supabase.from("questions").select("*, assessments(subjects(name))").in("assessment_id", uncopiedIds),
+    ]);
+    if (error) {
+      toast.error("Failed to load the exam's questions");
+      return;
+    }
+    const subjects = new Map((assessments || []).map((a) => [a.id, a.subjects?.name || "Unknown"]));
+    setExamQuestions([
+      ...(copies || []).map((c) => ({
+        ...(c.content as unknown as RegradableQuestion & { created_at: string }),
+        subject: subjects.get(c.assessment_id) || "Unknown",
+      })),
+      ...(data || []).map(({ assessments, ...q }) => ({ ...q, subject: assessments?.subjects?.name || "Unknown" })),
+    ].sort((a, b) => a.created_at.localeCompare(b.created_at)));
+    setShowQuestions(true);
+  };
+
   const exportToCSV = () => {
     const headers = ["Student Name", "Email", "Mock Exam", "Score", "Total Questions", "Percentage", "Status", "Date"];
     
@@ -152,7 +217,7 @@ const ViewMockExamResults = () => {
         r.total_score || 0,
         r.total_questions || 0,
         `${percentage}%`,
-        r.is_completed ? "Completed" : "In Progress",
+        r.is_completed ? "Completed" : r.locked_at ? "Locked" : "In Progress",
         r.submitted_at ? new Date(r.submitted_at).toLocaleDateString() : "N/A",
       ];
     });
@@ -283,9 +348,21 @@ const ViewMockExamResults = () => {
                           </div>
                         </TableCell>
                         <TableCell>
-                          <Badge variant={result.is_completed ? "default" : "secondary"}>
-                            {result.is_completed ? "Completed" : "In Progress"}
-                          </Badge>
+                          {!result.is_completed && result.locked_at ? (
+                            <div className="flex flex-col gap-1">
+                              <Badge variant="destructive" className="w-fit">Locked</Badge>
+                              <Button size="sm" variant="outline" onClick={() => handleUnlock(result.id)}>
+                                <Unlock className="w-3 h-3 mr-1" />Unlock
+                              </Button>
+                            </div>
+                          ) : (
+                            <Badge variant={result.is_completed ? "default" : "secondary"}>
+                              {result.is_completed ? "Completed" : "In Progress"}
+                            </Badge>
+                          )}
+                          {result.violations > 0 && (
+                            <p className="text-xs text-destructive mt-1">{result.violations} violation(s)</p>
+                          )}
                         </TableCell>
                         <TableCell className="text-sm">
                           {formatDate(result.submitted_at || result.started_at)}
@@ -303,6 +380,50 @@ const ViewMockExamResults = () => {
           </p>
         </CardContent>
       </Card>
+
+      {selectedExam !== "all" && (
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+              <div>
+                <CardTitle>Exam Questions</CardTitle>
+                <CardDescription>Correct a question's key and regrade every result that included it</CardDescription>
+              </div>
+              <Button variant="outline" onClick={() => (showQuestions ? setShowQuestions(false) : fetchExamQuestions())}>
+                {showQuestions ? "Hide Questions" : "Show Questions"}
+              </Button>
+            </div>
+          </CardHeader>
+          {showQuestions && (
+            <CardContent className="space-y-2">
+              {examQuestions.length === 0 ? (
+                <p className="text-muted-foreground text-center py-4">No questions found for this exam's results</p>
+              ) : (
+                examQuestions.map((q, i) => (
+                  <div key={q.id} className="flex justify-between items-start gap-2 p-3 border rounded-lg">
+                    <div className="flex-1 min-w-0 text-sm">
+                      <div className="flex items-center gap-2 mb-1">
+                        <Badge variant="outline">{q.subject}</Badge>
+                        {q.voided && <Badge variant="destructive">Voided</Badge>}
+                      </div>
+                      <div className="flex gap-1"><span>{i + 1}.</span><RichText content={q.question_text} className="flex-1 min-w-0" /></div>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => setRegrading(q)} title="Regrade">
+                      <RefreshCw className="w-3 h-3 mr-1" />Regrade
+                    </Button>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          )}
+        </Card>
+      )}
+
+      <RegradeQuestion
+        question={regrading}
+        onOpenChange={(open) => { if (!open) setRegrading(null); }}
+        onRegraded={() => { fetchResults(); fetchExamQuestions(); }}
+      />
     </div>
   );
 };
@@ -5,11 +5,16 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Eye, AlertTriangle, Search, Download } from "lucide-react";
+import { Eye, AlertTriangle, Search, Download, Unlock, History } from "lucide-react";
 import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import AttemptTimeline, { TimelineAttempt } from "@/components/dashboard/AttemptTimeline";
+import { getAttemptPositions } from "@/lib/attemptScoring";
 
 interface Attempt {
   id: string;
+  student_id: string;
+  assessment_id: string;
   score: number | null;
   total_questions: number | null;
   passed: boolean | null;
@@ -17,8 +22,12 @@ interface Attempt {
   auto_submitted: boolean | null;
   started_at: string;
   submitted_at: string | null;
+  deadline_at: string | null;
+  question_ids: string[] | null;
+  locked_at: string | null;
   assessments: {
     title: string;
+    scoring_method: string;
     subjects: {
       name: string;
     };
@@ -34,6 +43,7 @@ const ViewStudentAttempts = () => {
   const [filteredAttempts, setFilteredAttempts] = useState<Attempt[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
+  const [timelineAttempt, setTimelineAttempt] = useState<TimelineAttempt | null>(null);
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -52,6 +62,7 @@ const ViewStudentAttempts = () => {
           *,
           assessments (
             title,
+            scoring_method,
             subjects (name)
           ),
           profiles!attempts_student_id_fkey (
@@ -92,10 +103,24 @@ const ViewStudentAttempts = () => {
     navigate(`/assessment-review/${attemptId}`);
   };
 
+  const handleUnlock = async (attemptId: string) => {
+    const { error } = await supabase.from("attempts").update({ locked_at: null }).eq("id", attemptId);
+    if (error) {
+      toast.error("Failed to unlock attempt");
+      return;
+    }
+    toast.success("Attempt unlocked. The student can resume where they left off.");
+    loadAttempts();
+  };
+
+  // Positions are worked out over all attempts so filtering does not renumber them
+  const positions = getAttemptPositions(attempts, (a) => a.assessments?.scoring_method);
+
   const exportToCSV = () => {
-    const headers = ["Student", "Email", "Assessment", "Subject", "Score", "Percentage", "Status", "Violations", "Auto-submitted", "Date"];
+    const headers = ["Student", "Email", "Assessment", "Subject", "Attempt", "Counts", "Score", "Percentage", "Status", "Violations", "Auto-submitted", "Date"];
     
     const csvData = filteredAttempts.map(attempt => {
+      const position = positions.get(attempt.id);
       const percentage = attempt.score && attempt.total_questions 
         ? Math.round((attempt.score / attempt.total_questions) * 100) 
         : 0;
@@ -104,9 +129,11 @@ const ViewStudentAttempts = () => {
         attempt.profiles?.email || "N/A",
         attempt.assessments?.title || "N/A",
         attempt.assessments?.subjects?.name || "N/A",
+        position ? `${position.number}/${position.of}` : "1/1",
+        position?.counted ? "Yes" : "No",
         attempt.score !== null ? `${attempt.score}/${attempt.total_questions}` : "Not submitted",
         `${percentage}%`,
-        attempt.passed ? "Passed" : attempt.submitted_at ? "Failed" : "In Progress",
+        attempt.passed ? "Passed" : attempt.submitted_at ? "Failed" : attempt.locked_at ? "Locked" : "In Progress",
         attempt.violations || 0,
         attempt.auto_submitted ? "Yes" : "No",
         new Date(attempt.started_at).toLocaleString()
@@ -202,6 +229,7 @@ const ViewStudentAttempts = () => {
                 </TableRow>
               ) : (
                 filteredAttempts.map((attempt) => {
+                  const position = positions.get(attempt.id);
                   const percentage = attempt.score && attempt.total_questions 
                     ? Math.round((attempt.score / attempt.total_questions) * 100) 
                     : 0;
@@ -221,6 +249,12 @@ const ViewStudentAttempts = () => {
                           <div>
                             <span className="font-medium">{attempt.score}/{attempt.total_questions}</span>
                             <span className="text-sm text-muted-foreground ml-2">({percentage}%)</span>
+                            {position && position.of > 1 && (
+                              <div className="flex items-center gap-1 mt-1">
+                                <span className="text-xs text-muted-foreground">Attempt {position.number}/{position.of}</span>
+                                {position.counted && <Badge variant="secondary">Counts</Badge>}
+                              </div>
+                            )}
                           </div>
                         ) : (
                           <span className="text-muted-foreground">Not submitted</span>
@@ -238,6 +272,8 @@ const ViewStudentAttempts = () => {
                               </Badge>
                             )}
                           </div>
+                        ) : attempt.locked_at ? (
+                          <Badge variant="destructive">Locked</Badge>
                         ) : (
                           <Badge variant="secondary">In Progress</Badge>
                         )}
@@ -272,6 +308,21 @@ const ViewStudentAttempts = () => {
                             View
                           </Button>
                         )}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="ml-1"
+                          onClick={() => setTimelineAttempt({ ...attempt, studentName: attempt.profiles?.full_name, title: attempt.assessments?.title })}
+                        >
+                          <History className="w-4 h-4 mr-1" />
+                          Timeline
+                        </Button>
+                        {!attempt.submitted_at && attempt.locked_at && (
+                          <Button size="sm" variant="outline" onClick={() => handleUnlock(attempt.id)}>
+                            <Unlock className="w-4 h-4 mr-1" />
+                            Unlock
+                          </Button>
+                        )}
                       </TableCell>
                     </TableRow>
                   );
@@ -285,6 +336,7 @@ const ViewStudentAttempts = () => {
           Showing {filteredAttempts.length} of {attempts.length} attempts
         </div>
       </CardContent>
+      <AttemptTimeline attempt={timelineAttempt} onOpenChange={(open) => !open && setTimelineAttempt(null)} />
     </Card>
   );
 };
@@ -1,11 +1,14 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useNavigate } from "react-router-dom";
-import { Clock, FileText, CheckCircle, Timer, Lock } from "lucide-react";
+import { Clock, FileText, CheckCircle, Timer, Lock, RotateCcw, CalendarX } from "lucide-react";
+import { toast } from "sonner";
 import { useCountdown } from "@/hooks/useCountdown";
+import { CountedResult, SCORING_METHOD_LABELS, ScoringMethod, getCountedResult } from "@/lib/attemptScoring";
+import { AvailabilityState, getAvailabilityState, getOpensAt, getStartCutoff } from "@/lib/availability";
 
 interface AvailableAssessmentsProps {
   studentId: string;
@@ -18,56 +21,84 @@ interface Assessment {
   passing_score: number;
   scheduled_date: string | null;
   scheduled_time: string | null;
+  opens_at: string | null;
+  closes_at: string | null;
+  latest_start_at: string | null;
+  max_attempts: number | null;
+  attempt_cooldown_minutes: number;
+  scoring_method: string;
   subjects: { name: string } | null;
   profiles: { full_name: string } | null;
 }
 
-const CountdownDisplay = ({ targetDate }: { targetDate: Date }) => {
-  const countdown = useCountdown(targetDate);
+// The student's history with one assessment
+interface AttemptSummary {
+  used: number;
+  openAttemptId: string | null;
+  locked: boolean;
+  cooldownUntil: Date | null;
+  result: CountedResult | null;
+}
 
-  if (countdown.isExpired) {
-    return (
-      <Badge className="bg-green-500 hover:bg-green-600">
-        <CheckCircle className="w-3 h-3 mr-1" />
-        Open Now
-      </Badge>
-    );
-  }
+const STATE_ORDER: Record<AvailabilityState, number> = { open: 0, upcoming: 1, closed: 2 };
 
-  return (
-    <div className="flex items-center gap-2">
-      <Badge variant="secondary" className="bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400">
-        <Timer className="w-3 h-3 mr-1 animate-pulse" />
-        Opens in: {countdown.formatted}
-      </Badge>
-    </div>
-  );
-};
+const EMPTY_SUMMARY: AttemptSummary = { used: 0, openAttemptId: null, locked: false, cooldownUntil: null, result: null };
+
+const UpcomingBadge = ({ countdown }: { countdown: string }) => (
+  <Badge variant="secondary" className="bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400">
+    <Timer className="w-3 h-3 mr-1 animate-pulse" />
+    Opens in: {countdown}
+  </Badge>
+);
+
+const OpenBadge = () => (
+  <Badge className="bg-green-500 hover:bg-green-600">
+    <CheckCircle className="w-3 h-3 mr-1" />
+    Open Now
+  </Badge>
+);
+
+const ClosedBadge = () => (
+  <Badge variant="secondary">
+    <CalendarX className="w-3 h-3 mr-1" />
+    Closed
+  </Badge>
+);
 
 const AssessmentCard = ({ 
   assessment, 
+  summary,
   onStart 
 }: { 
   assessment: Assessment; 
+  summary: AttemptSummary;
   onStart: (id: string) => void;
 }) => {
-  const getScheduledAt = () => {
-    if (!assessment.scheduled_date) return null;
+  // Memoised so the countdowns are not restarted on every render
+  const opensAt = useMemo(() => getOpensAt(assessment), [assessment]);
+  const startCutoff = useMemo(() => getStartCutoff(assessment), [assessment]);
+  const closesAt = useMemo(() => (assessment.closes_at ? new Date(assessment.closes_at) : null), [assessment]);
 
-    const [y, m, d] = String(assessment.scheduled_date).split("-").map(Number);
-    const scheduled = new Date(y, (m ?? 1) - 1, d ?? 1);
+  const opening = useCountdown(opensAt);
+  const cutoff = useCountdown(startCutoff);
+  const closing = useCountdown(closesAt);
+  const cooldown = useCountdown(summary.cooldownUntil);
+  // The countdowns tick every second, which keeps this current
+  const state = getAvailabilityState(assessment);
+  const attemptsLeft = assessment.max_attempts === null ? Infinity : assessment.max_attempts - summary.used;
 
-    if (assessment.scheduled_time) {
-      const [hours, minutes] = String(assessment.scheduled_time).split(":");
-      scheduled.setHours(parseInt(hours || "0"), parseInt(minutes || "0"), 0, 0);
+  const getAction = (): { label: string; enabled: boolean } => {
+    if (state === "upcoming") return { label: "Not Yet Open", enabled: false };
+    if (summary.openAttemptId) {
+      return summary.locked ? { label: "Locked", enabled: false } : { label: "Resume", enabled: true };
     }
-
-    return scheduled;
+    if (state === "closed") return { label: "Closed", enabled: false };
+    if (startCutoff && cutoff.isExpired) return { label: "Start Time Passed", enabled: false };
+    if (attemptsLeft <= 0) return { label: "No Attempts Left", enabled: false };
+    if (summary.cooldownUntil && !cooldown.isExpired) return { label: `Retake in ${cooldown.formatted}`, enabled: false };
+    return { label: summary.used > 0 ? "Retake" : "Start Test", enabled: true };
   };
-
-  const scheduledAt = getScheduledAt();
-  const countdown = useCountdown(scheduledAt);
-  const isAvailableNow = !scheduledAt || countdown.isExpired;
+  const action = getAction();
 
   return (
     <div className="border rounded-lg p-4 hover:shadow-md transition-shadow">
@@ -75,12 +106,14 @@ const AssessmentCard = ({
         <div className="flex-1">
           <div className="flex items-center gap-2 mb-1">
             <h3 className="font-semibold text-lg">{assessment.title}</h3>
-            {scheduledAt && <CountdownDisplay targetDate={scheduledAt} />}
+            {state === "upcoming" && <UpcomingBadge countdown={opening.formatted} />}
+            {state === "open" && (opensAt || startCutoff) && <OpenBadge />}
+            {state === "closed" && <ClosedBadge />}
           </div>
           <p className="text-sm text-muted-foreground mb-2">
             {assessment.subjects?.name} • by {assessment.profiles?.full_name}
           </p>
-          <div className="flex items-center gap-4 text-sm text-muted-foreground">
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground">
             <span className="flex items-center gap-1">
               <Clock className="w-4 h-4" />
               {assessment.duration_minutes} minutes
@@ -89,25 +122,51 @@ const AssessmentCard = ({
               <CheckCircle className="w-4 h-4" />
               Pass: {assessment.passing_score}%
             </span>
-            {scheduledAt && !isAvailableNow && (
+            {(assessment.max_attempts === null || assessment.max_attempts > 1) && (
+              <span className="flex items-center gap-1">
+                <RotateCcw className="w-4 h-4" />
+                Attempts: {summary.used}/{assessment.max_attempts ?? "∞"}
+              </span>
+            )}
+            {summary.result && (
+              <span className="flex items-center gap-1">
+                Your result: {summary.result.percentage}%
+                {summary.used > 1 && ` (${SCORING_METHOD_LABELS[assessment.scoring_method as ScoringMethod]?.toLowerCase() || "best attempt"})`}
+              </span>
+            )}
+            {state === "upcoming" && opensAt && (
               <span className="flex items-center gap-1 text-amber-600">
                 <FileText className="w-4 h-4" />
-                Scheduled: {scheduledAt.toLocaleString()}
+                Scheduled: {opensAt.toLocaleString()}
+              </span>
+            )}
+            {state === "open" && assessment.latest_start_at && !cutoff.isExpired && (
+              <span className="flex items-center gap-1 text-amber-600">
+                <Timer className="w-4 h-4" />
+                Start within {cutoff.formatted}
+              </span>
+            )}
+            {state !== "upcoming" && closesAt && (
+              <span className="flex items-center gap-1">
+                <CalendarX className="w-4 h-4" />
+                {state === "closed"
+                  ? `Closed: ${closesAt.toLocaleString()}`
+                  : `Closes in ${closing.formatted} (${closesAt.toLocaleString()})`}
               </span>
             )}
           </div>
         </div>
         <Button
-          onClick={() => isAvailableNow && onStart(assessment.id)}
-          disabled={!isAvailableNow}
-          variant={isAvailableNow ? "default" : "secondary"}
+          onClick={() => action.enabled && onStart(assessment.id)}
+          disabled={!action.enabled}
+          variant={action.enabled ? "default" : "secondary"}
         >
-          {isAvailableNow ? (
-            "Start Test"
+          {action.enabled ? (
+            action.label
           ) : (
             <>
               <Lock className="w-4 h-4 mr-1" />
-              Not Yet Open
+              {action.label}
             </>
           )}
         </Button>
@@ -118,6 +177,7 @@ const AssessmentCard = ({
 
 const AvailableAssessments = ({ studentId }: AvailableAssessmentsProps) => {
   const [assessments, setAssessments] = useState<Assessment[]>([]);
+  const [summaries, setSummaries] = useState<Record<string, AttemptSummary>>({});
   const [loading, setLoading] = useState(true);
   const navigate = useNavigate();
 
@@ -157,25 +217,64 @@ const AvailableAssessments = ({ studentId }: AvailableAssessmentsProps) => {
       return;
     }
 
-    setAssessments(data ?? []);
+    const { data: myAttempts, error: attemptsError } = await supabase
+      .from("attempts")
+      .select("id, assessment_id, score, total_questions, started_at, submitted_at, locked_at")
+      .eq("student_id", studentId)
+      .order("started_at");
+
+    if (attemptsError) {
+      console.error("Error fetching attempts:", attemptsError);
+    }
+
+    const nextSummaries: Record<string, AttemptSummary> = {};
+    (data ?? []).forEach((assessment) => {
+      const mine = (myAttempts ?? []).filter((a) => a.assessment_id === assessment.id);
+      const open = mine.find((a) => !a.submitted_at);
+      const lastSubmitted = [...mine].reverse().find((a) => a.submitted_at);
+      const cooldownUntil = lastSubmitted && assessment.attempt_cooldown_minutes > 0
+        ? new Date(new Date(lastSubmitted.submitted_at!).getTime() + assessment.attempt_cooldown_minutes * 60 * 1000)
+        : null;
+
+      nextSummaries[assessment.id] = {
+        used: mine.length,
+        openAttemptId: open?.id ?? null,
+        locked: !!open?.locked_at,
+        cooldownUntil,
+        result: getCountedResult(mine, assessment.scoring_method),
+      };
+    });
+
+    // Open assessments first, then upcoming ones, closed ones last
+    const now = Date.now();
+    setAssessments(
+      [...(data ?? [])].sort((a, b) => STATE_ORDER[getAvailabilityState(a, now)] - STATE_ORDER[getAvailabilityState(b, now)])
+    );
+    setSummaries(nextSummaries);
     setLoading(false);
   };
 
   const handleStartAssessment = async (assessmentId: string) => {
-    const { data: attempt, error } = await supabase
-      .from("attempts")
-      .insert({
-        student_id: studentId,
-        assessment_id: assessmentId,
-      })
-      .select()
-      .single();
+    const openAttemptId = summaries[assessmentId]?.openAttemptId;
+    if (openAttemptId) {
+      navigate(`/take-assessment/${openAttemptId}`);
+      return;
+    }
 
-    if (error) {
-      console.error(error);
-    } else {
-      navigate(`/take-assessment/${attempt.id}`);
+    const { data, error } = await supabase.functions.invoke("start-assessment", {
+      body: { assessment_id: assessmentId },
+    });
+
+    if (error || !data?.success) {
+      // Rule violations come back as non-2xx responses with the reason in the body
+      const body = await error?.context?.json?.().catch(() => null);
+      console.error("Start assessment error:", error);
+      toast.error(body?.error || "Failed to start assessment");
+      fetchAssessments();
+      return;
     }
+
+    navigate(`/take-assessment/${data.attempt_id}`);
   };
 
   if (loading) {
@@ -198,6 +297,7 @@ const AvailableAssessments = ({ studentId }: AvailableAssessmentsProps) => {
                 <AssessmentCard
                   key={assessment.id}
                   assessment={assessment}
+                  summary={summaries[assessment.id] ?? EMPTY_SUMMARY}
                   onStart={handleStartAssessment}
                 />
               ))}
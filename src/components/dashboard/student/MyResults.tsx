@@ -5,6 +5,8 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { CheckCircle, XCircle, Eye, AlertTriangle, Calendar } from "lucide-react";
 import { useNavigate } from "react-router-dom";
+import TopicScores from "./TopicScores";
+import { SCORING_METHOD_LABELS, ScoringMethod, attemptPercentage, getCountedResult } from "@/lib/attemptScoring";
 
 interface MyResultsProps {
   studentId: string;
@@ -12,6 +14,7 @@ interface MyResultsProps {
 
 interface Attempt {
   id: string;
+  assessment_id: string;
   score: number | null;
   total_questions: number | null;
   passed: boolean | null;
@@ -20,6 +23,8 @@ interface Attempt {
   auto_submitted: boolean | null;
   assessments: {
     title: string;
+    passing_score: number;
+    scoring_method: string;
     subjects: {
       name: string;
     };
@@ -41,6 +46,7 @@ const MyResults = ({ studentId }: MyResultsProps) => {
         .from("attempts")
         .select(`
           id,
+          assessment_id,
           score,
           total_questions,
           passed,
@@ -49,6 +55,8 @@ const MyResults = ({ studentId }: MyResultsProps) => {
           auto_submitted,
           assessments!inner(
             title,
+            passing_score,
+            scoring_method,
             subjects!inner(name)
           )
         `)
@@ -68,6 +76,14 @@ const MyResults = ({ studentId }: MyResultsProps) => {
     }
   };
 
+  // One group per assessment, newest first, keeping each group's attempts newest first
+  const groupedAttempts = attempts.reduce<Attempt[][]>((groups, attempt) => {
+    const group = groups.find((g) => g[0].assessment_id === attempt.assessment_id);
+    if (group) group.push(attempt);
+    else groups.push([attempt]);
+    return groups;
+  }, []);
+
   const handleViewReview = (attemptId: string) => {
     navigate(`/assessment-review/${attemptId}`);
   };
@@ -96,77 +112,102 @@ const MyResults = ({ studentId }: MyResultsProps) => {
               </p>
             </div>
           ) : (
-            <div className="space-y-4">
-              {attempts.map((attempt) => {
-                const percentage = attempt.score && attempt.total_questions 
-                  ? Math.round((attempt.score / attempt.total_questions) * 100) 
-                  : 0;
-                
+            <div className="space-y-6">
+              {groupedAttempts.map((group) => {
+                const { assessments: assessment } = group[0];
+                const counted = getCountedResult(group, assessment.scoring_method);
+                const countedPassed = (counted?.percentage ?? 0) >= assessment.passing_score;
+
                 return (
-                  <div key={attempt.id} className="border rounded-lg p-4 space-y-3 hover:shadow-md transition-shadow">
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <p className="font-semibold text-lg">{attempt.assessments.title}</p>
-                        <p className="text-sm text-muted-foreground">
-                          {attempt.assessments.subjects.name}
-                        </p>
-                      </div>
-                      <div className="text-right flex items-center gap-2">
-                        <Calendar className="w-4 h-4 text-muted-foreground" />
-                        <p className="text-sm text-muted-foreground">
-                          {new Date(attempt.submitted_at!).toLocaleDateString()}
-                        </p>
+                  <div key={group[0].assessment_id} className="space-y-3">
+                    {group.length > 1 && counted && (
+                      <div className="flex items-center justify-between flex-wrap gap-2">
+                        <div>
+                          <p className="font-semibold">{assessment.title}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {group.length} attempts · {SCORING_METHOD_LABELS[assessment.scoring_method as ScoringMethod] || "Best attempt"} counts
+                          </p>
+                        </div>
+                        <Badge variant={countedPassed ? "default" : "destructive"}>
+                          Final: {counted.percentage}% · {countedPassed ? "Passed" : "Failed"}
+                        </Badge>
                       </div>
-                    </div>
+                    )}
+                    {group.map((attempt) => {
+                      const percentage = attemptPercentage(attempt);
+                      const isCounted = group.length > 1 && counted?.attemptIds.includes(attempt.id);
+                
+                      return (
+                        <div key={attempt.id} className="border rounded-lg p-4 space-y-3 hover:shadow-md transition-shadow">
+                          <div className="flex items-center justify-between">
+                            <div>
+                              <p className="font-semibold text-lg">{attempt.assessments.title}</p>
+                              <p className="text-sm text-muted-foreground">
+                                {attempt.assessments.subjects.name}
+                              </p>
+                            </div>
+                            <div className="text-right flex items-center gap-2">
+                              <Calendar className="w-4 h-4 text-muted-foreground" />
+                              <p className="text-sm text-muted-foreground">
+                                {new Date(attempt.submitted_at!).toLocaleDateString()}
+                              </p>
+                            </div>
+                          </div>
                     
-                    <div className="flex items-center gap-2 flex-wrap">
-                      {attempt.auto_submitted && (
-                        <Badge variant="outline" className="text-amber-600 border-amber-600">
-                          Auto-submitted
-                        </Badge>
-                      )}
-                      {(attempt.violations || 0) > 0 && (
-                        <Badge variant="destructive" className="flex items-center gap-1">
-                          <AlertTriangle className="w-3 h-3" />
-                          {attempt.violations} violation(s)
-                        </Badge>
-                      )}
-                    </div>
+                          <div className="flex items-center gap-2 flex-wrap">
+                            {isCounted && (
+                              <Badge variant="secondary">Counts towards final</Badge>
+                            )}
+                            {attempt.auto_submitted && (
+                              <Badge variant="outline" className="text-amber-600 border-amber-600">
+                                Auto-submitted
+                              </Badge>
+                            )}
+                            {(attempt.violations || 0) > 0 && (
+                              <Badge variant="destructive" className="flex items-center gap-1">
+                                <AlertTriangle className="w-3 h-3" />
+                                {attempt.violations} violation(s)
+                              </Badge>
+                            )}
+                          </div>
 
-                    <div className="flex items-center justify-between pt-2 border-t">
-                      <div className="space-y-1">
-                        <p className="text-sm">
-                          Score: <span className="font-semibold">{attempt.score}/{attempt.total_questions}</span>
-                        </p>
-                        <p className="text-sm">
-                          Percentage: <span className="font-semibold">{percentage}%</span>
-                        </p>
-                      </div>
-                      <div className="flex items-center gap-4">
-                        <div className="flex items-center gap-2">
-                          {attempt.passed ? (
-                            <>
-                              <CheckCircle className="w-5 h-5 text-green-500" />
-                              <span className="text-green-500 font-semibold">Passed</span>
-                            </>
-                          ) : (
-                            <>
-                              <XCircle className="w-5 h-5 text-red-500" />
-                              <span className="text-red-500 font-semibold">Failed</span>
-                            </>
-                          )}
+                          <div className="flex items-center justify-between pt-2 border-t">
+                            <div className="space-y-1">
+                              <p className="text-sm">
+                                Score: <span className="font-semibold">{attempt.score}/{attempt.total_questions}</span>
+                              </p>
+                              <p className="text-sm">
+                                Percentage: <span className="font-semibold">{percentage}%</span>
+                              </p>
+                            </div>
+                            <div className="flex items-center gap-4">
+                              <div className="flex items-center gap-2">
+                                {attempt.passed ? (
+                                  <>
+                                    <CheckCircle className="w-5 h-5 text-green-500" />
+                                    <span className="text-green-500 font-semibold">Passed</span>
+                                  </>
+                                ) : (
+                                  <>
+                                    <XCircle className="w-5 h-5 text-red-500" />
+                                    <span className="text-red-500 font-semibold">Failed</span>
+                                  </>
+                                )}
+                              </div>
+                              <Button 
+                                variant="outline" 
+                                size="sm" 
+                                onClick={() => handleViewReview(attempt.id)}
+                                className="flex items-center gap-2"
+                              >
+                                <Eye className="w-4 h-4" />
+                                View Corrections
+                              </Button>
+                            </div>
+                          </div>
                         </div>
-                        <Button 
-                          variant="outline" 
-                          size="sm" 
-                          onClick={() => handleViewReview(attempt.id)}
-                          className="flex items-center gap-2"
-                        >
-                          <Eye className="w-4 h-4" />
-                          View Corrections
-                        </Button>
-                      </div>
-                    </div>
+                      );
+                    })}
                   </div>
                 );
               })}
@@ -174,6 +215,8 @@ const MyResults = ({ studentId }: MyResultsProps) => {
           )}
         </CardContent>
       </Card>
+
+      <TopicScores studentId={studentId} />
     </div>
   );
 };
@@ -8,19 +8,25 @@ import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
 import { Shuffle, CheckCircle, XCircle, RotateCcw, Clock } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { QuestionExplanation as QuestionExplanationValue, QuestionOptions, answerLetters, getOptions, gradeAnswer, questionImageFields, toggleAnswerLetter } from "@/lib/questionTypes";
+import QuestionImage from "@/components/assessment/QuestionImage";
+import RichText from "@/components/assessment/RichText";
+import QuestionExplanation from "@/components/assessment/QuestionExplanation";
+import TopicSelect from "@/components/dashboard/TopicSelect";
+import { useQuestionImageUrls } from "@/hooks/useQuestionImageUrls";
+import { useTopics } from "@/hooks/useTopics";
+import { findSimilarQuestions } from "@/lib/questionDuplicates";
 
 interface PracticeQuestionsProps {
   studentId: string;
 }
 
-interface PracticeQuestion {
+interface PracticeQuestion extends QuestionOptions, Partial<QuestionExplanationValue> {
   id: string;
   question_text: string;
-  option_a: string;
-  option_b: string;
-  option_c: string;
-  option_d: string;
   correct_answer: string;
+  question_type: string;
+  scoring_mode: string;
   source: string;
   subject_name?: string;
 }
@@ -28,12 +34,15 @@ interface PracticeQuestion {
 const PracticeQuestions = ({ studentId }: PracticeQuestionsProps) => {
   const [subjects, setSubjects] = useState<any[]>([]);
   const [selectedSubject, setSelectedSubject] = useState<string>("all");
+  const [selectedTopic, setSelectedTopic] = useState<string | null>(null);
   const [questionCount, setQuestionCount] = useState<string>("10");
   const [questions, setQuestions] = useState<PracticeQuestion[]>([]);
   const [selectedAnswers, setSelectedAnswers] = useState<Record<string, string>>({});
   const [submitted, setSubmitted] = useState(false);
   const [practicing, setPracticing] = useState(false);
   const [currentIndex, setCurrentIndex] = useState(0);
+  const imageUrls = useQuestionImageUrls(questions);
+  const { topics } = useTopics(selectedSubject === "all" ? [] : [selectedSubject]);
 
   useEffect(() => { fetchSubjects(); }, []);
 
@@ -61,27 +70,30 @@ const PracticeQuestions = ({ studentId }: PracticeQuestionsProps) => {
     // Fetch from question bank via secure RPC (correct_answer hidden until submit)
     const { data: qbData } = await supabase.rpc("get_question_bank_practice", {
       _subject_id: selectedSubject === "all" ? null : selectedSubject,
+      _topic_id: selectedTopic ?? undefined,
     });
     if (qbData) {
       (qbData as any[]).forEach((q: any) => {
-        allQuestions.push({ id: `qb-${q.id}`, question_text: q.question_text, option_a: q.option_a, option_b: q.option_b, option_c: q.option_c, option_d: q.option_d, correct_answer: "", source: "Question Bank", subject_name: q.subject_name });
+        allQuestions.push({ id: `qb-${q.id}`, question_text: q.question_text, option_a: q.option_a, option_b: q.option_b, option_c: q.option_c, option_d: q.option_d, option_e: q.option_e, option_f: q.option_f, ...questionImageFields(q), correct_answer: "", question_type: q.question_type, scoring_mode: q.scoring_mode, source: "Question Bank", subject_name: q.subject_name });
       });
     }
 
     // Fetch from assessment questions for student's class only (via secure RPC)
     const { data: aqData } = await supabase.rpc("get_practice_questions", {
       _subject_id: selectedSubject === "all" ? null : selectedSubject,
+      _topic_id: selectedTopic ?? undefined,
     });
     if (aqData) {
       (aqData as any[]).forEach((q: any) => {
-        allQuestions.push({ id: `aq-${q.id}`, question_text: q.question_text, option_a: q.option_a, option_b: q.option_b, option_c: q.option_c, option_d: q.option_d, correct_answer: q.correct_answer, source: "Assessment", subject_name: q.subject_name });
+        allQuestions.push({ id: `aq-${q.id}`, question_text: q.question_text, option_a: q.option_a, option_b: q.option_b, option_c: q.option_c, option_d: q.option_d, option_e: q.option_e, option_f: q.option_f, ...questionImageFields(q), correct_answer: q.correct_answer, explanation: q.explanation, reference_title: q.reference_title, reference_url: q.reference_url, question_type: q.question_type, scoring_mode: q.scoring_mode, source: "Assessment", subject_name: q.subject_name });
       });
     }
 
-    if (allQuestions.length === 0) { toast.error("No questions available for this subject"); return; }
+    if (allQuestions.length === 0) { toast.error(selectedTopic ? "No questions available for this topic" : "No questions available for this subject"); return; }
 
-    const seen = new Set<string>();
-    const unique = allQuestions.filter((q) => { const key = q.question_text.trim().toLowerCase(); if (seen.has(key)) return false; seen.add(key); return true; });
+    // The bank and assessments often hold the same question, reworded a little
+    const unique: PracticeQuestion[] = [];
+    allQuestions.forEach((q) => { if (findSimilarQuestions(q, unique).length === 0) unique.push(q); });
     const shuffled = unique.sort(() => Math.random() - 0.5).slice(0, count);
     setQuestions(shuffled);
     setSelectedAnswers({});
@@ -90,9 +102,13 @@ const PracticeQuestions = ({ studentId }: PracticeQuestionsProps) => {
     setCurrentIndex(0);
   };
 
-  const handleSelectAnswer = (questionId: string, answer: string) => {
+  const handleSelectAnswer = (question: PracticeQuestion, answer: string) => {
     if (submitted) return;
-    setSelectedAnswers((prev) => ({ ...prev, [questionId]: answer }));
+    setSelectedAnswers((prev) => {
+      const value = question.question_type === "multiple" ? toggleAnswerLetter(prev[question.id], answer) : answer;
+      const { [question.id]: _previous, ...rest } = prev;
+      return value ? { ...rest, [question.id]: value } : rest;
+    });
   };
 
   const handleSubmitAll = async () => {
@@ -101,35 +117,32 @@ const PracticeQuestions = ({ studentId }: PracticeQuestionsProps) => {
       toast.error(`Please answer all questions. ${unanswered.length} unanswered.`);
       return;
     }
-    // Reveal correct answers for question-bank items via secure RPC
+    // Reveal correct answers and explanations for question-bank items via secure RPC
     const qbIds = questions
       .filter((q) => q.id.startsWith("qb-") && !q.correct_answer)
       .map((q) => q.id.replace(/^qb-/, ""));
     if (qbIds.length > 0) {
       const { data: graded } = await supabase.rpc("grade_question_bank", { _question_ids: qbIds });
       if (graded) {
-        const map = new Map<string, string>((graded as any[]).map((g) => [g.id, g.correct_answer]));
-        setQuestions((prev) => prev.map((q) => q.id.startsWith("qb-")
-          ? { ...q, correct_answer: map.get(q.id.replace(/^qb-/, "")) || q.correct_answer }
-          : q));
+        const map = new Map(graded.map((g) => [g.id, g]));
+        setQuestions((prev) => prev.map((q) => {
+          const key = q.id.startsWith("qb-") ? map.get(q.id.replace(/^qb-/, "")) : undefined;
+          return key
+            ? { ...q, correct_answer: key.correct_answer || q.correct_answer, explanation: key.explanation, reference_title: key.reference_title, reference_url: key.reference_url }
+            : q;
+        }));
       }
     }
     setSubmitted(true);
     toast.success("Answers submitted! Review your results.");
   };
 
-  const score = submitted ? questions.filter((q) => selectedAnswers[q.id] === q.correct_answer).length : 0;
+  const creditFor = (q: PracticeQuestion) => gradeAnswer(selectedAnswers[q.id], q.correct_answer, q.question_type, q.scoring_mode);
+  const score = submitted ? Math.round(questions.reduce((sum, q) => sum + creditFor(q), 0) * 100) / 100 : 0;
   const resetPractice = () => { setPracticing(false); setQuestions([]); setSelectedAnswers({}); setSubmitted(false); setCurrentIndex(0); };
 
   const currentQuestion = questions[currentIndex];
 
-  const options = (q: PracticeQuestion) => [
-    { key: "A", text: q.option_a },
-    { key: "B", text: q.option_b },
-    { key: "C", text: q.option_c },
-    { key: "D", text: q.option_d },
-  ];
-
   if (practicing && currentQuestion) {
     const selected = selectedAnswers[currentQuestion.id];
     const answeredCount = Object.keys(selectedAnswers).length;
@@ -170,9 +183,10 @@ const PracticeQuestions = ({ studentId }: PracticeQuestionsProps) => {
                 let variant: "default" | "outline" | "secondary" | "destructive" = "outline";
 
                 if (submitted) {
-                  const isCorrect = selectedAnswers[q.id] === q.correct_answer;
-                  if (isAnswered && isCorrect) variant = "default";
-                  else if (isAnswered && !isCorrect) variant = "destructive";
+                  const credit = creditFor(q);
+                  if (isAnswered && credit === 1) variant = "default";
+                  else if (isAnswered && credit > 0) variant = "secondary";
+                  else if (isAnswered) variant = "destructive";
                 } else {
                   if (isAnswered) variant = "secondary";
                 }
@@ -200,43 +214,52 @@ const PracticeQuestions = ({ studentId }: PracticeQuestionsProps) => {
         <Card className="rounded-t-none">
           <CardContent className="pt-6 space-y-4">
             <div className="flex items-start justify-between gap-2">
-              <p className="font-semibold text-base">
-                <span className="text-muted-foreground mr-2">Q{currentIndex + 1}.</span>
-                {currentQuestion.question_text}
-              </p>
+              <div className="font-semibold text-base flex gap-2 min-w-0">
+                <span className="text-muted-foreground">Q{currentIndex + 1}.</span>
+                <RichText content={currentQuestion.question_text} className="flex-1 min-w-0" />
+              </div>
               <div className="flex gap-1 flex-shrink-0">
+                {currentQuestion.question_type === "multiple" && <Badge variant="secondary" className="text-xs whitespace-nowrap">Select all that apply</Badge>}
                 {currentQuestion.subject_name && <Badge variant="outline" className="text-xs whitespace-nowrap">{currentQuestion.subject_name}</Badge>}
               </div>
             </div>
+            <QuestionImage path={currentQuestion.question_image} urls={imageUrls} alt={`Question ${currentIndex + 1}`} />
 
             <div className="space-y-2">
-              {options(currentQuestion).map((opt) => {
+              {getOptions(currentQuestion).map((opt) => {
+                const isCorrectOption = answerLetters(currentQuestion.correct_answer).includes(opt.key);
+                const isSelected = answerLetters(selected).includes(opt.key);
                 let className = "w-full text-left p-4 border rounded-lg transition-colors text-sm ";
                 if (submitted) {
-                  if (opt.key === currentQuestion.correct_answer) {
+                  if (isCorrectOption) {
                     className += "border-green-500 bg-green-50 dark:bg-green-950";
-                  } else if (opt.key === selected && opt.key !== currentQuestion.correct_answer) {
+                  } else if (isSelected) {
                     className += "border-red-500 bg-red-50 dark:bg-red-950";
                   } else {
                     className += "opacity-50";
                   }
                 } else {
-                  className += selected === opt.key ? "border-primary bg-primary/10" : "hover:border-primary/50";
+                  className += isSelected ? "border-primary bg-primary/10" : "hover:border-primary/50";
                 }
 
                 return (
-                  <button key={opt.key} className={className} onClick={() => handleSelectAnswer(currentQuestion.id, opt.key)} disabled={submitted}>
+                  <button key={opt.key} className={className} onClick={() => handleSelectAnswer(currentQuestion, opt.key)} disabled={submitted}>
                     <span className="flex items-center gap-3">
-                      <span className="font-bold text-sm w-7 h-7 rounded-full border-2 flex items-center justify-center flex-shrink-0">{opt.key}</span>
-                      <span>{opt.text}</span>
-                      {submitted && opt.key === currentQuestion.correct_answer && <CheckCircle className="w-5 h-5 text-green-600 ml-auto flex-shrink-0" />}
-                      {submitted && opt.key === selected && opt.key !== currentQuestion.correct_answer && <XCircle className="w-5 h-5 text-red-600 ml-auto flex-shrink-0" />}
+                      <span className={cn("font-bold text-sm w-7 h-7 border-2 flex items-center justify-center flex-shrink-0", currentQuestion.question_type === "multiple" ? "rounded-md" : "rounded-full")}>{opt.key}</span>
+                      <span>
+                        <RichText content={opt.text} inline />
+                        <QuestionImage path={opt.image} urls={imageUrls} alt={`Option ${opt.key}`} className="mt-2 max-h-48" />
+                      </span>
+                      {submitted && isCorrectOption && <CheckCircle className="w-5 h-5 text-green-600 ml-auto flex-shrink-0" />}
+                      {submitted && isSelected && !isCorrectOption && <XCircle className="w-5 h-5 text-red-600 ml-auto flex-shrink-0" />}
                     </span>
                   </button>
                 );
               })}
             </div>
 
+            {submitted && <QuestionExplanation question={currentQuestion} />}
+
             {/* Navigation + Submit */}
             <div className="flex items-center justify-between pt-4 border-t gap-2">
               <Button
@@ -283,7 +306,7 @@ const PracticeQuestions = ({ studentId }: PracticeQuestionsProps) => {
         <div className="grid md:grid-cols-2 gap-4">
           <div>
             <Label>Subject</Label>
-            <Select value={selectedSubject} onValueChange={setSelectedSubject}>
+            <Select value={selectedSubject} onValueChange={(v) => { setSelectedSubject(v); setSelectedTopic(null); }}>
               <SelectTrigger><SelectValue /></SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Subjects</SelectItem>
@@ -291,6 +314,19 @@ const PracticeQuestions = ({ studentId }: PracticeQuestionsProps) => {
               </SelectContent>
             </Select>
           </div>
+          {selectedSubject !== "all" && topics.length > 0 && (
+            <div>
+              <Label htmlFor="practice-topic">Topic</Label>
+              <TopicSelect
+                id="practice-topic"
+                topics={topics}
+                subjectId={selectedSubject}
+                value={selectedTopic}
+                onChange={setSelectedTopic}
+                emptyLabel="All topics"
+              />
+            </div>
+          )}
           <div>
             <Label>Number of Questions</Label>
             <Select value={questionCount} onValueChange={setQuestionCount}>
@@ -0,0 +1,71 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { useTopics } from "@/hooks/useTopics";
+import { TopicScore, rollUpTopicScores, topicOutline } from "@/lib/topics";
+
+interface TopicScoresProps {
+  studentId: string;
+}
+
+// Marks earned per topic across every submitted attempt, each parent topic
+// including its subtopics; hidden until some answered question has a topic
+const TopicScores = ({ studentId }: TopicScoresProps) => {
+  const [scores, setScores] = useState<TopicScore[]>([]);
+  const [subjects, setSubjects] = useState<{ id: string; name: string }[]>([]);
+  const { topics } = useTopics();
+
+  useEffect(() => {
+    const fetchScores = async () => {
+      const { data, error } = await supabase.rpc("get_topic_scores", { _student_id: studentId });
+      if (error) {
+        console.error("Error fetching topic scores:", error);
+        return;
+      }
+      setScores(data || []);
+    };
+    fetchScores();
+    supabase.from("subjects").select("id, name").order("name").then(({ data }) => setSubjects(data || []));
+  }, [studentId]);
+
+  const totals = rollUpTopicScores(topics, scores);
+  const scoredSubjects = subjects
+    .map((subject) => ({ subject, rows: topicOutline(topics, subject.id).filter(({ topic }) => totals.has(topic.id)) }))
+    .filter(({ rows }) => rows.length > 0);
+
+  if (scoredSubjects.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Scores by Topic</CardTitle>
+        <CardDescription>How you've done on each topic across all your completed assessments</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {scoredSubjects.map(({ subject, rows }) => (
+          <div key={subject.id} className="space-y-2">
+            <p className="font-semibold">{subject.name}</p>
+            {rows.map(({ topic, depth }) => {
+              const total = totals.get(topic.id)!;
+              const percentage = total.questions > 0 ? Math.round((total.earned / total.questions) * 100) : 0;
+              return (
+                <div key={topic.id} className="space-y-1" style={{ paddingLeft: `${depth * 1.5}rem` }}>
+                  <div className="flex items-center justify-between text-sm">
+                    <span className={depth === 0 ? "font-medium" : ""}>{topic.name}</span>
+                    <span className="text-muted-foreground">
+                      {Math.round(total.earned * 100) / 100}/{total.questions} ({percentage}%)
+                    </span>
+                  </div>
+                  <Progress value={percentage} className="h-2" />
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TopicScores;
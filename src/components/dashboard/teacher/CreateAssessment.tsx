@@ -1,8 +1,9 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 
 import { Checkbox } from "@/components/ui/checkbox";
@@ -10,19 +11,40 @@ import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
 import { Plus, Trash2, BookOpen } from "lucide-react";
 import { notifyUserAction } from "@/lib/emailNotifications";
+import { DEFAULT_PROCTORING_POLICY } from "@/lib/proctoring";
+import { SCORING_METHOD_LABELS, ScoringMethod } from "@/lib/attemptScoring";
+import { fromDateTimeLocal, validateWindow } from "@/lib/availability";
+import {
+  QUESTION_ANSWER_COLUMNS,
+  answerKeyError,
+  answerLetters,
+  describeTypedAnswer,
+  emptyQuestionOptions,
+  getOptions,
+  hasBlankOption,
+  isTypedQuestion,
+  questionAnswerFields,
+  trimOptions,
+} from "@/lib/questionTypes";
+import ProctoringSettings from "@/components/dashboard/ProctoringSettings";
+import QuestionOptionsEditor, { QuestionOptionsValue } from "@/components/dashboard/QuestionOptionsEditor";
+import RichTextPreview from "@/components/dashboard/RichTextPreview";
+import SimilarQuestionsWarning from "@/components/dashboard/SimilarQuestionsWarning";
+import { useTopics } from "@/hooks/useTopics";
+import { useSimilarityPool } from "@/hooks/useSimilarityPool";
+import { DuplicateCandidate, findSimilarQuestions } from "@/lib/questionDuplicates";
 
 interface CreateAssessmentProps {
   teacherId: string;
   onCreated?: () => void;
 }
 
-interface Question {
+interface Question extends QuestionOptionsValue {
   question_text: string;
-  option_a: string;
-  option_b: string;
-  option_c: string;
-  option_d: string;
-  correct_answer: string;
+  // Set on questions imported from the bank, see get_bank_question_difficulty
+  bank_question_id?: string | null;
+  // Copied from the bank or another assessment rather than written here
+  imported?: boolean;
 }
 
 const CreateAssessment = ({ teacherId, onCreated }: CreateAssessmentProps) => {
@@ -37,16 +59,34 @@ const CreateAssessment = ({ teacherId, onCreated }: CreateAssessmentProps) => {
     marks_per_question: 1,
     scheduled_date: "",
     scheduled_time: "",
+    closes_at: "",
+    latest_start_at: "",
+    shuffle_questions: false,
+    shuffle_options: false,
+    questions_per_attempt: null as number | null,
+    max_attempts: 1 as number | null,
+    attempt_cooldown_minutes: 0,
+    scoring_method: "best" as ScoringMethod,
+    ...DEFAULT_PROCTORING_POLICY,
   });
   const [questions, setQuestions] = useState<Question[]>([
-    { question_text: "", option_a: "", option_b: "", option_c: "", option_d: "", correct_answer: "A" },
+    { question_text: "", ...emptyQuestionOptions() },
   ]);
 
+  const { topics } = useTopics(formData.subject_id ? [formData.subject_id] : []);
   const [showBankImport, setShowBankImport] = useState(false);
   const [bankQuestions, setBankQuestions] = useState<any[]>([]);
   const [selectedBankIds, setSelectedBankIds] = useState<Set<string>>(new Set());
   const [assessmentQuestions, setAssessmentQuestions] = useState<any[]>([]);
   const [selectedAssessmentIds, setSelectedAssessmentIds] = useState<Set<string>>(new Set());
+  const { pool } = useSimilarityPool(formData.subject_id);
+
+  // Assessment questions that are copies of, or much like, a bank question
+  const bankCopies = useMemo(() => new Set(
+    assessmentQuestions
+      .filter((q) => bankQuestions.some((b) => b.id === q.bank_question_id) || findSimilarQuestions(q, bankQuestions).length > 0)
+      .map((q) => q.id)
+  ), [bankQuestions, assessmentQuestions]);
 
   useEffect(() => {
     fetchTeacherSubjects();
@@ -78,20 +118,25 @@ const CreateAssessment = ({ teacherId, onCreated }: CreateAssessmentProps) => {
   };
 
   const fetchAvailableQuestions = async () => {
-    // Fetch ALL question bank questions for this subject (from any teacher or admin)
+    // Fetch ALL approved question bank questions for this subject (from any teacher or admin)
     const { data: qbData } = await supabase.from("question_bank")
-      .select("id, question_text, option_a, option_b, option_c, option_d, correct_answer, added_by, profiles:added_by(full_name)")
-      .eq("subject_id", formData.subject_id);
+      .select(`id, question_text, ${QUESTION_ANSWER_COLUMNS}, added_by, profiles:added_by(full_name)`)
+      .eq("subject_id", formData.subject_id)
+      .eq("status", "approved");
     setBankQuestions((qbData || []).map((q: any) => ({ ...q, source_label: q.profiles?.full_name || "Unknown" })));
 
-    // Fetch from ALL existing assessments & mock exams for this subject
+    // Fetch from ALL existing assessments & mock exams for this subject,
+    // leaving out copies of bank questions that aren't approved (or that the
+    // teacher can't see, which are never approved ones)
     const { data: aqData } = await supabase.from("questions")
-      .select("id, question_text, option_a, option_b, option_c, option_d, correct_answer, assessment_id, assessments!inner(subject_id, title, is_mock_exam)")
+      .select(`id, question_text, ${QUESTION_ANSWER_COLUMNS}, bank_question_id, assessment_id, assessments!inner(subject_id, title, is_mock_exam), question_bank(status)`)
       .eq("assessments.subject_id", formData.subject_id);
-    setAssessmentQuestions((aqData || []).map((q: any) => ({
-      ...q,
-      source_label: q.assessments?.is_mock_exam ? `Mock: ${q.assessments?.title}` : `Assessment: ${q.assessments?.title}`
-    })));
+    setAssessmentQuestions((aqData || [])
+      .filter((q) => !q.bank_question_id || q.question_bank?.status === "approved")
+      .map(({ question_bank, ...q }) => ({
+        ...q,
+        source_label: q.assessments?.is_mock_exam ? `Mock: ${q.assessments?.title}` : `Assessment: ${q.assessments?.title}`
+      })));
   };
 
   const toggleBankQuestion = (id: string) => {
@@ -120,26 +165,22 @@ const CreateAssessment = ({ teacherId, onCreated }: CreateAssessmentProps) => {
 
   const importSelected = () => {
     const imported: Question[] = [];
-    const seen = new Set<string>();
-
-    // Add existing questions to seen set to avoid duplicates
-    questions.forEach(q => { if (q.question_text.trim()) seen.add(q.question_text.trim().toLowerCase()); });
-
-    bankQuestions.filter(q => selectedBankIds.has(q.id)).forEach(q => {
-      const key = q.question_text.trim().toLowerCase();
-      if (!seen.has(key)) {
-        seen.add(key);
-        imported.push({ question_text: q.question_text, option_a: q.option_a, option_b: q.option_b, option_c: q.option_c, option_d: q.option_d, correct_answer: q.correct_answer });
-      }
-    });
-
-    assessmentQuestions.filter(q => selectedAssessmentIds.has(q.id)).forEach(q => {
-      const key = q.question_text.trim().toLowerCase();
-      if (!seen.has(key)) {
-        seen.add(key);
-        imported.push({ question_text: q.question_text, option_a: q.option_a, option_b: q.option_b, option_c: q.option_c, option_d: q.option_d, correct_answer: q.correct_answer });
-      }
-    });
+    let skipped = 0;
+
+    // Questions already in the assessment and those imported so far rule out
+    // copies of the same bank question and likely duplicates
+    const kept: DuplicateCandidate[] = questions.filter(q => q.question_text.trim());
+    const bankIds = new Set(questions.map(q => q.bank_question_id).filter(Boolean));
+    const add = (q: Parameters<typeof questionAnswerFields>[0] & { question_text: string }, bankQuestionId: string | null) => {
+      if ((bankQuestionId && bankIds.has(bankQuestionId)) || findSimilarQuestions(q, kept).length > 0) { skipped++; return; }
+      const question = { question_text: q.question_text, ...questionAnswerFields(q), bank_question_id: bankQuestionId, imported: true };
+      imported.push(question);
+      kept.push(question);
+      if (bankQuestionId) bankIds.add(bankQuestionId);
+    };
+
+    bankQuestions.filter(q => selectedBankIds.has(q.id)).forEach(q => add(q, q.id));
+    assessmentQuestions.filter(q => selectedAssessmentIds.has(q.id)).forEach(q => add(q, q.bank_question_id));
 
     if (imported.length === 0) { toast.error("No new questions selected (duplicates removed)"); return; }
 
@@ -148,11 +189,11 @@ const CreateAssessment = ({ teacherId, onCreated }: CreateAssessmentProps) => {
     setShowBankImport(false);
     setSelectedBankIds(new Set());
     setSelectedAssessmentIds(new Set());
-    toast.success(`${imported.length} question(s) imported`);
+    toast.success(`${imported.length} question(s) imported${skipped > 0 ? `, ${skipped} likely duplicate(s) skipped` : ""}`);
   };
 
   const addQuestion = () => {
-    setQuestions([...questions, { question_text: "", option_a: "", option_b: "", option_c: "", option_d: "", correct_answer: "A" }]);
+    setQuestions([...questions, { question_text: "", ...emptyQuestionOptions() }]);
   };
 
   const removeQuestion = (index: number) => { setQuestions(questions.filter((_, i) => i !== index)); };
@@ -164,13 +205,21 @@ const CreateAssessment = ({ teacherId, onCreated }: CreateAssessmentProps) => {
     e.preventDefault();
     if (!formData.subject_id) { toast.error("Please select a subject"); return; }
     if (!formData.class_id) { toast.error("Please select a class"); return; }
-    if (questions.some(q => !q.question_text || !q.option_a || !q.option_b || !q.option_c || !q.option_d)) { toast.error("Please fill in all question fields"); return; }
+    if (questions.some(q => !q.question_text || hasBlankOption(q))) { toast.error("Please fill in all question fields"); return; }
+    const keyError = questions.map(answerKeyError).find(Boolean);
+    if (keyError) { toast.error(keyError); return; }
+    if (formData.questions_per_attempt && formData.questions_per_attempt > questions.length) { toast.error(`Questions per attempt cannot exceed the ${questions.length} question(s) in the pool`); return; }
+    const opensAt = fromDateTimeLocal(`${formData.scheduled_date}T${formData.scheduled_time || "00:00"}`);
+    const closesAt = fromDateTimeLocal(formData.closes_at);
+    const latestStartAt = fromDateTimeLocal(formData.latest_start_at);
+    const windowError = validateWindow(opensAt, closesAt, latestStartAt);
+    if (windowError) { toast.error(windowError); return; }
 
     try {
-      const { data: assessment, error: assessmentError } = await supabase.from("assessments").insert({ ...formData, teacher_id: teacherId, scheduled_time: formData.scheduled_time || null }).select().single();
+      const { data: assessment, error: assessmentError } = await supabase.from("assessments").insert({ ...formData, teacher_id: teacherId, scheduled_time: formData.scheduled_time || null, opens_at: opensAt, closes_at: closesAt, latest_start_at: latestStartAt }).select().single();
       if (assessmentError) throw assessmentError;
 
-      const { error: questionsError } = await supabase.from("questions").insert(questions.map(q => ({ ...q, assessment_id: assessment.id })));
+      const { error: questionsError } = await supabase.from("questions").insert(questions.map(q => ({ question_text: q.question_text, ...questionAnswerFields(q), ...trimOptions(q), bank_question_id: q.bank_question_id ?? null, assessment_id: assessment.id })));
       if (questionsError) throw questionsError;
 
       const { data: students } = await supabase.from("user_roles").select("user_id, profiles(full_name, email, class_id)").eq("role", "student");
@@ -184,8 +233,8 @@ const CreateAssessment = ({ teacherId, onCreated }: CreateAssessmentProps) => {
 
       toast.success("Assessment created successfully!");
       onCreated?.();
-      setFormData({ title: "", subject_id: "", class_id: "", duration_minutes: 30, passing_score: 70, marks_per_question: 1, scheduled_date: "", scheduled_time: "" });
-      setQuestions([{ question_text: "", option_a: "", option_b: "", option_c: "", option_d: "", correct_answer: "A" }]);
+      setFormData({ title: "", subject_id: "", class_id: "", duration_minutes: 30, passing_score: 70, marks_per_question: 1, scheduled_date: "", scheduled_time: "", closes_at: "", latest_start_at: "", shuffle_questions: false, shuffle_options: false, questions_per_attempt: null, max_attempts: 1, attempt_cooldown_minutes: 0, scoring_method: "best", ...DEFAULT_PROCTORING_POLICY });
+      setQuestions([{ question_text: "", ...emptyQuestionOptions() }]);
     } catch (error: any) { toast.error(error.message); }
   };
 
@@ -204,7 +253,11 @@ const CreateAssessment = ({ teacherId, onCreated }: CreateAssessmentProps) => {
                 <Label>Subject</Label>
                 <select
                   value={formData.subject_id}
-                  onChange={(e) => setFormData({ ...formData, subject_id: e.target.value })}
+                  onChange={(e) => {
+                    setFormData({ ...formData, subject_id: e.target.value });
+                    // Topics belong to the old subject
+                    setQuestions(questions.map((q) => ({ ...q, topic_id: null })));
+                  }}
                   className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
                   required
                 >
@@ -235,9 +288,56 @@ const CreateAssessment = ({ teacherId, onCreated }: CreateAssessmentProps) => {
               <div><Label htmlFor="passing">Passing Score (%)</Label><Input id="passing" type="number" value={formData.passing_score} onChange={(e) => setFormData({ ...formData, passing_score: parseInt(e.target.value) })} required /></div>
               <div><Label htmlFor="marks">Marks per Question</Label><Input id="marks" type="number" min={1} value={formData.marks_per_question} onChange={(e) => setFormData({ ...formData, marks_per_question: parseInt(e.target.value) || 1 })} required /></div>
               <div><Label htmlFor="scheduled_date">Scheduled Date</Label><Input id="scheduled_date" type="date" value={formData.scheduled_date} onChange={(e) => setFormData({ ...formData, scheduled_date: e.target.value })} required /></div>
+              <div>
+                <Label htmlFor="questions_per_attempt">Questions per Attempt</Label>
+                <Input id="questions_per_attempt" type="number" min={1} placeholder="All questions" value={formData.questions_per_attempt ?? ""} onChange={(e) => setFormData({ ...formData, questions_per_attempt: parseInt(e.target.value) || null })} />
+                <p className="text-xs text-muted-foreground mt-1">Leave blank to give every student all questions</p>
+              </div>
               <div><Label htmlFor="scheduled_time">Scheduled Time</Label><Input id="scheduled_time" type="time" value={formData.scheduled_time} onChange={(e) => setFormData({ ...formData, scheduled_time: e.target.value })} required /></div>
+              <div>
+                <Label htmlFor="closes_at">Closes At</Label>
+                <Input id="closes_at" type="datetime-local" value={formData.closes_at} onChange={(e) => setFormData({ ...formData, closes_at: e.target.value })} />
+                <p className="text-xs text-muted-foreground mt-1">Leave blank to keep it open. Attempts in progress end at this time.</p>
+              </div>
+              <div>
+                <Label htmlFor="latest_start_at">Latest Start</Label>
+                <Input id="latest_start_at" type="datetime-local" value={formData.latest_start_at} onChange={(e) => setFormData({ ...formData, latest_start_at: e.target.value })} />
+                <p className="text-xs text-muted-foreground mt-1">No new attempts can be started after this time</p>
+              </div>
+              <div>
+                <Label htmlFor="max_attempts">Attempts Allowed</Label>
+                <Input id="max_attempts" type="number" min={1} placeholder="Unlimited" value={formData.max_attempts ?? ""} onChange={(e) => setFormData({ ...formData, max_attempts: parseInt(e.target.value) || null })} />
+                <p className="text-xs text-muted-foreground mt-1">Leave blank for unlimited attempts</p>
+              </div>
+              <div><Label htmlFor="attempt_cooldown">Cooldown Between Attempts (minutes)</Label><Input id="attempt_cooldown" type="number" min={0} value={formData.attempt_cooldown_minutes} onChange={(e) => setFormData({ ...formData, attempt_cooldown_minutes: Math.max(0, parseInt(e.target.value) || 0) })} /></div>
+              <div>
+                <Label htmlFor="scoring_method">Attempt that Counts</Label>
+                <select
+                  id="scoring_method"
+                  value={formData.scoring_method}
+                  onChange={(e) => setFormData({ ...formData, scoring_method: e.target.value as ScoringMethod })}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                >
+                  {(Object.keys(SCORING_METHOD_LABELS) as ScoringMethod[]).map((method) => (
+                    <option key={method} value={method}>{SCORING_METHOD_LABELS[method]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-6">
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox checked={formData.shuffle_questions} onCheckedChange={(v) => setFormData({ ...formData, shuffle_questions: v === true })} />
+                Shuffle question order for each student
+              </label>
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox checked={formData.shuffle_options} onCheckedChange={(v) => setFormData({ ...formData, shuffle_options: v === true })} />
+                Shuffle answer options for each student
+              </label>
             </div>
 
+            <ProctoringSettings value={formData} onChange={(policy) => setFormData({ ...formData, ...policy })} />
+
             <div className="space-y-4">
               <div className="flex items-center justify-between flex-wrap gap-2">
                 <h3 className="text-lg font-semibold">Questions ({questions.filter(q => q.question_text.trim()).length})</h3>
@@ -275,7 +375,11 @@ const CreateAssessment = ({ teacherId, onCreated }: CreateAssessmentProps) => {
                               <Checkbox checked={selectedBankIds.has(q.id)} onCheckedChange={() => toggleBankQuestion(q.id)} className="mt-1" />
                               <div className="text-sm flex-1">
                                 <p className="font-medium">{q.question_text}</p>
-                                <p className="text-muted-foreground text-xs">A: {q.option_a} | B: {q.option_b} | C: {q.option_c} | D: {q.option_d} • Correct: {q.correct_answer}</p>
+                                <p className="text-muted-foreground text-xs">
+                                  {isTypedQuestion(q.question_type)
+                                    ? `Answer: ${describeTypedAnswer(q)}`
+                                    : `${getOptions(q).map((o) => `${o.key}: ${o.text}`).join(" | ")} • Correct: ${answerLetters(q.correct_answer).join(", ")}`}
+                                </p>
                                 <Badge variant="outline" className="text-xs mt-1">By: {q.source_label}</Badge>
                               </div>
                             </label>
@@ -297,8 +401,15 @@ const CreateAssessment = ({ teacherId, onCreated }: CreateAssessmentProps) => {
                               <Checkbox checked={selectedAssessmentIds.has(q.id)} onCheckedChange={() => toggleAssessmentQuestion(q.id)} className="mt-1" />
                               <div className="text-sm flex-1">
                                 <p className="font-medium">{q.question_text}</p>
-                                <p className="text-muted-foreground text-xs">A: {q.option_a} | B: {q.option_b} | C: {q.option_c} | D: {q.option_d} • Correct: {q.correct_answer}</p>
+                                <p className="text-muted-foreground text-xs">
+                                  {isTypedQuestion(q.question_type)
+                                    ? `Answer: ${describeTypedAnswer(q)}`
+                                    : `${getOptions(q).map((o) => `${o.key}: ${o.text}`).join(" | ")} • Correct: ${answerLetters(q.correct_answer).join(", ")}`}
+                                </p>
                                 <Badge variant="secondary" className="text-xs mt-1">{q.source_label}</Badge>
+                                {bankCopies.has(q.id) && (
+                                  <Badge variant="outline" className="text-xs mt-1 ml-1 border-amber-500 text-amber-600">Also in the bank</Badge>
+                                )}
                               </div>
                             </label>
                           ))}
@@ -324,26 +435,15 @@ const CreateAssessment = ({ teacherId, onCreated }: CreateAssessmentProps) => {
                         <Button type="button" variant="ghost" size="sm" onClick={() => removeQuestion(index)}><Trash2 className="w-4 h-4" /></Button>
                       )}
                     </div>
-                    <div><Label>Question Text</Label><Input value={question.question_text} onChange={(e) => updateQuestion(index, "question_text", e.target.value)} required /></div>
-                    <div className="grid md:grid-cols-2 gap-4">
-                      <div><Label>Option A</Label><Input value={question.option_a} onChange={(e) => updateQuestion(index, "option_a", e.target.value)} required /></div>
-                      <div><Label>Option B</Label><Input value={question.option_b} onChange={(e) => updateQuestion(index, "option_b", e.target.value)} required /></div>
-                      <div><Label>Option C</Label><Input value={question.option_c} onChange={(e) => updateQuestion(index, "option_c", e.target.value)} required /></div>
-                      <div><Label>Option D</Label><Input value={question.option_d} onChange={(e) => updateQuestion(index, "option_d", e.target.value)} required /></div>
-                    </div>
-                    <div>
-                      <Label>Correct Answer</Label>
-                      <select
-                        value={question.correct_answer}
-                        onChange={(e) => updateQuestion(index, "correct_answer", e.target.value)}
-                        className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
-                      >
-                        <option value="A">A</option>
-                        <option value="B">B</option>
-                        <option value="C">C</option>
-                        <option value="D">D</option>
-                      </select>
-                    </div>
+                    <div><Label>Question Text</Label><Textarea value={question.question_text} onChange={(e) => updateQuestion(index, "question_text", e.target.value)} maxLength={2000} required /><RichTextPreview content={question.question_text} /></div>
+                    {!question.imported && <SimilarQuestionsWarning question={question} pool={pool} />}
+                    <QuestionOptionsEditor
+                      idPrefix={`q${index}`}
+                      value={question}
+                      onChange={(value) => { const updated = [...questions]; updated[index] = { ...updated[index], ...value }; setQuestions(updated); }}
+                      subjectId={formData.subject_id || undefined}
+                      topics={topics}
+                    />
                   </CardContent>
                 </Card>
               ))}
@@ -1,13 +1,40 @@
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { FileText, Clock, CheckCircle, Trash2, Edit, Save, X, ChevronDown, ChevronUp } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { FileText, Clock, CheckCircle, Trash2, Edit, Save, X, ChevronDown, ChevronUp, History, RefreshCw } from "lucide-react";
 import { toast } from "sonner";
+import { DEFAULT_PROCTORING_POLICY, toProctoringPolicy } from "@/lib/proctoring";
+import { SCORING_METHOD_LABELS, ScoringMethod } from "@/lib/attemptScoring";
+import ProctoringSettings from "@/components/dashboard/ProctoringSettings";
+import QuestionOptionsEditor from "@/components/dashboard/QuestionOptionsEditor";
+import RichText from "@/components/assessment/RichText";
+import RichTextPreview from "@/components/dashboard/RichTextPreview";
+import AssessmentQuestionImport from "@/components/dashboard/AssessmentQuestionImport";
+import QuizExport from "@/components/dashboard/QuizExport";
+import QuestionHistory from "@/components/dashboard/QuestionHistory";
+import RegradeQuestion, { RegradableQuestion } from "@/components/dashboard/RegradeQuestion";
+import SimilarQuestionsWarning from "@/components/dashboard/SimilarQuestionsWarning";
+import { VersionSource } from "@/lib/questionVersions";
+import { useTopics } from "@/hooks/useTopics";
+import { useSimilarityPool } from "@/hooks/useSimilarityPool";
+import {
+  answerKeyError,
+  answerLetters,
+  describeTypedAnswer,
+  emptyQuestionOptions,
+  getOptions,
+  hasBlankOption,
+  isTypedQuestion,
+  questionAnswerFields,
+  trimOptions,
+} from "@/lib/questionTypes";
+import { fromDateTimeLocal, getAvailabilityState, toDateTimeLocal, validateWindow } from "@/lib/availability";
 
 interface MyAssessmentsProps {
   teacherId: string;
@@ -18,11 +45,16 @@ const MyAssessments = ({ teacherId, refreshKey }: MyAssessmentsProps) => {
   const [assessments, setAssessments] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [editData, setEditData] = useState({ title: "", duration_minutes: 0, passing_score: 0 });
+  const [editData, setEditData] = useState({ title: "", duration_minutes: 0, passing_score: 0, shuffle_questions: false, shuffle_options: false, questions_per_attempt: null as number | null, max_attempts: 1 as number | null, attempt_cooldown_minutes: 0, scoring_method: "best" as ScoringMethod, closes_at: "", latest_start_at: "", ...DEFAULT_PROCTORING_POLICY });
   const [expandedId, setExpandedId] = useState<string | null>(null);
   const [assessmentQuestions, setAssessmentQuestions] = useState<any[]>([]);
   const [editingQuestionId, setEditingQuestionId] = useState<string | null>(null);
-  const [editQuestionData, setEditQuestionData] = useState({ question_text: "", option_a: "", option_b: "", option_c: "", option_d: "", correct_answer: "A" });
+  const [historyQuestion, setHistoryQuestion] = useState<{ source: VersionSource; id: string } | null>(null);
+  const [regrading, setRegrading] = useState<RegradableQuestion | null>(null);
+  const [editQuestionData, setEditQuestionData] = useState({ question_text: "", ...emptyQuestionOptions() });
+  const expandedSubjectId = assessments.find((a) => a.id === expandedId)?.subject_id;
+  const { topics } = useTopics(expandedSubjectId ? [expandedSubjectId] : []);
+  const { pool } = useSimilarityPool(editingQuestionId ? expandedSubjectId : null);
 
   useEffect(() => { fetchAssessments(); }, [teacherId, refreshKey]);
 
@@ -41,27 +73,38 @@ const MyAssessments = ({ teacherId, refreshKey }: MyAssessmentsProps) => {
     }
   };
 
-  const handleEdit = (a: any) => { setEditingId(a.id); setEditData({ title: a.title, duration_minutes: a.duration_minutes, passing_score: a.passing_score }); };
+  const handleEdit = (a: Tables<"assessments">) => { setEditingId(a.id); setEditData({ title: a.title, duration_minutes: a.duration_minutes, passing_score: a.passing_score, shuffle_questions: a.shuffle_questions, shuffle_options: a.shuffle_options, questions_per_attempt: a.questions_per_attempt, max_attempts: a.max_attempts, attempt_cooldown_minutes: a.attempt_cooldown_minutes, scoring_method: a.scoring_method as ScoringMethod, closes_at: toDateTimeLocal(a.closes_at), latest_start_at: toDateTimeLocal(a.latest_start_at), ...toProctoringPolicy(a) }); };
   const handleSaveEdit = async (id: string) => {
-    const { error } = await supabase.from("assessments").update(editData).eq("id", id);
+    const closesAt = fromDateTimeLocal(editData.closes_at);
+    const latestStartAt = fromDateTimeLocal(editData.latest_start_at);
+    const windowError = validateWindow(assessments.find((a) => a.id === id)?.opens_at ?? null, closesAt, latestStartAt);
+    if (windowError) { toast.error(windowError); return; }
+    const { error } = await supabase.from("assessments").update({ ...editData, closes_at: closesAt, latest_start_at: latestStartAt }).eq("id", id);
     if (error) toast.error("Failed to update"); else { toast.success("Updated"); setEditingId(null); fetchAssessments(); }
   };
 
+  const fetchAssessmentQuestions = async (id: string) => {
+    const { data } = await supabase.from("questions").select("*").eq("assessment_id", id).order("created_at");
+    setAssessmentQuestions(data || []);
+  };
+
   const toggleExpand = async (id: string) => {
     if (expandedId === id) { setExpandedId(null); return; }
     setExpandedId(id);
-    const { data } = await supabase.from("questions").select("*").eq("assessment_id", id).order("created_at");
-    setAssessmentQuestions(data || []);
+    fetchAssessmentQuestions(id);
   };
 
   const startEditQuestion = (q: any) => {
     setEditingQuestionId(q.id);
-    setEditQuestionData({ question_text: q.question_text, option_a: q.option_a, option_b: q.option_b, option_c: q.option_c, option_d: q.option_d, correct_answer: q.correct_answer });
+    setEditQuestionData({ question_text: q.question_text, ...questionAnswerFields(q) });
   };
 
   const saveEditQuestion = async () => {
     if (!editingQuestionId) return;
-    const { error } = await supabase.from("questions").update(editQuestionData).eq("id", editingQuestionId);
+    if (!editQuestionData.question_text.trim() || hasBlankOption(editQuestionData)) { toast.error("Please fill in all fields"); return; }
+    const keyError = answerKeyError(editQuestionData);
+    if (keyError) { toast.error(keyError); return; }
+    const { error } = await supabase.from("questions").update({ question_text: editQuestionData.question_text.trim(), ...questionAnswerFields(editQuestionData), ...trimOptions(editQuestionData) }).eq("id", editingQuestionId);
     if (error) toast.error("Failed to update question"); else {
       toast.success("Question updated");
       setEditingQuestionId(null);
@@ -97,7 +140,32 @@ const MyAssessments = ({ teacherId, refreshKey }: MyAssessmentsProps) => {
                       <div className="grid grid-cols-2 gap-4">
                         <Input type="number" value={editData.duration_minutes} onChange={(e) => setEditData({ ...editData, duration_minutes: parseInt(e.target.value) })} placeholder="Duration" />
                         <Input type="number" value={editData.passing_score} onChange={(e) => setEditData({ ...editData, passing_score: parseInt(e.target.value) })} placeholder="Passing %" />
+                        <Input type="number" min={1} value={editData.questions_per_attempt ?? ""} onChange={(e) => setEditData({ ...editData, questions_per_attempt: parseInt(e.target.value) || null })} placeholder="Questions per attempt (all)" />
+                        <Input type="number" min={1} value={editData.max_attempts ?? ""} onChange={(e) => setEditData({ ...editData, max_attempts: parseInt(e.target.value) || null })} placeholder="Attempts allowed (unlimited)" />
+                        <Input type="number" min={0} value={editData.attempt_cooldown_minutes} onChange={(e) => setEditData({ ...editData, attempt_cooldown_minutes: Math.max(0, parseInt(e.target.value) || 0) })} placeholder="Cooldown (minutes)" />
+                        <select
+                          value={editData.scoring_method}
+                          onChange={(e) => setEditData({ ...editData, scoring_method: e.target.value as ScoringMethod })}
+                          className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                        >
+                          {(Object.keys(SCORING_METHOD_LABELS) as ScoringMethod[]).map((method) => (
+                            <option key={method} value={method}>{SCORING_METHOD_LABELS[method]}</option>
+                          ))}
+                        </select>
+                        <div><Label>Closes At</Label><Input type="datetime-local" value={editData.closes_at} onChange={(e) => setEditData({ ...editData, closes_at: e.target.value })} /></div>
+                        <div><Label>Latest Start</Label><Input type="datetime-local" value={editData.latest_start_at} onChange={(e) => setEditData({ ...editData, latest_start_at: e.target.value })} /></div>
                       </div>
+                      <div className="flex flex-wrap gap-6">
+                        <label className="flex items-center gap-2 text-sm cursor-pointer">
+                          <Checkbox checked={editData.shuffle_questions} onCheckedChange={(v) => setEditData({ ...editData, shuffle_questions: v === true })} />
+                          Shuffle question order
+                        </label>
+                        <label className="flex items-center gap-2 text-sm cursor-pointer">
+                          <Checkbox checked={editData.shuffle_options} onCheckedChange={(v) => setEditData({ ...editData, shuffle_options: v === true })} />
+                          Shuffle answer options
+                        </label>
+                      </div>
+                      <ProctoringSettings value={editData} onChange={(policy) => setEditData({ ...editData, ...policy })} />
                       <div className="flex gap-2">
                         <Button size="sm" onClick={() => handleSaveEdit(assessment.id)}>Save</Button>
                         <Button size="sm" variant="outline" onClick={() => setEditingId(null)}>Cancel</Button>
@@ -111,8 +179,13 @@ const MyAssessments = ({ teacherId, refreshKey }: MyAssessmentsProps) => {
                           <p className="text-sm text-muted-foreground">{assessment.subjects?.name}</p>
                           <div className="flex items-center gap-4 mt-2 text-sm">
                             <span className="flex items-center gap-1"><Clock className="w-4 h-4" />{assessment.duration_minutes} mins</span>
-                            <span className="flex items-center gap-1"><FileText className="w-4 h-4" />{assessment.questionCount} questions</span>
+                            <span className="flex items-center gap-1"><FileText className="w-4 h-4" />{assessment.questions_per_attempt ? `${assessment.questions_per_attempt} of ${assessment.questionCount}` : assessment.questionCount} questions</span>
                             <span className="flex items-center gap-1"><CheckCircle className="w-4 h-4" />Pass: {assessment.passing_score}%</span>
+                            {assessment.closes_at && (
+                              <span className="text-muted-foreground">
+                                {getAvailabilityState(assessment) === "closed" ? "Closed" : "Closes"} {new Date(assessment.closes_at).toLocaleString()}
+                              </span>
+                            )}
                           </div>
                         </div>
                         <div className="flex items-center gap-2">
@@ -129,25 +202,31 @@ const MyAssessments = ({ teacherId, refreshKey }: MyAssessmentsProps) => {
 
                       {expandedId === assessment.id && (
                         <div className="mt-4 border-t pt-4 space-y-3">
+                          <div className="grid md:grid-cols-2 gap-4">
+                            <QuizExport questions={assessmentQuestions} fileName={assessment.title} idPrefix={`assessment-${assessment.id}`} />
+                            <AssessmentQuestionImport
+                              assessmentId={assessment.id}
+                              subject={{ id: assessment.subject_id, name: assessment.subjects?.name || "" }}
+                              topics={topics}
+                              existingQuestions={assessmentQuestions}
+                              onImported={() => { fetchAssessmentQuestions(assessment.id); fetchAssessments(); }}
+                            />
+                          </div>
                           <h4 className="font-semibold text-sm">Questions</h4>
                           {assessmentQuestions.map((q, i) => (
                             <div key={q.id} className="p-3 border rounded-lg">
                               {editingQuestionId === q.id ? (
                                 <div className="space-y-2">
                                   <Textarea value={editQuestionData.question_text} onChange={(e) => setEditQuestionData({ ...editQuestionData, question_text: e.target.value })} />
-                                  <div className="grid grid-cols-2 gap-2">
-                                    <Input value={editQuestionData.option_a} onChange={(e) => setEditQuestionData({ ...editQuestionData, option_a: e.target.value })} placeholder="Option A" />
-                                    <Input value={editQuestionData.option_b} onChange={(e) => setEditQuestionData({ ...editQuestionData, option_b: e.target.value })} placeholder="Option B" />
-                                    <Input value={editQuestionData.option_c} onChange={(e) => setEditQuestionData({ ...editQuestionData, option_c: e.target.value })} placeholder="Option C" />
-                                    <Input value={editQuestionData.option_d} onChange={(e) => setEditQuestionData({ ...editQuestionData, option_d: e.target.value })} placeholder="Option D" />
-                                  </div>
-                                  <div>
-                                    <Label className="text-xs">Correct Answer</Label>
-                                    <Select value={editQuestionData.correct_answer} onValueChange={(v) => setEditQuestionData({ ...editQuestionData, correct_answer: v })}>
-                                      <SelectTrigger className="w-24"><SelectValue /></SelectTrigger>
-                                      <SelectContent><SelectItem value="A">A</SelectItem><SelectItem value="B">B</SelectItem><SelectItem value="C">C</SelectItem><SelectItem value="D">D</SelectItem></SelectContent>
-                                    </Select>
-                                  </div>
+                                  <RichTextPreview content={editQuestionData.question_text} />
+                                  <SimilarQuestionsWarning question={editQuestionData} pool={pool} excludeIds={[q.id, q.bank_question_id]} />
+                                  <QuestionOptionsEditor
+                                    idPrefix={`edit-${q.id}`}
+                                    value={editQuestionData}
+                                    onChange={(value) => setEditQuestionData({ ...editQuestionData, ...value })}
+                                    subjectId={assessment.subject_id}
+                                    topics={topics}
+                                  />
                                   <div className="flex gap-2">
                                     <Button size="sm" onClick={saveEditQuestion}><Save className="w-3 h-3 mr-1" />Save</Button>
                                     <Button size="sm" variant="outline" onClick={() => setEditingQuestionId(null)}><X className="w-3 h-3 mr-1" />Cancel</Button>
@@ -156,15 +235,17 @@ const MyAssessments = ({ teacherId, refreshKey }: MyAssessmentsProps) => {
                               ) : (
                                 <div className="flex justify-between items-start">
                                   <div className="flex-1">
-                                    <p className="font-medium text-sm">{i + 1}. {q.question_text}</p>
+                                    <div className="font-medium text-sm flex gap-1"><span>{i + 1}.</span><RichText content={q.question_text} className="flex-1 min-w-0" />{q.voided && <span className="text-xs text-destructive font-semibold">Voided</span>}</div>
                                     <div className="grid grid-cols-2 gap-1 text-xs mt-1">
-                                      <p className={q.correct_answer === "A" ? "text-green-600 font-semibold" : ""}>A: {q.option_a}</p>
-                                      <p className={q.correct_answer === "B" ? "text-green-600 font-semibold" : ""}>B: {q.option_b}</p>
-                                      <p className={q.correct_answer === "C" ? "text-green-600 font-semibold" : ""}>C: {q.option_c}</p>
-                                      <p className={q.correct_answer === "D" ? "text-green-600 font-semibold" : ""}>D: {q.option_d}</p>
+                                      {getOptions(q).map((o) => (
+                                        <p key={o.key} className={answerLetters(q.correct_answer).includes(o.key) ? "text-green-600 font-semibold" : ""}>{o.key}: <RichText content={o.text} inline /></p>
+                                      ))}
+                                      {isTypedQuestion(q.question_type) && <p className="col-span-2 text-green-600 font-semibold">Answer: {describeTypedAnswer(q)}</p>}
                                     </div>
                                   </div>
                                   <div className="flex gap-1">
+                                    <Button variant="outline" size="sm" onClick={() => setHistoryQuestion({ source: "assessment", id: q.id })} title="History"><History className="w-3 h-3" /></Button>
+                                    <Button variant="outline" size="sm" onClick={() => setRegrading(q)} title="Regrade"><RefreshCw className="w-3 h-3" /></Button>
                                     <Button variant="outline" size="sm" onClick={() => startEditQuestion(q)}><Edit className="w-3 h-3" /></Button>
                                     <Button variant="destructive" size="sm" onClick={() => deleteQuestion(q.id)}><Trash2 className="w-3 h-3" /></Button>
                                   </div>
@@ -182,6 +263,19 @@ const MyAssessments = ({ teacherId, refreshKey }: MyAssessmentsProps) => {
           )}
         </CardContent>
       </Card>
+
+      <QuestionHistory
+        question={historyQuestion}
+        topics={topics}
+        onOpenChange={(open) => { if (!open) setHistoryQuestion(null); }}
+        onRestored={() => { if (expandedId) fetchAssessmentQuestions(expandedId); }}
+      />
+
+      <RegradeQuestion
+        question={regrading}
+        onOpenChange={(open) => { if (!open) setRegrading(null); }}
+        onRegraded={() => { if (expandedId) fetchAssessmentQuestions(expandedId); }}
+      />
     </div>
   );
 };
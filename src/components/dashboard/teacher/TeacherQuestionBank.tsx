@@ -2,13 +2,43 @@ import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
-import { Plus, Trash2, BookOpen, Edit, Save, X } from "lucide-react";
+import { Plus, Trash2, BookOpen, Edit, Save, X, History, Send } from "lucide-react";
+import QuestionOptionsEditor from "@/components/dashboard/QuestionOptionsEditor";
+import RichText from "@/components/assessment/RichText";
+import RichTextPreview from "@/components/dashboard/RichTextPreview";
+import TopicFilters from "@/components/dashboard/TopicFilters";
+import DifficultyBadges from "@/components/dashboard/DifficultyBadges";
+import DifficultyFilters from "@/components/dashboard/DifficultyFilters";
+import QuestionBankImport from "@/components/dashboard/QuestionBankImport";
+import QuizExport from "@/components/dashboard/QuizExport";
+import QuestionHistory from "@/components/dashboard/QuestionHistory";
+import SimilarQuestionsWarning from "@/components/dashboard/SimilarQuestionsWarning";
+import QuestionReviewQueue from "@/components/dashboard/QuestionReviewQueue";
+import QuestionReviewStatus from "@/components/dashboard/QuestionReviewStatus";
+import { VersionSource } from "@/lib/questionVersions";
+import { REVIEW_STATUSES, REVIEW_STATUS_LABELS, submitForReview } from "@/lib/questionReview";
+import { useDifficultyStats } from "@/hooks/useDifficultyStats";
+import TopicManager from "@/components/dashboard/TopicManager";
+import { useTopics } from "@/hooks/useTopics";
+import { useSimilarityPool } from "@/hooks/useSimilarityPool";
+import {
+  answerKeyError,
+  answerLetters,
+  describeTypedAnswer,
+  emptyQuestionOptions,
+  getOptions,
+  hasBlankOption,
+  isTypedQuestion,
+  questionAnswerFields,
+  trimOptions,
+} from "@/lib/questionTypes";
+import { collectTags, filterByTopic, topicPath } from "@/lib/topics";
+import { DifficultyFilter, filterByDifficulty } from "@/lib/difficulty";
 
 interface TeacherQuestionBankProps {
   teacherId: string;
@@ -16,29 +46,38 @@ interface TeacherQuestionBankProps {
 
 const TeacherQuestionBank = ({ teacherId }: TeacherQuestionBankProps) => {
   const [subjects, setSubjects] = useState<any[]>([]);
+  const [leadSubjectIds, setLeadSubjectIds] = useState<string[]>([]);
   const [classes, setClasses] = useState<{ id: string; name: string }[]>([]);
   const [questions, setQuestions] = useState<any[]>([]);
   const [loading, setLoading] = useState(false);
   const [selectedSubjectFilter, setSelectedSubjectFilter] = useState<string>("all");
+  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [topicFilter, setTopicFilter] = useState<{ topicId: string | null; tag: string | null }>({ topicId: null, tag: null });
+  const [difficultyFilter, setDifficultyFilter] = useState<{ authored: DifficultyFilter; measured: DifficultyFilter }>({ authored: "all", measured: "all" });
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [editData, setEditData] = useState({ question_text: "", option_a: "", option_b: "", option_c: "", option_d: "", correct_answer: "A" });
+  const [historyQuestion, setHistoryQuestion] = useState<{ source: VersionSource; id: string } | null>(null);
+  const [editData, setEditData] = useState({ question_text: "", ...emptyQuestionOptions() });
   const [formData, setFormData] = useState({
     subject_id: "",
     class_id: "",
     question_text: "",
-    option_a: "",
-    option_b: "",
-    option_c: "",
-    option_d: "",
-    correct_answer: "A",
+    ...emptyQuestionOptions(),
   });
 
+  const { topics, refresh: refreshTopics } = useTopics(subjects.map((s) => s.id));
+  const { pool, refresh: refreshPool } = useSimilarityPool(formData.subject_id);
+  const editingSubjectId = questions.find((q) => q.id === editingId)?.subject_id;
+  const { pool: editPool } = useSimilarityPool(editingSubjectId);
+
   useEffect(() => { fetchMySubjects(); fetchMyClasses(); }, []);
-  useEffect(() => { fetchQuestions(); }, [selectedSubjectFilter]);
+  useEffect(() => { fetchQuestions(); }, [selectedSubjectFilter, statusFilter]);
 
   const fetchMySubjects = async () => {
-    const { data, error } = await supabase.from("teacher_subjects").select("subject_id, subjects(id, name)").eq("teacher_id", teacherId);
-    if (!error && data) setSubjects(data.map((ts: any) => ts.subjects).filter(Boolean));
+    const { data, error } = await supabase.from("teacher_subjects").select("subject_id, is_lead, subjects(id, name)").eq("teacher_id", teacherId);
+    if (!error && data) {
+      setSubjects(data.map((ts: any) => ts.subjects).filter(Boolean));
+      setLeadSubjectIds(data.filter((ts) => ts.is_lead).map((ts) => ts.subject_id));
+    }
   };
 
   const fetchMyClasses = async () => {
@@ -53,42 +92,71 @@ const TeacherQuestionBank = ({ teacherId }: TeacherQuestionBankProps) => {
     if (subjectIds.length === 0) { setQuestions([]); return; }
     let query = supabase.from("question_bank").select("*, subjects(name), classes(name), profiles:added_by(full_name)").in("subject_id", subjectIds).order("created_at", { ascending: false });
     if (selectedSubjectFilter !== "all") query = query.eq("subject_id", selectedSubjectFilter);
+    if (statusFilter !== "all") query = query.eq("status", statusFilter);
     const { data, error } = await query;
     if (!error) setQuestions(data || []);
   };
 
-  const handleAddQuestion = async (e: React.FormEvent) => {
+  const difficultyStats = useDifficultyStats(questions.map((q) => q.id), "bank");
+  const visibleQuestions = filterByDifficulty(
+    filterByTopic(questions, topics, topicFilter.topicId, topicFilter.tag),
+    difficultyStats,
+    difficultyFilter.authored,
+    difficultyFilter.measured
+  );
+
+  const myUnsubmittedIds = questions.filter((q) => q.added_by === teacherId && (q.status === "draft" || q.status === "rejected")).map((q) => q.id);
+
+  // New questions go to the review queue unless saved as a draft
+  const handleAddQuestion = async (e: React.FormEvent, status: "draft" | "submitted" = "submitted") => {
     e.preventDefault();
     if (!formData.subject_id) { toast.error("Please select a subject"); return; }
     if (!formData.class_id) { toast.error("Please select a class"); return; }
-    if (!formData.question_text.trim() || !formData.option_a.trim() || !formData.option_b.trim() || !formData.option_c.trim() || !formData.option_d.trim()) { toast.error("Please fill in all fields"); return; }
+    if (!formData.question_text.trim() || hasBlankOption(formData)) { toast.error("Please fill in all fields"); return; }
+    const keyError = answerKeyError(formData);
+    if (keyError) { toast.error(keyError); return; }
     setLoading(true);
     try {
       const { error } = await supabase.from("question_bank").insert({
         subject_id: formData.subject_id, class_id: formData.class_id,
         question_text: formData.question_text.trim(),
-        option_a: formData.option_a.trim(), option_b: formData.option_b.trim(),
-        option_c: formData.option_c.trim(), option_d: formData.option_d.trim(),
-        correct_answer: formData.correct_answer, added_by: teacherId,
+        ...questionAnswerFields(formData),
+        ...trimOptions(formData),
+        added_by: teacherId,
+        status,
       });
       if (error) throw error;
-      toast.success("Question added to bank!");
-      setFormData({ ...formData, question_text: "", option_a: "", option_b: "", option_c: "", option_d: "", correct_answer: "A" });
+      toast.success(status === "draft" ? "Draft saved" : "Question submitted for review");
+      setFormData({ ...formData, question_text: "", ...emptyQuestionOptions() });
       fetchQuestions();
+      refreshPool();
     } catch (error: any) { toast.error(error.message || "Failed to add question"); } finally { setLoading(false); }
   };
 
   const handleEdit = (q: any) => {
     setEditingId(q.id);
-    setEditData({ question_text: q.question_text, option_a: q.option_a, option_b: q.option_b, option_c: q.option_c, option_d: q.option_d, correct_answer: q.correct_answer });
+    setEditData({ question_text: q.question_text, ...questionAnswerFields(q) });
   };
 
   const handleSaveEdit = async () => {
     if (!editingId) return;
-    const { error } = await supabase.from("question_bank").update(editData).eq("id", editingId);
+    if (!editData.question_text.trim() || hasBlankOption(editData)) { toast.error("Please fill in all fields"); return; }
+    const keyError = answerKeyError(editData);
+    if (keyError) { toast.error(keyError); return; }
+    const { error } = await supabase.from("question_bank").update({ question_text: editData.question_text.trim(), ...questionAnswerFields(editData), ...trimOptions(editData) }).eq("id", editingId);
     if (error) { toast.error("Failed to update question"); } else { toast.success("Question updated"); setEditingId(null); fetchQuestions(); }
   };
 
+  const handleSubmit = async (ids: string[]) => {
+    try {
+      await submitForReview(ids);
+      toast.success(`${ids.length} question(s) submitted for review`);
+      fetchQuestions();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to submit the questions for review");
+    }
+  };
+
   const handleDelete = async (id: string) => {
     if (!window.confirm("Delete this question?")) return;
     const { error } = await supabase.from("question_bank").delete().eq("id", id);
@@ -100,7 +168,7 @@ const TeacherQuestionBank = ({ teacherId }: TeacherQuestionBankProps) => {
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2"><BookOpen className="w-5 h-5" />Add Question to Bank</CardTitle>
-          <CardDescription>Add questions for your assigned subjects</CardDescription>
+          <CardDescription>Add questions for your assigned subjects. They reach students once a subject lead or admin approves them.</CardDescription>
         </CardHeader>
         <CardContent>
           {subjects.length === 0 ? (
@@ -112,7 +180,7 @@ const TeacherQuestionBank = ({ teacherId }: TeacherQuestionBankProps) => {
               <div className="grid md:grid-cols-2 gap-4">
                 <div>
                   <Label>Subject</Label>
-                  <Select value={formData.subject_id} onValueChange={(v) => setFormData({ ...formData, subject_id: v })}>
+                  <Select value={formData.subject_id} onValueChange={(v) => setFormData({ ...formData, subject_id: v, topic_id: null })}>
                     <SelectTrigger><SelectValue placeholder="Select subject" /></SelectTrigger>
                     <SelectContent>{subjects.map((s) => (<SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>))}</SelectContent>
                   </Select>
@@ -125,63 +193,81 @@ const TeacherQuestionBank = ({ teacherId }: TeacherQuestionBankProps) => {
                   </Select>
                 </div>
               </div>
-              <div><Label>Question Text</Label><Textarea value={formData.question_text} onChange={(e) => setFormData({ ...formData, question_text: e.target.value })} maxLength={2000} required /></div>
-              <div className="grid md:grid-cols-2 gap-4">
-                <div><Label>Option A</Label><Input value={formData.option_a} onChange={(e) => setFormData({ ...formData, option_a: e.target.value })} maxLength={500} required /></div>
-                <div><Label>Option B</Label><Input value={formData.option_b} onChange={(e) => setFormData({ ...formData, option_b: e.target.value })} maxLength={500} required /></div>
-                <div><Label>Option C</Label><Input value={formData.option_c} onChange={(e) => setFormData({ ...formData, option_c: e.target.value })} maxLength={500} required /></div>
-                <div><Label>Option D</Label><Input value={formData.option_d} onChange={(e) => setFormData({ ...formData, option_d: e.target.value })} maxLength={500} required /></div>
-              </div>
-              <div>
-                <Label>Correct Answer</Label>
-                <RadioGroup value={formData.correct_answer} onValueChange={(v) => setFormData({ ...formData, correct_answer: v })} className="flex gap-4 mt-1">
-                  {["A", "B", "C", "D"].map((opt) => (<div key={opt} className="flex items-center gap-1"><RadioGroupItem value={opt} id={`tbank-${opt}`} /><Label htmlFor={`tbank-${opt}`}>{opt}</Label></div>))}
-                </RadioGroup>
+              <div><Label>Question Text</Label><Textarea value={formData.question_text} onChange={(e) => setFormData({ ...formData, question_text: e.target.value })} maxLength={2000} required /><RichTextPreview content={formData.question_text} /></div>
+              <SimilarQuestionsWarning question={formData} pool={pool} />
+              <QuestionOptionsEditor idPrefix="tbank" value={formData} onChange={(value) => setFormData({ ...formData, ...value })} subjectId={formData.subject_id || undefined} topics={topics} />
+              <div className="flex gap-2">
+                <Button type="submit" disabled={loading}><Send className="w-4 h-4 mr-2" />{loading ? "Saving..." : "Submit for Review"}</Button>
+                <Button type="button" variant="outline" disabled={loading} onClick={(e) => handleAddQuestion(e, "draft")}><Plus className="w-4 h-4 mr-2" />Save Draft</Button>
               </div>
-              <Button type="submit" disabled={loading}><Plus className="w-4 h-4 mr-2" />{loading ? "Adding..." : "Add Question"}</Button>
             </form>
           )}
         </CardContent>
       </Card>
 
+      {subjects.length > 0 && classes.length > 0 && (
+        <QuestionBankImport subjects={subjects} classes={classes} topics={topics} addedBy={teacherId} status="submitted" onImported={fetchQuestions} />
+      )}
+
+      {leadSubjectIds.length > 0 && <QuestionReviewQueue subjectIds={leadSubjectIds} excludeAuthorId={teacherId} topics={topics} onReviewed={fetchQuestions} />}
+
       <Card>
         <CardHeader>
           <CardTitle>My Subject Questions</CardTitle>
-          <CardDescription>Questions in the bank for your subjects</CardDescription>
+          <CardDescription>Approved questions for your subjects, and your own drafts and submissions</CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="mb-4">
-            <Label>Filter by Subject</Label>
-            <Select value={selectedSubjectFilter} onValueChange={setSelectedSubjectFilter}>
-              <SelectTrigger className="w-64"><SelectValue /></SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All My Subjects</SelectItem>
-                {subjects.map((s) => (<SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>))}
-              </SelectContent>
-            </Select>
+          <div className="mb-4 flex flex-wrap gap-4">
+            <div>
+              <Label>Filter by Subject</Label>
+              <Select value={selectedSubjectFilter} onValueChange={(v) => { setSelectedSubjectFilter(v); setTopicFilter({ topicId: null, tag: null }); }}>
+                <SelectTrigger className="w-64"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All My Subjects</SelectItem>
+                  {subjects.map((s) => (<SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Filter by Status</Label>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Statuses</SelectItem>
+                  {REVIEW_STATUSES.map((s) => (<SelectItem key={s} value={s}>{REVIEW_STATUS_LABELS[s]}</SelectItem>))}
+                </SelectContent>
+              </Select>
+            </div>
+            <TopicFilters
+              topics={topics}
+              subjectId={selectedSubjectFilter === "all" ? null : selectedSubjectFilter}
+              tags={collectTags(questions)}
+              topicId={topicFilter.topicId}
+              tag={topicFilter.tag}
+              onChange={setTopicFilter}
+            />
+            <DifficultyFilters authored={difficultyFilter.authored} measured={difficultyFilter.measured} onChange={setDifficultyFilter} />
+          </div>
+
+          <div className="mb-4 flex flex-wrap items-end gap-4">
+            <QuizExport questions={visibleQuestions} fileName="my-question-bank" idPrefix="tbank" />
+            <Button variant="outline" onClick={() => handleSubmit(myUnsubmittedIds)} disabled={myUnsubmittedIds.length === 0}>
+              <Send className="w-4 h-4 mr-2" />Submit All Drafts{myUnsubmittedIds.length > 0 && ` (${myUnsubmittedIds.length})`}
+            </Button>
           </div>
 
-          {questions.length === 0 ? (
-            <p className="text-muted-foreground">No questions yet.</p>
+          {visibleQuestions.length === 0 ? (
+            <p className="text-muted-foreground">{questions.length === 0 ? "No questions yet." : "No questions match these filters."}</p>
           ) : (
             <div className="space-y-3">
-              {questions.map((q, i) => (
+              {visibleQuestions.map((q, i) => (
                 <div key={q.id} className="p-4 border rounded-lg">
                   {editingId === q.id ? (
                     <div className="space-y-3">
                       <Textarea value={editData.question_text} onChange={(e) => setEditData({ ...editData, question_text: e.target.value })} />
-                      <div className="grid grid-cols-2 gap-2">
-                        <Input value={editData.option_a} onChange={(e) => setEditData({ ...editData, option_a: e.target.value })} placeholder="Option A" />
-                        <Input value={editData.option_b} onChange={(e) => setEditData({ ...editData, option_b: e.target.value })} placeholder="Option B" />
-                        <Input value={editData.option_c} onChange={(e) => setEditData({ ...editData, option_c: e.target.value })} placeholder="Option C" />
-                        <Input value={editData.option_d} onChange={(e) => setEditData({ ...editData, option_d: e.target.value })} placeholder="Option D" />
-                      </div>
-                      <div>
-                        <Label>Correct Answer</Label>
-                        <RadioGroup value={editData.correct_answer} onValueChange={(v) => setEditData({ ...editData, correct_answer: v })} className="flex gap-4 mt-1">
-                          {["A", "B", "C", "D"].map((opt) => (<div key={opt} className="flex items-center gap-1"><RadioGroupItem value={opt} id={`tedit-${opt}`} /><Label htmlFor={`tedit-${opt}`}>{opt}</Label></div>))}
-                        </RadioGroup>
-                      </div>
+                      <RichTextPreview content={editData.question_text} />
+                      <SimilarQuestionsWarning question={editData} pool={editPool} excludeIds={[q.id]} />
+                      <QuestionOptionsEditor idPrefix="tedit" value={editData} onChange={(value) => setEditData({ ...editData, ...value })} subjectId={q.subject_id} topics={topics} />
                       <div className="flex gap-2">
                         <Button size="sm" onClick={handleSaveEdit}><Save className="w-4 h-4 mr-1" />Save</Button>
                         <Button size="sm" variant="outline" onClick={() => setEditingId(null)}><X className="w-4 h-4 mr-1" />Cancel</Button>
@@ -190,16 +276,25 @@ const TeacherQuestionBank = ({ teacherId }: TeacherQuestionBankProps) => {
                   ) : (
                     <div className="flex justify-between items-start">
                       <div className="flex-1">
-                        <p className="text-xs text-muted-foreground mb-1">{q.subjects?.name} • {q.classes?.name || "No class"} • {q.profiles?.full_name}</p>
-                        <p className="font-medium mb-2">{i + 1}. {q.question_text}</p>
+                        <p className="text-xs text-muted-foreground mb-1">{q.subjects?.name}{q.topic_id && ` → ${topicPath(topics, q.topic_id)}`} • {q.classes?.name || "No class"} • {q.profiles?.full_name}</p>
+                        <div className="font-medium mb-2 flex gap-1"><span>{i + 1}.</span><RichText content={q.question_text} className="flex-1 min-w-0" /></div>
                         <div className="grid grid-cols-2 gap-1 text-sm">
-                          <p className={q.correct_answer === "A" ? "text-green-600 font-semibold" : ""}>A: {q.option_a}</p>
-                          <p className={q.correct_answer === "B" ? "text-green-600 font-semibold" : ""}>B: {q.option_b}</p>
-                          <p className={q.correct_answer === "C" ? "text-green-600 font-semibold" : ""}>C: {q.option_c}</p>
-                          <p className={q.correct_answer === "D" ? "text-green-600 font-semibold" : ""}>D: {q.option_d}</p>
+                          {getOptions(q).map((o) => (
+                            <p key={o.key} className={answerLetters(q.correct_answer).includes(o.key) ? "text-green-600 font-semibold" : ""}>{o.key}: <RichText content={o.text} inline /></p>
+                          ))}
+                          {isTypedQuestion(q.question_type) && <p className="col-span-2 text-green-600 font-semibold">Answer: {describeTypedAnswer(q)}</p>}
                         </div>
+                        <div className="mt-2"><DifficultyBadges authored={q.difficulty} stats={difficultyStats.get(q.id)} /></div>
+                        <div className="mt-2"><QuestionReviewStatus question={q} /></div>
+                        {q.tags?.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-2">{q.tags.map((tag: string) => (<Badge key={tag} variant="secondary">{tag}</Badge>))}</div>
+                        )}
                       </div>
                       <div className="flex gap-1">
+                        {myUnsubmittedIds.includes(q.id) && (
+                          <Button variant="outline" size="sm" onClick={() => handleSubmit([q.id])} title="Submit for review"><Send className="w-4 h-4" /></Button>
+                        )}
+                        <Button variant="outline" size="sm" onClick={() => setHistoryQuestion({ source: "bank", id: q.id })} title="History"><History className="w-4 h-4" /></Button>
                         <Button variant="outline" size="sm" onClick={() => handleEdit(q)}><Edit className="w-4 h-4" /></Button>
                         <Button variant="destructive" size="sm" onClick={() => handleDelete(q.id)}><Trash2 className="w-4 h-4" /></Button>
                       </div>
@@ -211,6 +306,15 @@ const TeacherQuestionBank = ({ teacherId }: TeacherQuestionBankProps) => {
           )}
         </CardContent>
       </Card>
+
+      {subjects.length > 0 && <TopicManager subjects={subjects} canDelete={false} onTopicsChange={refreshTopics} />}
+
+      <QuestionHistory
+        question={historyQuestion}
+        topics={topics}
+        onOpenChange={(open) => { if (!open) setHistoryQuestion(null); }}
+        onRestored={fetchQuestions}
+      />
     </div>
   );
 };
@@ -3,10 +3,16 @@ import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { History, Unlock } from "lucide-react";
+import { toast } from "sonner";
+import AttemptTimeline, { TimelineAttempt } from "@/components/dashboard/AttemptTimeline";
+import { getAttemptPositions } from "@/lib/attemptScoring";
 
 const ViewAttempts = () => {
   const [attempts, setAttempts] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
+  const [timelineAttempt, setTimelineAttempt] = useState<TimelineAttempt | null>(null);
 
   useEffect(() => {
     loadAttempts();
@@ -36,6 +42,7 @@ const ViewAttempts = () => {
           *,
           assessments (
             title,
+            scoring_method,
             subjects (name)
           ),
           profiles!attempts_student_id_fkey (
@@ -55,10 +62,22 @@ const ViewAttempts = () => {
     }
   };
 
+  const handleUnlock = async (attemptId: string) => {
+    const { error } = await supabase.from("attempts").update({ locked_at: null }).eq("id", attemptId);
+    if (error) {
+      toast.error("Failed to unlock attempt");
+      return;
+    }
+    toast.success("Attempt unlocked. The student can resume where they left off.");
+    loadAttempts();
+  };
+
   if (loading) {
     return <div>Loading...</div>;
   }
 
+  const positions = getAttemptPositions(attempts, (a) => a.assessments?.scoring_method);
+
   return (
     <Card>
       <CardHeader>
@@ -79,48 +98,77 @@ const ViewAttempts = () => {
                 <TableHead>Status</TableHead>
                 <TableHead>Violations</TableHead>
                 <TableHead>Date</TableHead>
+                <TableHead>Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
-              {attempts.map((attempt) => (
-                <TableRow key={attempt.id}>
-                  <TableCell>
-                    <div>
-                      <p className="font-medium">{attempt.profiles?.full_name}</p>
-                      <p className="text-sm text-muted-foreground">{attempt.profiles?.email}</p>
-                    </div>
-                  </TableCell>
-                  <TableCell>{attempt.assessments?.title}</TableCell>
-                  <TableCell>{attempt.assessments?.subjects?.name}</TableCell>
-                  <TableCell>
-                    {attempt.score !== null ? `${attempt.score}/${attempt.total_questions}` : "Not submitted"}
-                  </TableCell>
-                  <TableCell>
-                    {attempt.submitted_at ? (
-                      <>
-                        <Badge variant={attempt.passed ? "default" : "destructive"}>
-                          {attempt.passed ? "Passed" : "Failed"}
-                        </Badge>
-                        {attempt.auto_submitted && (
-                          <Badge variant="outline" className="ml-2">Auto-submitted</Badge>
-                        )}
-                      </>
-                    ) : (
-                      <Badge variant="secondary">In Progress</Badge>
-                    )}
-                  </TableCell>
-                  <TableCell>
-                    {attempt.violations > 0 && (
-                      <Badge variant="destructive">{attempt.violations} violations</Badge>
-                    )}
-                  </TableCell>
-                  <TableCell>{new Date(attempt.started_at).toLocaleString()}</TableCell>
-                </TableRow>
-              ))}
+              {attempts.map((attempt) => {
+                const position = positions.get(attempt.id);
+                return (
+                  <TableRow key={attempt.id}>
+                    <TableCell>
+                      <div>
+                        <p className="font-medium">{attempt.profiles?.full_name}</p>
+                        <p className="text-sm text-muted-foreground">{attempt.profiles?.email}</p>
+                      </div>
+                    </TableCell>
+                    <TableCell>{attempt.assessments?.title}</TableCell>
+                    <TableCell>{attempt.assessments?.subjects?.name}</TableCell>
+                    <TableCell>
+                      {attempt.score !== null ? `${attempt.score}/${attempt.total_questions}` : "Not submitted"}
+                      {position && position.of > 1 && (
+                        <div className="flex items-center gap-1 mt-1">
+                          <span className="text-xs text-muted-foreground">
+                            Attempt {position.number}/{position.of}
+                          </span>
+                          {position.counted && <Badge variant="secondary">Counts</Badge>}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {attempt.submitted_at ? (
+                        <>
+                          <Badge variant={attempt.passed ? "default" : "destructive"}>
+                            {attempt.passed ? "Passed" : "Failed"}
+                          </Badge>
+                          {attempt.auto_submitted && (
+                            <Badge variant="outline" className="ml-2">Auto-submitted</Badge>
+                          )}
+                        </>
+                      ) : attempt.locked_at ? (
+                        <div className="flex items-center gap-2">
+                          <Badge variant="destructive">Locked</Badge>
+                          <Button size="sm" variant="outline" onClick={() => handleUnlock(attempt.id)}>
+                            <Unlock className="w-3 h-3 mr-1" />Unlock
+                          </Button>
+                        </div>
+                      ) : (
+                        <Badge variant="secondary">In Progress</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {attempt.violations > 0 && (
+                        <Badge variant="destructive">{attempt.violations} violations</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{new Date(attempt.started_at).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setTimelineAttempt({ ...attempt, studentName: attempt.profiles?.full_name, title: attempt.assessments?.title })}
+                      >
+                        <History className="w-3 h-3 mr-1" />Timeline
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
             </TableBody>
           </Table>
         )}
       </CardContent>
+      <AttemptTimeline attempt={timelineAttempt} onOpenChange={(open) => !open && setTimelineAttempt(null)} />
     </Card>
   );
 };
@@ -0,0 +1,78 @@
+import { useEffect, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+interface UseAttemptHeartbeatOptions {
+  enabled: boolean;
+  attemptId?: string | null;
+  mockExamAttemptId?: string | null;
+  answeredCount: number;
+  questionCount?: number;
+  onDeadlineChange: (deadline: Date) => void;
+  onClosed: () => void;
+}
+
+export const HEARTBEAT_INTERVAL_MS = 15000;
+
+// Reports progress to the live monitoring board and listens for staff
+// actions on this attempt (extra time, force-submit) over Supabase Realtime.
+export const useAttemptHeartbeat = ({
+  enabled,
+  attemptId,
+  mockExamAttemptId,
+  answeredCount,
+  questionCount,
+  onDeadlineChange,
+  onClosed,
+}: UseAttemptHeartbeatOptions) => {
+  const progressRef = useRef({ answeredCount, questionCount });
+  const onDeadlineChangeRef = useRef(onDeadlineChange);
+  const onClosedRef = useRef(onClosed);
+  progressRef.current = { answeredCount, questionCount };
+  onDeadlineChangeRef.current = onDeadlineChange;
+  onClosedRef.current = onClosed;
+
+  const id = attemptId || mockExamAttemptId;
+
+  useEffect(() => {
+    if (!enabled || !id) return;
+
+    const sendHeartbeat = async () => {
+      const { error } = await supabase.rpc("record_attempt_heartbeat", {
+        _attempt_id: attemptId ?? undefined,
+        _mock_exam_attempt_id: mockExamAttemptId ?? undefined,
+        _answered_count: progressRef.current.answeredCount,
+        _question_count: progressRef.current.questionCount,
+      });
+      if (error) console.error("Heartbeat failed:", error);
+    };
+
+    sendHeartbeat();
+    const interval = setInterval(sendHeartbeat, HEARTBEAT_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [enabled, id, attemptId, mockExamAttemptId]);
+
+  useEffect(() => {
+    if (!enabled || !id) return;
+
+    const table = attemptId ? "attempts" : "mock_exam_attempts";
+    const channel = supabase
+      .channel(`attempt-${id}`)
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table, filter: `id=eq.${id}` },
+        (payload) => {
+          const row = payload.new as { deadline_at?: string | null; submitted_at?: string | null; is_completed?: boolean | null };
+          if (row.submitted_at || row.is_completed) {
+            onClosedRef.current();
+          } else if (row.deadline_at) {
+            onDeadlineChangeRef.current(new Date(row.deadline_at));
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [enabled, id, attemptId, mockExamAttemptId]);
+};
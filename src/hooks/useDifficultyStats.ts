@@ -0,0 +1,21 @@
+import { useEffect, useState } from "react";
+import { DifficultyStats, fetchDifficultyStats } from "@/lib/difficulty";
+
+// Response counts for the given questions, keyed by id; refetches when the
+// set of questions changes
+export const useDifficultyStats = (questionIds: string[], source: "assessment" | "bank") => {
+  const [stats, setStats] = useState<Map<string, DifficultyStats>>(new Map());
+  const key = [...questionIds].sort().join("|");
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchDifficultyStats(key ? key.split("|") : [], source).then((result) => {
+      if (!cancelled) setStats(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [key, source]);
+
+  return stats;
+};
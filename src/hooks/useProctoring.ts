@@ -0,0 +1,151 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import {
+  PROCTORING_EVENT_LABELS,
+  ProctoringEventType,
+  ProctoringPolicy,
+  ViolationAction,
+} from "@/lib/proctoring";
+
+interface UseProctoringOptions {
+  enabled: boolean;
+  policy: ProctoringPolicy;
+  attemptId?: string | null;
+  mockExamAttemptId?: string | null;
+  initialViolations?: number;
+  onLimitReached: (action: Exclude<ViolationAction, "warn">) => void;
+}
+
+// One user action can fire several browser events (e.g. blur + visibilitychange
+// when switching tabs), so events this close together count once.
+const EVENT_DEBOUNCE_MS = 1000;
+
+export const useProctoring = ({
+  enabled,
+  policy,
+  attemptId,
+  mockExamAttemptId,
+  initialViolations = 0,
+  onLimitReached,
+}: UseProctoringOptions) => {
+  const [violations, setViolations] = useState(initialViolations);
+  const [isFullscreen, setIsFullscreen] = useState(!!document.fullscreenElement);
+
+  const enabledRef = useRef(enabled);
+  const onLimitReachedRef = useRef(onLimitReached);
+  const lastEventAtRef = useRef(0);
+  enabledRef.current = enabled;
+  onLimitReachedRef.current = onLimitReached;
+
+  useEffect(() => {
+    setViolations(initialViolations);
+  }, [initialViolations]);
+
+  const recordViolation = useCallback(
+    async (eventType: ProctoringEventType, details?: Record<string, string>) => {
+      if (!enabledRef.current) return;
+
+      const now = Date.now();
+      if (now - lastEventAtRef.current < EVENT_DEBOUNCE_MS) return;
+      lastEventAtRef.current = now;
+
+      const { data, error } = await supabase.rpc("record_proctoring_event", {
+        _event_type: eventType,
+        _attempt_id: attemptId ?? undefined,
+        _mock_exam_attempt_id: mockExamAttemptId ?? undefined,
+        _details: details,
+      });
+
+      const result = data?.[0];
+      if (error || !result) {
+        console.error("Failed to record violation:", error);
+        return;
+      }
+
+      setViolations(result.violations);
+      const label = PROCTORING_EVENT_LABELS[eventType];
+
+      if (result.locked) {
+        toast.error(`${label}. You have reached ${result.max_violations} violations and your attempt has been locked.`);
+        onLimitReachedRef.current("lock");
+      } else if (result.violation_action === "auto_submit" && result.violations >= result.max_violations) {
+        toast.error(`You have exceeded ${result.max_violations} violations. Your exam is being auto-submitted...`);
+        onLimitReachedRef.current("auto_submit");
+      } else if (result.violations >= result.max_violations) {
+        toast.warning(`Warning: ${label}! Violation ${result.violations} has been reported to your invigilator.`, {
+          duration: 5000,
+        });
+      } else {
+        const remaining = result.max_violations - result.violations;
+        toast.warning(
+          `Warning: ${label}! Violation ${result.violations}/${result.max_violations}. ${remaining} chance(s) remaining.`,
+          { duration: 5000 }
+        );
+      }
+    },
+    [attemptId, mockExamAttemptId]
+  );
+
+  // Leaving the tab is always a violation
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleVisibilityChange = () => {
+      if (document.hidden) recordViolation("tab_hidden");
+    };
+
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => document.removeEventListener("visibilitychange", handleVisibilityChange);
+  }, [enabled, recordViolation]);
+
+  useEffect(() => {
+    if (!enabled || !policy.detect_window_blur) return;
+
+    const handleBlur = () => recordViolation("window_blur");
+
+    window.addEventListener("blur", handleBlur);
+    return () => window.removeEventListener("blur", handleBlur);
+  }, [enabled, policy.detect_window_blur, recordViolation]);
+
+  useEffect(() => {
+    const handleFullscreenChange = () => {
+      const active = !!document.fullscreenElement;
+      setIsFullscreen(active);
+      if (!active && policy.require_fullscreen) recordViolation("fullscreen_exit");
+    };
+
+    document.addEventListener("fullscreenchange", handleFullscreenChange);
+    return () => document.removeEventListener("fullscreenchange", handleFullscreenChange);
+  }, [policy.require_fullscreen, recordViolation]);
+
+  useEffect(() => {
+    if (!enabled || !policy.block_copy_paste) return;
+
+    const blocked: [keyof DocumentEventMap, ProctoringEventType][] = [
+      ["copy", "copy"],
+      ["cut", "cut"],
+      ["paste", "paste"],
+      ["contextmenu", "context_menu"],
+    ];
+    const handlers = blocked.map(([domEvent, eventType]) => {
+      const handler = (e: Event) => {
+        e.preventDefault();
+        recordViolation(eventType);
+      };
+      document.addEventListener(domEvent, handler);
+      return [domEvent, handler] as const;
+    });
+
+    return () => handlers.forEach(([domEvent, handler]) => document.removeEventListener(domEvent, handler));
+  }, [enabled, policy.block_copy_paste, recordViolation]);
+
+  const enterFullscreen = useCallback(() => {
+    document.documentElement.requestFullscreen().catch((err) => {
+      console.error("Fullscreen request failed:", err);
+      toast.error("Your browser blocked fullscreen mode. Please allow it to continue.");
+    });
+  }, []);
+
+  return { violations, isFullscreen, enterFullscreen };
+};
@@ -0,0 +1,23 @@
+import { useEffect, useState } from "react";
+import { QuestionOptions } from "@/lib/questionTypes";
+import { collectImagePaths, signQuestionImages } from "@/lib/questionImages";
+
+// Signed URLs for every stem and option image on the given questions,
+// keyed by storage path; re-signs only when the set of paths changes
+export const useQuestionImageUrls = (questions: QuestionOptions[]) => {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const key = collectImagePaths(questions).sort().join("|");
+
+  useEffect(() => {
+    if (!key) return;
+    let cancelled = false;
+    signQuestionImages(key.split("|")).then((signed) => {
+      if (!cancelled) setUrls((prev) => ({ ...prev, ...signed }));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  return urls;
+};
@@ -0,0 +1,18 @@
+import { useCallback, useEffect, useState } from "react";
+import { PooledQuestion, fetchSimilarityPool } from "@/lib/questionDuplicates";
+
+// The saved questions of a subject to check new ones against; empty until a
+// subject is chosen
+export const useSimilarityPool = (subjectId: string | null | undefined) => {
+  const [pool, setPool] = useState<PooledQuestion[]>([]);
+
+  const refresh = useCallback(async () => {
+    setPool(subjectId ? await fetchSimilarityPool(subjectId) : []);
+  }, [subjectId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { pool, refresh };
+};
@@ -0,0 +1,19 @@
+import { useCallback, useEffect, useState } from "react";
+import { Topic, fetchTopics } from "@/lib/topics";
+
+// Topics of the given subjects, or of every subject when none are given;
+// refetches when the set of subjects changes
+export const useTopics = (subjectIds?: string[]) => {
+  const [topics, setTopics] = useState<Topic[]>([]);
+  const key = subjectIds ? [...subjectIds].sort().join("|") : null;
+
+  const refresh = useCallback(async () => {
+    setTopics(await fetchTopics(key === null ? undefined : key.split("|").filter(Boolean)));
+  }, [key]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { topics, refresh };
+};
@@ -14,29 +14,77 @@ export type Database = {
   }
   public: {
     Tables: {
+      answer_drafts: {
+        Row: {
+          attempt_id: string
+          created_at: string
+          id: string
+          question_id: string
+          selected_answer: string
+          updated_at: string
+        }
+        Insert: {
+          attempt_id: string
+          created_at?: string
+          id?: string
+          question_id: string
+          selected_answer: string
+          updated_at?: string
+        }
+        Update: {
+          attempt_id?: string
+          created_at?: string
+          id?: string
+          question_id?: string
+          selected_answer?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "answer_drafts_attempt_id_fkey"
+            columns: ["attempt_id"]
+            isOneToOne: false
+            referencedRelation: "attempts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "answer_drafts_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       answers: {
         Row: {
           attempt_id: string
           created_at: string | null
+          credit: number | null
           id: string
           is_correct: boolean | null
           question_id: string
+          response_text: string | null
           selected_answer: string | null
         }
         Insert: {
           attempt_id: string
           created_at?: string | null
+          credit?: number | null
           id?: string
           is_correct?: boolean | null
           question_id: string
+          response_text?: string | null
           selected_answer?: string | null
         }
         Update: {
           attempt_id?: string
           created_at?: string | null
+          credit?: number | null
           id?: string
           is_correct?: boolean | null
           question_id?: string
+          response_text?: string | null
           selected_answer?: string | null
         }
         Relationships: [
@@ -47,60 +95,95 @@ export type Database = {
             referencedRelation: "attempts"
             referencedColumns: ["id"]
           },
-          {
-            foreignKeyName: "answers_question_id_fkey"
-            columns: ["question_id"]
-            isOneToOne: false
-            referencedRelation: "questions"
-            referencedColumns: ["id"]
-          },
         ]
       }
       assessments: {
         Row: {
+          attempt_cooldown_minutes: number
+          block_copy_paste: boolean
           class_id: string | null
+          closes_at: string | null
           created_at: string | null
+          detect_window_blur: boolean
           duration_minutes: number
           id: string
           is_active: boolean | null
           is_mock_exam: boolean | null
+          latest_start_at: string | null
           marks_per_question: number | null
+          max_attempts: number | null
+          max_violations: number
+          opens_at: string | null
           passing_score: number
+          questions_per_attempt: number | null
+          require_fullscreen: boolean
           scheduled_date: string | null
           scheduled_time: string | null
+          scoring_method: string
+          shuffle_options: boolean
+          shuffle_questions: boolean
           subject_id: string
           teacher_id: string
           title: string
+          violation_action: string
         }
         Insert: {
+          attempt_cooldown_minutes?: number
+          block_copy_paste?: boolean
           class_id?: string | null
+          closes_at?: string | null
           created_at?: string | null
+          detect_window_blur?: boolean
           duration_minutes: number
           id?: string
           is_active?: boolean | null
           is_mock_exam?: boolean | null
+          latest_start_at?: string | null
           marks_per_question?: number | null
+          max_attempts?: number | null
+          max_violations?: number
+          opens_at?: string | null
           passing_score: number
+          questions_per_attempt?: number | null
+          require_fullscreen?: boolean
           scheduled_date?: string | null
           scheduled_time?: string | null
+          scoring_method?: string
+          shuffle_options?: boolean
+          shuffle_questions?: boolean
           subject_id: string
           teacher_id: string
           title: string
+          violation_action?: string
         }
         Update: {
+          attempt_cooldown_minutes?: number
+          block_copy_paste?: boolean
           class_id?: string | null
+          closes_at?: string | null
           created_at?: string | null
+          detect_window_blur?: boolean
           duration_minutes?: number
           id?: string
           is_active?: boolean | null
           is_mock_exam?: boolean | null
+          latest_start_at?: string | null
           marks_per_question?: number | null
+          max_attempts?: number | null
+          max_violations?: number
+          opens_at?: string | null
           passing_score?: number
+          questions_per_attempt?: number | null
+          require_fullscreen?: boolean
           scheduled_date?: string | null
           scheduled_time?: string | null
+          scoring_method?: string
+          shuffle_options?: boolean
+          shuffle_questions?: boolean
           subject_id?: string
           teacher_id?: string
           title?: string
+          violation_action?: string
         }
         Relationships: [
           {
@@ -126,12 +209,45 @@ export type Database = {
           },
         ]
       }
+      attempt_questions: {
+        Row: {
+          attempt_id: string
+          content: Json
+          question_id: string
+        }
+        Insert: {
+          attempt_id: string
+          content: Json
+          question_id: string
+        }
+        Update: {
+          attempt_id?: string
+          content?: Json
+          question_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attempt_questions_attempt_id_fkey"
+            columns: ["attempt_id"]
+            isOneToOne: false
+            referencedRelation: "attempts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       attempts: {
         Row: {
+          answered_count: number
           assessment_id: string
           auto_submitted: boolean | null
+          current_question_index: number
+          deadline_at: string | null
           id: string
+          last_heartbeat_at: string | null
+          locked_at: string | null
+          option_orders: Json | null
           passed: boolean | null
+          question_ids: string[] | null
           score: number | null
           started_at: string | null
           student_id: string
@@ -140,10 +256,17 @@ export type Database = {
           violations: number | null
         }
         Insert: {
+          answered_count?: number
           assessment_id: string
           auto_submitted?: boolean | null
+          current_question_index?: number
+          deadline_at?: string | null
           id?: string
+          last_heartbeat_at?: string | null
+          locked_at?: string | null
+          option_orders?: Json | null
           passed?: boolean | null
+          question_ids?: string[] | null
           score?: number | null
           started_at?: string | null
           student_id: string
@@ -152,10 +275,17 @@ export type Database = {
           violations?: number | null
         }
         Update: {
+          answered_count?: number
           assessment_id?: string
           auto_submitted?: boolean | null
+          current_question_index?: number
+          deadline_at?: string | null
           id?: string
+          last_heartbeat_at?: string | null
+          locked_at?: string | null
+          option_orders?: Json | null
           passed?: boolean | null
+          question_ids?: string[] | null
           score?: number | null
           started_at?: string | null
           student_id?: string
@@ -243,42 +373,182 @@ export type Database = {
         }
         Relationships: []
       }
+      mock_exam_answer_drafts: {
+        Row: {
+          attempt_id: string
+          created_at: string
+          id: string
+          question_id: string
+          selected_answer: string
+          updated_at: string
+        }
+        Insert: {
+          attempt_id: string
+          created_at?: string
+          id?: string
+          question_id: string
+          selected_answer: string
+          updated_at?: string
+        }
+        Update: {
+          attempt_id?: string
+          created_at?: string
+          id?: string
+          question_id?: string
+          selected_answer?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mock_exam_answer_drafts_attempt_id_fkey"
+            columns: ["attempt_id"]
+            isOneToOne: false
+            referencedRelation: "mock_exam_attempts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mock_exam_answers: {
+        Row: {
+          assessment_id: string
+          attempt_id: string
+          created_at: string
+          credit: number | null
+          id: string
+          is_correct: boolean | null
+          question_id: string
+          response_text: string | null
+          selected_answer: string | null
+        }
+        Insert: {
+          assessment_id: string
+          attempt_id: string
+          created_at?: string
+          credit?: number | null
+          id?: string
+          is_correct?: boolean | null
+          question_id: string
+          response_text?: string | null
+          selected_answer?: string | null
+        }
+        Update: {
+          assessment_id?: string
+          attempt_id?: string
+          created_at?: string
+          credit?: number | null
+          id?: string
+          is_correct?: boolean | null
+          question_id?: string
+          response_text?: string | null
+          selected_answer?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mock_exam_answers_assessment_id_fkey"
+            columns: ["assessment_id"]
+            isOneToOne: false
+            referencedRelation: "assessments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mock_exam_answers_attempt_id_fkey"
+            columns: ["attempt_id"]
+            isOneToOne: false
+            referencedRelation: "mock_exam_attempts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mock_exam_attempt_questions: {
+        Row: {
+          assessment_id: string
+          attempt_id: string
+          content: Json
+          question_id: string
+        }
+        Insert: {
+          assessment_id: string
+          attempt_id: string
+          content: Json
+          question_id: string
+        }
+        Update: {
+          assessment_id?: string
+          attempt_id?: string
+          content?: Json
+          question_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mock_exam_attempt_questions_assessment_id_fkey"
+            columns: ["assessment_id"]
+            isOneToOne: false
+            referencedRelation: "assessments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mock_exam_attempt_questions_attempt_id_fkey"
+            columns: ["attempt_id"]
+            isOneToOne: false
+            referencedRelation: "mock_exam_attempts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       mock_exam_attempts: {
         Row: {
+          answered_count: number
           created_at: string | null
           current_subject_index: number | null
+          deadline_at: string | null
           id: string
           is_completed: boolean | null
+          last_heartbeat_at: string | null
+          locked_at: string | null
           mock_exam_id: string
+          question_count: number
           started_at: string | null
           student_id: string
           submitted_at: string | null
           total_questions: number | null
           total_score: number | null
+          violations: number
         }
         Insert: {
+          answered_count?: number
           created_at?: string | null
           current_subject_index?: number | null
+          deadline_at?: string | null
           id?: string
           is_completed?: boolean | null
+          last_heartbeat_at?: string | null
+          locked_at?: string | null
           mock_exam_id: string
+          question_count?: number
           started_at?: string | null
           student_id: string
           submitted_at?: string | null
           total_questions?: number | null
           total_score?: number | null
+          violations?: number
         }
         Update: {
+          answered_count?: number
           created_at?: string | null
           current_subject_index?: number | null
+          deadline_at?: string | null
           id?: string
           is_completed?: boolean | null
+          last_heartbeat_at?: string | null
+          locked_at?: string | null
           mock_exam_id?: string
+          question_count?: number
           started_at?: string | null
           student_id?: string
           submitted_at?: string | null
           total_questions?: number | null
           total_score?: number | null
+          violations?: number
         }
         Relationships: [
           {
@@ -396,46 +666,61 @@ export type Database = {
       }
       mock_exams: {
         Row: {
+          block_copy_paste: boolean
           class_id: string | null
           created_at: string | null
           created_by: string
           description: string | null
+          detect_window_blur: boolean
           duration_per_subject_minutes: number
           id: string
           is_active: boolean | null
           marks_per_question: number | null
+          max_violations: number
+          require_fullscreen: boolean
           scheduled_date: string
           scheduled_time: string | null
           title: string
           total_duration_minutes: number
+          violation_action: string
         }
         Insert: {
+          block_copy_paste?: boolean
           class_id?: string | null
           created_at?: string | null
           created_by: string
           description?: string | null
+          detect_window_blur?: boolean
           duration_per_subject_minutes?: number
           id?: string
           is_active?: boolean | null
           marks_per_question?: number | null
+          max_violations?: number
+          require_fullscreen?: boolean
           scheduled_date: string
           scheduled_time?: string | null
           title: string
           total_duration_minutes?: number
+          violation_action?: string
         }
         Update: {
+          block_copy_paste?: boolean
           class_id?: string | null
           created_at?: string | null
           created_by?: string
           description?: string | null
+          detect_window_blur?: boolean
           duration_per_subject_minutes?: number
           id?: string
           is_active?: boolean | null
           marks_per_question?: number | null
+          max_violations?: number
+          require_fullscreen?: boolean
           scheduled_date?: string
           scheduled_time?: string | null
           title?: string
           total_duration_minutes?: number
+          violation_action?: string
         }
         Relationships: [
           {
@@ -454,6 +739,48 @@ export type Database = {
           },
         ]
       }
+      proctoring_events: {
+        Row: {
+          attempt_id: string | null
+          details: Json | null
+          event_type: string
+          id: string
+          mock_exam_attempt_id: string | null
+          occurred_at: string
+        }
+        Insert: {
+          attempt_id?: string | null
+          details?: Json | null
+          event_type: string
+          id?: string
+          mock_exam_attempt_id?: string | null
+          occurred_at?: string
+        }
+        Update: {
+          attempt_id?: string | null
+          details?: Json | null
+          event_type?: string
+          id?: string
+          mock_exam_attempt_id?: string | null
+          occurred_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "proctoring_events_attempt_id_fkey"
+            columns: ["attempt_id"]
+            isOneToOne: false
+            referencedRelation: "attempts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "proctoring_events_mock_exam_attempt_id_fkey"
+            columns: ["mock_exam_attempt_id"]
+            isOneToOne: false
+            referencedRelation: "mock_exam_attempts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           class_id: string | null
@@ -488,43 +815,127 @@ export type Database = {
       }
       question_bank: {
         Row: {
+          accepted_answers: string[] | null
           added_by: string
+          answer_unit: string | null
+          case_sensitive: boolean
           class_id: string | null
-          correct_answer: string
+          correct_answer: string | null
           created_at: string | null
+          difficulty: string | null
+          explanation: string | null
           id: string
-          option_a: string
-          option_b: string
-          option_c: string
-          option_d: string
+          numeric_answer: number | null
+          numeric_max: number | null
+          numeric_min: number | null
+          numeric_tolerance: number | null
+          option_a: string | null
+          option_a_image: string | null
+          option_b: string | null
+          option_b_image: string | null
+          option_c: string | null
+          option_c_image: string | null
+          option_d: string | null
+          option_d_image: string | null
+          option_e: string | null
+          option_e_image: string | null
+          option_f: string | null
+          option_f_image: string | null
+          question_image: string | null
           question_text: string
+          question_type: string
+          reference_title: string | null
+          reference_url: string | null
+          review_comment: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          scoring_mode: string
+          status: string
           subject_id: string
+          tags: string[]
+          topic_id: string | null
         }
         Insert: {
+          accepted_answers?: string[] | null
           added_by: string
+          answer_unit?: string | null
+          case_sensitive?: boolean
           class_id?: string | null
-          correct_answer: string
+          correct_answer?: string | null
           created_at?: string | null
+          difficulty?: string | null
+          explanation?: string | null
           id?: string
-          option_a: string
-          option_b: string
-          option_c: string
-          option_d: string
+          numeric_answer?: number | null
+          numeric_max?: number | null
+          numeric_min?: number | null
+          numeric_tolerance?: number | null
+          option_a?: string | null
+          option_a_image?: string | null
+          option_b?: string | null
+          option_b_image?: string | null
+          option_c?: string | null
+          option_c_image?: string | null
+          option_d?: string | null
+          option_d_image?: string | null
+          option_e?: string | null
+          option_e_image?: string | null
+          option_f?: string | null
+          option_f_image?: string | null
+          question_image?: string | null
           question_text: string
+          question_type?: string
+          reference_title?: string | null
+          reference_url?: string | null
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          scoring_mode?: string
+          status?: string
           subject_id: string
+          tags?: string[]
+          topic_id?: string | null
         }
         Update: {
+          accepted_answers?: string[] | null
           added_by?: string
+          answer_unit?: string | null
+          case_sensitive?: boolean
           class_id?: string | null
-          correct_answer?: string
+          correct_answer?: string | null
           created_at?: string | null
+          difficulty?: string | null
+          explanation?: string | null
           id?: string
-          option_a?: string
-          option_b?: string
-          option_c?: string
-          option_d?: string
+          numeric_answer?: number | null
+          numeric_max?: number | null
+          numeric_min?: number | null
+          numeric_tolerance?: number | null
+          option_a?: string | null
+          option_a_image?: string | null
+          option_b?: string | null
+          option_b_image?: string | null
+          option_c?: string | null
+          option_c_image?: string | null
+          option_d?: string | null
+          option_d_image?: string | null
+          option_e?: string | null
+          option_e_image?: string | null
+          option_f?: string | null
+          option_f_image?: string | null
+          question_image?: string | null
           question_text?: string
+          question_type?: string
+          reference_title?: string | null
+          reference_url?: string | null
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          scoring_mode?: string
+          status?: string
           subject_id?: string
+          tags?: string[]
+          topic_id?: string | null
         }
         Relationships: [
           {
@@ -534,6 +945,13 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "question_bank_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "question_bank_subject_id_fkey"
             columns: ["subject_id"]
@@ -541,41 +959,244 @@ export type Database = {
             referencedRelation: "subjects"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "question_bank_topic_id_fkey"
+            columns: ["topic_id"]
+            isOneToOne: false
+            referencedRelation: "topics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      question_bank_merges: {
+        Row: {
+          content: Json
+          id: string
+          kept_id: string
+          merged_at: string
+          merged_by: string | null
+          merged_id: string
+        }
+        Insert: {
+          content: Json
+          id?: string
+          kept_id: string
+          merged_at?: string
+          merged_by?: string | null
+          merged_id: string
+        }
+        Update: {
+          content?: Json
+          id?: string
+          kept_id?: string
+          merged_at?: string
+          merged_by?: string | null
+          merged_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_bank_merges_merged_by_fkey"
+            columns: ["merged_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      question_bank_reviews: {
+        Row: {
+          comment: string | null
+          created_at: string
+          id: string
+          question_id: string
+          reviewed_by: string | null
+          status: string
+        }
+        Insert: {
+          comment?: string | null
+          created_at?: string
+          id?: string
+          question_id: string
+          reviewed_by?: string | null
+          status: string
+        }
+        Update: {
+          comment?: string | null
+          created_at?: string
+          id?: string
+          question_id?: string
+          reviewed_by?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_bank_reviews_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "question_bank"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "question_bank_reviews_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      question_versions: {
+        Row: {
+          content: Json
+          edited_at: string
+          edited_by: string | null
+          id: string
+          question_id: string
+          source: string
+          version: number
+        }
+        Insert: {
+          content: Json
+          edited_at?: string
+          edited_by?: string | null
+          id?: string
+          question_id: string
+          source: string
+          version: number
+        }
+        Update: {
+          content?: Json
+          edited_at?: string
+          edited_by?: string | null
+          id?: string
+          question_id?: string
+          source?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_versions_edited_by_fkey"
+            columns: ["edited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
       questions: {
         Row: {
+          accepted_answers: string[] | null
+          accepted_options: string[] | null
+          answer_unit: string | null
           assessment_id: string
-          correct_answer: string
+          bank_question_id: string | null
+          case_sensitive: boolean
+          correct_answer: string | null
           created_at: string | null
+          difficulty: string | null
+          explanation: string | null
           id: string
-          option_a: string
-          option_b: string
-          option_c: string
-          option_d: string
+          numeric_answer: number | null
+          numeric_max: number | null
+          numeric_min: number | null
+          numeric_tolerance: number | null
+          option_a: string | null
+          option_a_image: string | null
+          option_b: string | null
+          option_b_image: string | null
+          option_c: string | null
+          option_c_image: string | null
+          option_d: string | null
+          option_d_image: string | null
+          option_e: string | null
+          option_e_image: string | null
+          option_f: string | null
+          option_f_image: string | null
+          question_image: string | null
           question_text: string
+          question_type: string
+          reference_title: string | null
+          reference_url: string | null
+          scoring_mode: string
+          tags: string[]
+          topic_id: string | null
+          voided: boolean
         }
         Insert: {
+          accepted_answers?: string[] | null
+          accepted_options?: string[] | null
+          answer_unit?: string | null
           assessment_id: string
-          correct_answer: string
+          bank_question_id?: string | null
+          case_sensitive?: boolean
+          correct_answer?: string | null
           created_at?: string | null
+          difficulty?: string | null
+          explanation?: string | null
           id?: string
-          option_a: string
-          option_b: string
-          option_c: string
-          option_d: string
+          numeric_answer?: number | null
+          numeric_max?: number | null
+          numeric_min?: number | null
+          numeric_tolerance?: number | null
+          option_a?: string | null
+          option_a_image?: string | null
+          option_b?: string | null
+          option_b_image?: string | null
+          option_c?: string | null
+          option_c_image?: string | null
+          option_d?: string | null
+          option_d_image?: string | null
+          option_e?: string | null
+          option_e_image?: string | null
+          option_f?: string | null
+          option_f_image?: string | null
+          question_image?: string | null
           question_text: string
+          question_type?: string
+          reference_title?: string | null
+          reference_url?: string | null
+          scoring_mode?: string
+          tags?: string[]
+          topic_id?: string | null
+          voided?: boolean
         }
         Update: {
+          accepted_answers?: string[] | null
+          accepted_options?: string[] | null
+          answer_unit?: string | null
           assessment_id?: string
-          correct_answer?: string
+          bank_question_id?: string | null
+          case_sensitive?: boolean
+          correct_answer?: string | null
           created_at?: string | null
+          difficulty?: string | null
+          explanation?: string | null
           id?: string
-          option_a?: string
-          option_b?: string
-          option_c?: string
-          option_d?: string
+          numeric_answer?: number | null
+          numeric_max?: number | null
+          numeric_min?: number | null
+          numeric_tolerance?: number | null
+          option_a?: string | null
+          option_a_image?: string | null
+          option_b?: string | null
+          option_b_image?: string | null
+          option_c?: string | null
+          option_c_image?: string | null
+          option_d?: string | null
+          option_d_image?: string | null
+          option_e?: string | null
+          option_e_image?: string | null
+          option_f?: string | null
+          option_f_image?: string | null
+          question_image?: string | null
           question_text?: string
+          question_type?: string
+          reference_title?: string | null
+          reference_url?: string | null
+          scoring_mode?: string
+          tags?: string[]
+          topic_id?: string | null
+          voided?: boolean
         }
         Relationships: [
           {
@@ -585,6 +1206,20 @@ export type Database = {
             referencedRelation: "assessments"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "questions_bank_question_id_fkey"
+            columns: ["bank_question_id"]
+            isOneToOne: false
+            referencedRelation: "question_bank"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "questions_topic_id_fkey"
+            columns: ["topic_id"]
+            isOneToOne: false
+            referencedRelation: "topics"
+            referencedColumns: ["id"]
+          },
         ]
       }
       subjects: {
@@ -633,18 +1268,21 @@ export type Database = {
         Row: {
           created_at: string | null
           id: string
+          is_lead: boolean
           subject_id: string
           teacher_id: string
         }
         Insert: {
           created_at?: string | null
           id?: string
+          is_lead?: boolean
           subject_id: string
           teacher_id: string
         }
         Update: {
           created_at?: string | null
           id?: string
+          is_lead?: boolean
           subject_id?: string
           teacher_id?: string
         }
@@ -665,6 +1303,55 @@ export type Database = {
           },
         ]
       }
+      topics: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          parent_id: string | null
+          subject_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          parent_id?: string | null
+          subject_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          parent_id?: string | null
+          subject_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "topics_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "topics_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "topics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "topics_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string | null
@@ -691,45 +1378,145 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      can_review_subject: {
+        Args: { _subject_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_view_question_image: {
+        Args: { _path: string; _user_id: string }
+        Returns: boolean
+      }
+      display_letters: {
+        Args: { _letters: string; _option_order: string }
+        Returns: string
+      }
+      extend_attempt_deadline: {
+        Args: {
+          _attempt_id?: string
+          _minutes: number
+          _mock_exam_attempt_id?: string
+        }
+        Returns: string
+      }
+      get_bank_question_difficulty: {
+        Args: { _question_ids: string[] }
+        Returns: {
+          correct: number
+          question_id: string
+          responses: number
+        }[]
+      }
+      get_mock_exam_questions: {
+        Args: { _mock_exam_id: string }
+        Returns: {
+          assessment_id: string
+          content: Json
+        }[]
+      }
       get_practice_questions: {
-        Args: { _subject_id: string }
+        Args: { _subject_id: string; _topic_id?: string }
         Returns: {
           assessment_id: string
           correct_answer: string
+          explanation: string
           id: string
           option_a: string
+          option_a_image: string
           option_b: string
+          option_b_image: string
           option_c: string
+          option_c_image: string
           option_d: string
+          option_d_image: string
+          option_e: string
+          option_e_image: string
+          option_f: string
+          option_f_image: string
+          question_image: string
           question_text: string
+          question_type: string
+          reference_title: string
+          reference_url: string
+          scoring_mode: string
           subject_id: string
           subject_name: string
+          topic_id: string
         }[]
       }
       get_question_bank_practice: {
-        Args: { _subject_id: string }
+        Args: { _subject_id: string; _topic_id?: string }
         Returns: {
           id: string
           option_a: string
+          option_a_image: string
           option_b: string
+          option_b_image: string
           option_c: string
+          option_c_image: string
           option_d: string
+          option_d_image: string
+          option_e: string
+          option_e_image: string
+          option_f: string
+          option_f_image: string
+          question_image: string
           question_text: string
+          question_type: string
+          scoring_mode: string
           subject_id: string
           subject_name: string
+          topic_id: string
+        }[]
+      }
+      get_question_difficulty: {
+        Args: { _question_ids: string[] }
+        Returns: {
+          correct: number
+          question_id: string
+          responses: number
         }[]
       }
       get_review_questions: {
         Args: { _attempt_id: string }
         Returns: {
+          accepted_answers: string[]
+          answer_unit: string
           assessment_id: string
           correct_answer: string
+          explanation: string
           id: string
+          numeric_answer: number
+          numeric_max: number
+          numeric_min: number
+          numeric_tolerance: number
           option_a: string
+          option_a_image: string
           option_b: string
+          option_b_image: string
           option_c: string
+          option_c_image: string
           option_d: string
+          option_d_image: string
+          option_e: string
+          option_e_image: string
+          option_f: string
+          option_f_image: string
+          option_order: string
+          question_image: string
           question_text: string
+          question_type: string
+          reference_title: string
+          reference_url: string
+          scoring_mode: string
+          voided: boolean
+        }[]
+      }
+      get_topic_scores: {
+        Args: { _student_id: string }
+        Returns: {
+          earned: number
+          questions: number
+          topic_id: string
         }[]
       }
       get_user_class: { Args: { _user_id: string }; Returns: string }
@@ -737,7 +1524,10 @@ export type Database = {
         Args: { _question_ids: string[] }
         Returns: {
           correct_answer: string
+          explanation: string
           id: string
+          reference_title: string
+          reference_url: string
         }[]
       }
       has_role: {
@@ -747,10 +1537,56 @@ export type Database = {
         }
         Returns: boolean
       }
+      merge_bank_questions: {
+        Args: { _keep_id: string; _merge_ids: string[] }
+        Returns: number
+      }
+      option_count: {
+        Args: { _c: string; _d: string; _e: string; _f: string }
+        Returns: number
+      }
+      question_option: {
+        Args: {
+          _letter: string
+          _q: Database["public"]["Tables"]["questions"]["Row"]
+        }
+        Returns: string
+      }
+      question_option_image: {
+        Args: {
+          _letter: string
+          _q: Database["public"]["Tables"]["questions"]["Row"]
+        }
+        Returns: string
+      }
+      record_attempt_heartbeat: {
+        Args: {
+          _answered_count?: number
+          _attempt_id?: string
+          _mock_exam_attempt_id?: string
+          _question_count?: number
+        }
+        Returns: undefined
+      }
+      record_proctoring_event: {
+        Args: {
+          _attempt_id?: string
+          _details?: Json
+          _event_type: string
+          _mock_exam_attempt_id?: string
+        }
+        Returns: {
+          locked: boolean
+          max_violations: number
+          violation_action: string
+          violations: number
+        }[]
+      }
       teacher_in_class: {
         Args: { _class: string; _teacher: string }
         Returns: boolean
       }
+      topic_subtree: { Args: { _topic_id: string }; Returns: string[] }
     }
     Enums: {
       app_role: "admin" | "teacher" | "student"
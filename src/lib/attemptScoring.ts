@@ -0,0 +1,86 @@
+export type ScoringMethod = "best" | "last" | "average";
+
+export const SCORING_METHOD_LABELS: Record<ScoringMethod, string> = {
+  best: "Best attempt",
+  last: "Latest attempt",
+  average: "Average of attempts",
+};
+
+export interface ScoredAttempt {
+  id: string;
+  score: number | null;
+  total_questions: number | null;
+  submitted_at: string | null;
+}
+
+export interface CountedResult {
+  percentage: number;
+  // Attempts that make up the result: one for best/last, all for average
+  attemptIds: string[];
+  attemptsCount: number;
+}
+
+export const attemptPercentage = (attempt: ScoredAttempt) =>
+  attempt.score !== null && attempt.total_questions
+    ? Math.round((attempt.score / attempt.total_questions) * 100)
+    : 0;
+
+// Reduce one student's submitted attempts at one assessment to the result that counts
+export const getCountedResult = <T extends ScoredAttempt>(
+  attempts: T[],
+  method: ScoringMethod | string | null | undefined
+): CountedResult | null => {
+  const submitted = attempts
+    .filter((a) => a.submitted_at)
+    .sort((a, b) => new Date(a.submitted_at!).getTime() - new Date(b.submitted_at!).getTime());
+
+  if (submitted.length === 0) return null;
+
+  if (method === "average") {
+    const total = submitted.reduce((sum, a) => sum + attemptPercentage(a), 0);
+    return {
+      percentage: Math.round(total / submitted.length),
+      attemptIds: submitted.map((a) => a.id),
+      attemptsCount: submitted.length,
+    };
+  }
+
+  const counted = method === "last"
+    ? submitted[submitted.length - 1]
+    : submitted.reduce((best, a) => (attemptPercentage(a) > attemptPercentage(best) ? a : best));
+
+  return { percentage: attemptPercentage(counted), attemptIds: [counted.id], attemptsCount: submitted.length };
+};
+
+// Group attempts by student and assessment, e.g. for the teacher and admin tables
+export const groupAttempts = <T extends { student_id: string; assessment_id: string }>(attempts: T[]) => {
+  const groups = new Map<string, T[]>();
+  attempts.forEach((a) => {
+    const key = `${a.student_id}:${a.assessment_id}`;
+    groups.set(key, [...(groups.get(key) || []), a]);
+  });
+  return groups;
+};
+
+export interface AttemptPosition {
+  number: number;
+  of: number;
+  counted: boolean;
+}
+
+// Number each student's attempts at an assessment and flag the ones that count
+export const getAttemptPositions = <T extends ScoredAttempt & { student_id: string; assessment_id: string; started_at: string | null }>(
+  attempts: T[],
+  getMethod: (attempt: T) => string | null | undefined
+) => {
+  const positions = new Map<string, AttemptPosition>();
+  groupAttempts(attempts).forEach((group) => {
+    const counted = getCountedResult(group, getMethod(group[0]));
+    [...group]
+      .sort((a, b) => new Date(a.started_at || 0).getTime() - new Date(b.started_at || 0).getTime())
+      .forEach((a, i) => {
+        positions.set(a.id, { number: i + 1, of: group.length, counted: !!counted?.attemptIds.includes(a.id) });
+      });
+  });
+  return positions;
+};
@@ -0,0 +1,61 @@
+export type AvailabilityState = "upcoming" | "open" | "closed";
+
+export interface AvailabilityWindow {
+  opens_at: string | null;
+  closes_at: string | null;
+  latest_start_at: string | null;
+  scheduled_date: string | null;
+  scheduled_time: string | null;
+}
+
+// Assessments saved before opens_at existed only have a local date and time
+const getScheduledAt = (scheduledDate: string | null, scheduledTime: string | null) => {
+  if (!scheduledDate) return null;
+
+  const [y, m, d] = String(scheduledDate).split("-").map(Number);
+  const scheduled = new Date(y, (m ?? 1) - 1, d ?? 1);
+
+  if (scheduledTime) {
+    const [hours, minutes] = String(scheduledTime).split(":");
+    scheduled.setHours(parseInt(hours || "0"), parseInt(minutes || "0"), 0, 0);
+  }
+
+  return scheduled;
+};
+
+export const getOpensAt = (window: AvailabilityWindow) =>
+  window.opens_at ? new Date(window.opens_at) : getScheduledAt(window.scheduled_date, window.scheduled_time);
+
+// The moment after which no new attempt can be started
+export const getStartCutoff = (window: AvailabilityWindow) => {
+  const cutoffs = [window.latest_start_at, window.closes_at].filter((v): v is string => !!v);
+  if (cutoffs.length === 0) return null;
+  return new Date(Math.min(...cutoffs.map((v) => new Date(v).getTime())));
+};
+
+export const getAvailabilityState = (window: AvailabilityWindow, now = Date.now()): AvailabilityState => {
+  const opensAt = getOpensAt(window);
+  if (opensAt && now < opensAt.getTime()) return "upcoming";
+  if (window.closes_at && now >= new Date(window.closes_at).getTime()) return "closed";
+  return "open";
+};
+
+// Round-trip between timestamptz values and <input type="datetime-local">, in the browser's time zone
+export const toDateTimeLocal = (value: string | null) => {
+  if (!value) return "";
+  const date = new Date(value);
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export const fromDateTimeLocal = (value: string) => (value ? new Date(value).toISOString() : null);
+
+// Returns a message when the window is inconsistent, null when it is fine
+export const validateWindow = (opensAt: string | null, closesAt: string | null, latestStartAt: string | null) => {
+  const time = (v: string | null) => (v ? new Date(v).getTime() : null);
+  const [opens, closes, latest] = [time(opensAt), time(closesAt), time(latestStartAt)];
+  if (closes !== null && opens !== null && closes <= opens) return "The close time must be after the opening time";
+  if (latest !== null && opens !== null && latest < opens) return "The latest start time cannot be before the opening time";
+  if (latest !== null && closes !== null && latest > closes) return "The latest start time cannot be after the close time";
+  return null;
+};
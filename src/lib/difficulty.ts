@@ -0,0 +1,119 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type Difficulty = "easy" | "medium" | "hard";
+
+export const DIFFICULTIES: Difficulty[] = ["easy", "medium", "hard"];
+
+export const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  easy: "Easy",
+  medium: "Medium",
+  hard: "Hard",
+};
+
+export const DIFFICULTY_BADGE_CLASSES: Record<Difficulty, string> = {
+  easy: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
+  medium: "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300",
+  hard: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300",
+};
+
+// Measured difficulty needs enough responses to mean anything; the cut-offs
+// are the usual item-difficulty bands on the share of correct responses
+export const MIN_CALIBRATION_RESPONSES = 10;
+const EASY_ABOVE = 0.7;
+const HARD_BELOW = 0.3;
+
+export interface DifficultyStats {
+  responses: number;
+  correct: number;
+}
+
+export const measuredDifficulty = (stats: DifficultyStats | undefined): Difficulty | null => {
+  if (!stats || stats.responses < MIN_CALIBRATION_RESPONSES) return null;
+  const rate = stats.correct / stats.responses;
+  if (rate > EASY_ABOVE) return "easy";
+  if (rate < HARD_BELOW) return "hard";
+  return "medium";
+};
+
+// Response counts keyed by question id, for assessment or bank questions
+export const fetchDifficultyStats = async (questionIds: string[], source: "assessment" | "bank") => {
+  if (questionIds.length === 0) return new Map<string, DifficultyStats>();
+  const { data, error } = await supabase.rpc(
+    source === "bank" ? "get_bank_question_difficulty" : "get_question_difficulty",
+    { _question_ids: questionIds }
+  );
+  if (error) console.error("Failed to load difficulty stats:", error);
+  return new Map(
+    (data || []).map((row) => [row.question_id, { responses: Number(row.responses), correct: Number(row.correct) }])
+  );
+};
+
+// Measured difficulty once calibrated, the author's rating until then
+export const effectiveDifficulty = (authored: string | null | undefined, stats: DifficultyStats | undefined) =>
+  measuredDifficulty(stats) ?? ((authored as Difficulty | null | undefined) || null);
+
+export type DifficultyMix = Record<Difficulty, number>;
+
+export const DEFAULT_DIFFICULTY_MIX: DifficultyMix = { easy: 30, medium: 50, hard: 20 };
+
+// How many of `count` questions each level gets, by largest remainder so
+// the counts always add up to `count`
+export const mixCounts = (mix: DifficultyMix, count: number): DifficultyMix => {
+  const total = DIFFICULTIES.reduce((sum, d) => sum + mix[d], 0) || 1;
+  const exact = DIFFICULTIES.map((d) => ({ d, value: (mix[d] / total) * count }));
+  const counts = Object.fromEntries(exact.map(({ d, value }) => [d, Math.floor(value)])) as DifficultyMix;
+  let left = count - DIFFICULTIES.reduce((sum, d) => sum + counts[d], 0);
+  [...exact].sort((a, b) => (b.value % 1) - (a.value % 1)).forEach(({ d }) => {
+    if (left > 0) { counts[d] += 1; left -= 1; }
+  });
+  return counts;
+};
+
+const shuffle = <T>(items: T[]) => [...items].sort(() => Math.random() - 0.5);
+
+// Randomly picks `count` questions matching the mix as closely as the pool
+// allows; levels that run short are topped up from any other question.
+// Returns the picks, the rest of the pool and how many picks missed the mix.
+export const pickByDifficultyMix = <T>(
+  pool: T[],
+  count: number,
+  mix: DifficultyMix,
+  difficultyOf: (question: T) => Difficulty | null
+) => {
+  const targets = mixCounts(mix, count);
+  const remaining = shuffle(pool);
+  const selected: T[] = [];
+
+  DIFFICULTIES.forEach((d) => {
+    for (let i = 0; i < remaining.length && selected.length < count && targets[d] > 0; ) {
+      if (difficultyOf(remaining[i]) === d) {
+        selected.push(...remaining.splice(i, 1));
+        targets[d] -= 1;
+      } else {
+        i++;
+      }
+    }
+  });
+
+  const shortfall = Math.min(count - selected.length, remaining.length);
+  selected.push(...remaining.splice(0, count - selected.length));
+  return { selected: shuffle(selected), remaining, shortfall };
+};
+
+// "all", a level, or "unrated" for questions without one
+export type DifficultyFilter = "all" | "unrated" | Difficulty;
+
+const matchesFilter = (filter: DifficultyFilter, difficulty: Difficulty | null) =>
+  filter === "all" || (filter === "unrated" ? difficulty === null : difficulty === filter);
+
+export const filterByDifficulty = <T extends { id: string; difficulty?: string | null }>(
+  questions: T[],
+  stats: Map<string, DifficultyStats>,
+  authored: DifficultyFilter,
+  measured: DifficultyFilter
+) =>
+  questions.filter(
+    (q) =>
+      matchesFilter(authored, (q.difficulty as Difficulty | null | undefined) || null) &&
+      matchesFilter(measured, measuredDifficulty(stats.get(q.id)))
+  );
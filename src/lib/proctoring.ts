@@ -0,0 +1,64 @@
+export type ViolationAction = "warn" | "auto_submit" | "lock";
+
+// Proctoring settings stored on assessments and mock_exams
+export interface ProctoringPolicy {
+  max_violations: number;
+  violation_action: ViolationAction;
+  require_fullscreen: boolean;
+  block_copy_paste: boolean;
+  detect_window_blur: boolean;
+}
+
+export const DEFAULT_PROCTORING_POLICY: ProctoringPolicy = {
+  max_violations: 3,
+  violation_action: "auto_submit",
+  require_fullscreen: false,
+  block_copy_paste: false,
+  detect_window_blur: false,
+};
+
+export const VIOLATION_ACTION_LABELS: Record<ViolationAction, string> = {
+  warn: "Warn only",
+  auto_submit: "Auto-submit",
+  lock: "Lock attempt",
+};
+
+// Event types written to proctoring_events
+export type ProctoringEventType =
+  | "tab_hidden"
+  | "window_blur"
+  | "fullscreen_exit"
+  | "copy"
+  | "cut"
+  | "paste"
+  | "context_menu"
+  | "locked"
+  | "time_extended"
+  | "force_submitted";
+
+export const PROCTORING_EVENT_LABELS: Record<ProctoringEventType, string> = {
+  tab_hidden: "Left the exam tab",
+  window_blur: "Switched to another window",
+  fullscreen_exit: "Exited fullscreen",
+  copy: "Tried to copy",
+  cut: "Tried to cut",
+  paste: "Tried to paste",
+  context_menu: "Opened right-click menu",
+  locked: "Attempt locked",
+  time_extended: "Extra time added",
+  force_submitted: "Force-submitted by staff",
+};
+
+// Events logged by staff actions rather than by the student
+export const STAFF_PROCTORING_EVENTS: ProctoringEventType[] = ["time_extended", "force_submitted"];
+
+// Pick the policy columns off an assessment or mock exam row
+type ProctoringPolicyRow = Partial<Omit<ProctoringPolicy, "violation_action">> & { violation_action?: string };
+
+export const toProctoringPolicy = (row: ProctoringPolicyRow | null | undefined): ProctoringPolicy => ({
+  max_violations: row?.max_violations ?? DEFAULT_PROCTORING_POLICY.max_violations,
+  violation_action: (row?.violation_action as ViolationAction) ?? DEFAULT_PROCTORING_POLICY.violation_action,
+  require_fullscreen: row?.require_fullscreen ?? DEFAULT_PROCTORING_POLICY.require_fullscreen,
+  block_copy_paste: row?.block_copy_paste ?? DEFAULT_PROCTORING_POLICY.block_copy_paste,
+  detect_window_blur: row?.detect_window_blur ?? DEFAULT_PROCTORING_POLICY.detect_window_blur,
+});
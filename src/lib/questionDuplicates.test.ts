@@ -0,0 +1,82 @@
+import { describe, expect, it, vi } from "vitest";
+import { DUPLICATE_THRESHOLD, DuplicateCandidate, findSimilarQuestions, normalizeQuestionText, questionSimilarity } from "@/lib/questionDuplicates";
+import { duplicateKey } from "@/lib/questionImport";
+
+// Only the similarity scoring is tested; nothing here talks to the database
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const question = (question_text: string, options: string[], subject_id = "maths"): DuplicateCandidate & { subject_id: string } => ({
+  question_text,
+  question_type: "single",
+  option_a: options[0] ?? null,
+  option_b: options[1] ?? null,
+  option_c: options[2] ?? null,
+  option_d: options[3] ?? null,
+  subject_id,
+});
+
+describe("normalizeQuestionText", () => {
+  it("keeps comparison operators that aren't HTML tags", () => {
+    expect(normalizeQuestionText("If x < 5 and y > 3, which is true?")).toBe("if x < 5 and y > 3 which is true");
+  });
+
+  it("drops HTML tags and Markdown emphasis", () => {
+    expect(normalizeQuestionText("<p>What is <strong>2 + 3</strong>?</p>")).toBe("what is 2 + 3");
+    expect(normalizeQuestionText("What is **2 + 3**?")).toBe("what is 2 + 3");
+  });
+});
+
+describe("questionSimilarity", () => {
+  it("keeps maths stems with different numbers apart", () => {
+    const a = question("What is 2 + 3?", ["4", "5", "6", "7"]);
+    const b = question("What is 2 + 4?", ["5", "6", "7", "8"]);
+    expect(questionSimilarity(a, b)).toBe(0);
+  });
+
+  it("keeps maths stems with different operators apart", () => {
+    const a = question("What is 12 × 4?", ["36", "48", "52", "60"]);
+    const b = question("What is 12 ÷ 4?", ["36", "48", "52", "60"]);
+    expect(questionSimilarity(a, b)).toBe(0);
+    const c = question("What is 7 - 2?", ["3", "5", "9", "14"]);
+    const d = question("What is 7 + 2?", ["3", "5", "9", "14"]);
+    expect(questionSimilarity(c, d)).toBe(0);
+  });
+
+  it("keeps inequalities with different bounds apart", () => {
+    const a = question("If x < 5 and y > 3, which is true?", ["x + y > 8", "x < y", "y < 3", "x > 5"]);
+    const b = question("If x < 6 and y > 3, which is true?", ["x + y > 8", "x < y", "y < 3", "x > 5"]);
+    expect(questionSimilarity(a, b)).toBe(0);
+  });
+
+  it("still matches the same maths question written differently", () => {
+    const a = question("What is 2 + 3?", ["4", "5", "6", "7"]);
+    const b = question("what is 2+3 ?", ["7", "6", "5", "4"]);
+    expect(questionSimilarity(a, b)).toBeGreaterThanOrEqual(DUPLICATE_THRESHOLD);
+  });
+
+  it("matches a reworded question with the same options", () => {
+    const a = question("Which organelle produces energy in the cell?", ["Nucleus", "Mitochondrion", "Ribosome", "Vacuole"], "biology");
+    const b = question("Which organelle produces the energy in a cell?", ["Mitochondrion", "Nucleus", "Vacuole", "Ribosome"], "biology");
+    expect(findSimilarQuestions(a, [b])).toHaveLength(1);
+  });
+
+  it("doesn't treat hyphens inside words as operators", () => {
+    const a = question("Which is a well-known noble gas?", ["Neon", "Oxygen", "Nitrogen", "Hydrogen"], "chemistry");
+    const b = question("Which is a well known noble gas?", ["Neon", "Oxygen", "Nitrogen", "Hydrogen"], "chemistry");
+    expect(questionSimilarity(a, b)).toBeGreaterThanOrEqual(DUPLICATE_THRESHOLD);
+  });
+});
+
+describe("duplicateKey", () => {
+  it("tells apart questions with the same stem but different options", () => {
+    const a = question("Which of the following is correct?", ["2 + 2 = 4", "2 + 2 = 5", "2 + 2 = 6", "2 + 2 = 3"]);
+    const b = question("Which of the following is correct?", ["3 × 3 = 9", "3 × 3 = 6", "3 × 3 = 8", "3 × 3 = 12"]);
+    expect(duplicateKey(a)).not.toBe(duplicateKey(b));
+  });
+
+  it("ignores option order", () => {
+    const a = question("Which of the following is correct?", ["2 + 2 = 4", "2 + 2 = 5", "2 + 2 = 6", "2 + 2 = 3"]);
+    const b = question("Which of the following is correct?", ["2 + 2 = 5", "2 + 2 = 3", "2 + 2 = 4", "2 + 2 = 6"]);
+    expect(duplicateKey(a)).toBe(duplicateKey(b));
+  });
+});
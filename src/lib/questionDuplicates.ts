@@ -0,0 +1,198 @@
+import { supabase } from "@/integrations/supabase/client";
+import { QUESTION_ANSWER_COLUMNS, QuestionOptions, TypedAnswer, describeTypedAnswer, getOptions, isTypedQuestion } from "@/lib/questionTypes";
+
+// What duplicate detection looks at: the stem, the options and, for typed
+// questions, the accepted answer
+export interface DuplicateCandidate extends QuestionOptions, Partial<TypedAnswer> {
+  question_text: string;
+  question_type?: string | null;
+}
+
+// Questions at least this similar are reported as likely duplicates
+export const DUPLICATE_THRESHOLD = 0.85;
+
+// The stem counts for most of the score; matching options make up the rest
+const TEXT_WEIGHT = 0.7;
+
+// Case, spacing (also around operators), punctuation, HTML tags, Markdown
+// emphasis and hyphens or slashes inside words don't make a question
+// different. Maths operators are kept so "2 + 3" and "2 - 3" stay apart, and
+// so is a bare "<" or ">" as in "x < 5".
+export const normalizeQuestionText = (text: string | null | undefined) =>
+  (text || "")
+    .toLowerCase()
+    .replace(/<\/?[a-z][^>]*>/g, " ")
+    .replace(/[^\p{L}\p{N}\s+\-/=<>^%×÷]/gu, " ")
+    .replace(/(\p{L})[-/](?=\p{L})/gu, "$1 ")
+    .replace(/[+\-/=<>^%×÷]/g, " $& ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// The numbers and operators of a stem, in order. Two stems that differ in any
+// of them ask different questions however alike the wording is, so "2 + 3"
+// and "2 + 4" are never duplicates
+const mathsSignature = (text: string) => (text.match(/\d+|[+\-/=<>^%×÷]/g) || []).join(" ");
+
+interface Prepared {
+  text: string;
+  maths: string;
+  bigrams: Map<string, number>;
+  // Normalised options, sorted since shuffling makes their order meaningless
+  options: string[];
+}
+
+const bigramsOf = (text: string) => {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const bigram = text.slice(i, i + 2);
+    counts.set(bigram, (counts.get(bigram) || 0) + 1);
+  }
+  return counts;
+};
+
+// Questions are compared many times over while authoring and importing, so
+// each one is normalised once
+const prepared = new WeakMap<DuplicateCandidate, Prepared>();
+
+const prepare = (question: DuplicateCandidate) => {
+  let result = prepared.get(question);
+  if (!result) {
+    const text = normalizeQuestionText(question.question_text);
+    const options = isTypedQuestion(question.question_type)
+      ? [normalizeQuestionText(describeTypedAnswer({ ...question, question_type: question.question_type! }))]
+      : getOptions(question).map((o) => normalizeQuestionText(o.text)).sort();
+    result = { text, maths: mathsSignature(text), bigrams: bigramsOf(text), options };
+    prepared.set(question, result);
+  }
+  return result;
+};
+
+// Dice coefficient over character pairs: 1 for the same text, near 1 for a
+// typo or a reworded word, low for different questions
+const textSimilarity = (a: Prepared, b: Prepared) => {
+  if (a.text === b.text) return 1;
+  const pairs = a.text.length + b.text.length - 2;
+  if (pairs <= 0) return 0;
+  let shared = 0;
+  b.bigrams.forEach((count, bigram) => { shared += Math.min(count, a.bigrams.get(bigram) || 0); });
+  return (2 * shared) / pairs;
+};
+
+// Share of options the two questions have in common
+const optionSimilarity = (a: Prepared, b: Prepared) => {
+  if (a.options.length === 0 && b.options.length === 0) return 1;
+  const remaining = [...b.options];
+  let shared = 0;
+  a.options.forEach((option) => {
+    const i = remaining.indexOf(option);
+    if (i >= 0) { shared++; remaining.splice(i, 1); }
+  });
+  return (2 * shared) / (a.options.length + b.options.length);
+};
+
+// How alike two questions are, from 0 to 1
+export const questionSimilarity = (a: DuplicateCandidate, b: DuplicateCandidate) => {
+  const first = prepare(a);
+  const second = prepare(b);
+  // Stems this different in length can't reach the threshold; skip the work
+  const shorter = Math.min(first.text.length, second.text.length);
+  const longer = Math.max(first.text.length, second.text.length);
+  if (longer > 0 && shorter / longer < 0.6) return 0;
+  if (first.maths !== second.maths) return 0;
+  return TEXT_WEIGHT * textSimilarity(first, second) + (1 - TEXT_WEIGHT) * optionSimilarity(first, second);
+};
+
+// A question's options, normalised and sorted, or its accepted answer when it
+// is typed; questions with the same stem but different answers aren't repeats
+export const normalizedAnswers = (question: DuplicateCandidate) => prepare(question).options;
+
+export interface DuplicateMatch<T> {
+  question: T;
+  similarity: number;
+}
+
+// The questions of `pool` that are likely duplicates of `question`, most similar first
+export const findSimilarQuestions = <T extends DuplicateCandidate>(
+  question: DuplicateCandidate,
+  pool: T[],
+  threshold = DUPLICATE_THRESHOLD
+): DuplicateMatch<T>[] => {
+  if (!normalizeQuestionText(question.question_text)) return [];
+  return pool
+    .filter((other) => other !== question)
+    .map((other) => ({ question: other, similarity: questionSimilarity(question, other) }))
+    .filter((match) => match.similarity >= threshold)
+    .sort((a, b) => b.similarity - a.similarity);
+};
+
+// Sets of likely duplicates within each subject, each with two or more
+// questions. A question similar to any member joins the set.
+export const groupDuplicates = <T extends DuplicateCandidate & { id: string; subject_id: string }>(
+  questions: T[],
+  threshold = DUPLICATE_THRESHOLD
+) => {
+  const parent = new Map(questions.map((q) => [q.id, q.id]));
+  const root = (id: string): string => {
+    const up = parent.get(id)!;
+    if (up === id) return id;
+    const top = root(up);
+    parent.set(id, top);
+    return top;
+  };
+
+  questions.forEach((q, i) => {
+    for (let j = i + 1; j < questions.length; j++) {
+      const other = questions[j];
+      if (other.subject_id !== q.subject_id) continue;
+      if (questionSimilarity(q, other) >= threshold) parent.set(root(other.id), root(q.id));
+    }
+  });
+
+  const groups = new Map<string, T[]>();
+  questions.forEach((q) => {
+    const key = root(q.id);
+    groups.set(key, [...(groups.get(key) || []), q]);
+  });
+  return [...groups.values()].filter((group) => group.length > 1);
+};
+
+// A saved question new ones are checked against while authoring
+export interface PooledQuestion extends DuplicateCandidate {
+  id: string;
+  source: "bank" | "assessment";
+  // Where it is, e.g. "Question bank" or "Assessment: Week 3 quiz"
+  label: string;
+}
+
+// Every bank and assessment question of a subject
+export const fetchSimilarityPool = async (subjectId: string): Promise<PooledQuestion[]> => {
+  const [bank, assessments] = await Promise.all([
+    supabase.from("question_bank").select(`id, question_text, ${QUESTION_ANSWER_COLUMNS}`).eq("subject_id", subjectId),
+    supabase
+      .from("questions")
+      .select(`id, question_text, ${QUESTION_ANSWER_COLUMNS}, assessments!inner(subject_id, title, is_mock_exam)`)
+      .eq("assessments.subject_id", subjectId),
+  ]);
+  if (bank.error || assessments.error) {
+    console.error("Failed to load questions for duplicate checks:", bank.error || assessments.error);
+  }
+  return [
+    ...(bank.data || []).map((q) => ({ ...q, source: "bank" as const, label: "Question bank" })),
+    ...(assessments.data || []).map(({ assessments: a, ...q }) => ({
+      ...q,
+      source: "assessment" as const,
+      label: `${a?.is_mock_exam ? "Mock" : "Assessment"}: ${a?.title}`,
+    })),
+  ];
+};
+
+export const similarityPercent = (similarity: number) => `${Math.round(similarity * 100)}%`;
+
+// Folds the other bank questions into the one kept: assessment questions
+// copied from them point at it instead, tags are combined and the merge is
+// logged. The merged questions' version history is kept.
+export const mergeBankQuestions = async (keepId: string, mergeIds: string[]) => {
+  const { data, error } = await supabase.rpc("merge_bank_questions", { _keep_id: keepId, _merge_ids: mergeIds });
+  if (error) throw new Error(error.message || "Failed to merge the questions");
+  return data as number;
+};
@@ -0,0 +1,53 @@
+import { supabase } from "@/integrations/supabase/client";
+import { OPTION_LETTERS, QuestionOptions, optionImageField } from "@/lib/questionTypes";
+
+// Private bucket; students can only sign URLs for images used by questions
+// their class can see (see can_view_question_image)
+export const QUESTION_IMAGES_BUCKET = "question-images";
+
+export const ALLOWED_IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp", "image/svg+xml"];
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// Signed URLs outlast a timed attempt so images don't break mid-exam
+const SIGNED_URL_SECONDS = 4 * 60 * 60;
+
+// Uploads under the uploader's own folder and returns the stored path
+export const uploadQuestionImage = async (file: File) => {
+  if (!ALLOWED_IMAGE_TYPES.includes(file.type)) throw new Error("Use a PNG, JPEG, GIF, WebP or SVG image");
+  if (file.size > MAX_IMAGE_BYTES) throw new Error("Max image size is 5 MB");
+
+  const user = (await supabase.auth.getUser()).data.user;
+  if (!user) throw new Error("Not authenticated");
+
+  const safe = file.name.replace(/[^a-zA-Z0-9._-]/g, "_");
+  const path = `${user.id}/${Date.now()}_${safe}`;
+  const { error } = await supabase.storage
+    .from(QUESTION_IMAGES_BUCKET).upload(path, file, { contentType: file.type, upsert: false });
+  if (error) throw error;
+  return path;
+};
+
+// Every image path on a set of questions, stem and options alike
+export const collectImagePaths = (questions: QuestionOptions[]) => [
+  ...new Set(
+    questions.flatMap((q) =>
+      [q.question_image, ...OPTION_LETTERS.map((letter) => q[optionImageField(letter)])].filter(
+        (path): path is string => !!path
+      )
+    )
+  ),
+];
+
+// Maps each path to a signed URL; paths the user may not see are left out
+export const signQuestionImages = async (paths: string[]) => {
+  if (paths.length === 0) return {};
+  const { data, error } = await supabase.storage
+    .from(QUESTION_IMAGES_BUCKET).createSignedUrls(paths, SIGNED_URL_SECONDS);
+  if (error || !data) {
+    console.error("Failed to sign question images:", error);
+    return {};
+  }
+  return Object.fromEntries(
+    data.filter((item) => item.signedUrl && item.path).map((item) => [item.path!, item.signedUrl])
+  ) as Record<string, string>;
+};
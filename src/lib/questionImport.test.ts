@@ -0,0 +1,109 @@
+import { describe, expect, it, vi } from "vitest";
+import { ImportContext, ImportFile, readQuestionFile, validateImportRows } from "@/lib/questionImport";
+
+// Spreadsheets are read by read-excel-file; only how its cells become rows is tested
+vi.mock("read-excel-file/browser", () => ({
+  readSheet: async () => [
+    ["Question Text", "Option A", "Option-B", "Key", "Reference"],
+    ["Which bone is longest?", "Femur", "Tibia", "A", new Date("2024-03-05T00:00:00Z")],
+    ["Normal heart rate upper limit?", null, null, 100, null],
+  ],
+}));
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const KNEE = "6f1c2a3e-8b4d-4c5e-9f60-1a2b3c4d5e60";
+const ACL = "0d9e8f7a-6b5c-4d3e-8f21-0a9b8c7d6e5f";
+
+const context: ImportContext = {
+  subjects: [{ id: "anatomy", name: "Anatomy" }, { id: "physiology", name: "Physiology" }],
+  topics: [
+    { id: KNEE, subject_id: "anatomy", parent_id: null, name: "Knee" },
+    { id: ACL, subject_id: "anatomy", parent_id: KNEE, name: "ACL" },
+  ],
+  defaultSubjectId: "anatomy",
+};
+
+const rows = (...raw: Record<string, string>[]): ImportFile => ({
+  rows: raw,
+  numbers: raw.map((_, i) => i + 2),
+  unit: "row",
+  warnings: [],
+});
+
+describe("readQuestionFile", () => {
+  it("keys CSV rows by normalised column names and numbers them as in the sheet", async () => {
+    const file = new File(
+      ['question,Option A,b,Correct,Tags\n"Which, of these?",Yes,No,A,"x; y"\n\n"Another",1,2,B,\n'],
+      "questions.csv"
+    );
+    const { rows, numbers, unit } = await readQuestionFile(file);
+    expect(unit).toBe("row");
+    expect(numbers).toEqual([2, 3]);
+    expect(rows[0]).toEqual({ question: "Which, of these?", option_a: "Yes", option_b: "No", correct_answer: "A", tags: "x; y" });
+    expect(rows[1].tags).toBe("");
+  });
+
+  it("turns spreadsheet numbers, dates and blank cells into text", async () => {
+    const { rows } = await readQuestionFile(new File([""], "questions.xlsx"));
+    expect(rows).toEqual([
+      { question: "Which bone is longest?", option_a: "Femur", option_b: "Tibia", correct_answer: "A", reference_title: "2024-03-05" },
+      { question: "Normal heart rate upper limit?", option_a: "", option_b: "", correct_answer: "100", reference_title: "" },
+    ]);
+  });
+
+  it("needs a question column", async () => {
+    await expect(readQuestionFile(new File(["stem_text,answer\nx,A\n"], "q.csv"))).rejects.toThrow('needs a "question" column');
+  });
+});
+
+describe("validateImportRows", () => {
+  it("works out the question type from the answer when there is no type column", () => {
+    const [single, multiple, trueFalse, numeric, text] = validateImportRows(rows(
+      { question: "Pick one", option_a: "Red", option_b: "Blue", correct_answer: "blue" },
+      { question: "Pick some", option_a: "Red", option_b: "Blue", option_c: "Green", correct_answer: "A, C" },
+      { question: "The sky is blue", correct_answer: "True" },
+      { question: "How many?", correct_answer: "5.5", tolerance: "0.5", unit: "ml" },
+      { question: "Name it", correct_answer: "humerus | the humerus" },
+    ), context, []);
+
+    expect(single.question).toMatchObject({ question_type: "single", correct_answer: "B" });
+    expect(multiple.question).toMatchObject({ question_type: "multiple", correct_answer: "AC" });
+    expect(trueFalse.question).toMatchObject({ question_type: "true_false", option_a: "True", option_b: "False", correct_answer: "A" });
+    expect(numeric.question).toMatchObject({ question_type: "numeric", numeric_answer: 5.5, numeric_tolerance: 0.5, answer_unit: "ml" });
+    expect(text.question).toMatchObject({ question_type: "short_text", accepted_answers: ["humerus", "the humerus"] });
+  });
+
+  it("reads a numeric range written with to", () => {
+    const [row] = validateImportRows(rows({ question: "How many?", type: "number", correct_answer: "4 to 6" }), context, []);
+    expect(row.question).toMatchObject({ question_type: "numeric", numeric_answer: null, numeric_min: 4, numeric_max: 6 });
+  });
+
+  it("finds subjects and nested topics by name", () => {
+    const [row] = validateImportRows(rows(
+      { question: "Which ligament?", option_a: "ACL", option_b: "PCL", correct_answer: "A", subject: "anatomy", topic: "Knee > ACL" }
+    ), context, []);
+    expect(row.errors).toEqual([]);
+    expect(row.question).toMatchObject({ subject_id: "anatomy", topic_id: ACL });
+  });
+
+  it("explains rows that can't be imported", () => {
+    const [unknown, badNumber] = validateImportRows(rows(
+      { question: "Q", option_a: "x", option_b: "y", correct_answer: "A", subject: "Chemistry", type: "essay" },
+      { question: "Q", type: "numeric", correct_answer: "about five" },
+    ), context, []);
+    expect(unknown.question).toBeNull();
+    expect(unknown.errors).toEqual(['Unknown subject "Chemistry"', 'Unknown question type "essay"']);
+    expect(badNumber.errors).toContain("The correct answer of a numeric question must be a number");
+  });
+
+  it("skips repeats of an earlier row or of a saved question", () => {
+    const question = { question: "Pick one", option_a: "Red", option_b: "Blue", correct_answer: "A" };
+    const saved = { question_text: "Saved one", question_type: "single", option_a: "Yes", option_b: "No", subject_id: "anatomy" };
+    const result = validateImportRows(rows(
+      question,
+      { ...question, question: "  pick ONE " },
+      { question: "Saved one", option_a: "yes", option_b: "no", correct_answer: "A" },
+    ), context, [saved]);
+    expect(result.map((r) => r.duplicateOf)).toEqual([null, "row 2", "the bank"]);
+  });
+});
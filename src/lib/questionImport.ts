@@ -0,0 +1,352 @@
+import Papa from "papaparse";
+import { readSheet } from "read-excel-file/browser";
+import { questionSchema } from "@/lib/validationSchemas";
+import { DIFFICULTIES, Difficulty } from "@/lib/difficulty";
+import { OPTION_LETTERS, QuestionType, TRUE_FALSE_OPTIONS, optionField, questionAnswerFields } from "@/lib/questionTypes";
+import { Topic, cleanTags } from "@/lib/topics";
+import { detectQuizFormat, parseQuizFile } from "@/lib/quizFormats";
+import { DuplicateCandidate, findSimilarQuestions, normalizeQuestionText, normalizedAnswers } from "@/lib/questionDuplicates";
+
+// One spreadsheet row, keyed by normalised column name
+export type RawQuestionRow = Record<string, string>;
+
+// The columns of the downloadable template; only question and
+// correct_answer are needed on every row
+export const IMPORT_COLUMNS = [
+  "question",
+  "type",
+  "option_a",
+  "option_b",
+  "option_c",
+  "option_d",
+  "option_e",
+  "option_f",
+  "correct_answer",
+  "tolerance",
+  "unit",
+  "case_sensitive",
+  "scoring",
+  "subject",
+  "class",
+  "topic",
+  "difficulty",
+  "tags",
+  "explanation",
+  "reference_title",
+  "reference_url",
+];
+
+export const MAX_IMPORT_ROWS = 1000;
+
+// Spreadsheets, and Aiken (.txt), GIFT (.gift or .txt) and Moodle XML quiz files
+export const QUESTION_FILE_ACCEPT = ".csv,.xlsx,.txt,.gift,.xml";
+
+const HEADER_ALIASES: Record<string, string> = {
+  stem: "question",
+  question_text: "question",
+  question_type: "type",
+  a: "option_a",
+  b: "option_b",
+  c: "option_c",
+  d: "option_d",
+  e: "option_e",
+  f: "option_f",
+  answer: "correct_answer",
+  correct: "correct_answer",
+  key: "correct_answer",
+  scoring_mode: "scoring",
+  numeric_tolerance: "tolerance",
+  answer_unit: "unit",
+  reference: "reference_title",
+};
+
+// "Option A", "option-a" and "OPTION_A" all become option_a
+const toKey = (value: string) => value.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+
+const normaliseHeader = (header: string) => {
+  const key = toKey(header);
+  return HEADER_ALIASES[key] || key;
+};
+
+const cellText = (value: unknown) =>
+  value == null ? "" : value instanceof Date ? value.toISOString().slice(0, 10) : String(value);
+
+export interface ImportFile {
+  rows: RawQuestionRow[];
+  // Where each row was in the file, as spreadsheet rows or quiz-file questions
+  numbers: number[];
+  unit: "row" | "question";
+  // Parts of a quiz file that were skipped or left out
+  warnings: string[];
+}
+
+// Reads the first sheet of an .xlsx file, a .csv file or an Aiken, GIFT or
+// Moodle XML quiz file into rows keyed by column name; throws when the file
+// can't be read or a spreadsheet has no question column
+export const readQuestionFile = async (file: File): Promise<ImportFile> => {
+  let table: string[][];
+  if (/\.xlsx$/i.test(file.name)) {
+    table = (await readSheet(file)).map((row) => row.map(cellText));
+  } else {
+    const text = await file.text();
+    const quizFormat = detectQuizFormat(file.name, text);
+    if (quizFormat) {
+      const { rows, numbers, warnings } = parseQuizFile(text, quizFormat);
+      if (rows.length > MAX_IMPORT_ROWS) throw new Error(`Import at most ${MAX_IMPORT_ROWS} questions at a time`);
+      return { rows, numbers, unit: "question", warnings };
+    }
+    const parsed = Papa.parse<string[]>(text, { skipEmptyLines: "greedy" });
+    if (parsed.errors.length > 0) {
+      const first = parsed.errors[0];
+      throw new Error(`Could not read the CSV${first.row != null ? ` at row ${first.row + 1}` : ""}: ${first.message}`);
+    }
+    table = parsed.data;
+  }
+
+  const [header, ...rows] = table;
+  if (!header) throw new Error("The file is empty");
+  const columns = header.map((h) => normaliseHeader(cellText(h)));
+  if (!columns.includes("question")) throw new Error('The file needs a "question" column');
+  if (rows.length > MAX_IMPORT_ROWS) throw new Error(`Import at most ${MAX_IMPORT_ROWS} questions at a time`);
+
+  return {
+    rows: rows.map((row) => Object.fromEntries(columns.map((column, i) => [column, cellText(row[i]).trim()]))),
+    numbers: rows.map((_, i) => i + 2),
+    unit: "row",
+    warnings: [],
+  };
+};
+
+// A template with a header row and one example of each kind of question
+export const importTemplateCsv = () =>
+  Papa.unparse({
+    fields: IMPORT_COLUMNS,
+    data: [
+      ["Which ligament stops the tibia sliding forward?", "single", "ACL", "PCL", "MCL", "LCL", "", "", "A", "", "", "", "", "", "", "Knee > ACL", "easy", "ligaments; knee", "The ACL resists anterior translation.", "", ""],
+      ["Which of these are rotator cuff muscles?", "multiple", "Supraspinatus", "Deltoid", "Teres minor", "Biceps", "", "", "A, C", "", "", "", "partial", "", "", "", "medium", "shoulder", "", "", ""],
+      ["The femur is the longest bone in the body.", "true_false", "", "", "", "", "", "", "True", "", "", "", "", "", "", "", "", "", "", "", ""],
+      ["Normal adult resting heart rate upper limit?", "numeric", "", "", "", "", "", "", "100", "5", "bpm", "", "", "", "", "", "", "", "", "", ""],
+      ["Name the bone of the upper arm.", "short_text", "", "", "", "", "", "", "humerus|the humerus", "", "", "no", "", "", "", "", "hard", "", "", "", ""],
+    ],
+  });
+
+const TYPE_ALIASES: Record<string, QuestionType> = {
+  single: "single",
+  single_answer: "single",
+  mcq: "single",
+  multiple_choice: "single",
+  multiple: "multiple",
+  multiple_answers: "multiple",
+  multiple_response: "multiple",
+  mrq: "multiple",
+  select_all: "multiple",
+  true_false: "true_false",
+  truefalse: "true_false",
+  tf: "true_false",
+  numeric: "numeric",
+  number: "numeric",
+  short_text: "short_text",
+  short_answer: "short_text",
+  short: "short_text",
+  text: "short_text",
+};
+
+const TRUE_WORDS = /^(t|true|yes)$/i;
+const FALSE_WORDS = /^(f|false|no)$/i;
+const YES_WORDS = /^(y|yes|true|1)$/i;
+
+const parseNumber = (value: string) => (value.trim() !== "" && Number.isFinite(Number(value)) ? Number(value) : null);
+
+// "A", "A, C", "AC" or the text of one of the options
+const parseAnswerLetters = (answer: string, options: string[]) => {
+  if (/^[A-F](\s*[,;/ ]?\s*[A-F])*$/i.test(answer)) return [...new Set(answer.toUpperCase().replace(/[^A-F]/g, ""))].sort().join("");
+  const index = options.findIndex((o) => o.toLowerCase() === answer.toLowerCase());
+  return index >= 0 ? OPTION_LETTERS[index] : answer;
+};
+
+export interface ImportContext {
+  subjects: { id: string; name: string }[];
+  // Left out for assessment questions, which have no class
+  classes?: { id: string; name: string }[];
+  topics: Topic[];
+  // Used for rows whose subject or class cell is blank
+  defaultSubjectId: string;
+  defaultClassId?: string;
+}
+
+const findByName = <T extends { name: string }>(items: T[], name: string) =>
+  items.find((item) => item.name.trim().toLowerCase() === name.trim().toLowerCase());
+
+// "Knee > ACL" (or →, /) walks down from a top-level topic; a lone name
+// matches any topic of that name in the subject as long as only one does
+const findTopic = (topics: Topic[], subjectId: string, value: string) => {
+  const parts = value.split(/\s*(?:>|→|\/)\s*/).filter(Boolean);
+  const inSubject = topics.filter((t) => t.subject_id === subjectId);
+  if (parts.length === 1) {
+    const matches = inSubject.filter((t) => t.name.toLowerCase() === parts[0].toLowerCase());
+    return matches.length === 1 ? matches[0] : undefined;
+  }
+  let current: Topic | undefined;
+  for (const part of parts) {
+    current = findByName(inSubject.filter((t) => t.parent_id === (current?.id ?? null)), part);
+    if (!current) return undefined;
+  }
+  return current;
+};
+
+export interface ImportedQuestion extends ReturnType<typeof questionAnswerFields> {
+  question_text: string;
+  subject_id: string;
+  class_id: string | null;
+}
+
+export interface ImportRow {
+  // Spreadsheet row number (the header is row 1) or position in a quiz file
+  rowNumber: number;
+  raw: RawQuestionRow;
+  question: ImportedQuestion | null;
+  errors: string[];
+  // Where the same question already is, e.g. "row 4" or "the bank"; such rows are skipped
+  duplicateOf: string | null;
+  // Where a likely duplicate is, worded or answered a little differently;
+  // such rows are still imported
+  similarTo: string | null;
+}
+
+// A question already saved, to check imported rows against
+export interface ExistingQuestion extends DuplicateCandidate {
+  subject_id: string;
+}
+
+// The question a row describes, or why it can't be imported
+const toQuestion = (raw: RawQuestionRow, context: ImportContext) => {
+  const errors: string[] = [];
+
+  const subject = raw.subject ? findByName(context.subjects, raw.subject) : context.subjects.find((s) => s.id === context.defaultSubjectId);
+  if (raw.subject && !subject) errors.push(`Unknown subject "${raw.subject}"`);
+  else if (!subject) errors.push("No subject: fill in the subject column or choose a default subject");
+
+  const classes = context.classes || [];
+  const klass = raw.class ? findByName(classes, raw.class) : classes.find((c) => c.id === context.defaultClassId);
+  if (context.classes && raw.class && !klass) errors.push(`Unknown class "${raw.class}"`);
+  else if (context.classes && !klass) errors.push("No class: fill in the class column or choose a default class");
+
+  const topic = subject && raw.topic ? findTopic(context.topics, subject.id, raw.topic) : undefined;
+  if (subject && raw.topic && !topic) errors.push(`Unknown topic "${raw.topic}" in ${subject.name}`);
+
+  const difficulty = (raw.difficulty?.toLowerCase() || null) as Difficulty | null;
+  const knownDifficulty = !difficulty || DIFFICULTIES.includes(difficulty);
+  if (!knownDifficulty) errors.push("Difficulty must be easy, medium or hard");
+
+  const answer = raw.correct_answer || "";
+  let options = OPTION_LETTERS.map((l) => raw[optionField(l)] || "");
+  while (options.length > 0 && !options[options.length - 1]) options.pop();
+
+  let questionType: QuestionType | undefined;
+  if (raw.type) {
+    questionType = TYPE_ALIASES[toKey(raw.type)];
+    if (!questionType) errors.push(`Unknown question type "${raw.type}"`);
+  } else if (options.length > 0) {
+    questionType = parseAnswerLetters(answer, options).length > 1 ? "multiple" : "single";
+  } else if (TRUE_WORDS.test(answer) || FALSE_WORDS.test(answer)) {
+    questionType = "true_false";
+  } else {
+    questionType = parseNumber(answer) != null ? "numeric" : "short_text";
+  }
+  if (!questionType) return { question: null, errors };
+
+  if (questionType === "true_false" && options.length === 0) options = [...TRUE_FALSE_OPTIONS];
+  const typed = questionType === "numeric" || questionType === "short_text";
+
+  let correctAnswer: string | null = null;
+  if (!typed) {
+    if (questionType === "true_false" && TRUE_WORDS.test(answer)) correctAnswer = "A";
+    else if (questionType === "true_false" && FALSE_WORDS.test(answer)) correctAnswer = "B";
+    else correctAnswer = parseAnswerLetters(answer, options) || null;
+  }
+
+  // Numeric answers are a value, or a range written "4 to 6"
+  const range = questionType === "numeric" ? answer.match(/^(-?[\d.]+)\s*(?:to|\.\.)\s*(-?[\d.]+)$/i) : null;
+  const numericAnswer = questionType === "numeric" && !range ? parseNumber(answer) : null;
+  if (questionType === "numeric" && !range && answer && numericAnswer == null) errors.push("The correct answer of a numeric question must be a number");
+  if (raw.tolerance && parseNumber(raw.tolerance) == null) errors.push("Tolerance must be a number");
+
+  const candidate = {
+    question_text: raw.question || "",
+    ...Object.fromEntries(OPTION_LETTERS.map((l, i) => [optionField(l), typed ? null : options[i] ?? null])),
+    question_type: questionType,
+    scoring_mode: /partial/i.test(raw.scoring || "") ? "partial" : "all_or_nothing",
+    correct_answer: correctAnswer,
+    numeric_answer: numericAnswer,
+    numeric_tolerance: questionType === "numeric" && raw.tolerance ? parseNumber(raw.tolerance) : null,
+    numeric_min: range ? Number(range[1]) : null,
+    numeric_max: range ? Number(range[2]) : null,
+    answer_unit: questionType === "numeric" ? raw.unit || null : null,
+    accepted_answers: questionType === "short_text" ? answer.split("|").map((a) => a.trim()).filter(Boolean) : null,
+    case_sensitive: questionType === "short_text" && YES_WORDS.test(raw.case_sensitive || ""),
+    explanation: raw.explanation || null,
+    reference_title: raw.reference_title || null,
+    reference_url: raw.reference_url || null,
+    topic_id: topic?.id ?? null,
+    tags: cleanTags((raw.tags || "").split(/[,;]/)),
+    difficulty: knownDifficulty ? difficulty : null,
+  };
+
+  const result = questionSchema.safeParse(candidate);
+  if (!result.success) errors.push(...result.error.issues.map((issue) => issue.message));
+  if (!result.success || errors.length > 0) return { question: null, errors: [...new Set(errors)] };
+
+  const question: ImportedQuestion = {
+    question_text: result.data.question_text,
+    ...questionAnswerFields({
+      ...result.data,
+      option_a: result.data.option_a ?? null,
+      option_b: result.data.option_b ?? null,
+      correct_answer: result.data.correct_answer ?? null,
+      question_type: questionType,
+      scoring_mode: candidate.scoring_mode,
+    }),
+    subject_id: subject!.id,
+    class_id: klass?.id ?? null,
+  };
+  return { question, errors };
+};
+
+// Questions match when their text and their options (or typed answer) do
+// within a subject, ignoring case, spacing, punctuation and option order
+export const duplicateKey = (question: ExistingQuestion) =>
+  `${question.subject_id}:${normalizeQuestionText(question.question_text)}:${normalizedAnswers(question).join("|")}`;
+
+// Checks every row and marks repeats of an earlier row or of a question
+// already saved (found in `existingLabel`), and rows that closely resemble one
+export const validateImportRows = (
+  file: ImportFile,
+  context: ImportContext,
+  existing: ExistingQuestion[],
+  existingLabel = "the bank"
+): ImportRow[] => {
+  const existingKeys = new Set(existing.map(duplicateKey));
+  const seen = new Map<string, number>();
+  const earlier: { question: ImportedQuestion; rowNumber: number }[] = [];
+  return file.rows.map((raw, i) => {
+    const rowNumber = file.numbers[i];
+    const { question, errors } = toQuestion(raw, context);
+    let duplicateOf: string | null = null;
+    let similarTo: string | null = null;
+    if (question) {
+      const key = duplicateKey(question);
+      if (existingKeys.has(key)) duplicateOf = existingLabel;
+      else if (seen.has(key)) duplicateOf = `${file.unit} ${seen.get(key)}`;
+      else {
+        seen.set(key, rowNumber);
+        const sameSubject = <T extends { subject_id: string }>(q: T) => q.subject_id === question.subject_id;
+        const [saved] = findSimilarQuestions(question, existing.filter(sameSubject));
+        const [row] = findSimilarQuestions(question, earlier.map((e) => e.question).filter(sameSubject));
+        if (saved) similarTo = existingLabel;
+        else if (row) similarTo = `${file.unit} ${earlier.find((e) => e.question === row.question)!.rowNumber}`;
+        earlier.push({ question, rowNumber });
+      }
+    }
+    return { rowNumber, raw, question, errors, duplicateOf, similarTo };
+  });
+};
@@ -0,0 +1,65 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Where a bank question is in review. Only approved questions reach
+// students and the assessment and mock exam builders.
+export type ReviewStatus = "draft" | "submitted" | "approved" | "rejected";
+
+export const REVIEW_STATUSES: ReviewStatus[] = ["draft", "submitted", "approved", "rejected"];
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  draft: "Draft",
+  submitted: "Awaiting review",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+export const REVIEW_STATUS_BADGE_CLASSES: Record<ReviewStatus, string> = {
+  draft: "bg-muted text-muted-foreground",
+  submitted: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300",
+  approved: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
+  rejected: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300",
+};
+
+export interface QuestionReview {
+  id: string;
+  status: ReviewStatus;
+  comment: string | null;
+  reviewer: string | null;
+  created_at: string;
+}
+
+// Sends the author's drafts or rejected questions to the review queue
+export const submitForReview = async (questionIds: string[]) => {
+  const { error } = await supabase
+    .from("question_bank")
+    .update({ status: "submitted" })
+    .in("id", questionIds)
+    .in("status", ["draft", "rejected"]);
+  if (error) throw new Error(error.message || "Failed to submit the questions for review");
+};
+
+// Approves or rejects questions; a rejection needs a comment saying why
+export const reviewQuestions = async (questionIds: string[], status: "approved" | "rejected", comment: string) => {
+  const { error } = await supabase
+    .from("question_bank")
+    .update({ status, review_comment: comment.trim() || null })
+    .in("id", questionIds);
+  if (error) throw new Error(error.message || "Failed to save the review");
+};
+
+// Submissions and decisions on a question, newest first
+export const fetchQuestionReviews = async (questionId: string): Promise<QuestionReview[]> => {
+  const { data, error } = await supabase
+    .from("question_bank_reviews")
+    .select("id, status, comment, created_at, profiles:reviewed_by(full_name)")
+    .eq("question_id", questionId)
+    .order("created_at", { ascending: false });
+  if (error) throw new Error(error.message || "Failed to load the question's reviews");
+  return (data || []).map((row) => ({
+    id: row.id,
+    status: row.status as ReviewStatus,
+    comment: row.comment,
+    reviewer: row.profiles?.full_name ?? null,
+    created_at: row.created_at,
+  }));
+};
@@ -0,0 +1,263 @@
+import { Difficulty } from "@/lib/difficulty";
+import { QuestionTopic, cleanTags, emptyQuestionTopic } from "@/lib/topics";
+import { gradeAnswer as gradeWithKey } from "../../supabase/functions/_shared/grading.ts";
+
+export type QuestionType = "single" | "multiple" | "true_false" | "numeric" | "short_text";
+export type ScoringMode = "all_or_nothing" | "partial";
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  single: "Single answer",
+  multiple: "Multiple answers (select all that apply)",
+  true_false: "True / False",
+  numeric: "Numeric answer",
+  short_text: "Short text answer",
+};
+
+// Typed-answer questions have no options or letter key; they are graded
+// against the numeric or accepted-answer fields instead
+export const isTypedQuestion = (questionType: string | null | undefined) =>
+  questionType === "numeric" || questionType === "short_text";
+
+export const SCORING_MODE_LABELS: Record<ScoringMode, string> = {
+  all_or_nothing: "All or nothing",
+  partial: "Partial credit",
+};
+
+// Questions have between 2 and 6 options, filled from A without gaps;
+// option columns a question doesn't use are null
+export const OPTION_LETTERS = ["A", "B", "C", "D", "E", "F"];
+export const MIN_OPTIONS = 2;
+export const MAX_OPTIONS = 6;
+export const TRUE_FALSE_OPTIONS = ["True", "False"];
+
+export interface QuestionOptions {
+  option_a: string | null;
+  option_b: string | null;
+  option_c?: string | null;
+  option_d?: string | null;
+  option_e?: string | null;
+  option_f?: string | null;
+  // Paths in the question-images bucket, see src/lib/questionImages.ts
+  question_image?: string | null;
+  option_a_image?: string | null;
+  option_b_image?: string | null;
+  option_c_image?: string | null;
+  option_d_image?: string | null;
+  option_e_image?: string | null;
+  option_f_image?: string | null;
+}
+
+export interface TypedAnswer {
+  numeric_answer: number | null;
+  numeric_tolerance: number | null;
+  numeric_min: number | null;
+  numeric_max: number | null;
+  answer_unit: string | null;
+  accepted_answers: string[] | null;
+  case_sensitive: boolean;
+}
+
+export const emptyTypedAnswer = (): TypedAnswer => ({
+  numeric_answer: null,
+  numeric_tolerance: null,
+  numeric_min: null,
+  numeric_max: null,
+  answer_unit: null,
+  accepted_answers: null,
+  case_sensitive: false,
+});
+
+// Shown to students once the question has been graded
+export interface QuestionExplanation {
+  explanation: string | null;
+  reference_title: string | null;
+  reference_url: string | null;
+}
+
+export const emptyQuestionExplanation = (): QuestionExplanation => ({
+  explanation: null,
+  reference_title: null,
+  reference_url: null,
+});
+
+export const emptyQuestionImages = () => ({
+  question_image: null as string | null,
+  option_a_image: null as string | null,
+  option_b_image: null as string | null,
+  option_c_image: null as string | null,
+  option_d_image: null as string | null,
+  option_e_image: null as string | null,
+  option_f_image: null as string | null,
+});
+
+// A new question starts as a four-option, single-answer question
+export const emptyQuestionOptions = () => ({
+  option_a: "" as string | null,
+  option_b: "" as string | null,
+  option_c: "" as string | null,
+  option_d: "" as string | null,
+  option_e: null as string | null,
+  option_f: null as string | null,
+  ...emptyQuestionImages(),
+  correct_answer: "A" as string | null,
+  question_type: "single" as QuestionType,
+  scoring_mode: "all_or_nothing" as ScoringMode,
+  ...emptyTypedAnswer(),
+  ...emptyQuestionExplanation(),
+  ...emptyQuestionTopic(),
+  difficulty: null as Difficulty | null,
+});
+
+export const optionField = (letter: string) => `option_${letter.toLowerCase()}` as keyof QuestionOptions;
+
+export const optionImageField = (letter: string) => `option_${letter.toLowerCase()}_image` as keyof QuestionOptions;
+
+export const getOptions = (question: QuestionOptions) =>
+  OPTION_LETTERS.map((key) => ({ key, text: question[optionField(key)], image: question[optionImageField(key)] ?? null })).filter(
+    (option): option is { key: string; text: string; image: string | null } => option.text != null
+  );
+
+export const hasBlankOption = (question: QuestionOptions) => getOptions(question).some((option) => !option.text.trim());
+
+export const trimOptions = (question: QuestionOptions) => ({
+  option_a: question.option_a?.trim() ?? null,
+  option_b: question.option_b?.trim() ?? null,
+  option_c: question.option_c?.trim() ?? null,
+  option_d: question.option_d?.trim() ?? null,
+  option_e: question.option_e?.trim() ?? null,
+  option_f: question.option_f?.trim() ?? null,
+});
+
+// Multiple-response answers are stored as their letters in order, e.g. "ACD"
+// A typed answer of only spaces is still unanswered
+export const hasAnswer = (answer: string | null | undefined) => !!answer?.trim();
+
+export const countAnswered = (answers: Record<string, string>) => Object.values(answers).filter(hasAnswer).length;
+
+export const answerLetters = (value: string | null | undefined) => (value || "").split("").filter(Boolean);
+
+export const toAnswer = (letters: string[]) => [...new Set(letters)].sort().join("");
+
+export const toggleAnswerLetter = (value: string | null | undefined, letter: string) => {
+  const letters = answerLetters(value);
+  return toAnswer(letters.includes(letter) ? letters.filter((l) => l !== letter) : [...letters, letter]);
+};
+
+// Removing an option moves the later ones up a letter, so the correct
+// answer is re-lettered to match
+export const removeOption = <T extends QuestionOptions & { correct_answer: string | null }>(question: T, letter: string): T => {
+  const options = getOptions(question);
+  const index = OPTION_LETTERS.indexOf(letter);
+  options.splice(index, 1);
+
+  const correct = answerLetters(question.correct_answer)
+    .filter((l) => l !== letter)
+    .map((l) => (OPTION_LETTERS.indexOf(l) > index ? OPTION_LETTERS[OPTION_LETTERS.indexOf(l) - 1] : l));
+
+  return {
+    ...question,
+    ...Object.fromEntries(OPTION_LETTERS.map((l, i) => [optionField(l), options[i]?.text ?? null])),
+    ...Object.fromEntries(OPTION_LETTERS.map((l, i) => [optionImageField(l), options[i]?.image ?? null])),
+    correct_answer: toAnswer(correct),
+  };
+};
+
+export const addOption = <T extends QuestionOptions>(question: T): T => {
+  const next = OPTION_LETTERS[getOptions(question).length];
+  return next ? { ...question, [optionField(next)]: "" } : question;
+};
+
+const cleanAcceptedAnswers = (answers: string[] | null | undefined) => {
+  const cleaned = (answers || []).map((a) => a.trim()).filter(Boolean);
+  return cleaned.length ? cleaned : null;
+};
+
+export const questionImageFields = (question: QuestionOptions) => ({
+  question_image: question.question_image ?? null,
+  option_a_image: question.option_a_image ?? null,
+  option_b_image: question.option_b_image ?? null,
+  option_c_image: question.option_c_image ?? null,
+  option_d_image: question.option_d_image ?? null,
+  option_e_image: question.option_e_image ?? null,
+  option_f_image: question.option_f_image ?? null,
+});
+
+// The options, images, answer key, explanation, topic and difficulty of a question row, for copying or saving it
+export const questionAnswerFields = (
+  question: QuestionOptions &
+    Partial<TypedAnswer> &
+    Partial<QuestionExplanation> &
+    Partial<QuestionTopic> & { correct_answer: string | null; question_type: string; scoring_mode: string; difficulty?: string | null }
+) => ({
+  option_a: question.option_a,
+  option_b: question.option_b,
+  option_c: question.option_c ?? null,
+  option_d: question.option_d ?? null,
+  option_e: question.option_e ?? null,
+  option_f: question.option_f ?? null,
+  ...questionImageFields(question),
+  correct_answer: question.correct_answer,
+  question_type: question.question_type as QuestionType,
+  scoring_mode: question.scoring_mode as ScoringMode,
+  numeric_answer: question.numeric_answer ?? null,
+  numeric_tolerance: question.numeric_tolerance ?? null,
+  numeric_min: question.numeric_min ?? null,
+  numeric_max: question.numeric_max ?? null,
+  answer_unit: question.answer_unit?.trim() || null,
+  accepted_answers: cleanAcceptedAnswers(question.accepted_answers),
+  case_sensitive: !!question.case_sensitive,
+  explanation: question.explanation?.trim() || null,
+  reference_title: question.reference_title?.trim() || null,
+  reference_url: question.reference_url?.trim() || null,
+  topic_id: question.topic_id ?? null,
+  tags: cleanTags(question.tags),
+  difficulty: (question.difficulty as Difficulty | null | undefined) || null,
+});
+
+// Columns to select alongside question_text for questionAnswerFields
+export const QUESTION_ANSWER_COLUMNS =
+  "option_a, option_b, option_c, option_d, option_e, option_f, question_image, option_a_image, option_b_image, option_c_image, option_d_image, option_e_image, option_f_image, correct_answer, question_type, scoring_mode, numeric_answer, numeric_tolerance, numeric_min, numeric_max, answer_unit, accepted_answers, case_sensitive, explanation, reference_title, reference_url, topic_id, tags, difficulty";
+
+const isValidReferenceUrl = (url: string | null | undefined) => !url?.trim() || /^https?:\/\/\S+$/i.test(url.trim());
+
+// Returns a message when the question's answer key is incomplete or its
+// reference link is malformed, null when it is fine
+export const answerKeyError = (
+  question: Partial<TypedAnswer> & Partial<QuestionExplanation> & { question_type: string; correct_answer: string | null }
+) => {
+  if (!isValidReferenceUrl(question.reference_url)) return "Reference links must start with http:// or https://";
+  if (question.question_type === "numeric") {
+    const hasRange = question.numeric_min != null && question.numeric_max != null;
+    if (question.numeric_answer == null && !hasRange) return "Enter the correct value or a range for each numeric question";
+    if (hasRange && question.numeric_min! > question.numeric_max!) return "The lowest accepted value cannot be above the highest";
+    return null;
+  }
+  if (question.question_type === "short_text") {
+    if (!(question.accepted_answers || []).some((a) => a.trim())) return "Add at least one accepted answer for each short-text question";
+    return null;
+  }
+  if (answerLetters(question.correct_answer).length === 0) return "Tick at least one correct answer for each question";
+  return null;
+};
+
+// How the accepted answer of a typed question reads, e.g. "5 ± 0.1 mg" or "4.5 to 5.5 mg"
+export const describeTypedAnswer = (question: Partial<TypedAnswer> & { question_type: string }) => {
+  if (question.question_type === "short_text") return (question.accepted_answers || []).join(" / ");
+
+  const unit = question.answer_unit ? ` ${question.answer_unit}` : "";
+  if (question.numeric_answer != null) {
+    return question.numeric_tolerance
+      ? `${question.numeric_answer} ± ${question.numeric_tolerance}${unit}`
+      : `${question.numeric_answer}${unit}`;
+  }
+  return `${question.numeric_min} to ${question.numeric_max}${unit}`;
+};
+
+// Fraction of the question's marks earned, graded by the same code as the
+// submit and regrade edge functions
+export const gradeAnswer = (
+  selected: string | null | undefined,
+  correct: string,
+  questionType: string | null | undefined,
+  scoringMode: string | null | undefined
+) => gradeWithKey(selected, { correct_answer: correct, question_type: questionType || "single", scoring_mode: scoringMode || null });
@@ -0,0 +1,139 @@
+import { supabase } from "@/integrations/supabase/client";
+import { OPTION_LETTERS, QUESTION_TYPE_LABELS, QuestionType, SCORING_MODE_LABELS, ScoringMode, optionField, optionImageField, questionAnswerFields } from "@/lib/questionTypes";
+import { DIFFICULTY_LABELS, Difficulty } from "@/lib/difficulty";
+import { Topic, topicPath } from "@/lib/topics";
+
+// Assessment questions live in `questions`, bank ones in `question_bank`;
+// the database records a version of either on every save
+export type VersionSource = "assessment" | "bank";
+
+export interface QuestionVersion {
+  id: string;
+  version: number;
+  content: Record<string, unknown>;
+  edited_at: string;
+  editor: string | null;
+}
+
+export const fetchQuestionVersions = async (source: VersionSource, questionId: string) => {
+  const { data, error } = await supabase
+    .from("question_versions")
+    .select("id, version, content, edited_at, profiles:edited_by(full_name)")
+    .eq("source", source)
+    .eq("question_id", questionId)
+    .order("version", { ascending: false });
+  if (error) throw error;
+  return (data || []).map((v) => ({
+    id: v.id,
+    version: v.version,
+    content: (v.content || {}) as Record<string, unknown>,
+    edited_at: v.edited_at,
+    editor: v.profiles?.full_name ?? null,
+  })) as QuestionVersion[];
+};
+
+// The fields shown when comparing versions, in the order of the editor
+const VERSION_FIELDS: { key: string; label: string; text?: boolean }[] = [
+  { key: "question_text", label: "Question", text: true },
+  { key: "question_image", label: "Question image" },
+  { key: "question_type", label: "Type" },
+  ...OPTION_LETTERS.flatMap((l) => [
+    { key: optionField(l), label: `Option ${l}`, text: true },
+    { key: optionImageField(l), label: `Option ${l} image` },
+  ]),
+  { key: "correct_answer", label: "Correct answer" },
+  { key: "scoring_mode", label: "Scoring" },
+  { key: "numeric_answer", label: "Correct value" },
+  { key: "numeric_tolerance", label: "Tolerance" },
+  { key: "numeric_min", label: "Lowest accepted" },
+  { key: "numeric_max", label: "Highest accepted" },
+  { key: "answer_unit", label: "Unit" },
+  { key: "accepted_answers", label: "Accepted answers" },
+  { key: "case_sensitive", label: "Case sensitive" },
+  { key: "explanation", label: "Explanation", text: true },
+  { key: "reference_title", label: "Reference" },
+  { key: "reference_url", label: "Reference link" },
+  { key: "topic_id", label: "Topic" },
+  { key: "tags", label: "Tags" },
+  { key: "difficulty", label: "Difficulty" },
+];
+
+// A field's value as read in the history, e.g. "Partial credit" or "Knee → ACL"
+const displayValue = (key: string, value: unknown, topics: Topic[]) => {
+  if (value == null || value === "" || (Array.isArray(value) && value.length === 0)) return "";
+  if (key === "question_type") return QUESTION_TYPE_LABELS[value as QuestionType] ?? String(value);
+  if (key === "scoring_mode") return SCORING_MODE_LABELS[value as ScoringMode] ?? String(value);
+  if (key === "difficulty") return DIFFICULTY_LABELS[value as Difficulty] ?? String(value);
+  if (key === "topic_id") return topicPath(topics, value as string) || "A deleted topic";
+  if (key === "case_sensitive") return value ? "Yes" : "No";
+  if (key.endsWith("_image")) return "Image attached";
+  if (Array.isArray(value)) return value.join(", ");
+  return String(value);
+};
+
+export interface VersionChange {
+  label: string;
+  before: string;
+  after: string;
+  // Long text fields are shown as a word-by-word diff
+  text: boolean;
+}
+
+// What differs between two versions, field by field
+export const versionChanges = (before: Record<string, unknown>, after: Record<string, unknown>, topics: Topic[]) =>
+  VERSION_FIELDS.flatMap(({ key, label, text }) => {
+    const changed = JSON.stringify(before[key] ?? null) !== JSON.stringify(after[key] ?? null);
+    if (!changed) return [];
+    const change: VersionChange = {
+      label,
+      before: displayValue(key, before[key], topics),
+      after: displayValue(key, after[key], topics),
+      text: !!text,
+    };
+    if (change.before !== change.after) return [change];
+    // Images are compared by path but all read "Image attached"
+    return key.endsWith("_image") ? [{ ...change, after: "Replaced image" }] : [];
+  });
+
+export interface DiffPart {
+  text: string;
+  kind: "same" | "added" | "removed";
+}
+
+// Word-level diff by longest common subsequence; whitespace stays attached
+// to the words so the parts join back into either text
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = before.split(/(?<=\s)/);
+  const b = after.split(/(?<=\s)/);
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (text: string, kind: DiffPart["kind"]) => {
+    const last = parts[parts.length - 1];
+    if (last?.kind === kind) last.text += text;
+    else parts.push({ text, kind });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) { push(a[i], "same"); i++; j++; }
+    else if (lcs[i + 1][j] >= lcs[i][j + 1]) { push(a[i], "removed"); i++; }
+    else { push(b[j], "added"); j++; }
+  }
+  a.slice(i).forEach((word) => push(word, "removed"));
+  b.slice(j).forEach((word) => push(word, "added"));
+  return parts;
+};
+
+type VersionContent = Parameters<typeof questionAnswerFields>[0] & { question_text: string };
+
+// The editable fields of a version, for writing it back to the question
+export const versionRestoreFields = (content: Record<string, unknown>) => {
+  const question = content as unknown as VersionContent;
+  return { question_text: question.question_text, ...questionAnswerFields(question) };
+};
@@ -0,0 +1,544 @@
+import { OPTION_LETTERS, QUESTION_TYPE_LABELS, QuestionType, TRUE_FALSE_OPTIONS, answerLetters, getOptions, questionAnswerFields } from "@/lib/questionTypes";
+import type { RawQuestionRow } from "@/lib/questionImport";
+
+// Interchange formats used by Moodle and other quiz tools. Imports come
+// out as spreadsheet-style rows so they go through the same checks,
+// preview and duplicate detection as a CSV import.
+export type QuizFormat = "aiken" | "gift" | "moodle_xml";
+
+export const QUIZ_FORMATS: QuizFormat[] = ["aiken", "gift", "moodle_xml"];
+
+export const QUIZ_FORMAT_LABELS: Record<QuizFormat, string> = {
+  aiken: "Aiken (.txt)",
+  gift: "GIFT (.gift)",
+  moodle_xml: "Moodle XML (.xml)",
+};
+
+const FILE_TYPES: Record<QuizFormat, { extension: string; mimeType: string }> = {
+  aiken: { extension: "txt", mimeType: "text/plain" },
+  gift: { extension: "gift", mimeType: "text/plain" },
+  moodle_xml: { extension: "xml", mimeType: "application/xml" },
+};
+
+// .txt files may be Aiken or GIFT; Aiken ones have ANSWER: lines
+export const detectQuizFormat = (fileName: string, text: string): QuizFormat | null => {
+  if (/\.xml$/i.test(fileName)) return "moodle_xml";
+  if (/\.gift$/i.test(fileName)) return "gift";
+  if (/\.txt$/i.test(fileName)) return /^\s*ANSWER:\s*[A-Z]\s*$/im.test(text) ? "aiken" : "gift";
+  return null;
+};
+
+// Collects what a file or format couldn't hold, as one message per kind of
+// construct listing the questions it affected, e.g. "… (questions 2, 5)"
+const createReport = () => {
+  const found = new Map<string, number[]>();
+  return {
+    note: (construct: string, questionNumber: number) => {
+      const numbers = found.get(construct) || [];
+      if (!numbers.includes(questionNumber)) numbers.push(questionNumber);
+      found.set(construct, numbers);
+    },
+    messages: () =>
+      [...found].map(([construct, numbers]) => `${construct} (question${numbers.length > 1 ? "s" : ""} ${numbers.join(", ")})`),
+  };
+};
+
+type Report = ReturnType<typeof createReport>;
+
+export type ExportableQuestion = Parameters<typeof questionAnswerFields>[0] & { question_text: string };
+
+type Question = ReturnType<typeof questionAnswerFields> & { question_text: string };
+
+// What each format can't hold, beyond question types it skips
+interface FormatLimits {
+  name: string;
+  explanation: boolean;
+  tags: boolean;
+  unit: boolean;
+  caseSensitive: boolean;
+}
+
+const noteUnsupported = (q: Question, n: number, report: Report, limits: FormatLimits) => {
+  const images = [q.question_image, q.option_a_image, q.option_b_image, q.option_c_image, q.option_d_image, q.option_e_image, q.option_f_image];
+  if (images.some(Boolean)) report.note(`Images can't be exported to ${limits.name} and were left out`, n);
+  if (q.reference_title || q.reference_url) report.note(`References can't be exported to ${limits.name} and were left out`, n);
+  if (q.difficulty) report.note(`Difficulty ratings can't be exported to ${limits.name} and were left out`, n);
+  if (!limits.explanation && q.explanation) report.note(`Explanations can't be exported to ${limits.name} and were left out`, n);
+  if (!limits.tags && q.tags.length > 0) report.note(`Tags can't be exported to ${limits.name} and were left out`, n);
+  if (!limits.unit && q.answer_unit) report.note(`Answer units can't be exported to ${limits.name} and were left out`, n);
+  if (!limits.caseSensitive && q.case_sensitive) report.note(`Case-sensitive matching can't be exported to ${limits.name}; answers will match in any case`, n);
+};
+
+// A true/false question whose options are still the stock True and False
+const isPlainTrueFalse = (q: Question) =>
+  q.question_type === "true_false" && q.option_a === TRUE_FALSE_OPTIONS[0] && q.option_b === TRUE_FALSE_OPTIONS[1];
+
+// Numeric ranges become a value and tolerance for formats without ranges
+const numericTarget = (q: Question) =>
+  q.numeric_answer != null
+    ? { value: q.numeric_answer, tolerance: q.numeric_tolerance ?? 0 }
+    : { value: (q.numeric_min! + q.numeric_max!) / 2, tolerance: (q.numeric_max! - q.numeric_min!) / 2 };
+
+// Moodle accepts fractions to five decimal places, e.g. 33.33333
+const formatFraction = (value: number) => String(Number(value.toFixed(5)));
+
+// Aiken holds single-answer questions on one line each, with no extras
+const toAiken = (questions: Question[], report: Report) =>
+  questions
+    .map((q, i) => {
+      const n = i + 1;
+      if (q.question_type !== "single" && q.question_type !== "true_false") {
+        report.note(`${QUESTION_TYPE_LABELS[q.question_type]} questions can't be written as Aiken and were skipped`, n);
+        return null;
+      }
+      noteUnsupported(q, n, report, { name: "Aiken", explanation: false, tags: false, unit: false, caseSensitive: false });
+      const oneLine = (text: string) => {
+        if (/\n/.test(text)) report.note("Aiken has no line breaks, so multi-line text was joined into one line", n);
+        return text.replace(/\s*\n\s*/g, " ").trim();
+      };
+      return [
+        oneLine(q.question_text),
+        ...getOptions(q).map((o) => `${o.key}. ${oneLine(o.text)}`),
+        `ANSWER: ${q.correct_answer}`,
+      ].join("\n");
+    })
+    .filter(Boolean)
+    .join("\n\n");
+
+const escapeGift = (text: string) => text.replace(/[~=#{}:\\]/g, "\\$&").replace(/\r?\n/g, "\\n");
+
+const unescapeGift = (text: string) => text.replace(/\\(n|[~=#{}:\\])/g, (_, c: string) => (c === "n" ? "\n" : c));
+
+const toGift = (questions: Question[], report: Report) =>
+  questions
+    .map((q, i) => {
+      noteUnsupported(q, i + 1, report, { name: "GIFT", explanation: true, tags: true, unit: false, caseSensitive: false });
+      const answers: string[] = [];
+      if (isPlainTrueFalse(q)) {
+        answers.push(q.correct_answer === "A" ? "TRUE" : "FALSE");
+      } else if (q.question_type === "numeric") {
+        answers.push(
+          q.numeric_answer != null
+            ? `#${q.numeric_answer}${q.numeric_tolerance ? `:${q.numeric_tolerance}` : ""}`
+            : `#${q.numeric_min}..${q.numeric_max}`
+        );
+      } else if (q.question_type === "short_text") {
+        answers.push(...(q.accepted_answers || []).map((a) => `=${escapeGift(a)}`));
+      } else if (q.question_type === "multiple") {
+        // Each correct option is worth an equal share; a wrong pick costs a
+        // share under partial credit and everything under all-or-nothing
+        const correct = answerLetters(q.correct_answer);
+        const right = formatFraction(100 / correct.length);
+        const wrong = q.scoring_mode === "partial" ? `-${right}` : "-100";
+        answers.push(...getOptions(q).map((o) => `~%${correct.includes(o.key) ? right : wrong}%${escapeGift(o.text)}`));
+      } else {
+        answers.push(...getOptions(q).map((o) => `${o.key === q.correct_answer ? "=" : "~"}${escapeGift(o.text)}`));
+      }
+      if (q.explanation) answers.push(`####${escapeGift(q.explanation)}`);
+      const tags = q.tags.length > 0 ? `// ${q.tags.map((t) => `[tag:${t}]`).join(" ")}\n` : "";
+      return `${tags}[markdown]${escapeGift(q.question_text)} {\n${answers.map((a) => `\t${a}`).join("\n")}\n}`;
+    })
+    .join("\n\n");
+
+const cdata = (text: string) => `<![CDATA[${text.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+
+const xmlText = (text: string) => `<text>${cdata(text)}</text>`;
+
+const toMoodleXml = (questions: Question[], report: Report) => {
+  const body = questions.map((q, i) => {
+    noteUnsupported(q, i + 1, report, { name: "Moodle XML", explanation: true, tags: true, unit: true, caseSensitive: true });
+    const answer = (fraction: number | string, text: string, extra = "") =>
+      `    <answer fraction="${fraction}" format="markdown">${xmlText(text)}${extra}</answer>`;
+
+    let type: string;
+    const lines: string[] = [];
+    if (isPlainTrueFalse(q)) {
+      type = "truefalse";
+      lines.push(answer(q.correct_answer === "A" ? 100 : 0, "true"), answer(q.correct_answer === "B" ? 100 : 0, "false"));
+    } else if (q.question_type === "numeric") {
+      type = "numerical";
+      const { value, tolerance } = numericTarget(q);
+      lines.push(answer(100, String(value), `<tolerance>${tolerance}</tolerance>`));
+      if (q.answer_unit) lines.push(`    <units><unit><multiplier>1</multiplier><unit_name>${cdata(q.answer_unit)}</unit_name></unit></units>`);
+    } else if (q.question_type === "short_text") {
+      type = "shortanswer";
+      lines.push(`    <usecase>${q.case_sensitive ? 1 : 0}</usecase>`);
+      lines.push(...(q.accepted_answers || []).map((a) => answer(100, a)));
+    } else {
+      type = "multichoice";
+      const correct = answerLetters(q.correct_answer);
+      const multiple = q.question_type === "multiple";
+      const right = multiple ? formatFraction(100 / correct.length) : "100";
+      const wrong = !multiple ? "0" : q.scoring_mode === "partial" ? `-${right}` : "-100";
+      lines.push(`    <single>${multiple ? "false" : "true"}</single>`, "    <shuffleanswers>true</shuffleanswers>", "    <answernumbering>ABCD</answernumbering>");
+      lines.push(...getOptions(q).map((o) => answer(correct.includes(o.key) ? right : wrong, o.text)));
+    }
+
+    return [
+      `  <question type="${type}">`,
+      `    <name>${xmlText(q.question_text.replace(/\s+/g, " ").trim().slice(0, 60))}</name>`,
+      `    <questiontext format="markdown">${xmlText(q.question_text)}</questiontext>`,
+      `    <generalfeedback format="markdown">${xmlText(q.explanation || "")}</generalfeedback>`,
+      "    <defaultgrade>1</defaultgrade>",
+      ...lines,
+      ...(q.tags.length > 0 ? [`    <tags>${q.tags.map((t) => `<tag>${xmlText(t)}</tag>`).join("")}</tags>`] : []),
+      "  </question>",
+    ].join("\n");
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<quiz>\n${body.join("\n")}\n</quiz>\n`;
+};
+
+// Writes the questions in the format; warnings list what was left out
+export const exportQuestions = (questions: ExportableQuestion[], format: QuizFormat) => {
+  const report = createReport();
+  const normalised = questions.map((q) => ({ question_text: q.question_text, ...questionAnswerFields(q) }));
+  const content =
+    format === "aiken" ? toAiken(normalised, report) : format === "gift" ? toGift(normalised, report) : toMoodleXml(normalised, report);
+  return { content, warnings: report.messages() };
+};
+
+export const downloadQuizFile = (content: string, format: QuizFormat, baseName: string) => {
+  const { extension, mimeType } = FILE_TYPES[format];
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${baseName.replace(/[^\w-]+/g, "-").replace(/^-+|-+$/g, "") || "questions"}.${extension}`;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+interface ParsedQuestion {
+  // Position in the file, counting items that were skipped
+  number: number;
+  question: string;
+  type: QuestionType;
+  options?: string[];
+  // Correct option letters for choice questions, the value, "min to max"
+  // or "|"-separated accepted answers for typed ones
+  answer: string;
+  tolerance?: number;
+  unit?: string;
+  caseSensitive?: boolean;
+  partial?: boolean;
+  tags?: string[];
+  explanation?: string;
+}
+
+const toRawRow = (q: ParsedQuestion): RawQuestionRow => ({
+  question: q.question,
+  type: q.type,
+  ...Object.fromEntries(OPTION_LETTERS.map((l, i) => [`option_${l.toLowerCase()}`, q.options?.[i] ?? ""])),
+  correct_answer: q.answer,
+  tolerance: q.tolerance != null ? String(q.tolerance) : "",
+  unit: q.unit || "",
+  case_sensitive: q.caseSensitive ? "yes" : "",
+  scoring: q.partial ? "partial" : "",
+  tags: (q.tags || []).join(";"),
+  explanation: q.explanation || "",
+});
+
+// Too many options to fit, or too few to be a question
+const optionCountError = (options: string[]) =>
+  options.length > OPTION_LETTERS.length
+    ? `Questions with more than ${OPTION_LETTERS.length} options were skipped`
+    : options.length < 2
+      ? "Choice questions with fewer than 2 options were skipped"
+      : null;
+
+const isTrueFalsePair = (options: string[]) =>
+  options.length === 2 && options.every((o, i) => o.toLowerCase() === TRUE_FALSE_OPTIONS[i].toLowerCase());
+
+const parseAiken = (text: string, report: Report) => {
+  const questions: ParsedQuestion[] = [];
+  let stem: string[] = [];
+  let options: string[] = [];
+  let n = 1;
+
+  text.split(/\r?\n/).forEach((line) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+    const answer = trimmed.match(/^ANSWER:\s*([A-Z])\s*$/i);
+    const option = trimmed.match(/^([A-Z])[.)]\s+(.*)$/);
+    if (answer) {
+      const error = optionCountError(options);
+      if (stem.length === 0) report.note("ANSWER lines without a question were ignored", n);
+      else if (error) report.note(error, n);
+      else {
+        const trueFalse = isTrueFalsePair(options);
+        questions.push({
+          number: n,
+          question: stem.join("\n"),
+          type: trueFalse ? "true_false" : "single",
+          options: trueFalse ? [...TRUE_FALSE_OPTIONS] : options,
+          answer: answer[1].toUpperCase(),
+        });
+      }
+      stem = [];
+      options = [];
+      n++;
+    } else if (option && stem.length > 0) {
+      options.push(option[2].trim());
+    } else if (options.length > 0) {
+      report.note("Text after the options of a question was ignored", n);
+    } else {
+      stem.push(trimmed);
+    }
+  });
+  if (stem.length > 0) report.note("The last question has no ANSWER line and was skipped", n);
+  return questions;
+};
+
+// Position of the first `token` not escaped with a backslash, or -1
+const indexOfUnescaped = (text: string, token: string, from = 0) => {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === "\\") { i++; continue; }
+    if (text.startsWith(token, i)) return i;
+  }
+  return -1;
+};
+
+// Splits "=a ~%50%b#feedback" into its answers, each with its weight and text
+const splitGiftAnswers = (body: string) => {
+  const answers: { prefix: string; text: string }[] = [];
+  let current: { prefix: string; text: string } | null = null;
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (ch === "\\") { if (current) current.text += body.slice(i, i + 2); i++; continue; }
+    if (ch === "=" || ch === "~") { current = { prefix: ch, text: "" }; answers.push(current); continue; }
+    if (current) current.text += ch;
+  }
+  return answers.map(({ prefix, text }) => {
+    const weight = text.trim().match(/^%(-?[\d.]+)%/);
+    const rest = weight ? text.trim().slice(weight[0].length) : text.trim();
+    const feedbackAt = indexOfUnescaped(rest, "#");
+    return {
+      prefix,
+      weight: weight ? Number(weight[1]) : prefix === "=" ? 100 : 0,
+      text: unescapeGift(feedbackAt >= 0 ? rest.slice(0, feedbackAt) : rest).trim(),
+      raw: rest,
+      hasFeedback: feedbackAt >= 0 && !!rest.slice(feedbackAt + 1).trim(),
+    };
+  });
+};
+
+// Value, "value:tolerance" or "min..max"
+const parseGiftNumber = (value: string) => {
+  const range = value.match(/^(-?[\d.]+)\.\.(-?[\d.]+)$/);
+  if (range) return { answer: `${range[1]} to ${range[2]}` };
+  const [answer, tolerance] = value.split(":");
+  return { answer: answer.trim(), tolerance: tolerance != null ? Number(tolerance) : undefined };
+};
+
+// Moodle text may be HTML; questions here are Markdown, so keep the text
+const htmlToText = (html: string, report: Report, n: number) => {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  if (doc.querySelector("img")) report.note("Embedded images were left out", n);
+  doc.querySelectorAll("br").forEach((br) => br.replaceWith("\n"));
+  doc.querySelectorAll("p, div, li").forEach((block) => block.append("\n\n"));
+  return (doc.body.textContent || "").replace(/\n{3,}/g, "\n\n").trim();
+};
+
+const stripGiftFormat = (text: string, report: Report, n: number) => {
+  const format = text.match(/^\s*\[(markdown|html|plain|moodle)\]/i);
+  const rest = format ? text.slice(format[0].length) : text;
+  return format?.[1].toLowerCase() === "html" ? htmlToText(rest, report, n) : rest;
+};
+
+const parseGiftQuestion = (block: string, tags: string[], report: Report, n: number): ParsedQuestion | null => {
+  let text = block.trim();
+  if (text.startsWith("::")) {
+    const titleEnd = indexOfUnescaped(text, "::", 2);
+    if (titleEnd >= 0) text = text.slice(titleEnd + 2);
+  }
+  const open = indexOfUnescaped(text, "{");
+  const close = open >= 0 ? indexOfUnescaped(text, "}", open) : -1;
+  if (open < 0 || close < 0) {
+    report.note("Description items with no answers were skipped", n);
+    return null;
+  }
+  if (text.slice(close + 1).trim()) {
+    report.note("Missing-word questions (answers inside the sentence) are not supported and were skipped", n);
+    return null;
+  }
+
+  const question = unescapeGift(stripGiftFormat(text.slice(0, open), report, n)).trim();
+  let body = text.slice(open + 1, close);
+  let explanation: string | undefined;
+  const generalAt = indexOfUnescaped(body, "####");
+  if (generalAt >= 0) {
+    explanation = unescapeGift(body.slice(generalAt + 4)).trim() || undefined;
+    body = body.slice(0, generalAt);
+  }
+  body = body.trim();
+  const base = { number: n, question, tags, explanation };
+
+  if (!body) {
+    report.note("Essay questions are not supported and were skipped", n);
+    return null;
+  }
+
+  const trueFalse = body.match(/^(T|TRUE|F|FALSE)(#.*)?$/is);
+  if (trueFalse) {
+    if (trueFalse[2]?.replace(/#/g, "").trim()) report.note("Per-answer feedback was left out", n);
+    return { ...base, type: "true_false", options: [...TRUE_FALSE_OPTIONS], answer: trueFalse[1].toUpperCase().startsWith("T") ? "A" : "B" };
+  }
+
+  if (body.startsWith("#")) {
+    const numeric = body.slice(1).trim();
+    if (!numeric.startsWith("=")) {
+      const feedbackAt = indexOfUnescaped(numeric, "#");
+      if (feedbackAt >= 0) report.note("Per-answer feedback was left out", n);
+      return { ...base, type: "numeric", ...parseGiftNumber(feedbackAt >= 0 ? numeric.slice(0, feedbackAt) : numeric) };
+    }
+    const answers = splitGiftAnswers(numeric);
+    const full = answers.find((a) => a.weight >= 100) || answers[0];
+    if (answers.length > 1) report.note("Extra numeric answers worth partial credit were left out", n);
+    if (answers.some((a) => a.hasFeedback)) report.note("Per-answer feedback was left out", n);
+    return { ...base, type: "numeric", ...parseGiftNumber(full.text) };
+  }
+
+  const answers = splitGiftAnswers(body);
+  if (answers.some((a) => indexOfUnescaped(a.raw, "->") >= 0)) {
+    report.note("Matching questions are not supported and were skipped", n);
+    return null;
+  }
+  if (answers.some((a) => a.hasFeedback)) report.note("Per-answer feedback was left out", n);
+
+  if (answers.every((a) => a.prefix === "=")) {
+    if (answers.some((a) => a.weight < 100)) report.note("Short answers worth partial credit were left out", n);
+    return { ...base, type: "short_text", answer: answers.filter((a) => a.weight >= 100).map((a) => a.text).join("|") };
+  }
+
+  const options = answers.map((a) => a.text);
+  const error = optionCountError(options);
+  if (error) {
+    report.note(error, n);
+    return null;
+  }
+  // "=" marks the one right answer; multiple-answer questions weight
+  // every option with "~%50%" and the like instead
+  if (answers.some((a) => a.prefix === "=")) {
+    if (answers.some((a) => a.weight > 0 && a.weight < 100)) report.note("Options worth partial credit were counted as wrong", n);
+    const correct = answers.map((a, i) => (a.weight >= 100 ? OPTION_LETTERS[i] : null)).filter(Boolean).join("");
+    return { ...base, type: isTrueFalsePair(options) ? "true_false" : "single", options, answer: correct };
+  }
+  const correct = answers.map((a, i) => (a.weight > 0 ? OPTION_LETTERS[i] : null)).filter(Boolean).join("");
+  // A wrong pick costing less than everything means partial credit
+  return { ...base, type: "multiple", options, answer: correct, partial: answers.every((a) => a.weight > -100) };
+};
+
+const parseGift = (text: string, report: Report) => {
+  const questions: ParsedQuestion[] = [];
+  let n = 0;
+  text
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n\s*\r?\n/)
+    .forEach((chunk) => {
+      const lines = chunk.split(/\r?\n/);
+      const tags = lines
+        .filter((line) => line.trim().startsWith("//"))
+        .flatMap((line) => [...line.matchAll(/\[tag:([^\]]+)\]/g)].map((m) => m[1].trim()));
+      const content = lines.filter((line) => !line.trim().startsWith("//")).join("\n").trim();
+      if (!content || content.startsWith("$CATEGORY:")) return;
+      n++;
+      const question = parseGiftQuestion(content, tags, report, n);
+      if (question) questions.push(question);
+    });
+  return questions;
+};
+
+const childElement = (parent: Element, name: string) => Array.from(parent.children).find((el) => el.tagName === name);
+
+const childElements = (parent: Element, name: string) => Array.from(parent.children).filter((el) => el.tagName === name);
+
+// The <text> of an element, turned from HTML when that is its format
+const xmlContent = (el: Element | undefined, report: Report, n: number) => {
+  if (!el) return "";
+  const text = childElement(el, "text")?.textContent ?? "";
+  if (childElements(el, "file").length > 0) report.note("Embedded images were left out", n);
+  return el.getAttribute("format") === "html" ? htmlToText(text, report, n) : text.trim();
+};
+
+const MOODLE_TYPES = ["multichoice", "truefalse", "shortanswer", "numerical"];
+
+const parseMoodleXml = (text: string, report: Report) => {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.querySelector("parsererror")) throw new Error("The file is not valid XML");
+  if (doc.documentElement.tagName !== "quiz") throw new Error("The file is not a Moodle XML quiz");
+
+  const questions: ParsedQuestion[] = [];
+  let n = 0;
+  childElements(doc.documentElement, "question").forEach((el) => {
+    const type = el.getAttribute("type") || "";
+    if (type === "category") return;
+    n++;
+    if (!MOODLE_TYPES.includes(type)) {
+      report.note(`"${type}" questions are not supported and were skipped`, n);
+      return;
+    }
+
+    const answers = childElements(el, "answer").map((a) => ({
+      fraction: Number(a.getAttribute("fraction") || 0),
+      text: xmlContent(a, report, n),
+      tolerance: childElement(a, "tolerance")?.textContent?.trim(),
+      hasFeedback: !!childElement(a, "feedback")?.textContent?.trim(),
+    }));
+    if (answers.some((a) => a.hasFeedback)) report.note("Per-answer feedback was left out", n);
+    const tagsEl = childElement(el, "tags");
+    const base = {
+      number: n,
+      question: xmlContent(childElement(el, "questiontext"), report, n),
+      tags: tagsEl ? childElements(tagsEl, "tag").map((t) => childElement(t, "text")?.textContent?.trim() || "") : [],
+      explanation: xmlContent(childElement(el, "generalfeedback"), report, n) || undefined,
+    };
+
+    if (type === "truefalse") {
+      const correct = answers.find((a) => a.fraction >= 100);
+      questions.push({ ...base, type: "true_false", options: [...TRUE_FALSE_OPTIONS], answer: correct?.text.toLowerCase() === "false" ? "B" : "A" });
+    } else if (type === "shortanswer") {
+      if (answers.some((a) => a.fraction > 0 && a.fraction < 100)) report.note("Short answers worth partial credit were left out", n);
+      questions.push({
+        ...base,
+        type: "short_text",
+        answer: answers.filter((a) => a.fraction >= 100).map((a) => a.text).join("|"),
+        caseSensitive: childElement(el, "usecase")?.textContent?.trim() === "1",
+      });
+    } else if (type === "numerical") {
+      const full = answers.find((a) => a.fraction >= 100) || answers[0];
+      if (answers.length > 1) report.note("Extra numeric answers worth partial credit were left out", n);
+      const unit = Array.from(el.querySelectorAll("units > unit")).find((u) => Number(childElement(u, "multiplier")?.textContent) === 1);
+      questions.push({
+        ...base,
+        type: "numeric",
+        answer: full?.text ?? "",
+        tolerance: full?.tolerance ? Number(full.tolerance) : undefined,
+        unit: unit ? childElement(unit, "unit_name")?.textContent?.trim() : undefined,
+      });
+    } else {
+      const options = answers.map((a) => a.text);
+      const error = optionCountError(options);
+      if (error) {
+        report.note(error, n);
+        return;
+      }
+      const correct = answers.map((a, i) => (a.fraction > 0 ? OPTION_LETTERS[i] : null)).filter(Boolean).join("");
+      if (childElement(el, "single")?.textContent?.trim() === "false") {
+        questions.push({ ...base, type: "multiple", options, answer: correct, partial: answers.every((a) => a.fraction > -100) });
+      } else {
+        if (answers.some((a) => a.fraction > 0 && a.fraction < 100)) report.note("Options worth partial credit were counted as wrong", n);
+        const best = answers.map((a, i) => (a.fraction >= 100 ? OPTION_LETTERS[i] : null)).filter(Boolean).join("");
+        questions.push({ ...base, type: isTrueFalsePair(options) ? "true_false" : "single", options, answer: best });
+      }
+    }
+  });
+  return questions;
+};
+
+// Reads a quiz file into import rows; warnings list what was skipped or left out
+export const parseQuizFile = (text: string, format: QuizFormat) => {
+  const report = createReport();
+  const questions =
+    format === "aiken" ? parseAiken(text, report) : format === "gift" ? parseGift(text, report) : parseMoodleXml(text, report);
+  return { rows: questions.map(toRawRow), numbers: questions.map((q) => q.number), warnings: report.messages() };
+};
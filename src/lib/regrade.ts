@@ -0,0 +1,74 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// How a corrected question is regraded: with its (corrected) key, accepting
+// further options as correct, or left out of every total
+export type RegradeAction = "key" | "accept" | "void";
+
+export const REGRADE_ACTION_LABELS: Record<RegradeAction, string> = {
+  key: "Accept the corrected key",
+  accept: "Accept several answers",
+  void: "Void the question",
+};
+
+export interface RegradeRequest {
+  question_id: string;
+  action: RegradeAction;
+  // A corrected key for a choice question, as canonical letters
+  correct_answer?: string;
+  // Options also accepted as correct for a single-answer question
+  accepted_options?: string[];
+  // With "key", also un-void the question and drop accepted options that an
+  // earlier regrade set; otherwise they are kept
+  clear_corrections?: boolean;
+  notify?: boolean;
+}
+
+// One submitted attempt or mock exam subject result, before and after
+export interface ScoreChange {
+  kind: "assessment" | "mock";
+  student_id: string;
+  student_name: string;
+  before_score: number;
+  before_max: number;
+  after_score: number;
+  after_max: number;
+  passed_before: boolean | null;
+  passed_after: boolean | null;
+}
+
+export interface RegradeSummary {
+  attempts: number;
+  mock_results: number;
+  // Mock results submitted before answers were recorded per question
+  unrecorded_mock_results: number;
+  changed: number;
+  raised: number;
+  lowered: number;
+  newly_passed: number;
+  newly_failed: number;
+}
+
+export interface RegradeResult {
+  applied: boolean;
+  summary: RegradeSummary;
+  changes: ScoreChange[];
+  notified?: number;
+}
+
+// Previews the regrade unless `apply` is set, in which case every affected
+// attempt and mock result is updated
+export const regradeQuestion = async (request: RegradeRequest, apply: boolean) => {
+  const { data, error } = await supabase.functions.invoke("regrade-question", {
+    body: { ...request, apply },
+  });
+  if (error) {
+    // Error responses carry the reason in their body, e.g. an invalid key
+    const body = await error.context?.json?.().catch(() => null);
+    throw new Error(body?.error || "Failed to regrade the question");
+  }
+  if (!data?.success) throw new Error(data?.error || "Failed to regrade the question");
+  return data as RegradeResult;
+};
+
+export const scoreChanged = (change: ScoreChange) =>
+  change.after_score !== change.before_score || change.after_max !== change.before_max;
@@ -0,0 +1,108 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Topics form a tree below each subject, e.g. Musculoskeletal → Knee → ACL
+export interface Topic {
+  id: string;
+  subject_id: string;
+  parent_id: string | null;
+  name: string;
+}
+
+// A question's place in the taxonomy, copied along with the question
+export interface QuestionTopic {
+  topic_id: string | null;
+  tags: string[];
+}
+
+export const emptyQuestionTopic = (): QuestionTopic => ({ topic_id: null, tags: [] });
+
+export const fetchTopics = async (subjectIds?: string[]) => {
+  let query = supabase.from("topics").select("id, subject_id, parent_id, name").order("name");
+  if (subjectIds) query = query.in("subject_id", subjectIds);
+  const { data, error } = await query;
+  if (error) {
+    console.error("Failed to load topics:", error);
+    return [];
+  }
+  return data as Topic[];
+};
+
+// A subject's topics depth-first, each with its depth, for indented lists
+export const topicOutline = (topics: Topic[], subjectId: string) => {
+  const outline: { topic: Topic; depth: number }[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    topics
+      .filter((t) => t.subject_id === subjectId && t.parent_id === parentId)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .forEach((topic) => {
+        outline.push({ topic, depth });
+        visit(topic.id, depth + 1);
+      });
+  };
+  visit(null, 0);
+  return outline;
+};
+
+// The topic and its ancestors, from the top, e.g. ["Knee", "ACL"]
+export const topicAncestry = (topics: Topic[], topicId: string | null | undefined) => {
+  const chain: Topic[] = [];
+  let current = topics.find((t) => t.id === topicId);
+  while (current && !chain.includes(current)) {
+    chain.unshift(current);
+    current = topics.find((t) => t.id === current!.parent_id);
+  }
+  return chain;
+};
+
+export const topicPath = (topics: Topic[], topicId: string | null | undefined) =>
+  topicAncestry(topics, topicId).map((t) => t.name).join(" → ");
+
+// The topic and every subtopic below it, so filtering by "Knee" includes "ACL"
+export const topicSubtreeIds = (topics: Topic[], topicId: string) => {
+  const ids = [topicId];
+  for (let i = 0; i < ids.length; i++) {
+    topics.filter((t) => t.parent_id === ids[i] && !ids.includes(t.id)).forEach((t) => ids.push(t.id));
+  }
+  return ids;
+};
+
+// Tags are trimmed, lower-cased and de-duplicated so "ACL" and "acl " match
+export const normaliseTag = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, " ");
+
+export const cleanTags = (tags: string[] | null | undefined) => [...new Set((tags || []).map(normaliseTag).filter(Boolean))];
+
+export interface TopicScore {
+  topic_id: string;
+  questions: number;
+  earned: number;
+}
+
+// Adds each topic's marks to all of its ancestors, so "Knee" covers its
+// own questions and those filed under "ACL"
+export const rollUpTopicScores = (topics: Topic[], scores: TopicScore[]) => {
+  const totals = new Map<string, { questions: number; earned: number }>();
+  scores.forEach((score) => {
+    topicAncestry(topics, score.topic_id).forEach((topic) => {
+      const total = totals.get(topic.id) || { questions: 0, earned: 0 };
+      totals.set(topic.id, { questions: total.questions + Number(score.questions), earned: total.earned + Number(score.earned) });
+    });
+  });
+  return totals;
+};
+
+// Questions filed under the topic (or any of its subtopics) and carrying the tag
+export const filterByTopic = <T extends Partial<QuestionTopic>>(
+  questions: T[],
+  topics: Topic[],
+  topicId: string | null,
+  tag: string | null
+) => {
+  const topicIds = topicId ? topicSubtreeIds(topics, topicId) : null;
+  return questions.filter(
+    (q) => (!topicIds || (!!q.topic_id && topicIds.includes(q.topic_id))) && (!tag || (q.tags || []).includes(tag))
+  );
+};
+
+// Every tag used on the questions, for a tag filter
+export const collectTags = (questions: Partial<QuestionTopic>[]) =>
+  [...new Set(questions.flatMap((q) => q.tags || []))].sort();
@@ -70,36 +70,109 @@ export const assessmentSchema = z.object({
 });
 
 // Question validation schema
-export const questionSchema = z.object({
-  question_text: z
-    .string()
-    .trim()
-    .min(1, "Question is required")
-    .max(2000, "Question must be less than 2000 characters"),
-  option_a: z
-    .string()
-    .trim()
-    .min(1, "Option A is required")
-    .max(500, "Option must be less than 500 characters"),
-  option_b: z
-    .string()
-    .trim()
-    .min(1, "Option B is required")
-    .max(500, "Option must be less than 500 characters"),
-  option_c: z
-    .string()
-    .trim()
-    .min(1, "Option C is required")
-    .max(500, "Option must be less than 500 characters"),
-  option_d: z
-    .string()
-    .trim()
-    .min(1, "Option D is required")
-    .max(500, "Option must be less than 500 characters"),
-  correct_answer: z.enum(["A", "B", "C", "D"], {
-    errorMap: () => ({ message: "Please select the correct answer" }),
-  }),
-});
+const optionalOption = z
+  .string()
+  .trim()
+  .min(1, "Options cannot be blank; remove unused ones")
+  .max(500, "Option must be less than 500 characters")
+  .nullish();
+
+export const questionSchema = z
+  .object({
+    question_text: z
+      .string()
+      .trim()
+      .min(1, "Question is required")
+      .max(2000, "Question must be less than 2000 characters"),
+    // Choice questions need A and B; numeric and short-text questions have no options
+    option_a: optionalOption,
+    option_b: optionalOption,
+    // Options beyond B are optional but must be filled from C onwards without gaps
+    option_c: optionalOption,
+    option_d: optionalOption,
+    option_e: optionalOption,
+    option_f: optionalOption,
+    // Storage paths of attached images
+    question_image: z.string().nullish(),
+    option_a_image: z.string().nullish(),
+    option_b_image: z.string().nullish(),
+    option_c_image: z.string().nullish(),
+    option_d_image: z.string().nullish(),
+    option_e_image: z.string().nullish(),
+    option_f_image: z.string().nullish(),
+    question_type: z.enum(["single", "multiple", "true_false", "numeric", "short_text"]).default("single"),
+    scoring_mode: z.enum(["all_or_nothing", "partial"]).default("all_or_nothing"),
+    // Every correct letter in alphabetical order, e.g. "AC"
+    correct_answer: z
+      .string()
+      .regex(/^A?B?C?D?E?F?$/, "Correct answers must be letters A to F in order")
+      .min(1, "Please select the correct answer")
+      .nullish(),
+    numeric_answer: z.number().finite().nullish(),
+    numeric_tolerance: z.number().finite().min(0, "Tolerance cannot be negative").nullish(),
+    numeric_min: z.number().finite().nullish(),
+    numeric_max: z.number().finite().nullish(),
+    answer_unit: z.string().trim().max(20, "Unit must be less than 20 characters").nullish(),
+    accepted_answers: z
+      .array(z.string().trim().min(1, "Accepted answers cannot be blank").max(200, "Answer must be less than 200 characters"))
+      .nullish(),
+    case_sensitive: z.boolean().default(false),
+    explanation: z.string().trim().max(4000, "Explanation must be less than 4000 characters").nullish(),
+    reference_title: z.string().trim().max(200, "Reference must be less than 200 characters").nullish(),
+    reference_url: z
+      .string()
+      .trim()
+      .regex(/^https?:\/\/\S+$/i, "Reference links must start with http:// or https://")
+      .max(500, "Link must be less than 500 characters")
+      .nullish(),
+    topic_id: z.string().uuid("Invalid topic").nullish(),
+    tags: z.array(z.string().trim().min(1, "Tags cannot be blank").max(50, "Tags must be less than 50 characters")).default([]),
+    difficulty: z.enum(["easy", "medium", "hard"]).nullish(),
+  })
+  .superRefine((q, ctx) => {
+    if (q.question_type === "numeric") {
+      const hasRange = q.numeric_min != null && q.numeric_max != null;
+      if (q.numeric_answer == null && !hasRange) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Enter the correct value or a range", path: ["numeric_answer"] });
+      } else if (hasRange && q.numeric_min! > q.numeric_max!) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "The lowest accepted value cannot be above the highest", path: ["numeric_min"] });
+      }
+    } else if (q.question_type === "short_text") {
+      if (!q.accepted_answers?.length) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Add at least one accepted answer", path: ["accepted_answers"] });
+      }
+    } else {
+      if (q.option_a == null) ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Option A is required", path: ["option_a"] });
+      if (q.option_b == null) ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Option B is required", path: ["option_b"] });
+      if (!q.correct_answer) ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Please select the correct answer", path: ["correct_answer"] });
+    }
+  })
+  .refine((q) => !["numeric", "short_text"].includes(q.question_type) || (q.option_a == null && q.correct_answer == null), {
+    message: "Numeric and short-text questions have no options",
+    path: ["option_a"],
+  })
+  .refine((q) => q.question_type === "multiple" || !q.correct_answer || q.correct_answer.length === 1, {
+    message: "A single-answer question has exactly one correct answer",
+    path: ["correct_answer"],
+  })
+  .refine(
+    (q) => {
+      const present = [q.option_c, q.option_d, q.option_e, q.option_f].map((o) => o != null);
+      return present.every((isPresent, i) => !isPresent || i === 0 || present[i - 1]);
+    },
+    { message: "Options must be filled in order without gaps", path: ["option_c"] }
+  )
+  .refine(
+    (q) => {
+      const count = 2 + [q.option_c, q.option_d, q.option_e, q.option_f].filter((o) => o != null).length;
+      return (q.correct_answer || "").split("").every((letter) => "ABCDEF".indexOf(letter) < count);
+    },
+    { message: "The correct answer must be one of the question's options", path: ["correct_answer"] }
+  )
+  .refine((q) => q.question_type !== "true_false" || q.option_c == null, {
+    message: "A true/false question has exactly two options",
+    path: ["option_c"],
+  });
 
 export type StudentFormData = z.infer<typeof studentSchema>;
 export type TeacherFormData = z.infer<typeof teacherSchema>;
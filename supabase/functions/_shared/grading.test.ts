@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { AnswerKey, gradeAnswer, gradePaper, normaliseText, parseNumeric } from "./grading.ts";
+
+const key = (fields: Partial<AnswerKey>): AnswerKey => ({
+  correct_answer: null,
+  question_type: "single",
+  scoring_mode: "all_or_nothing",
+  ...fields,
+});
+
+describe("gradeAnswer for choice questions", () => {
+  it("marks a single answer against the key and any accepted options", () => {
+    const single = key({ correct_answer: "B" });
+    expect(gradeAnswer("B", single)).toBe(1);
+    expect(gradeAnswer("C", single)).toBe(0);
+    expect(gradeAnswer("C", { ...single, accepted_options: ["C"] })).toBe(1);
+  });
+
+  it("gives nothing for an empty answer", () => {
+    expect(gradeAnswer("", key({ correct_answer: "A" }))).toBe(0);
+    expect(gradeAnswer(null, key({ correct_answer: "A" }))).toBe(0);
+  });
+
+  it("compares multiple-response letters in any order, each once", () => {
+    const multiple = key({ question_type: "multiple", correct_answer: "AC" });
+    expect(gradeAnswer("CA", multiple)).toBe(1);
+    expect(gradeAnswer("ACA", multiple)).toBe(1);
+    expect(gradeAnswer("A", multiple)).toBe(0);
+  });
+
+  it("gives partial credit less one share per wrong pick, never below zero", () => {
+    const partial = key({ question_type: "multiple", scoring_mode: "partial", correct_answer: "ABCD" });
+    expect(gradeAnswer("AB", partial)).toBe(0.5);
+    expect(gradeAnswer("ABE", partial)).toBe(0.25);
+    expect(gradeAnswer("BA", partial)).toBe(0.5);
+    expect(gradeAnswer("EF", partial)).toBe(0);
+  });
+});
+
+describe("gradeAnswer for typed questions", () => {
+  it("accepts numbers within the tolerance, with or without the unit", () => {
+    const numeric = key({ question_type: "numeric", numeric_answer: 5, numeric_tolerance: 0.1, answer_unit: "mg" });
+    expect(gradeAnswer("5.1", numeric)).toBe(1);
+    expect(gradeAnswer("4.9 mg", numeric)).toBe(1);
+    expect(gradeAnswer("5.2", numeric)).toBe(0);
+    expect(gradeAnswer("mg", numeric)).toBe(0);
+  });
+
+  it("allows floating point slack when there is no tolerance", () => {
+    expect(gradeAnswer(String(0.1 + 0.2), key({ question_type: "numeric", numeric_answer: 0.3 }))).toBe(1);
+  });
+
+  it("accepts numbers inside a range, bounds included", () => {
+    const range = key({ question_type: "numeric", numeric_min: 4.5, numeric_max: 5.5 });
+    expect(gradeAnswer("4.5", range)).toBe(1);
+    expect(gradeAnswer("5.5", range)).toBe(1);
+    expect(gradeAnswer("5.6", range)).toBe(0);
+  });
+
+  it("matches short text ignoring case and extra spaces unless case sensitive", () => {
+    const text = key({ question_type: "short_text", accepted_answers: ["Mitral valve"] });
+    expect(gradeAnswer("  mitral   VALVE ", text)).toBe(1);
+    expect(gradeAnswer("mitral", text)).toBe(0);
+    expect(gradeAnswer("mitral valve", { ...text, case_sensitive: true })).toBe(0);
+    expect(gradeAnswer("Mitral valve", { ...text, case_sensitive: true })).toBe(1);
+  });
+});
+
+describe("answer normalisation", () => {
+  it("collapses whitespace in short text", () => {
+    expect(normaliseText(" A  b\tC ", false)).toBe("a b c");
+    expect(normaliseText(" A  b ", true)).toBe("A b");
+  });
+
+  it("reads a number typed with its unit and rejects blanks", () => {
+    expect(parseNumeric("12.5 ML", "ml")).toBe(12.5);
+    expect(parseNumeric("   ", null)).toBeNaN();
+    expect(parseNumeric("twelve", null)).toBeNaN();
+  });
+});
+
+describe("gradePaper", () => {
+  it("records every question and leaves voided ones out of the total", () => {
+    const keys = new Map<string, AnswerKey>([
+      ["q1", key({ correct_answer: "A" })],
+      ["q2", key({ question_type: "short_text", accepted_answers: ["heart"] })],
+      ["q3", key({ correct_answer: "B", voided: true })],
+      ["q4", key({ correct_answer: "C" })],
+    ]);
+    const paper = gradePaper(keys, new Map([["q1", "A"], ["q2", " Heart "], ["q3", "B"], ["q4", "  "]]));
+
+    expect(paper.counted).toBe(3);
+    expect(paper.earned).toBe(2);
+    expect(paper.correct).toBe(2);
+    expect(paper.answers).toEqual([
+      { question_id: "q1", selected_answer: "A", response_text: null, is_correct: true, credit: 1 },
+      { question_id: "q2", selected_answer: null, response_text: "Heart", is_correct: true, credit: 1 },
+      { question_id: "q3", selected_answer: "B", response_text: null, is_correct: null, credit: null },
+      { question_id: "q4", selected_answer: null, response_text: null, is_correct: false, credit: 0 },
+    ]);
+  });
+});
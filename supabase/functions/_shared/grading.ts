@@ -0,0 +1,115 @@
+// Grading shared by the submit and regrade edge functions and by the app's
+// practice mode, so an answer earns the same credit wherever it is marked.
+// Kept free of imports so both Deno and the Vite build can load it.
+
+export interface AnswerKey {
+  correct_answer: string | null;
+  question_type: string;
+  scoring_mode: string | null;
+  numeric_answer?: number | null;
+  numeric_tolerance?: number | null;
+  numeric_min?: number | null;
+  numeric_max?: number | null;
+  answer_unit?: string | null;
+  accepted_answers?: string[] | null;
+  case_sensitive?: boolean | null;
+  // Set when the key is corrected after a sitting
+  accepted_options?: string[] | null;
+  voided?: boolean | null;
+}
+
+export const isTypedQuestion = (key: Pick<AnswerKey, "question_type">) =>
+  key.question_type === "numeric" || key.question_type === "short_text";
+
+// Short-text answers match when equal after trimming and collapsing runs of
+// whitespace, ignoring case unless the question is case sensitive
+export const normaliseText = (text: string, caseSensitive: boolean) => {
+  const collapsed = text.trim().replace(/\s+/g, " ");
+  return caseSensitive ? collapsed : collapsed.toLowerCase();
+};
+
+// Numeric answers may be typed with the question's unit after the number
+export const parseNumeric = (text: string, unit: string | null | undefined) => {
+  let value = text.trim();
+  if (unit && value.toLowerCase().endsWith(unit.toLowerCase())) {
+    value = value.slice(0, -unit.length).trim();
+  }
+  return value === "" ? NaN : Number(value);
+};
+
+export const gradeTypedAnswer = (response: string, key: AnswerKey) => {
+  if (key.question_type === "short_text") {
+    const answer = normaliseText(response, !!key.case_sensitive);
+    return (key.accepted_answers || []).some((a) => normaliseText(a, !!key.case_sensitive) === answer) ? 1 : 0;
+  }
+
+  const value = parseNumeric(response, key.answer_unit);
+  if (isNaN(value)) return 0;
+  if (key.numeric_answer == null) {
+    return value >= key.numeric_min! && value <= key.numeric_max! ? 1 : 0;
+  }
+  // A little slack so e.g. 0.1 + 0.2 still matches 0.3 with no tolerance
+  return Math.abs(value - key.numeric_answer) <= (key.numeric_tolerance || 0) + 1e-9 ? 1 : 0;
+};
+
+// Choice answers as letters, each once, in alphabetical order
+export const canonicalLetters = (answer: string) => [...new Set(answer.split("").filter((l) => l.trim()))].sort();
+
+// Fraction of the question's marks earned. Partial credit is the share of
+// correct options picked, less one share per wrong pick, never below zero.
+// Numeric and short-text questions are right or wrong. Single-answer
+// questions may accept other options besides the key after a regrade.
+export const gradeAnswer = (selected: string | null | undefined, key: AnswerKey) => {
+  if (!selected) return 0;
+  if (isTypedQuestion(key)) return gradeTypedAnswer(selected, key);
+  if (key.question_type !== "multiple") {
+    return selected === key.correct_answer || (key.accepted_options || []).includes(selected) ? 1 : 0;
+  }
+
+  const chosen = canonicalLetters(selected);
+  const expected = canonicalLetters(key.correct_answer || "");
+  if (expected.length === 0) return 0;
+  if (chosen.join("") === expected.join("")) return 1;
+  if (key.scoring_mode !== "partial") return 0;
+
+  const right = chosen.filter((l) => expected.includes(l)).length;
+  const wrong = chosen.length - right;
+  return Math.max(0, (right - wrong) / expected.length);
+};
+
+export const roundScore = (score: number) => Math.round(score * 100) / 100;
+
+export interface GradedAnswer {
+  question_id: string;
+  selected_answer: string | null;
+  response_text: string | null;
+  is_correct: boolean | null;
+  // Null when the question is voided
+  credit: number | null;
+}
+
+// Grades a whole paper. Every question is recorded, answered or not, so it
+// can be regraded if its key is corrected later; voided questions earn no
+// credit and don't count towards the total.
+export const gradePaper = (keys: Map<string, AnswerKey>, responses: Map<string, string>) => {
+  let correct = 0;
+  let earned = 0;
+  let counted = 0;
+
+  const answers: GradedAnswer[] = [...keys.entries()].map(([questionId, key]) => {
+    const response = responses.get(questionId)?.trim() ? responses.get(questionId)! : null;
+    const credit = key.voided ? null : gradeAnswer(response, key);
+    if (!key.voided) counted++;
+    if (credit === 1) correct++;
+    earned += credit || 0;
+    return {
+      question_id: questionId,
+      selected_answer: response && !isTypedQuestion(key) ? response : null,
+      response_text: response && isTypedQuestion(key) ? response.trim() : null,
+      is_correct: key.voided ? null : credit === 1,
+      credit,
+    };
+  });
+
+  return { answers, correct, earned, counted };
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { AnswerKey } from "./grading.ts";
+import { StoredAnswer, rescoreAttempt, rescoreSubject, storedCredit } from "./regrade.ts";
+
+const key = (fields: Partial<AnswerKey>): AnswerKey => ({
+  correct_answer: null,
+  question_type: "single",
+  scoring_mode: "all_or_nothing",
+  voided: false,
+  ...fields,
+});
+
+const answer = (question_id: string, selected_answer: string | null, credit: number | null, fields: Partial<StoredAnswer> = {}): StoredAnswer => ({
+  id: `answer-${question_id}`,
+  attempt_id: "attempt",
+  question_id,
+  selected_answer,
+  response_text: null,
+  is_correct: credit === null ? null : credit === 1,
+  credit,
+  ...fields,
+});
+
+const given = (...ids: string[]) => ids.map((question_id) => ({ question_id, voided: false }));
+
+describe("rescoreAttempt", () => {
+  const answers = [answer("q1", "A", 1), answer("q2", "B", 0), answer("q3", "C", 0.5)];
+
+  it("regrades the corrected question and keeps the stored credit of the rest", () => {
+    const result = rescoreAttempt("q2", key({ correct_answer: "B" }), given("q1", "q2", "q3"), answers);
+    expect(result).toEqual({ earned: 2.5, counted: 3, update: { id: "answer-q2", is_correct: true, credit: 1 } });
+  });
+
+  it("asks for no update when the answer's credit doesn't change", () => {
+    expect(rescoreAttempt("q1", key({ correct_answer: "A" }), given("q1", "q2", "q3"), answers).update).toBeNull();
+  });
+
+  it("drops a voided question from both the score and the total", () => {
+    const result = rescoreAttempt("q1", key({ correct_answer: "A", voided: true }), given("q1", "q2", "q3"), answers);
+    expect(result).toEqual({ earned: 0.5, counted: 2, update: { id: "answer-q1", is_correct: null, credit: null } });
+  });
+
+  it("leaves out questions voided earlier and answers to questions not given", () => {
+    const copies = [...given("q1", "q2"), { question_id: "q3", voided: true }];
+    const extra = answer("q9", "A", 1);
+    const result = rescoreAttempt("q2", key({ correct_answer: "C" }), copies, [...answers, extra]);
+    expect(result.earned).toBe(1);
+    expect(result.counted).toBe(2);
+  });
+
+  it("counts unanswered questions towards the total", () => {
+    const result = rescoreAttempt("q1", key({ correct_answer: "A" }), given("q1", "q2", "q3", "q4"), answers);
+    expect(result.counted).toBe(4);
+  });
+});
+
+describe("rescoreSubject", () => {
+  it("rebuilds the subject's credit from its recorded answers", () => {
+    const answers = [answer("q1", "A", 1), answer("q2", "B", 0), answer("q3", null, null)];
+    expect(rescoreSubject("q2", key({ correct_answer: "B" }), answers)).toEqual({
+      earned: 2,
+      counted: 2,
+      update: { id: "answer-q2", is_correct: true, credit: 1 },
+    });
+  });
+
+  it("regrades typed answers from the response text", () => {
+    const answers = [answer("q1", null, 0, { response_text: "Femur" })];
+    const result = rescoreSubject("q1", key({ question_type: "short_text", accepted_answers: ["femur"] }), answers);
+    expect(result.earned).toBe(1);
+    expect(result.update?.credit).toBe(1);
+  });
+
+  it("brings back a question that was voided", () => {
+    const answers = [answer("q1", "A", null), answer("q2", "B", 1)];
+    expect(rescoreSubject("q1", key({ correct_answer: "A" }), answers)).toMatchObject({ earned: 2, counted: 2 });
+  });
+});
+
+describe("storedCredit", () => {
+  it("falls back to right or wrong for answers graded before credit was recorded", () => {
+    expect(storedCredit(answer("q1", "A", null, { is_correct: true }))).toBe(1);
+    expect(storedCredit(answer("q1", "A", null, { is_correct: false }))).toBe(0);
+    expect(storedCredit(answer("q1", "A", 0.5))).toBe(0.5);
+  });
+});
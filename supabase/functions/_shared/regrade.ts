@@ -0,0 +1,86 @@
+// Rescoring of submitted attempts and mock exam subject results after one
+// question's key is corrected, kept apart from the regrade-question function
+// so it can be tested without a database.
+import { gradeAnswer, isTypedQuestion, type AnswerKey } from "./grading.ts";
+
+export interface StoredAnswer {
+  id: string;
+  attempt_id: string;
+  question_id: string;
+  selected_answer: string | null;
+  response_text: string | null;
+  is_correct: boolean | null;
+  credit: number | null;
+}
+
+export interface AnswerUpdate {
+  id: string;
+  is_correct: boolean | null;
+  credit: number | null;
+}
+
+// Credit for a stored answer under the new key; null when voided
+export const regradeAnswer = (answer: StoredAnswer, key: AnswerKey) => {
+  if (key.voided) return null;
+  const response = isTypedQuestion(key) ? answer.response_text : answer.selected_answer;
+  return gradeAnswer(response || "", key);
+};
+
+// Answers graded before partial credit was recorded only say right or wrong
+export const storedCredit = (answer: StoredAnswer) =>
+  answer.credit !== null ? Number(answer.credit) : answer.is_correct ? 1 : 0;
+
+const answerUpdate = (answer: StoredAnswer, credit: number | null): AnswerUpdate | null => {
+  const isCorrect = credit === null ? null : credit === 1;
+  return credit !== answer.credit || isCorrect !== answer.is_correct ? { id: answer.id, is_correct: isCorrect, credit } : null;
+};
+
+// An assessment attempt's credit and counted questions with `questionId`
+// regraded. `given` are the attempt's copies of the questions it was given;
+// voided ones count for nothing, and answers to questions not given are ignored.
+export const rescoreAttempt = (
+  questionId: string,
+  key: AnswerKey,
+  given: { question_id: string; voided: unknown }[],
+  answers: StoredAnswer[]
+) => {
+  const voided = new Set(
+    given.filter((c) => (c.question_id === questionId ? key.voided : c.voided === true)).map((c) => c.question_id)
+  );
+  const counted = given.filter((c) => !voided.has(c.question_id)).length;
+
+  let earned = 0;
+  let update: AnswerUpdate | null = null;
+  for (const answer of answers) {
+    if (!given.some((c) => c.question_id === answer.question_id)) continue;
+    if (answer.question_id === questionId) {
+      const credit = regradeAnswer(answer, key);
+      earned += credit || 0;
+      update = answerUpdate(answer, credit);
+    } else if (!voided.has(answer.question_id)) {
+      earned += storedCredit(answer);
+    }
+  }
+  return { earned, counted, update };
+};
+
+// A mock exam subject result's credit and counted questions with
+// `questionId` regraded. Every question of the subject has a recorded
+// answer, with null credit once voided.
+export const rescoreSubject = (questionId: string, key: AnswerKey, answers: StoredAnswer[]) => {
+  let earned = 0;
+  let counted = 0;
+  let update: AnswerUpdate | null = null;
+  for (const answer of answers) {
+    let credit = answer.credit === null ? null : Number(answer.credit);
+    if (answer.question_id === questionId) {
+      credit = regradeAnswer(answer, key);
+      update = answerUpdate(answer, credit);
+    }
+    if (credit !== null) {
+      earned += credit;
+      counted++;
+    }
+  }
+  return { earned, counted, update };
+};
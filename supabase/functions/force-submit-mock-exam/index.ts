@@ -0,0 +1,231 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { gradePaper, roundScore, type AnswerKey } from "../_shared/grading.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Same allowance as submit-mock-exam-subject for answers saved at the deadline
+const SUBMISSION_GRACE_SECONDS = 60;
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "No authorization header" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Check if requesting user is admin
+    const { data: adminRole, error: roleError } = await supabase
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", user.id)
+      .eq("role", "admin")
+      .maybeSingle();
+
+    if (roleError || !adminRole) {
+      return new Response(
+        JSON.stringify({ error: "Only admins can force-submit mock exams" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { attempt_id } = await req.json();
+
+    if (!attempt_id) {
+      return new Response(
+        JSON.stringify({ error: "attempt_id is required" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabaseAdmin = createClient(
+      supabaseUrl,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const { data: attempt, error: attemptError } = await supabaseAdmin
+      .from("mock_exam_attempts")
+      .select("id, mock_exam_id, is_completed, question_count, deadline_at")
+      .eq("id", attempt_id)
+      .single();
+
+    if (attemptError || !attempt) {
+      return new Response(
+        JSON.stringify({ error: "Attempt not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (attempt.is_completed) {
+      return new Response(
+        JSON.stringify({ error: "This exam has already been completed" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: mockExam } = await supabaseAdmin
+      .from("mock_exams")
+      .select("marks_per_question")
+      .eq("id", attempt.mock_exam_id)
+      .single();
+    const marksPerQuestion = mockExam?.marks_per_question || 1;
+
+    // Subjects the student already submitted keep their scores. Subjects still
+    // open are graded from the student's autosaved drafts against the
+    // attempt's copies of their questions, counting only drafts saved before
+    // the cutoff once the deadline has passed. Questions of subjects never
+    // loaded (known from the student's heartbeats) score zero.
+    const cutoff = attempt.deadline_at
+      ? new Date(new Date(attempt.deadline_at).getTime() + SUBMISSION_GRACE_SECONDS * 1000)
+      : null;
+
+    let draftsQuery = supabaseAdmin
+      .from("mock_exam_answer_drafts")
+      .select("question_id, selected_answer")
+      .eq("attempt_id", attempt_id);
+
+    if (cutoff && Date.now() > cutoff.getTime()) {
+      draftsQuery = draftsQuery.lte("updated_at", cutoff.toISOString());
+    }
+
+    const [{ data: subjectResults, error: resultsError }, { data: copies, error: copiesError }, { data: drafts, error: draftsError }] = await Promise.all([
+      supabaseAdmin
+        .from("mock_exam_subject_results")
+        .select("subject_id, score, total_questions")
+        .eq("attempt_id", attempt_id),
+      supabaseAdmin
+        .from("mock_exam_attempt_questions")
+        .select("assessment_id, question_id, content, assessments(subject_id)")
+        .eq("attempt_id", attempt_id),
+      draftsQuery,
+    ]);
+
+    if (resultsError || copiesError || draftsError) {
+      console.error("Error loading the attempt's answers:", resultsError || copiesError || draftsError);
+      return new Response(
+        JSON.stringify({ error: "Failed to load the attempt's answers" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const submittedSubjects = new Set((subjectResults || []).map((r) => r.subject_id));
+    const papers = new Map<string, { subjectId: string; keys: Map<string, AnswerKey> }>();
+    for (const copy of copies || []) {
+      const subjectId = (copy.assessments as { subject_id: string } | null)?.subject_id;
+      if (!subjectId || submittedSubjects.has(subjectId)) continue;
+      const paper = papers.get(copy.assessment_id) ?? { subjectId, keys: new Map<string, AnswerKey>() };
+      paper.keys.set(copy.question_id, copy.content as AnswerKey);
+      papers.set(copy.assessment_id, paper);
+    }
+
+    const responses = new Map<string, string>((drafts || []).map((d) => [d.question_id, d.selected_answer]));
+    const completedAt = new Date().toISOString();
+    const graded = [...papers.entries()].map(([assessmentId, paper]) => {
+      const { answers, earned, counted } = gradePaper(paper.keys, responses);
+      return {
+        answers: answers.map((answer) => ({ attempt_id, assessment_id: assessmentId, ...answer })),
+        result: {
+          attempt_id,
+          subject_id: paper.subjectId,
+          assessment_id: assessmentId,
+          score: roundScore(earned * marksPerQuestion),
+          total_questions: counted * marksPerQuestion,
+          completed_at: completedAt,
+        },
+      };
+    });
+
+    if (graded.length > 0) {
+      const { error: answersError } = await supabaseAdmin
+        .from("mock_exam_answers")
+        .upsert(graded.flatMap((g) => g.answers), { onConflict: "attempt_id,question_id" });
+      const { error: saveError } = answersError
+        ? { error: answersError }
+        : await supabaseAdmin
+          .from("mock_exam_subject_results")
+          .upsert(graded.map((g) => g.result), { onConflict: "attempt_id,subject_id" });
+
+      if (saveError) {
+        console.error("Error saving subject results:", saveError);
+        return new Response(
+          JSON.stringify({ error: "Failed to save the open subjects' answers" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+
+    let totalScore = 0;
+    let submittedMaxScore = 0;
+    for (const result of [...(subjectResults || []), ...graded.map((g) => g.result)]) {
+      totalScore += Number(result.score) || 0;
+      submittedMaxScore += result.total_questions || 0;
+    }
+    totalScore = roundScore(totalScore);
+
+    const unsubmittedQuestions = Math.max(0, (attempt.question_count || 0) - submittedMaxScore / marksPerQuestion);
+    const totalExamQuestions = submittedMaxScore + unsubmittedQuestions * marksPerQuestion;
+
+    const { error: updateError } = await supabaseAdmin
+      .from("mock_exam_attempts")
+      .update({
+        is_completed: true,
+        submitted_at: new Date().toISOString(),
+        total_score: totalScore,
+        total_questions: totalExamQuestions,
+      })
+      .eq("id", attempt_id);
+
+    if (updateError) {
+      console.error("Error completing exam:", updateError);
+      return new Response(
+        JSON.stringify({ error: "Failed to complete exam" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    await supabaseAdmin.from("proctoring_events").insert({
+      mock_exam_attempt_id: attempt_id,
+      event_type: "force_submitted",
+      details: { submitted_by: user.id },
+    });
+
+    console.log(`Mock exam force-submitted: attempt=${attempt_id}, score=${totalScore}/${totalExamQuestions}, by=${user.id}`);
+
+    return new Response(
+      JSON.stringify({ success: true, total_score: totalScore, total_exam_questions: totalExamQuestions }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+
+  } catch (err) {
+    console.error("Error in force-submit-mock-exam:", err);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
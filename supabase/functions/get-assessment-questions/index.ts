@@ -6,6 +6,98 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+const OPTION_LETTERS = ["A", "B", "C", "D", "E", "F"];
+
+// Same allowance submit-assessment-answers gives after a deadline
+const DEADLINE_GRACE_SECONDS = 60;
+
+interface QuestionRow {
+  id: string;
+  question_text: string;
+  option_a: string | null;
+  option_b: string | null;
+  option_c: string | null;
+  option_d: string | null;
+  option_e: string | null;
+  option_f: string | null;
+  assessment_id: string;
+  question_type: string;
+  scoring_mode: string;
+  answer_unit: string | null;
+  question_image: string | null;
+  option_a_image: string | null;
+  option_b_image: string | null;
+  option_c_image: string | null;
+  option_d_image: string | null;
+  option_e_image: string | null;
+  option_f_image: string | null;
+}
+
+// Deterministic PRNG (FNV-1a hash into mulberry32) so the same attempt always
+// gets the same permutation, e.g. when a student resumes after a reload.
+const createSeededRandom = (seed: string) => {
+  let h = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  let state = h >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// The columns a student may see; answer keys stay on the server
+const QUESTION_COLUMNS = [
+  "id", "question_text", "option_a", "option_b", "option_c", "option_d", "option_e", "option_f",
+  "assessment_id", "question_type", "scoring_mode", "answer_unit", "question_image",
+  "option_a_image", "option_b_image", "option_c_image", "option_d_image", "option_e_image", "option_f_image",
+] as const;
+
+const toQuestionRow = (row: Record<string, unknown>) =>
+  Object.fromEntries(QUESTION_COLUMNS.map((column) => [column, row[column] ?? null])) as unknown as QuestionRow;
+
+const optionFor = (question: QuestionRow, letter: string | undefined) =>
+  letter ? (question[`option_${letter.toLowerCase()}` as keyof QuestionRow] as string | null) : null;
+
+const imageFor = (question: QuestionRow, letter: string | undefined) =>
+  letter ? (question[`option_${letter.toLowerCase()}_image` as keyof QuestionRow] as string | null) : null;
+
+// The letters of the options a question has; unused option columns are null
+const optionLetters = (question: QuestionRow) =>
+  OPTION_LETTERS.filter((letter) => optionFor(question, letter) !== null);
+
+// Re-letter a question's options; order[i] is the canonical letter shown at position i
+const applyOptionOrder = (question: QuestionRow, order: string): QuestionRow => ({
+  ...question,
+  option_a: optionFor(question, order[0])!,
+  option_b: optionFor(question, order[1])!,
+  option_c: optionFor(question, order[2]),
+  option_d: optionFor(question, order[3]),
+  option_e: optionFor(question, order[4]),
+  option_f: optionFor(question, order[5]),
+  // Option images move with their options
+  option_a_image: imageFor(question, order[0]),
+  option_b_image: imageFor(question, order[1]),
+  option_c_image: imageFor(question, order[2]),
+  option_d_image: imageFor(question, order[3]),
+  option_e_image: imageFor(question, order[4]),
+  option_f_image: imageFor(question, order[5]),
+});
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -36,11 +128,11 @@ serve(async (req) => {
       );
     }
 
-    const { assessment_id } = await req.json();
+    const { assessment_id, attempt_id, mock_exam_attempt_id } = await req.json();
 
-    if (!assessment_id) {
+    if (!assessment_id || (!attempt_id && !mock_exam_attempt_id)) {
       return new Response(
-        JSON.stringify({ error: "assessment_id is required" }),
+        JSON.stringify({ error: "assessment_id and an attempt_id or mock_exam_attempt_id are required" }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
@@ -51,10 +143,99 @@ serve(async (req) => {
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
     );
 
-    const { data: questions, error: questionsError } = await supabaseAdmin
+    const { data: assessment, error: assessmentError } = await supabaseAdmin
+      .from("assessments")
+      .select("subject_id, is_mock_exam, opens_at, closes_at")
+      .eq("id", assessment_id)
+      .single();
+
+    if (assessmentError || !assessment) {
+      return new Response(
+        JSON.stringify({ error: "Assessment not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (assessment.opens_at && Date.now() < new Date(assessment.opens_at).getTime()) {
+      return new Response(
+        JSON.stringify({ error: "This assessment is not open yet" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Questions are only served into an open attempt that belongs to the caller
+    const { data: attempt, error: attemptError } = attempt_id
+      ? await supabaseAdmin
+        .from("attempts")
+        .select("id, student_id, assessment_id, submitted_at, locked_at, deadline_at, question_ids, option_orders, assessments(shuffle_questions, shuffle_options, questions_per_attempt)")
+        .eq("id", attempt_id)
+        .single()
+      : await supabaseAdmin
+        .from("mock_exam_attempts")
+        .select("id, student_id, mock_exam_id, is_completed, locked_at, deadline_at")
+        .eq("id", mock_exam_attempt_id)
+        .single();
+
+    if (attemptError || !attempt || ("assessment_id" in attempt && attempt.assessment_id !== assessment_id)) {
+      return new Response(
+        JSON.stringify({ error: "Attempt not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (attempt.student_id !== user.id) {
+      return new Response(
+        JSON.stringify({ error: "You can only load questions for your own attempts" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (("submitted_at" in attempt && attempt.submitted_at) || ("is_completed" in attempt && attempt.is_completed)) {
+      return new Response(
+        JSON.stringify({ error: "This attempt has already been submitted" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (attempt.locked_at) {
+      return new Response(
+        JSON.stringify({ error: "This attempt has been locked. Ask your invigilator to unlock it." }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // The deadline is capped at the window's close when the attempt starts, and
+    // only moves past it when staff give extra time. Mock exams still load after
+    // their deadline so the client can close out each subject.
+    const endsAt = "assessment_id" in attempt ? attempt.deadline_at ?? assessment.closes_at : null;
+    if (endsAt && Date.now() > new Date(endsAt).getTime() + DEADLINE_GRACE_SECONDS * 1000) {
+      return new Response(
+        JSON.stringify({ error: "This attempt has ended" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if ("mock_exam_id" in attempt) {
+      const { data: mockSubject } = await supabaseAdmin
+        .from("mock_exam_subjects")
+        .select("id")
+        .eq("mock_exam_id", attempt.mock_exam_id)
+        .eq("subject_id", assessment.subject_id)
+        .maybeSingle();
+
+      if (!assessment.is_mock_exam || !mockSubject) {
+        return new Response(
+          JSON.stringify({ error: "This assessment is not part of your mock exam" }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+
+    const { data: rows, error: questionsError } = await supabaseAdmin
       .from("questions")
-      .select("id, question_text, option_a, option_b, option_c, option_d, assessment_id")
-      .eq("assessment_id", assessment_id);
+      .select("*")
+      .eq("assessment_id", assessment_id)
+      .order("created_at");
 
     if (questionsError) {
       console.error("Error fetching questions:", questionsError);
@@ -64,6 +245,132 @@ serve(async (req) => {
       );
     }
 
+    let questions: QuestionRow[] = (rows || []).map(toQuestionRow);
+
+    // Per-attempt draw and shuffling: generate the paper once, store it on the
+    // attempt with a copy of each question (grading and review use them), then
+    // serve the copies on every later fetch so edits made mid-exam don't reach
+    // the student. Mock exam attempts span several assessments, so they copy
+    // each subject's questions the first time it is loaded and keep the
+    // authored order.
+    if ("assessment_id" in attempt) {
+      let questionIds: string[] | null = attempt.question_ids;
+      let optionOrders: Record<string, string> | null = attempt.option_orders;
+
+      if (!questionIds) {
+        const settings = attempt.assessments as {
+          shuffle_questions: boolean;
+          shuffle_options: boolean;
+          questions_per_attempt: number | null;
+        } | null;
+        const random = createSeededRandom(attempt.id);
+        const limit = settings?.questions_per_attempt;
+
+        // Draw the attempt's questions from the pool, keeping authored order unless shuffling
+        let ordered = settings?.shuffle_questions || limit ? shuffle(questions, random) : questions;
+        if (limit && limit < ordered.length) {
+          ordered = ordered.slice(0, limit);
+        }
+        if (!settings?.shuffle_questions) {
+          const position = new Map(questions.map((q, i) => [q.id, i]));
+          ordered = [...ordered].sort((a, b) => position.get(a.id)! - position.get(b.id)!);
+        }
+
+        questionIds = ordered.map(q => q.id);
+        // True/false options stay in their natural order; numeric and
+        // short-text questions have no options to shuffle
+        optionOrders = settings?.shuffle_options
+          ? Object.fromEntries(
+              ordered
+                .filter(q => q.question_type !== "true_false" && optionLetters(q).length > 0)
+                .map(q => [q.id, shuffle(optionLetters(q), random).join("")])
+            )
+          : null;
+
+        const { error: saveError } = await supabaseAdmin
+          .from("attempts")
+          .update({ question_ids: questionIds, option_orders: optionOrders, total_questions: questionIds.length })
+          .eq("id", attempt.id);
+
+        if (saveError) {
+          console.error("Error saving question order:", saveError);
+          return new Response(
+            JSON.stringify({ error: "Failed to prepare questions" }),
+            { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+
+        // Two first fetches draw the same paper, so a copy already saved is kept
+        const drawn = new Set(questionIds);
+        const { error: snapshotError } = await supabaseAdmin
+          .from("attempt_questions")
+          .upsert(
+            (rows || [])
+              .filter(row => drawn.has(row.id))
+              .map(row => ({ attempt_id: attempt.id, question_id: row.id, content: row })),
+            { onConflict: "attempt_id,question_id", ignoreDuplicates: true }
+          );
+
+        if (snapshotError) {
+          console.error("Error saving question copies:", snapshotError);
+          return new Response(
+            JSON.stringify({ error: "Failed to prepare questions" }),
+            { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+      }
+
+      // Attempts drawn before copies were kept use the live questions
+      const { data: copies } = await supabaseAdmin
+        .from("attempt_questions")
+        .select("content")
+        .eq("attempt_id", attempt.id);
+      if (copies && copies.length > 0) {
+        questions = copies.map(c => toQuestionRow(c.content as Record<string, unknown>));
+      }
+
+      const byId = new Map(questions.map(q => [q.id, q]));
+      questions = questionIds
+        .map(id => byId.get(id))
+        .filter((q): q is QuestionRow => !!q)
+        .map(q => (optionOrders?.[q.id] ? applyOptionOrder(q, optionOrders[q.id]) : q));
+    } else {
+      const { count: copied } = await supabaseAdmin
+        .from("mock_exam_attempt_questions")
+        .select("question_id", { count: "exact", head: true })
+        .eq("attempt_id", attempt.id)
+        .eq("assessment_id", assessment_id);
+
+      if (!copied) {
+        const { error: snapshotError } = await supabaseAdmin
+          .from("mock_exam_attempt_questions")
+          .upsert(
+            (rows || []).map(row => ({ attempt_id: attempt.id, assessment_id, question_id: row.id, content: row })),
+            { onConflict: "attempt_id,question_id", ignoreDuplicates: true }
+          );
+
+        if (snapshotError) {
+          console.error("Error saving question copies:", snapshotError);
+          return new Response(
+            JSON.stringify({ error: "Failed to prepare questions" }),
+            { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+      }
+
+      const { data: copies } = await supabaseAdmin
+        .from("mock_exam_attempt_questions")
+        .select("content")
+        .eq("attempt_id", attempt.id)
+        .eq("assessment_id", assessment_id);
+      if (copies && copies.length > 0) {
+        questions = copies
+          .map(c => c.content as Record<string, unknown>)
+          .sort((a, b) => String(a.created_at).localeCompare(String(b.created_at)))
+          .map(toQuestionRow);
+      }
+    }
+
     console.log(`Fetched ${questions?.length || 0} questions for assessment ${assessment_id} (user: ${user.id})`);
 
     return new Response(
@@ -0,0 +1,500 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isTypedQuestion, roundScore, type AnswerKey } from "../_shared/grading.ts";
+import { rescoreAttempt, rescoreSubject, type AnswerUpdate, type StoredAnswer } from "../_shared/regrade.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const OPTION_LETTERS = ["A", "B", "C", "D", "E", "F"];
+
+// The columns copied into each attempt's questions when the key changes
+const KEY_FIELDS: (keyof AnswerKey)[] = [
+  "correct_answer", "question_type", "scoring_mode", "numeric_answer", "numeric_tolerance",
+  "numeric_min", "numeric_max", "answer_unit", "accepted_answers", "case_sensitive",
+  "accepted_options", "voided",
+];
+
+interface ScoreChange {
+  kind: "assessment" | "mock";
+  student_id: string;
+  student_name: string;
+  before_score: number;
+  before_max: number;
+  after_score: number;
+  after_max: number;
+  passed_before: boolean | null;
+  passed_after: boolean | null;
+}
+
+// Writes and emails go out this many at a time
+const BATCH_SIZE = 20;
+
+const inBatches = async <T, R>(items: T[], run: (item: T) => PromiseLike<R>) => {
+  const results: R[] = [];
+  for (let i = 0; i < items.length; i += BATCH_SIZE) {
+    results.push(...await Promise.all(items.slice(i, i + BATCH_SIZE).map(run)));
+  }
+  return results;
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "No authorization header" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const {
+      question_id,
+      action,
+      correct_answer,
+      accepted_options,
+      clear_corrections = false,
+      apply = false,
+      notify = false,
+    } = await req.json();
+
+    // "key" regrades with the question's saved key, or a corrected one sent
+    // with the request; "accept" also accepts other options of a
+    // single-answer question; "void" drops the question from every total.
+    // "key" keeps an earlier void or accepted options unless
+    // `clear_corrections` is set.
+    // Nothing is saved unless `apply` is set, so the summary can be previewed.
+    if (!question_id || !["key", "accept", "void"].includes(action)) {
+      return new Response(
+        JSON.stringify({ error: "question_id and an action of key, accept or void are required" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabaseAdmin = createClient(
+      supabaseUrl,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const { data: question, error: questionError } = await supabaseAdmin
+      .from("questions")
+      .select("*")
+      .eq("id", question_id)
+      .single();
+
+    if (questionError || !question) {
+      return new Response(
+        JSON.stringify({ error: "Question not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: assessment } = await supabaseAdmin
+      .from("assessments")
+      .select("id, title, teacher_id, marks_per_question, passing_score")
+      .eq("id", question.assessment_id)
+      .single();
+
+    if (!assessment) {
+      return new Response(
+        JSON.stringify({ error: "Assessment not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // The assessment's teacher or an admin
+    if (assessment.teacher_id !== user.id) {
+      const { data: adminRole } = await supabaseAdmin
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", user.id)
+        .eq("role", "admin")
+        .maybeSingle();
+
+      if (!adminRole) {
+        return new Response(
+          JSON.stringify({ error: "You can only regrade questions in your own assessments" }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+
+    // The new key: the question's saved key with the action's change on top
+    const optionLetters = OPTION_LETTERS.filter((letter) => question[`option_${letter.toLowerCase()}`] !== null);
+    const toLetters = (value: unknown) =>
+      [...new Set(String(value || "").toUpperCase().split(""))].filter((l) => l.trim()).sort();
+
+    const change: Partial<AnswerKey> = {};
+    if (action === "void") {
+      change.voided = true;
+    } else if (action === "key") {
+      if (clear_corrections) {
+        change.voided = false;
+        change.accepted_options = null;
+      }
+      if (correct_answer !== undefined && correct_answer !== null) {
+        const letters = toLetters(correct_answer);
+        if (isTypedQuestion(question) || letters.some((l) => !optionLetters.includes(l))) {
+          return new Response(
+            JSON.stringify({ error: "The corrected answer must be one or more of the question's options" }),
+            { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+        if (question.question_type !== "multiple" ? letters.length !== 1 : letters.length === 0) {
+          return new Response(
+            JSON.stringify({ error: question.question_type === "multiple" ? "Choose at least one correct option" : "Choose exactly one correct option" }),
+            { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+        change.correct_answer = letters.join("");
+        // An option accepted earlier may now be the key itself
+        if (change.accepted_options !== null && question.accepted_options) {
+          const kept = (question.accepted_options as string[]).filter((l) => l !== change.correct_answer);
+          change.accepted_options = kept.length > 0 ? kept : null;
+        }
+      }
+    } else if (action === "accept") {
+      if (question.question_type !== "single" && question.question_type !== "true_false") {
+        return new Response(
+          JSON.stringify({ error: "Other answers can only be accepted for single-answer questions" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      const letters = (Array.isArray(accepted_options) ? accepted_options : [])
+        .flatMap(toLetters)
+        .filter((l, i, all) => all.indexOf(l) === i && l !== question.correct_answer);
+      if (letters.length === 0 || letters.some((l) => !optionLetters.includes(l))) {
+        return new Response(
+          JSON.stringify({ error: "Choose at least one other option to accept" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      change.voided = false;
+      change.accepted_options = letters.sort();
+    }
+
+    const newKey = Object.fromEntries(KEY_FIELDS.map((field) => [field, question[field] ?? null])) as unknown as AnswerKey;
+    Object.assign(newKey, change);
+    newKey.voided = !!newKey.voided;
+
+    const marksPerQuestion = assessment.marks_per_question || 1;
+    const changes: ScoreChange[] = [];
+
+    // Assessment attempts: every attempt given the question
+    const { data: copies, error: copiesError } = await supabaseAdmin
+      .from("attempt_questions")
+      .select("attempt_id, content")
+      .eq("question_id", question_id);
+
+    if (copiesError) {
+      console.error("Error fetching question copies:", copiesError);
+      return new Response(
+        JSON.stringify({ error: "Failed to load affected attempts" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const attemptIds = (copies || []).map((c) => c.attempt_id);
+    const { data: attempts } = attemptIds.length > 0
+      ? await supabaseAdmin
+        .from("attempts")
+        .select("id, student_id, score, total_questions, passed, submitted_at, question_ids, profiles(full_name, email)")
+        .in("id", attemptIds)
+        .not("submitted_at", "is", null)
+      : { data: [] };
+
+    const submittedIds = (attempts || []).map((a) => a.id);
+    const [{ data: attemptCopies }, { data: attemptAnswers }] = submittedIds.length > 0
+      ? await Promise.all([
+        supabaseAdmin.from("attempt_questions").select("attempt_id, question_id, voided:content->voided").in("attempt_id", submittedIds),
+        supabaseAdmin.from("answers").select("id, attempt_id, question_id, selected_answer, response_text, is_correct, credit").in("attempt_id", submittedIds),
+      ])
+      : [{ data: [] }, { data: [] }];
+
+    const answerUpdates: AnswerUpdate[] = [];
+    const attemptUpdates: { id: string; score: number; total_questions: number; passed: boolean }[] = [];
+    const contacts = new Map<string, { full_name: string | null; email: string | null }>();
+
+    for (const attempt of attempts || []) {
+      const profile = attempt.profiles as { full_name: string | null; email: string | null } | null;
+      contacts.set(attempt.student_id, { full_name: profile?.full_name ?? null, email: profile?.email ?? null });
+
+      const given = (attemptCopies || []).filter((c) =>
+        c.attempt_id === attempt.id && (!attempt.question_ids || attempt.question_ids.includes(c.question_id))
+      );
+      const { earned, counted, update } = rescoreAttempt(
+        question_id,
+        newKey,
+        given,
+        (attemptAnswers || []).filter((a) => a.attempt_id === attempt.id) as StoredAnswer[]
+      );
+      if (update) answerUpdates.push(update);
+
+      const score = roundScore(earned * marksPerQuestion);
+      const maxScore = counted * marksPerQuestion;
+      const passed = (maxScore > 0 ? (score / maxScore) * 100 : 0) >= (assessment.passing_score || 50);
+      const beforeScore = Number(attempt.score) || 0;
+      const beforeTotal = attempt.total_questions || 0;
+
+      changes.push({
+        kind: "assessment",
+        student_id: attempt.student_id,
+        student_name: profile?.full_name || "Unknown",
+        before_score: beforeScore,
+        before_max: beforeTotal * marksPerQuestion,
+        after_score: score,
+        after_max: maxScore,
+        passed_before: attempt.passed,
+        passed_after: passed,
+      });
+      if (score !== beforeScore || counted !== beforeTotal || passed !== attempt.passed) {
+        attemptUpdates.push({ id: attempt.id, score, total_questions: counted, passed });
+      }
+    }
+
+    // Mock exam results: subject scores are rebuilt from the recorded answers,
+    // and every mock attempt's copy of the question takes the new key
+    const { data: mockCopies, error: mockCopiesError } = await supabaseAdmin
+      .from("mock_exam_attempt_questions")
+      .select("attempt_id, content")
+      .eq("question_id", question_id);
+
+    if (mockCopiesError) {
+      console.error("Error fetching mock question copies:", mockCopiesError);
+      return new Response(
+        JSON.stringify({ error: "Failed to load affected attempts" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: mockAnswers } = await supabaseAdmin
+      .from("mock_exam_answers")
+      .select("attempt_id")
+      .eq("question_id", question_id);
+
+    const mockAttemptIds = [...new Set((mockAnswers || []).map((a) => a.attempt_id))];
+    const { data: subjectResults } = await supabaseAdmin
+      .from("mock_exam_subject_results")
+      .select("id, attempt_id, score, total_questions")
+      .eq("assessment_id", assessment.id);
+
+    // Results submitted before mock answers were recorded can't be regraded
+    const unrecordedMockResults = (subjectResults || []).filter((r) => !mockAttemptIds.includes(r.attempt_id)).length;
+
+    const [{ data: mockAttempts }, { data: subjectAnswers }, { data: allSubjectResults }] = mockAttemptIds.length > 0
+      ? await Promise.all([
+        supabaseAdmin
+          .from("mock_exam_attempts")
+          .select("id, student_id, is_completed, mock_exams(marks_per_question), profiles!mock_exam_attempts_student_id_fkey(full_name, email)")
+          .in("id", mockAttemptIds),
+        supabaseAdmin
+          .from("mock_exam_answers")
+          .select("id, attempt_id, question_id, selected_answer, response_text, is_correct, credit")
+          .eq("assessment_id", assessment.id)
+          .in("attempt_id", mockAttemptIds),
+        supabaseAdmin
+          .from("mock_exam_subject_results")
+          .select("id, attempt_id, score, total_questions")
+          .in("attempt_id", mockAttemptIds),
+      ])
+      : [{ data: [] }, { data: [] }, { data: [] }];
+
+    const mockAnswerUpdates: typeof answerUpdates = [];
+    const subjectUpdates: { id: string; score: number; total_questions: number }[] = [];
+    const mockTotals: { id: string; total_score: number; total_questions: number }[] = [];
+
+    for (const mockAttempt of mockAttempts || []) {
+      const profile = mockAttempt.profiles as { full_name: string | null; email: string | null } | null;
+      contacts.set(mockAttempt.student_id, { full_name: profile?.full_name ?? null, email: profile?.email ?? null });
+      const marks = (mockAttempt.mock_exams as { marks_per_question: number } | null)?.marks_per_question || 1;
+      const result = (subjectResults || []).find((r) => r.attempt_id === mockAttempt.id);
+      if (!result) continue;
+
+      const { earned, counted, update } = rescoreSubject(
+        question_id,
+        newKey,
+        (subjectAnswers || []).filter((a) => a.attempt_id === mockAttempt.id) as StoredAnswer[]
+      );
+      if (update) mockAnswerUpdates.push(update);
+
+      // Subject results store the subject's marks as total_questions
+      const score = roundScore(earned * marks);
+      const maxScore = counted * marks;
+      changes.push({
+        kind: "mock",
+        student_id: mockAttempt.student_id,
+        student_name: profile?.full_name || "Unknown",
+        before_score: Number(result.score) || 0,
+        before_max: result.total_questions || 0,
+        after_score: score,
+        after_max: maxScore,
+        passed_before: null,
+        passed_after: null,
+      });
+      if (score !== Number(result.score) || maxScore !== result.total_questions) {
+        subjectUpdates.push({ id: result.id, score, total_questions: maxScore });
+      }
+
+      if (mockAttempt.is_completed) {
+        const others = (allSubjectResults || []).filter((r) => r.attempt_id === mockAttempt.id && r.id !== result.id);
+        mockTotals.push({
+          id: mockAttempt.id,
+          total_score: roundScore(others.reduce((sum, r) => sum + (Number(r.score) || 0), score)),
+          total_questions: others.reduce((sum, r) => sum + (r.total_questions || 0), maxScore),
+        });
+      }
+    }
+
+    const changed = changes.filter((c) => c.after_score !== c.before_score || c.after_max !== c.before_max);
+    const percent = (score: number, max: number) => (max > 0 ? (score / max) * 100 : 0);
+    const summary = {
+      attempts: changes.filter((c) => c.kind === "assessment").length,
+      mock_results: changes.filter((c) => c.kind === "mock").length,
+      unrecorded_mock_results: unrecordedMockResults,
+      changed: changed.length,
+      raised: changed.filter((c) => percent(c.after_score, c.after_max) > percent(c.before_score, c.before_max)).length,
+      lowered: changed.filter((c) => percent(c.after_score, c.after_max) < percent(c.before_score, c.before_max)).length,
+      newly_passed: changes.filter((c) => c.passed_before === false && c.passed_after === true).length,
+      newly_failed: changes.filter((c) => c.passed_before === true && c.passed_after === false).length,
+    };
+
+    if (!apply) {
+      return new Response(
+        JSON.stringify({ success: true, applied: false, summary, changes }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // The question itself, through the caller's session so its history
+    // records who corrected it; new attempts are graded the same way
+    const questionChanged = KEY_FIELDS.some((field) => JSON.stringify(question[field] ?? null) !== JSON.stringify(newKey[field] ?? null));
+    if (questionChanged) {
+      const { error: updateError } = await supabase
+        .from("questions")
+        .update(Object.fromEntries(KEY_FIELDS.map((field) => [field, newKey[field]])))
+        .eq("id", question_id);
+
+      if (updateError) {
+        console.error("Error updating question:", updateError);
+        return new Response(
+          JSON.stringify({ error: "Failed to update the question's answer key" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+
+    // Copies in every attempt, including ones still in progress, so they are
+    // graded with the new key when submitted. Answers are written before the
+    // totals built from them; a failed run can simply be repeated.
+    const results = await inBatches([
+      ...(copies || []).map((c) => () =>
+        supabaseAdmin
+          .from("attempt_questions")
+          .update({ content: { ...(c.content as Record<string, unknown>), ...newKey } })
+          .eq("attempt_id", c.attempt_id)
+          .eq("question_id", question_id)
+      ),
+      ...answerUpdates.map(({ id, ...fields }) => () => supabaseAdmin.from("answers").update(fields).eq("id", id)),
+      ...(mockCopies || []).map((c) => () =>
+        supabaseAdmin
+          .from("mock_exam_attempt_questions")
+          .update({ content: { ...(c.content as Record<string, unknown>), ...newKey } })
+          .eq("attempt_id", c.attempt_id)
+          .eq("question_id", question_id)
+      ),
+      ...mockAnswerUpdates.map(({ id, ...fields }) => () => supabaseAdmin.from("mock_exam_answers").update(fields).eq("id", id)),
+    ], (write) => write());
+    const totals = results.some((r) => r.error) ? [] : await inBatches([
+      ...attemptUpdates.map(({ id, ...fields }) => () => supabaseAdmin.from("attempts").update(fields).eq("id", id)),
+      ...subjectUpdates.map(({ id, ...fields }) => () => supabaseAdmin.from("mock_exam_subject_results").update(fields).eq("id", id)),
+      ...mockTotals.map(({ id, ...fields }) => () => supabaseAdmin.from("mock_exam_attempts").update(fields).eq("id", id)),
+    ], (write) => write());
+
+    const failed = [...results, ...totals].find((r) => r.error);
+    if (failed) {
+      console.error("Error applying regrade:", failed?.error);
+      return new Response(
+        JSON.stringify({ error: "The regrade was only partly saved. Run it again to finish." }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    let notified = 0;
+    const resendKey = Deno.env.get("RESEND_API_KEY");
+    if (notify && resendKey) {
+      const title = escapeHtml(assessment.title);
+      const recipients = changed.flatMap((c) => {
+        const contact = contacts.get(c.student_id);
+        return contact?.email ? [{ ...c, full_name: contact.full_name, email: contact.email }] : [];
+      });
+      const sent = await inBatches(recipients, (c) =>
+        fetch("https://api.resend.com/emails", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "Authorization": `Bearer ${resendKey}`,
+          },
+          body: JSON.stringify({
+            from: "F.S.Tutorial <onboarding@resend.dev>",
+            to: [c.email],
+            subject: `Your result has been updated - ${assessment.title}`,
+            html: `
+              <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+                <h1 style="color: #333;">Result Updated</h1>
+                <p>Dear ${escapeHtml(c.full_name || "Student")},</p>
+                <p>A question in <strong>${title}</strong> has been regraded after a correction to its answer key.</p>
+                <div style="background: #f5f5f5; padding: 20px; border-radius: 8px; margin: 20px 0;">
+                  <p><strong>Previous score:</strong> ${c.before_score}/${c.before_max}</p>
+                  <p><strong>New score:</strong> ${c.after_score}/${c.after_max}</p>
+                  ${c.passed_after !== null && c.passed_after !== c.passed_before ? `<p><strong>Result:</strong> ${c.passed_after ? "Passed" : "Not passed"}</p>` : ""}
+                </div>
+                <p>Best regards,<br>F.S.Tutorial Team</p>
+              </div>
+            `,
+          }),
+        }).then((r) => r.ok)
+      );
+      notified = sent.filter(Boolean).length;
+    } else if (notify) {
+      console.warn("RESEND_API_KEY is not configured; regrade notifications were not sent");
+    }
+
+    console.log(`Question regraded: question=${question_id}, action=${action}, changed=${changed.length}, by=${user.id}`);
+
+    return new Response(
+      JSON.stringify({ success: true, applied: true, summary, changes, notified }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+
+  } catch (err) {
+    console.error("Error in regrade-question:", err);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,207 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "No authorization header" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    // Verify user is authenticated
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { assessment_id } = await req.json();
+
+    if (!assessment_id) {
+      return new Response(
+        JSON.stringify({ error: "assessment_id is required" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabaseAdmin = createClient(
+      supabaseUrl,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const [{ data: assessment, error: assessmentError }, { data: profile }] = await Promise.all([
+      supabaseAdmin
+        .from("assessments")
+        .select("id, class_id, is_active, is_mock_exam, opens_at, closes_at, latest_start_at, max_attempts, attempt_cooldown_minutes")
+        .eq("id", assessment_id)
+        .single(),
+      supabaseAdmin.from("profiles").select("class_id").eq("id", user.id).maybeSingle(),
+    ]);
+
+    if (assessmentError || !assessment || assessment.is_mock_exam) {
+      return new Response(
+        JSON.stringify({ error: "Assessment not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!profile?.class_id || profile.class_id !== assessment.class_id) {
+      return new Response(
+        JSON.stringify({ error: "This assessment is not assigned to your class" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!assessment.is_active) {
+      return new Response(
+        JSON.stringify({ error: "This assessment is not active" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const now = Date.now();
+    if (assessment.opens_at && now < new Date(assessment.opens_at).getTime()) {
+      return new Response(
+        JSON.stringify({ error: "This assessment is not open yet", opens_at: assessment.opens_at }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // A student who already started carries on, whatever the schedule says now;
+    // the attempt's own deadline decides how long they have.
+    const { data: attempts, error: attemptsError } = await supabaseAdmin
+      .from("attempts")
+      .select("id, submitted_at, locked_at, started_at")
+      .eq("assessment_id", assessment_id)
+      .eq("student_id", user.id)
+      .order("started_at");
+
+    if (attemptsError) {
+      console.error("Error fetching attempts:", attemptsError);
+      return new Response(
+        JSON.stringify({ error: "Failed to check previous attempts" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const openAttempt = attempts?.find((a) => !a.submitted_at);
+    if (openAttempt) {
+      if (openAttempt.locked_at) {
+        return new Response(
+          JSON.stringify({ error: "Your attempt has been locked. Ask your invigilator to unlock it." }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      return new Response(
+        JSON.stringify({ success: true, attempt_id: openAttempt.id, resumed: true }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (assessment.closes_at && now >= new Date(assessment.closes_at).getTime()) {
+      return new Response(
+        JSON.stringify({ error: "This assessment has closed" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (assessment.latest_start_at && now > new Date(assessment.latest_start_at).getTime()) {
+      return new Response(
+        JSON.stringify({ error: "The latest start time for this assessment has passed" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const used = attempts?.length || 0;
+    if (assessment.max_attempts !== null && used >= assessment.max_attempts) {
+      return new Response(
+        JSON.stringify({ error: `You have used all ${assessment.max_attempts} attempt(s) for this assessment` }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const lastSubmitted = [...(attempts || [])].reverse().find((a) => a.submitted_at);
+    if (lastSubmitted && assessment.attempt_cooldown_minutes > 0) {
+      const availableAt = new Date(lastSubmitted.submitted_at!).getTime() + assessment.attempt_cooldown_minutes * 60 * 1000;
+      if (now < availableAt) {
+        return new Response(
+          JSON.stringify({ error: "You need to wait before starting another attempt", available_at: new Date(availableAt).toISOString() }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+
+    // The insert trigger re-checks the window and attempt policy under a
+    // per-student lock, so of two starts racing each other only one inserts.
+    const { data: attempt, error: insertError } = await supabaseAdmin
+      .from("attempts")
+      .insert({ student_id: user.id, assessment_id })
+      .select("id")
+      .single();
+
+    if (insertError || !attempt) {
+      // The other start won the race; carry on with the attempt it created
+      const { data: raced } = await supabaseAdmin
+        .from("attempts")
+        .select("id, locked_at")
+        .eq("assessment_id", assessment_id)
+        .eq("student_id", user.id)
+        .is("submitted_at", null)
+        .maybeSingle();
+
+      if (raced?.locked_at) {
+        return new Response(
+          JSON.stringify({ error: "Your attempt has been locked. Ask your invigilator to unlock it." }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      if (raced) {
+        return new Response(
+          JSON.stringify({ success: true, attempt_id: raced.id, resumed: true }),
+          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      console.error("Error creating attempt:", insertError);
+      return new Response(
+        JSON.stringify({ error: insertError?.message || "Failed to start assessment" }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    console.log(`Started attempt ${attempt.id} for assessment ${assessment_id} (user: ${user.id})`);
+
+    return new Response(
+      JSON.stringify({ success: true, attempt_id: attempt.id, resumed: false }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+
+  } catch (err) {
+    console.error("Error in start-assessment:", err);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
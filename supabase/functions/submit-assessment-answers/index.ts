@@ -1,11 +1,17 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { gradeAnswer, isTypedQuestion, roundScore, type AnswerKey } from "../_shared/grading.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+// Allowance for network latency on submissions made right at the deadline
+const SUBMISSION_GRACE_SECONDS = 60;
+
+const OPTION_LETTERS = ["A", "B", "C", "D", "E", "F"];
+
 interface AnswerSubmission {
   question_id: string;
   selected_answer: string;
@@ -41,11 +47,11 @@ serve(async (req) => {
       );
     }
 
-    const { attempt_id, answers, auto_submitted = false } = await req.json();
+    const { attempt_id, answers = [], auto_submitted = false } = await req.json();
 
-    if (!attempt_id || !answers || !Array.isArray(answers)) {
+    if (!attempt_id || !Array.isArray(answers)) {
       return new Response(
-        JSON.stringify({ error: "attempt_id and answers array are required" }),
+        JSON.stringify({ error: "attempt_id is required and answers must be an array" }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
@@ -58,7 +64,7 @@ serve(async (req) => {
     // Verify the attempt belongs to the user
     const { data: attempt, error: attemptError } = await supabaseAdmin
       .from("attempts")
-      .select("id, student_id, assessment_id, submitted_at")
+      .select("id, student_id, assessment_id, submitted_at, deadline_at, locked_at, question_ids, option_orders")
       .eq("id", attempt_id)
       .single();
 
@@ -69,11 +75,22 @@ serve(async (req) => {
       );
     }
 
+    // Staff can force-submit a stuck attempt from the live monitor. It is
+    // graded from the student's autosaved drafts only.
+    let forcedByStaff = false;
     if (attempt.student_id !== user.id) {
-      return new Response(
-        JSON.stringify({ error: "You can only submit your own attempts" }),
-        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      const [{ data: adminRole }, { data: ownAssessment }] = await Promise.all([
+        supabaseAdmin.from("user_roles").select("role").eq("user_id", user.id).eq("role", "admin").maybeSingle(),
+        supabaseAdmin.from("assessments").select("id").eq("id", attempt.assessment_id).eq("teacher_id", user.id).maybeSingle(),
+      ]);
+
+      if (!adminRole && !ownAssessment) {
+        return new Response(
+          JSON.stringify({ error: "You can only submit your own attempts" }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      forcedByStaff = true;
     }
 
     if (attempt.submitted_at) {
@@ -83,29 +100,129 @@ serve(async (req) => {
       );
     }
 
-    // Filter out answers with empty selected_answer (unanswered questions)
-    const validAnswers = (answers as AnswerSubmission[]).filter(a => a.selected_answer && a.selected_answer.trim() !== "");
-    const allAnswers = answers as AnswerSubmission[];
-    
-    // Get questions with correct answers (server-side only)
-    const questionIds = allAnswers.map(a => a.question_id);
-    const { data: questions, error: questionsError } = await supabaseAdmin
-      .from("questions")
-      .select("id, correct_answer")
-      .in("id", questionIds);
-
-    if (questionsError) {
-      console.error("Error fetching questions:", questionsError);
+    if (attempt.locked_at && !forcedByStaff) {
+      return new Response(
+        JSON.stringify({ error: "This attempt has been locked. Ask your invigilator to unlock it." }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Past the deadline (plus grace) only answers autosaved in time are graded
+    const cutoff = attempt.deadline_at
+      ? new Date(new Date(attempt.deadline_at).getTime() + SUBMISSION_GRACE_SECONDS * 1000)
+      : null;
+    const isLate = cutoff !== null && Date.now() > cutoff.getTime();
+
+    if (isLate) {
+      console.warn(`Late submission for attempt ${attempt_id}: deadline=${attempt.deadline_at}, user=${user.id}`);
+    }
+
+    // Grade against the copies of the questions saved when the paper was
+    // drawn, so edits made after the student started don't change the key
+    const { data: copies, error: copiesError } = await supabaseAdmin
+      .from("attempt_questions")
+      .select("content")
+      .eq("attempt_id", attempt_id);
+
+    if (copiesError) {
+      console.error("Error fetching question copies:", copiesError);
       return new Response(
         JSON.stringify({ error: "Failed to verify answers" }),
         { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
+    let questions = (copies || []).map(c => c.content as AnswerKey & { id: string });
+
+    // Attempts drawn before copies were kept are graded, and copied, as the
+    // questions stand now
+    if (questions.length === 0) {
+      const { data: rows, error: questionsError } = await supabaseAdmin
+        .from("questions")
+        .select("*")
+        .eq("assessment_id", attempt.assessment_id);
+
+      if (questionsError) {
+        console.error("Error fetching questions:", questionsError);
+        return new Response(
+          JSON.stringify({ error: "Failed to verify answers" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const given = (rows || []).filter(q => !attempt.question_ids || attempt.question_ids.includes(q.id));
+      if (given.length > 0) {
+        await supabaseAdmin
+          .from("attempt_questions")
+          .upsert(
+            given.map(q => ({ attempt_id, question_id: q.id, content: q })),
+            { onConflict: "attempt_id,question_id", ignoreDuplicates: true }
+          );
+      }
+      questions = given;
+    }
+
+    // Only the questions this attempt was actually given count towards the total
+    const presentedIds = attempt.question_ids ? new Set<string>(attempt.question_ids) : null;
+
     // Create a map for quick lookup
-    const correctAnswerMap = new Map(
-      questions?.map(q => [q.id, q.correct_answer]) || []
+    const correctAnswerMap = new Map<string, AnswerKey>(
+      questions?.filter(q => !presentedIds || presentedIds.has(q.id)).map(q => [q.id, q]) || []
+    );
+
+    // Shuffled attempts submit displayed letters; map them back to canonical
+    // ones, kept in alphabetical order for multiple-response answers
+    const optionOrders = (attempt.option_orders || {}) as Record<string, string>;
+    const toCanonical = (questionId: string, answer: string) => {
+      const order = optionOrders[questionId];
+      return answer
+        .split("")
+        .map((letter) => {
+          const position = OPTION_LETTERS.indexOf(letter);
+          return order && position >= 0 ? order[position] : letter;
+        })
+        .sort()
+        .join("");
+    };
+
+    // Start from the autosaved drafts. Answers sent with an on-time submit are
+    // the student's latest and replace them; a late or staff-forced submit
+    // counts only the drafts saved before the cutoff.
+    let draftsQuery = supabaseAdmin
+      .from("answer_drafts")
+      .select("question_id, selected_answer")
+      .eq("attempt_id", attempt_id);
+
+    if (isLate && cutoff) {
+      draftsQuery = draftsQuery.lte("updated_at", cutoff.toISOString());
+    }
+
+    const { data: drafts, error: draftsError } = await draftsQuery;
+
+    if (draftsError) {
+      console.error("Error fetching answer drafts:", draftsError);
+      return new Response(
+        JSON.stringify({ error: "Failed to load saved answers" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const selectedAnswerMap = new Map<string, string>(
+      drafts?.map(d => [d.question_id, d.selected_answer]) || []
     );
+    for (const answer of isLate || forcedByStaff ? [] : answers as AnswerSubmission[]) {
+      if (answer.selected_answer && answer.selected_answer.trim() !== "") {
+        selectedAnswerMap.set(answer.question_id, answer.selected_answer);
+      }
+    }
+
+    // Only grade answers that belong to this assessment's questions
+    const validAnswers: AnswerSubmission[] = [...selectedAnswerMap.entries()]
+      .filter(([questionId]) => correctAnswerMap.has(questionId))
+      .map(([question_id, selected_answer]) => ({
+        question_id,
+        selected_answer: isTypedQuestion(correctAnswerMap.get(question_id)!) ? selected_answer.trim() : toCanonical(question_id, selected_answer),
+      }));
 
     // Get assessment details including marks_per_question
     const { data: assessment } = await supabaseAdmin
@@ -118,22 +235,30 @@ serve(async (req) => {
 
     // Calculate score - only count answered questions
     let correctCount = 0;
+    let earnedCredit = 0;
     
-    // Prepare answer records only for answered questions (valid answers)
+    // Prepare answer records only for answered questions (valid answers).
+    // Answers to voided questions are kept but not graded.
     const answerRecords = validAnswers.map(answer => {
-      const isCorrect = answer.selected_answer === correctAnswerMap.get(answer.question_id);
+      const key = correctAnswerMap.get(answer.question_id)!;
+      const credit = key.voided ? null : gradeAnswer(answer.selected_answer, key);
+      const isCorrect = key.voided ? null : credit === 1;
       if (isCorrect) correctCount++;
+      earnedCredit += credit || 0;
+      // Typed responses go in response_text; selected_answer only holds option letters
       return {
         attempt_id,
         question_id: answer.question_id,
-        selected_answer: answer.selected_answer,
+        selected_answer: isTypedQuestion(key) ? null : answer.selected_answer,
+        response_text: isTypedQuestion(key) ? answer.selected_answer : null,
         is_correct: isCorrect,
+        credit,
       };
     });
 
     // Calculate total marks based on marks_per_question (total questions, not just answered)
-    const totalQuestions = allAnswers.length;
-    const score = correctCount * marksPerQuestion;
+    const totalQuestions = [...correctAnswerMap.values()].filter(key => !key.voided).length;
+    const score = roundScore(earnedCredit * marksPerQuestion);
     const maxScore = totalQuestions * marksPerQuestion;
     const percentage = maxScore > 0 ? (score / maxScore) * 100 : 0;
     const passed = percentage >= (assessment?.passing_score || 50);
@@ -163,7 +288,7 @@ serve(async (req) => {
         total_questions: totalQuestions,
         passed,
         submitted_at: new Date().toISOString(),
-        auto_submitted,
+        auto_submitted: auto_submitted || forcedByStaff,
       })
       .eq("id", attempt_id);
 
@@ -175,6 +300,14 @@ serve(async (req) => {
       );
     }
 
+    if (forcedByStaff) {
+      await supabaseAdmin.from("proctoring_events").insert({
+        attempt_id,
+        event_type: "force_submitted",
+        details: { submitted_by: user.id },
+      });
+    }
+
     console.log(`Assessment submitted: attempt=${attempt_id}, score=${score}/${maxScore}, passed=${passed}, user=${user.id}`);
 
     return new Response(
@@ -186,6 +319,7 @@ serve(async (req) => {
         correct_count: correctCount,
         passed,
         percentage: Math.round(percentage),
+        deadline_passed: isLate,
       }),
       { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
@@ -1,11 +1,15 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { gradePaper, roundScore, type AnswerKey } from "../_shared/grading.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+// Allowance for network latency on submissions made right at the deadline
+const SUBMISSION_GRACE_SECONDS = 60;
+
 interface AnswerSubmission {
   question_id: string;
   selected_answer: string;
@@ -64,7 +68,7 @@ serve(async (req) => {
     // Verify the attempt belongs to the user
     const { data: attempt, error: attemptError } = await supabaseAdmin
       .from("mock_exam_attempts")
-      .select("id, student_id, is_completed")
+      .select("id, student_id, is_completed, deadline_at, locked_at")
       .eq("id", attempt_id)
       .single();
 
@@ -89,18 +93,43 @@ serve(async (req) => {
       );
     }
 
-    // Filter out answers with empty selected_answer (unanswered questions)
+    if (attempt.locked_at) {
+      return new Response(
+        JSON.stringify({ error: "This attempt has been locked. Ask your invigilator to unlock it." }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Past the deadline (plus grace) only answers autosaved in time are graded
+    const cutoff = attempt.deadline_at
+      ? new Date(new Date(attempt.deadline_at).getTime() + SUBMISSION_GRACE_SECONDS * 1000)
+      : null;
+    const isLate = cutoff !== null && Date.now() > cutoff.getTime();
+
+    if (isLate) {
+      console.warn(`Late mock exam submission: attempt=${attempt_id}, deadline=${attempt.deadline_at}, user=${user.id}`);
+    }
+
     const allAnswers = answers as AnswerSubmission[];
-    const validAnswers = allAnswers.filter(a => a.selected_answer && a.selected_answer.trim() !== "");
-    
-    // Get questions with correct answers (server-side only)
+
+    // Grade against the attempt's copies of the subject's questions (server-side
+    // only). Subjects loaded before copies were kept use the live questions.
     const questionIds = allAnswers.map(a => a.question_id);
-    const { data: questions, error: questionsError } = await supabaseAdmin
-      .from("questions")
-      .select("id, correct_answer")
-      .in("id", questionIds);
+    const { data: copies, error: copiesError } = await supabaseAdmin
+      .from("mock_exam_attempt_questions")
+      .select("question_id, content")
+      .eq("attempt_id", attempt_id)
+      .eq("assessment_id", assessment_id);
 
-    if (questionsError) {
+    const { data: questions, error: questionsError } = copies && copies.length > 0
+      ? { data: copies.map(c => ({ ...(c.content as AnswerKey), id: c.question_id })), error: null }
+      : await supabaseAdmin
+        .from("questions")
+        .select("id, correct_answer, question_type, scoring_mode, numeric_answer, numeric_tolerance, numeric_min, numeric_max, answer_unit, accepted_answers, case_sensitive, accepted_options, voided")
+        .eq("assessment_id", assessment_id)
+        .in("id", questionIds);
+
+    if (copiesError || questionsError) {
       console.error("Error fetching questions:", questionsError);
       return new Response(
         JSON.stringify({ error: "Failed to verify answers" }),
@@ -109,8 +138,8 @@ serve(async (req) => {
     }
 
     // Create a map for quick lookup
-    const correctAnswerMap = new Map(
-      questions?.map(q => [q.id, q.correct_answer]) || []
+    const correctAnswerMap = new Map<string, AnswerKey>(
+      questions?.map(q => [q.id, q]) || []
     );
 
     // Get mock exam to retrieve marks_per_question
@@ -130,20 +159,62 @@ serve(async (req) => {
       marksPerQuestion = mockExam?.marks_per_question || 1;
     }
 
-    // Calculate score using marks_per_question - only count valid (answered) questions
-    let correctCount = 0;
-    validAnswers.forEach(answer => {
-      if (answer.selected_answer === correctAnswerMap.get(answer.question_id)) {
-        correctCount++;
+    // Start from the autosaved drafts. Answers sent with an on-time submit are
+    // the student's latest and replace them; a late submit counts only the
+    // drafts saved before the cutoff.
+    let draftsQuery = supabaseAdmin
+      .from("mock_exam_answer_drafts")
+      .select("question_id, selected_answer")
+      .eq("attempt_id", attempt_id);
+
+    if (isLate && cutoff) {
+      draftsQuery = draftsQuery.lte("updated_at", cutoff.toISOString());
+    }
+
+    const { data: drafts, error: draftsError } = await draftsQuery;
+
+    if (draftsError) {
+      console.error("Error fetching mock exam answer drafts:", draftsError);
+      return new Response(
+        JSON.stringify({ error: "Failed to load saved answers" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const answered = new Map<string, string>(
+      drafts?.map(d => [d.question_id, d.selected_answer]) || []
+    );
+    // Empty answers are unanswered questions
+    for (const answer of isLate ? [] : allAnswers) {
+      if (answer.selected_answer && answer.selected_answer.trim() !== "") {
+        answered.set(answer.question_id, answer.selected_answer);
       }
-    });
+    }
+
+    const graded = gradePaper(correctAnswerMap, answered);
+    const answerRecords = graded.answers.map(answer => ({ attempt_id, assessment_id, ...answer }));
+    const correctCount = graded.correct;
 
-    // Total questions is all questions (not just answered ones)
-    const totalQuestions = allAnswers.length;
-    const score = correctCount * marksPerQuestion;
+    // Total questions is every question on the paper (not just answered ones)
+    const totalQuestions = graded.counted;
+    const score = roundScore(graded.earned * marksPerQuestion);
     const maxScore = totalQuestions * marksPerQuestion;
-    
-    console.log(`Mock exam subject: total=${totalQuestions}, answered=${validAnswers.length}, correct=${correctCount}`);
+
+    console.log(`Mock exam subject: total=${totalQuestions}, answered=${graded.answers.filter(a => a.selected_answer || a.response_text).length}, correct=${correctCount}`);
+
+    if (answerRecords.length > 0) {
+      const { error: answersError } = await supabaseAdmin
+        .from("mock_exam_answers")
+        .upsert(answerRecords, { onConflict: "attempt_id,question_id" });
+
+      if (answersError) {
+        console.error("Error saving mock exam answers:", answersError);
+        return new Response(
+          JSON.stringify({ error: "Failed to save answers" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
 
     // Save subject result with marks-based score
     const { error: resultError } = await supabaseAdmin
@@ -179,7 +250,7 @@ serve(async (req) => {
 
       if (allResults) {
         for (const result of allResults) {
-          totalScore += result.score || 0;
+          totalScore += Number(result.score) || 0;
           totalExamQuestions += result.total_questions || 0;
         }
       }
@@ -190,7 +261,7 @@ serve(async (req) => {
         .update({
           is_completed: true,
           submitted_at: new Date().toISOString(),
-          total_score: totalScore,
+          total_score: roundScore(totalScore),
           total_questions: totalExamQuestions,
         })
         .eq("id", attempt_id);
@@ -212,6 +283,7 @@ serve(async (req) => {
         correct_count: correctCount,
         total_questions: totalQuestions,
         exam_completed: examCompleted,
+        deadline_passed: isLate,
         ...(examCompleted && { total_score: totalScore, total_exam_questions: totalExamQuestions }),
       }),
       { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
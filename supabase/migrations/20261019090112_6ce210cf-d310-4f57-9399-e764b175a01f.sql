@@ -0,0 +1,51 @@
+-- Autosaved answers for in-progress attempts, so a reload or crash can resume
+CREATE TABLE public.answer_drafts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  attempt_id uuid NOT NULL REFERENCES public.attempts(id) ON DELETE CASCADE,
+  question_id uuid NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  selected_answer text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (attempt_id, question_id)
+);
+ALTER TABLE public.answer_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_answer_drafts_attempt_id ON public.answer_drafts(attempt_id);
+
+CREATE TRIGGER update_answer_drafts_updated_at BEFORE UPDATE ON public.answer_drafts FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Students write drafts only while their attempt is still open
+CREATE POLICY "Students manage drafts for open attempts"
+  ON public.answer_drafts FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.attempts a
+      WHERE a.id = answer_drafts.attempt_id
+        AND a.student_id = auth.uid()
+        AND a.submitted_at IS NULL
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.attempts a
+      WHERE a.id = answer_drafts.attempt_id
+        AND a.student_id = auth.uid()
+        AND a.submitted_at IS NULL
+    )
+  );
+
+CREATE POLICY "Students view their own drafts"
+  ON public.answer_drafts FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.attempts a
+      WHERE a.id = answer_drafts.attempt_id AND a.student_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Staff view all drafts"
+  ON public.answer_drafts FOR SELECT
+  USING (has_role(auth.uid(), 'teacher'::app_role) OR has_role(auth.uid(), 'admin'::app_role));
+
+-- Remember where the student was so a resumed attempt reopens on the same question
+ALTER TABLE public.attempts ADD COLUMN current_question_index integer NOT NULL DEFAULT 0;
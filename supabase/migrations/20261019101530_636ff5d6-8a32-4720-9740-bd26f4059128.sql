@@ -0,0 +1,65 @@
+-- Server-authoritative deadlines for assessment and mock exam attempts
+ALTER TABLE public.attempts ADD COLUMN deadline_at timestamptz;
+ALTER TABLE public.mock_exam_attempts ADD COLUMN deadline_at timestamptz;
+
+UPDATE public.attempts at
+SET deadline_at = at.started_at + make_interval(mins => a.duration_minutes)
+FROM public.assessments a
+WHERE a.id = at.assessment_id AND at.started_at IS NOT NULL;
+
+UPDATE public.mock_exam_attempts mea
+SET deadline_at = mea.started_at + make_interval(mins => me.total_duration_minutes)
+FROM public.mock_exams me
+WHERE me.id = mea.mock_exam_id AND mea.started_at IS NOT NULL;
+
+-- started_at is always the server clock on insert, and students cannot move
+-- started_at or deadline_at afterwards (staff and the service role can).
+CREATE OR REPLACE FUNCTION public.set_attempt_deadline()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.started_at := now();
+    SELECT now() + make_interval(mins => a.duration_minutes) INTO NEW.deadline_at
+    FROM public.assessments a WHERE a.id = NEW.assessment_id;
+  ELSIF auth.uid() IS NOT NULL
+     AND NOT has_role(auth.uid(), 'admin'::app_role)
+     AND NOT has_role(auth.uid(), 'teacher'::app_role) THEN
+    NEW.started_at := OLD.started_at;
+    NEW.deadline_at := OLD.deadline_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_attempts_deadline
+BEFORE INSERT OR UPDATE ON public.attempts
+FOR EACH ROW EXECUTE FUNCTION public.set_attempt_deadline();
+
+CREATE OR REPLACE FUNCTION public.set_mock_exam_attempt_deadline()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.started_at := now();
+    SELECT now() + make_interval(mins => me.total_duration_minutes) INTO NEW.deadline_at
+    FROM public.mock_exams me WHERE me.id = NEW.mock_exam_id;
+  ELSIF auth.uid() IS NOT NULL
+     AND NOT has_role(auth.uid(), 'admin'::app_role)
+     AND NOT has_role(auth.uid(), 'teacher'::app_role) THEN
+    NEW.started_at := OLD.started_at;
+    NEW.deadline_at := OLD.deadline_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_mock_exam_attempts_deadline
+BEFORE INSERT OR UPDATE ON public.mock_exam_attempts
+FOR EACH ROW EXECUTE FUNCTION public.set_mock_exam_attempt_deadline();
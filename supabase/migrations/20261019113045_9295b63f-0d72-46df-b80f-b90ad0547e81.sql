@@ -0,0 +1,90 @@
+-- Per-assessment shuffling of question and option order
+ALTER TABLE public.assessments
+ADD COLUMN shuffle_questions boolean NOT NULL DEFAULT false,
+ADD COLUMN shuffle_options boolean NOT NULL DEFAULT false;
+
+-- Order each attempt was presented in, generated once (seeded by the attempt id)
+-- by get-assessment-questions.
+--   question_ids:  question ids in display order
+--   option_orders: { "<question_id>": "CADB" } - canonical letter shown at A, B, C, D
+ALTER TABLE public.attempts
+ADD COLUMN question_ids uuid[],
+ADD COLUMN option_orders jsonb;
+
+-- Helper: option text of a question by canonical letter
+CREATE OR REPLACE FUNCTION public.question_option(_q public.questions, _letter text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _letter
+    WHEN 'A' THEN _q.option_a
+    WHEN 'B' THEN _q.option_b
+    WHEN 'C' THEN _q.option_c
+    WHEN 'D' THEN _q.option_d
+  END;
+$$;
+
+-- Review questions in the order the student saw them. Options are returned in
+-- displayed order and correct_answer is the displayed letter; option_order maps
+-- displayed positions back to canonical letters (answers store canonical letters).
+DROP FUNCTION IF EXISTS public.get_review_questions(uuid);
+CREATE FUNCTION public.get_review_questions(_attempt_id uuid)
+RETURNS TABLE (
+  id uuid,
+  question_text text,
+  option_a text,
+  option_b text,
+  option_c text,
+  option_d text,
+  correct_answer text,
+  assessment_id uuid,
+  option_order text
+)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _assessment_id uuid;
+  _student uuid;
+  _question_ids uuid[];
+  _option_orders jsonb;
+BEGIN
+  SELECT a.assessment_id, a.student_id, a.question_ids, a.option_orders
+  INTO _assessment_id, _student, _question_ids, _option_orders
+  FROM public.attempts a WHERE a.id = _attempt_id;
+
+  IF _assessment_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF _student <> auth.uid()
+     AND NOT has_role(auth.uid(),'teacher'::app_role)
+     AND NOT has_role(auth.uid(),'admin'::app_role) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH ordered AS (
+    SELECT q, COALESCE(_option_orders ->> q.id::text, 'ABCD') AS ord,
+           array_position(_question_ids, q.id) AS pos
+    FROM public.questions q
+    WHERE q.assessment_id = _assessment_id
+  )
+  SELECT (o.q).id, (o.q).question_text,
+         public.question_option(o.q, substr(o.ord, 1, 1)),
+         public.question_option(o.q, substr(o.ord, 2, 1)),
+         public.question_option(o.q, substr(o.ord, 3, 1)),
+         public.question_option(o.q, substr(o.ord, 4, 1)),
+         substr('ABCD', strpos(o.ord, (o.q).correct_answer), 1),
+         (o.q).assessment_id,
+         o.ord
+  FROM ordered o
+  ORDER BY o.pos NULLS LAST, (o.q).created_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_review_questions(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_review_questions(uuid) TO authenticated;
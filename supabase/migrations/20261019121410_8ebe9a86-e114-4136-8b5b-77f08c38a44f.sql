@@ -0,0 +1,61 @@
+-- Draw a random subset of an assessment's questions for each attempt (NULL = all)
+ALTER TABLE public.assessments
+ADD COLUMN questions_per_attempt integer CHECK (questions_per_attempt IS NULL OR questions_per_attempt > 0);
+
+-- Review only the questions drawn for the attempt
+CREATE OR REPLACE FUNCTION public.get_review_questions(_attempt_id uuid)
+RETURNS TABLE (
+  id uuid,
+  question_text text,
+  option_a text,
+  option_b text,
+  option_c text,
+  option_d text,
+  correct_answer text,
+  assessment_id uuid,
+  option_order text
+)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _assessment_id uuid;
+  _student uuid;
+  _question_ids uuid[];
+  _option_orders jsonb;
+BEGIN
+  SELECT a.assessment_id, a.student_id, a.question_ids, a.option_orders
+  INTO _assessment_id, _student, _question_ids, _option_orders
+  FROM public.attempts a WHERE a.id = _attempt_id;
+
+  IF _assessment_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF _student <> auth.uid()
+     AND NOT has_role(auth.uid(),'teacher'::app_role)
+     AND NOT has_role(auth.uid(),'admin'::app_role) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH ordered AS (
+    SELECT q, COALESCE(_option_orders ->> q.id::text, 'ABCD') AS ord,
+           array_position(_question_ids, q.id) AS pos
+    FROM public.questions q
+    WHERE q.assessment_id = _assessment_id
+      AND (_question_ids IS NULL OR q.id = ANY(_question_ids))
+  )
+  SELECT (o.q).id, (o.q).question_text,
+         public.question_option(o.q, substr(o.ord, 1, 1)),
+         public.question_option(o.q, substr(o.ord, 2, 1)),
+         public.question_option(o.q, substr(o.ord, 3, 1)),
+         public.question_option(o.q, substr(o.ord, 4, 1)),
+         substr('ABCD', strpos(o.ord, (o.q).correct_answer), 1),
+         (o.q).assessment_id,
+         o.ord
+  FROM ordered o
+  ORDER BY o.pos NULLS LAST, (o.q).created_at;
+END;
+$$;
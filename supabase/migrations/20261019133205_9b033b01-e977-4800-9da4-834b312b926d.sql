@@ -0,0 +1,183 @@
+-- Configurable proctoring policy per assessment and mock exam
+ALTER TABLE public.assessments
+ADD COLUMN max_violations integer NOT NULL DEFAULT 3 CHECK (max_violations > 0),
+ADD COLUMN violation_action text NOT NULL DEFAULT 'auto_submit' CHECK (violation_action IN ('warn', 'auto_submit', 'lock')),
+ADD COLUMN require_fullscreen boolean NOT NULL DEFAULT false,
+ADD COLUMN block_copy_paste boolean NOT NULL DEFAULT false,
+ADD COLUMN detect_window_blur boolean NOT NULL DEFAULT false;
+
+ALTER TABLE public.mock_exams
+ADD COLUMN max_violations integer NOT NULL DEFAULT 3 CHECK (max_violations > 0),
+ADD COLUMN violation_action text NOT NULL DEFAULT 'auto_submit' CHECK (violation_action IN ('warn', 'auto_submit', 'lock')),
+ADD COLUMN require_fullscreen boolean NOT NULL DEFAULT false,
+ADD COLUMN block_copy_paste boolean NOT NULL DEFAULT false,
+ADD COLUMN detect_window_blur boolean NOT NULL DEFAULT false;
+
+-- Locked attempts stay frozen until staff unlock them
+ALTER TABLE public.attempts ADD COLUMN locked_at timestamptz;
+
+ALTER TABLE public.mock_exam_attempts
+ADD COLUMN violations integer NOT NULL DEFAULT 0,
+ADD COLUMN locked_at timestamptz;
+
+-- Timestamped proctoring events for an assessment or mock exam attempt
+CREATE TABLE public.proctoring_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  attempt_id uuid REFERENCES public.attempts(id) ON DELETE CASCADE,
+  mock_exam_attempt_id uuid REFERENCES public.mock_exam_attempts(id) ON DELETE CASCADE,
+  event_type text NOT NULL,
+  details jsonb,
+  occurred_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT proctoring_events_one_attempt CHECK (num_nonnulls(attempt_id, mock_exam_attempt_id) = 1)
+);
+ALTER TABLE public.proctoring_events ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_proctoring_events_attempt_id ON public.proctoring_events(attempt_id);
+CREATE INDEX idx_proctoring_events_mock_exam_attempt_id ON public.proctoring_events(mock_exam_attempt_id);
+
+CREATE POLICY "Students view their own proctoring events"
+  ON public.proctoring_events FOR SELECT
+  USING (
+    EXISTS (SELECT 1 FROM public.attempts a WHERE a.id = proctoring_events.attempt_id AND a.student_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM public.mock_exam_attempts m WHERE m.id = proctoring_events.mock_exam_attempt_id AND m.student_id = auth.uid())
+  );
+
+CREATE POLICY "Staff view all proctoring events"
+  ON public.proctoring_events FOR SELECT
+  USING (has_role(auth.uid(), 'teacher'::app_role) OR has_role(auth.uid(), 'admin'::app_role));
+
+-- Staff can unlock attempts
+CREATE POLICY "Teachers and admins update attempts"
+  ON public.attempts FOR UPDATE
+  USING (
+    has_role(auth.uid(), 'admin'::app_role)
+    OR EXISTS (
+      SELECT 1 FROM public.assessments a
+      WHERE a.id = attempts.assessment_id AND a.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins update mock exam attempts"
+  ON public.mock_exam_attempts FOR UPDATE
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Record a violation for the caller's open attempt, apply the policy and
+-- return the updated count. Pass exactly one of the attempt ids.
+CREATE OR REPLACE FUNCTION public.record_proctoring_event(
+  _event_type text,
+  _attempt_id uuid DEFAULT NULL,
+  _mock_exam_attempt_id uuid DEFAULT NULL,
+  _details jsonb DEFAULT NULL
+)
+RETURNS TABLE (violations integer, max_violations integer, violation_action text, locked boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count integer;
+  _max integer;
+  _action text;
+  _locked_at timestamptz;
+BEGIN
+  IF num_nonnulls(_attempt_id, _mock_exam_attempt_id) <> 1 THEN
+    RAISE EXCEPTION 'Exactly one attempt id is required';
+  END IF;
+
+  IF _attempt_id IS NOT NULL THEN
+    UPDATE public.attempts at
+    SET violations = COALESCE(at.violations, 0) + 1
+    FROM public.assessments a
+    WHERE at.id = _attempt_id
+      AND a.id = at.assessment_id
+      AND at.student_id = auth.uid()
+      AND at.submitted_at IS NULL
+      AND at.locked_at IS NULL
+    RETURNING at.violations, a.max_violations, a.violation_action
+    INTO _count, _max, _action;
+  ELSE
+    UPDATE public.mock_exam_attempts mea
+    SET violations = mea.violations + 1
+    FROM public.mock_exams me
+    WHERE mea.id = _mock_exam_attempt_id
+      AND me.id = mea.mock_exam_id
+      AND mea.student_id = auth.uid()
+      AND NOT COALESCE(mea.is_completed, false)
+      AND mea.locked_at IS NULL
+    RETURNING mea.violations, me.max_violations, me.violation_action
+    INTO _count, _max, _action;
+  END IF;
+
+  IF _count IS NULL THEN
+    RAISE EXCEPTION 'Attempt not found or no longer open';
+  END IF;
+
+  INSERT INTO public.proctoring_events (attempt_id, mock_exam_attempt_id, event_type, details)
+  VALUES (_attempt_id, _mock_exam_attempt_id, _event_type, _details);
+
+  IF _action = 'lock' AND _count >= _max THEN
+    _locked_at := now();
+    IF _attempt_id IS NOT NULL THEN
+      UPDATE public.attempts SET locked_at = _locked_at WHERE id = _attempt_id;
+    ELSE
+      UPDATE public.mock_exam_attempts SET locked_at = _locked_at WHERE id = _mock_exam_attempt_id;
+    END IF;
+    INSERT INTO public.proctoring_events (attempt_id, mock_exam_attempt_id, event_type)
+    VALUES (_attempt_id, _mock_exam_attempt_id, 'locked');
+  END IF;
+
+  RETURN QUERY SELECT _count, _max, _action, _locked_at IS NOT NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_proctoring_event(text, uuid, uuid, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_proctoring_event(text, uuid, uuid, jsonb) TO authenticated;
+
+-- Locked attempts cannot keep saving answers
+DROP POLICY IF EXISTS "Students manage drafts for open attempts" ON public.answer_drafts;
+CREATE POLICY "Students manage drafts for open attempts"
+  ON public.answer_drafts FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.attempts a
+      WHERE a.id = answer_drafts.attempt_id
+        AND a.student_id = auth.uid()
+        AND a.submitted_at IS NULL
+        AND a.locked_at IS NULL
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.attempts a
+      WHERE a.id = answer_drafts.attempt_id
+        AND a.student_id = auth.uid()
+        AND a.submitted_at IS NULL
+        AND a.locked_at IS NULL
+    )
+  );
+
+-- Students may update their own attempt rows, but only the proctoring
+-- function (running as its owner) and staff can change the counters or lock.
+CREATE OR REPLACE FUNCTION public.protect_proctoring_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user = 'authenticated'
+     AND NOT has_role(auth.uid(), 'admin'::app_role)
+     AND NOT has_role(auth.uid(), 'teacher'::app_role) THEN
+    NEW.violations := OLD.violations;
+    NEW.locked_at := OLD.locked_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_attempts_proctoring
+BEFORE UPDATE ON public.attempts
+FOR EACH ROW EXECUTE FUNCTION public.protect_proctoring_columns();
+
+CREATE TRIGGER protect_mock_exam_attempts_proctoring
+BEFORE UPDATE ON public.mock_exam_attempts
+FOR EACH ROW EXECUTE FUNCTION public.protect_proctoring_columns();
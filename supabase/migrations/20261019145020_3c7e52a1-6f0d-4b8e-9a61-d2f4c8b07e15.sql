@@ -0,0 +1,103 @@
+-- Heartbeats from students' exam pages, shown on the live monitoring board
+ALTER TABLE public.attempts
+ADD COLUMN last_heartbeat_at timestamptz,
+ADD COLUMN answered_count integer NOT NULL DEFAULT 0;
+
+ALTER TABLE public.mock_exam_attempts
+ADD COLUMN last_heartbeat_at timestamptz,
+ADD COLUMN answered_count integer NOT NULL DEFAULT 0,
+ADD COLUMN question_count integer NOT NULL DEFAULT 0;
+
+-- Record that the caller's open attempt is still alive and how far they are.
+-- Pass exactly one of the attempt ids.
+CREATE OR REPLACE FUNCTION public.record_attempt_heartbeat(
+  _attempt_id uuid DEFAULT NULL,
+  _mock_exam_attempt_id uuid DEFAULT NULL,
+  _answered_count integer DEFAULT 0,
+  _question_count integer DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF num_nonnulls(_attempt_id, _mock_exam_attempt_id) <> 1 THEN
+    RAISE EXCEPTION 'Exactly one attempt id is required';
+  END IF;
+
+  IF _attempt_id IS NOT NULL THEN
+    UPDATE public.attempts
+    SET last_heartbeat_at = now(), answered_count = GREATEST(_answered_count, 0)
+    WHERE id = _attempt_id AND student_id = auth.uid() AND submitted_at IS NULL;
+  ELSE
+    UPDATE public.mock_exam_attempts
+    SET last_heartbeat_at = now(),
+        answered_count = GREATEST(_answered_count, 0),
+        question_count = COALESCE(_question_count, question_count)
+    WHERE id = _mock_exam_attempt_id AND student_id = auth.uid() AND NOT COALESCE(is_completed, false);
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_attempt_heartbeat(uuid, uuid, integer, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_attempt_heartbeat(uuid, uuid, integer, integer) TO authenticated;
+
+-- Give a student extra time. Attempts that are already past their deadline
+-- get the extra minutes from now. Teachers may extend attempts on their own
+-- assessments; mock exams are admin-only like the rest of their management.
+CREATE OR REPLACE FUNCTION public.extend_attempt_deadline(
+  _minutes integer,
+  _attempt_id uuid DEFAULT NULL,
+  _mock_exam_attempt_id uuid DEFAULT NULL
+)
+RETURNS timestamptz
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _deadline timestamptz;
+BEGIN
+  IF num_nonnulls(_attempt_id, _mock_exam_attempt_id) <> 1 THEN
+    RAISE EXCEPTION 'Exactly one attempt id is required';
+  END IF;
+
+  IF _minutes IS NULL OR _minutes < 1 OR _minutes > 240 THEN
+    RAISE EXCEPTION 'Extra time must be between 1 and 240 minutes';
+  END IF;
+
+  IF _attempt_id IS NOT NULL THEN
+    UPDATE public.attempts at
+    SET deadline_at = GREATEST(COALESCE(at.deadline_at, now()), now()) + make_interval(mins => _minutes)
+    FROM public.assessments a
+    WHERE at.id = _attempt_id
+      AND a.id = at.assessment_id
+      AND at.submitted_at IS NULL
+      AND (has_role(auth.uid(), 'admin'::app_role) OR a.teacher_id = auth.uid())
+    RETURNING at.deadline_at INTO _deadline;
+  ELSIF has_role(auth.uid(), 'admin'::app_role) THEN
+    UPDATE public.mock_exam_attempts
+    SET deadline_at = GREATEST(COALESCE(deadline_at, now()), now()) + make_interval(mins => _minutes)
+    WHERE id = _mock_exam_attempt_id AND NOT COALESCE(is_completed, false)
+    RETURNING deadline_at INTO _deadline;
+  END IF;
+
+  IF _deadline IS NULL THEN
+    RAISE EXCEPTION 'Attempt not found, already submitted, or not yours to manage';
+  END IF;
+
+  INSERT INTO public.proctoring_events (attempt_id, mock_exam_attempt_id, event_type, details)
+  VALUES (_attempt_id, _mock_exam_attempt_id, 'time_extended',
+          jsonb_build_object('minutes', _minutes, 'extended_by', auth.uid()));
+
+  RETURN _deadline;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.extend_attempt_deadline(integer, uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.extend_attempt_deadline(integer, uuid, uuid) TO authenticated;
+
+-- Stream attempt changes to the monitoring board and to students' own exam pages
+ALTER PUBLICATION supabase_realtime ADD TABLE public.attempts;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.mock_exam_attempts;
@@ -0,0 +1,54 @@
+-- Multiple-attempt policy per assessment
+ALTER TABLE public.assessments
+ADD COLUMN max_attempts integer DEFAULT 1 CHECK (max_attempts IS NULL OR max_attempts > 0),
+ADD COLUMN attempt_cooldown_minutes integer NOT NULL DEFAULT 0 CHECK (attempt_cooldown_minutes >= 0),
+ADD COLUMN scoring_method text NOT NULL DEFAULT 'best' CHECK (scoring_method IN ('best', 'last', 'average'));
+
+COMMENT ON COLUMN public.assessments.max_attempts IS 'NULL means unlimited attempts';
+
+-- A new attempt is only allowed when the previous one is finished, the
+-- cooldown since it has passed and the student has attempts left.
+CREATE OR REPLACE FUNCTION public.enforce_attempt_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _assessment public.assessments;
+  _count integer;
+  _last public.attempts;
+BEGIN
+  SELECT * INTO _assessment FROM public.assessments WHERE id = NEW.assessment_id;
+
+  SELECT count(*) INTO _count
+  FROM public.attempts
+  WHERE assessment_id = NEW.assessment_id AND student_id = NEW.student_id;
+
+  SELECT * INTO _last
+  FROM public.attempts
+  WHERE assessment_id = NEW.assessment_id AND student_id = NEW.student_id
+  ORDER BY started_at DESC
+  LIMIT 1;
+
+  IF _last.id IS NOT NULL AND _last.submitted_at IS NULL THEN
+    RAISE EXCEPTION 'You already have an attempt in progress for this assessment';
+  END IF;
+
+  IF _assessment.max_attempts IS NOT NULL AND _count >= _assessment.max_attempts THEN
+    RAISE EXCEPTION 'You have used all % attempt(s) for this assessment', _assessment.max_attempts;
+  END IF;
+
+  IF _last.id IS NOT NULL
+     AND _last.submitted_at + make_interval(mins => _assessment.attempt_cooldown_minutes) > now() THEN
+    RAISE EXCEPTION 'You can start another attempt after %',
+      to_char(_last.submitted_at + make_interval(mins => _assessment.attempt_cooldown_minutes), 'YYYY-MM-DD HH24:MI TZ');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_attempts_policy
+BEFORE INSERT ON public.attempts
+FOR EACH ROW EXECUTE FUNCTION public.enforce_attempt_policy();
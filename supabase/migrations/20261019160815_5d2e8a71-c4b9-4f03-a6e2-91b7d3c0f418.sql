@@ -0,0 +1,94 @@
+-- Availability window per assessment. opens_at is the scheduled date/time as
+-- an absolute moment (written by the client, which knows the teacher's time
+-- zone); closes_at ends the window and latest_start_at is the last moment a
+-- new attempt may be started.
+ALTER TABLE public.assessments
+ADD COLUMN opens_at timestamptz,
+ADD COLUMN closes_at timestamptz,
+ADD COLUMN latest_start_at timestamptz,
+ADD CONSTRAINT assessments_window_order CHECK (
+  (closes_at IS NULL OR opens_at IS NULL OR closes_at > opens_at)
+  AND (latest_start_at IS NULL OR opens_at IS NULL OR latest_start_at >= opens_at)
+  AND (latest_start_at IS NULL OR closes_at IS NULL OR latest_start_at <= closes_at)
+);
+
+-- Existing assessments have no time zone on record, so use the database's
+UPDATE public.assessments
+SET opens_at = (scheduled_date + COALESCE(scheduled_time, '00:00'::time))::timestamptz
+WHERE scheduled_date IS NOT NULL AND NOT is_mock_exam;
+
+-- Attempt creation also checks the window, on top of the attempt policy
+CREATE OR REPLACE FUNCTION public.enforce_attempt_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _assessment public.assessments;
+  _count integer;
+  _last public.attempts;
+BEGIN
+  SELECT * INTO _assessment FROM public.assessments WHERE id = NEW.assessment_id;
+
+  IF _assessment.opens_at IS NOT NULL AND now() < _assessment.opens_at THEN
+    RAISE EXCEPTION 'This assessment opens at %', to_char(_assessment.opens_at, 'YYYY-MM-DD HH24:MI TZ');
+  END IF;
+
+  IF _assessment.closes_at IS NOT NULL AND now() >= _assessment.closes_at THEN
+    RAISE EXCEPTION 'This assessment closed at %', to_char(_assessment.closes_at, 'YYYY-MM-DD HH24:MI TZ');
+  END IF;
+
+  IF _assessment.latest_start_at IS NOT NULL AND now() > _assessment.latest_start_at THEN
+    RAISE EXCEPTION 'The latest start time for this assessment was %', to_char(_assessment.latest_start_at, 'YYYY-MM-DD HH24:MI TZ');
+  END IF;
+
+  SELECT count(*) INTO _count
+  FROM public.attempts
+  WHERE assessment_id = NEW.assessment_id AND student_id = NEW.student_id;
+
+  SELECT * INTO _last
+  FROM public.attempts
+  WHERE assessment_id = NEW.assessment_id AND student_id = NEW.student_id
+  ORDER BY started_at DESC
+  LIMIT 1;
+
+  IF _last.id IS NOT NULL AND _last.submitted_at IS NULL THEN
+    RAISE EXCEPTION 'You already have an attempt in progress for this assessment';
+  END IF;
+
+  IF _assessment.max_attempts IS NOT NULL AND _count >= _assessment.max_attempts THEN
+    RAISE EXCEPTION 'You have used all % attempt(s) for this assessment', _assessment.max_attempts;
+  END IF;
+
+  IF _last.id IS NOT NULL
+     AND _last.submitted_at + make_interval(mins => _assessment.attempt_cooldown_minutes) > now() THEN
+    RAISE EXCEPTION 'You can start another attempt after %',
+      to_char(_last.submitted_at + make_interval(mins => _assessment.attempt_cooldown_minutes), 'YYYY-MM-DD HH24:MI TZ');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- An attempt started late in the window ends when the window closes
+CREATE OR REPLACE FUNCTION public.set_attempt_deadline()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.started_at := now();
+    SELECT LEAST(now() + make_interval(mins => a.duration_minutes), a.closes_at) INTO NEW.deadline_at
+    FROM public.assessments a WHERE a.id = NEW.assessment_id;
+  ELSIF auth.uid() IS NOT NULL
+     AND NOT has_role(auth.uid(), 'admin'::app_role)
+     AND NOT has_role(auth.uid(), 'teacher'::app_role) THEN
+    NEW.started_at := OLD.started_at;
+    NEW.deadline_at := OLD.deadline_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,3 @@
+-- Attempts are created by the start-assessment edge function, which checks the
+-- student's class, the assessment's state and schedule first.
+DROP POLICY IF EXISTS "Students can create their own attempts" ON public.attempts;
@@ -0,0 +1,150 @@
+-- Multiple-response questions. correct_answer and selected_answer hold every
+-- chosen letter in alphabetical order, e.g. 'AC'.
+ALTER TABLE public.questions
+ADD COLUMN question_type text NOT NULL DEFAULT 'single' CHECK (question_type IN ('single', 'multiple')),
+ADD COLUMN scoring_mode text NOT NULL DEFAULT 'all_or_nothing' CHECK (scoring_mode IN ('all_or_nothing', 'partial'));
+
+ALTER TABLE public.questions DROP CONSTRAINT IF EXISTS questions_correct_answer_check;
+ALTER TABLE public.questions ADD CONSTRAINT questions_correct_answer_check CHECK (
+  correct_answer ~ '^A?B?C?D?$' AND correct_answer <> ''
+  AND (question_type = 'multiple' OR length(correct_answer) = 1)
+);
+
+ALTER TABLE public.question_bank
+ADD COLUMN question_type text NOT NULL DEFAULT 'single' CHECK (question_type IN ('single', 'multiple')),
+ADD COLUMN scoring_mode text NOT NULL DEFAULT 'all_or_nothing' CHECK (scoring_mode IN ('all_or_nothing', 'partial'));
+
+ALTER TABLE public.answers DROP CONSTRAINT IF EXISTS answers_selected_answer_check;
+ALTER TABLE public.answers ADD CONSTRAINT answers_selected_answer_check CHECK (selected_answer ~ '^A?B?C?D?$');
+
+-- Fraction of the question's marks earned (0-1); is_correct means full credit
+ALTER TABLE public.answers ADD COLUMN credit numeric;
+UPDATE public.answers SET credit = CASE WHEN is_correct THEN 1 ELSE 0 END;
+
+-- Partial credit can give fractional marks
+ALTER TABLE public.attempts ALTER COLUMN score TYPE numeric;
+ALTER TABLE public.mock_exam_subject_results ALTER COLUMN score TYPE numeric;
+ALTER TABLE public.mock_exam_attempts ALTER COLUMN total_score TYPE numeric;
+
+-- Helper: canonical letters as displayed under an option order, e.g. ('AC', 'CADB') -> 'AB'
+CREATE OR REPLACE FUNCTION public.display_letters(_letters text, _option_order text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT string_agg(substr('ABCD', strpos(_option_order, l), 1), '' ORDER BY strpos(_option_order, l))
+  FROM regexp_split_to_table(_letters, '') AS l;
+$$;
+
+DROP FUNCTION IF EXISTS public.get_review_questions(uuid);
+CREATE FUNCTION public.get_review_questions(_attempt_id uuid)
+RETURNS TABLE (
+  id uuid,
+  question_text text,
+  option_a text,
+  option_b text,
+  option_c text,
+  option_d text,
+  correct_answer text,
+  assessment_id uuid,
+  option_order text,
+  question_type text,
+  scoring_mode text
+)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _assessment_id uuid;
+  _student uuid;
+  _question_ids uuid[];
+  _option_orders jsonb;
+BEGIN
+  SELECT a.assessment_id, a.student_id, a.question_ids, a.option_orders
+  INTO _assessment_id, _student, _question_ids, _option_orders
+  FROM public.attempts a WHERE a.id = _attempt_id;
+
+  IF _assessment_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF _student <> auth.uid()
+     AND NOT has_role(auth.uid(),'teacher'::app_role)
+     AND NOT has_role(auth.uid(),'admin'::app_role) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH ordered AS (
+    SELECT q, COALESCE(_option_orders ->> q.id::text, 'ABCD') AS ord,
+           array_position(_question_ids, q.id) AS pos
+    FROM public.questions q
+    WHERE q.assessment_id = _assessment_id
+      AND (_question_ids IS NULL OR q.id = ANY(_question_ids))
+  )
+  SELECT (o.q).id, (o.q).question_text,
+         public.question_option(o.q, substr(o.ord, 1, 1)),
+         public.question_option(o.q, substr(o.ord, 2, 1)),
+         public.question_option(o.q, substr(o.ord, 3, 1)),
+         public.question_option(o.q, substr(o.ord, 4, 1)),
+         public.display_letters((o.q).correct_answer, o.ord),
+         (o.q).assessment_id,
+         o.ord,
+         (o.q).question_type,
+         (o.q).scoring_mode
+  FROM ordered o
+  ORDER BY o.pos NULLS LAST, (o.q).created_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_review_questions(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_review_questions(uuid) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.get_practice_questions(uuid);
+CREATE FUNCTION public.get_practice_questions(_subject_id uuid)
+ RETURNS TABLE(id uuid, question_text text, option_a text, option_b text, option_c text, option_d text, correct_answer text, assessment_id uuid, subject_id uuid, subject_name text, question_type text, scoring_mode text)
+ LANGUAGE sql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT q.id, q.question_text, q.option_a, q.option_b, q.option_c, q.option_d,
+         q.correct_answer, q.assessment_id, a.subject_id, s.name AS subject_name,
+         q.question_type, q.scoring_mode
+  FROM public.questions q
+  JOIN public.assessments a ON a.id = q.assessment_id
+  LEFT JOIN public.subjects s ON s.id = a.subject_id
+  WHERE a.class_id = public.get_user_class(auth.uid())
+    AND (_subject_id IS NULL OR a.subject_id = _subject_id);
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.get_practice_questions(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_practice_questions(uuid) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.get_question_bank_practice(uuid);
+CREATE FUNCTION public.get_question_bank_practice(_subject_id uuid)
+RETURNS TABLE (
+  id uuid,
+  question_text text,
+  option_a text,
+  option_b text,
+  option_c text,
+  option_d text,
+  subject_id uuid,
+  subject_name text,
+  question_type text,
+  scoring_mode text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT qb.id, qb.question_text, qb.option_a, qb.option_b, qb.option_c, qb.option_d,
+         qb.subject_id, s.name AS subject_name, qb.question_type, qb.scoring_mode
+  FROM public.question_bank qb
+  LEFT JOIN public.subjects s ON s.id = qb.subject_id
+  WHERE (qb.class_id IS NULL OR qb.class_id = public.get_user_class(auth.uid()))
+    AND (_subject_id IS NULL OR qb.subject_id = _subject_id);
+$$;
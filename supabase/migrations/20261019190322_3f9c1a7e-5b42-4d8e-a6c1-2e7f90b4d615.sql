@@ -0,0 +1,236 @@
+-- Questions carry between 2 and 6 options (A-F), filled from A without gaps.
+-- True/false questions are single-answer questions whose options are True and False.
+ALTER TABLE public.questions
+ADD COLUMN option_e text,
+ADD COLUMN option_f text,
+ALTER COLUMN option_c DROP NOT NULL,
+ALTER COLUMN option_d DROP NOT NULL;
+
+ALTER TABLE public.question_bank
+ADD COLUMN option_e text,
+ADD COLUMN option_f text,
+ALTER COLUMN option_c DROP NOT NULL,
+ALTER COLUMN option_d DROP NOT NULL;
+
+-- Number of options a question has, assuming they are filled without gaps
+CREATE OR REPLACE FUNCTION public.option_count(_c text, _d text, _e text, _f text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT 2 + (_c IS NOT NULL)::int + (_d IS NOT NULL)::int + (_e IS NOT NULL)::int + (_f IS NOT NULL)::int;
+$$;
+
+ALTER TABLE public.questions DROP CONSTRAINT IF EXISTS questions_question_type_check;
+ALTER TABLE public.questions ADD CONSTRAINT questions_question_type_check
+  CHECK (question_type IN ('single', 'multiple', 'true_false'));
+
+ALTER TABLE public.questions ADD CONSTRAINT questions_options_contiguous_check CHECK (
+  (option_d IS NULL OR option_c IS NOT NULL)
+  AND (option_e IS NULL OR option_d IS NOT NULL)
+  AND (option_f IS NULL OR option_e IS NOT NULL)
+  AND (question_type <> 'true_false' OR option_c IS NULL)
+);
+
+ALTER TABLE public.questions DROP CONSTRAINT IF EXISTS questions_correct_answer_check;
+ALTER TABLE public.questions ADD CONSTRAINT questions_correct_answer_check CHECK (
+  correct_answer ~ '^A?B?C?D?E?F?$' AND correct_answer <> ''
+  AND (question_type = 'multiple' OR length(correct_answer) = 1)
+  AND position(right(correct_answer, 1) IN 'ABCDEF') <= public.option_count(option_c, option_d, option_e, option_f)
+);
+
+ALTER TABLE public.question_bank DROP CONSTRAINT IF EXISTS question_bank_question_type_check;
+ALTER TABLE public.question_bank ADD CONSTRAINT question_bank_question_type_check
+  CHECK (question_type IN ('single', 'multiple', 'true_false'));
+
+ALTER TABLE public.question_bank ADD CONSTRAINT question_bank_options_contiguous_check CHECK (
+  (option_d IS NULL OR option_c IS NOT NULL)
+  AND (option_e IS NULL OR option_d IS NOT NULL)
+  AND (option_f IS NULL OR option_e IS NOT NULL)
+  AND (question_type <> 'true_false' OR option_c IS NULL)
+);
+
+-- The bank never had a check on correct_answer. Keys written like "Option A",
+-- "b" or "C, A" are reduced to their letters in alphabetical order.
+UPDATE public.question_bank qb
+SET correct_answer = fixed.letters
+FROM (
+  SELECT id,
+         (SELECT string_agg(DISTINCT l, '' ORDER BY l)
+          FROM regexp_split_to_table(regexp_replace(upper(correct_answer), '\mOPTIONS?\M|[^A-Z]', '', 'g'), '') AS l) AS letters
+  FROM public.question_bank
+) fixed
+WHERE qb.id = fixed.id
+  AND fixed.letters ~ '^[A-F]+$'
+  AND qb.correct_answer IS DISTINCT FROM fixed.letters;
+
+ALTER TABLE public.question_bank ADD CONSTRAINT question_bank_correct_answer_check CHECK (
+  correct_answer ~ '^A?B?C?D?E?F?$' AND correct_answer <> ''
+  AND (question_type = 'multiple' OR length(correct_answer) = 1)
+  AND position(right(correct_answer, 1) IN 'ABCDEF') <= public.option_count(option_c, option_d, option_e, option_f)
+) NOT VALID;
+
+-- Legacy keys that still aren't option letters are left for an admin to fix;
+-- until then the check applies to new and edited questions only
+DO $$
+BEGIN
+  ALTER TABLE public.question_bank VALIDATE CONSTRAINT question_bank_correct_answer_check;
+EXCEPTION WHEN check_violation THEN
+  RAISE NOTICE 'Some question_bank rows have a correct_answer that is not a valid key; fix them, then VALIDATE CONSTRAINT question_bank_correct_answer_check';
+END;
+$$;
+
+ALTER TABLE public.answers DROP CONSTRAINT IF EXISTS answers_selected_answer_check;
+ALTER TABLE public.answers ADD CONSTRAINT answers_selected_answer_check CHECK (selected_answer ~ '^A?B?C?D?E?F?$');
+
+CREATE OR REPLACE FUNCTION public.question_option(_q public.questions, _letter text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _letter
+    WHEN 'A' THEN _q.option_a
+    WHEN 'B' THEN _q.option_b
+    WHEN 'C' THEN _q.option_c
+    WHEN 'D' THEN _q.option_d
+    WHEN 'E' THEN _q.option_e
+    WHEN 'F' THEN _q.option_f
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.display_letters(_letters text, _option_order text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT string_agg(substr('ABCDEF', strpos(_option_order, l), 1), '' ORDER BY strpos(_option_order, l))
+  FROM regexp_split_to_table(_letters, '') AS l;
+$$;
+
+DROP FUNCTION IF EXISTS public.get_review_questions(uuid);
+CREATE FUNCTION public.get_review_questions(_attempt_id uuid)
+RETURNS TABLE (
+  id uuid,
+  question_text text,
+  option_a text,
+  option_b text,
+  option_c text,
+  option_d text,
+  option_e text,
+  option_f text,
+  correct_answer text,
+  assessment_id uuid,
+  option_order text,
+  question_type text,
+  scoring_mode text
+)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _assessment_id uuid;
+  _student uuid;
+  _question_ids uuid[];
+  _option_orders jsonb;
+BEGIN
+  SELECT a.assessment_id, a.student_id, a.question_ids, a.option_orders
+  INTO _assessment_id, _student, _question_ids, _option_orders
+  FROM public.attempts a WHERE a.id = _attempt_id;
+
+  IF _assessment_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF _student <> auth.uid()
+     AND NOT has_role(auth.uid(),'teacher'::app_role)
+     AND NOT has_role(auth.uid(),'admin'::app_role) THEN
+    RETURN;
+  END IF;
+
+  -- Unshuffled questions show their own options in authored order
+  RETURN QUERY
+  WITH ordered AS (
+    SELECT q, COALESCE(
+             _option_orders ->> q.id::text,
+             left('ABCDEF', public.option_count(q.option_c, q.option_d, q.option_e, q.option_f))
+           ) AS ord,
+           array_position(_question_ids, q.id) AS pos
+    FROM public.questions q
+    WHERE q.assessment_id = _assessment_id
+      AND (_question_ids IS NULL OR q.id = ANY(_question_ids))
+  )
+  SELECT (o.q).id, (o.q).question_text,
+         public.question_option(o.q, substr(o.ord, 1, 1)),
+         public.question_option(o.q, substr(o.ord, 2, 1)),
+         public.question_option(o.q, substr(o.ord, 3, 1)),
+         public.question_option(o.q, substr(o.ord, 4, 1)),
+         public.question_option(o.q, substr(o.ord, 5, 1)),
+         public.question_option(o.q, substr(o.ord, 6, 1)),
+         public.display_letters((o.q).correct_answer, o.ord),
+         (o.q).assessment_id,
+         o.ord,
+         (o.q).question_type,
+         (o.q).scoring_mode
+  FROM ordered o
+  ORDER BY o.pos NULLS LAST, (o.q).created_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_review_questions(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_review_questions(uuid) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.get_practice_questions(uuid);
+CREATE FUNCTION public.get_practice_questions(_subject_id uuid)
+ RETURNS TABLE(id uuid, question_text text, option_a text, option_b text, option_c text, option_d text, option_e text, option_f text, correct_answer text, assessment_id uuid, subject_id uuid, subject_name text, question_type text, scoring_mode text)
+ LANGUAGE sql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT q.id, q.question_text, q.option_a, q.option_b, q.option_c, q.option_d, q.option_e, q.option_f,
+         q.correct_answer, q.assessment_id, a.subject_id, s.name AS subject_name,
+         q.question_type, q.scoring_mode
+  FROM public.questions q
+  JOIN public.assessments a ON a.id = q.assessment_id
+  LEFT JOIN public.subjects s ON s.id = a.subject_id
+  WHERE a.class_id = public.get_user_class(auth.uid())
+    AND (_subject_id IS NULL OR a.subject_id = _subject_id);
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.get_practice_questions(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_practice_questions(uuid) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.get_question_bank_practice(uuid);
+CREATE FUNCTION public.get_question_bank_practice(_subject_id uuid)
+RETURNS TABLE (
+  id uuid,
+  question_text text,
+  option_a text,
+  option_b text,
+  option_c text,
+  option_d text,
+  option_e text,
+  option_f text,
+  subject_id uuid,
+  subject_name text,
+  question_type text,
+  scoring_mode text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT qb.id, qb.question_text, qb.option_a, qb.option_b, qb.option_c, qb.option_d, qb.option_e, qb.option_f,
+         qb.subject_id, s.name AS subject_name, qb.question_type, qb.scoring_mode
+  FROM public.question_bank qb
+  LEFT JOIN public.subjects s ON s.id = qb.subject_id
+  WHERE (qb.class_id IS NULL OR qb.class_id = public.get_user_class(auth.uid()))
+    AND (_subject_id IS NULL OR qb.subject_id = _subject_id);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_question_bank_practice(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_question_bank_practice(uuid) TO authenticated;
@@ -0,0 +1,227 @@
+-- Typed-answer questions. Numeric questions accept a value within a tolerance
+-- of numeric_answer, or within numeric_min..numeric_max, optionally followed by
+-- answer_unit. Short-text questions accept any of accepted_answers after
+-- trimming, collapsing whitespace and (unless case_sensitive) ignoring case.
+-- Neither has options or a correct_answer letter.
+ALTER TABLE public.questions
+ADD COLUMN numeric_answer numeric,
+ADD COLUMN numeric_tolerance numeric CHECK (numeric_tolerance >= 0),
+ADD COLUMN numeric_min numeric,
+ADD COLUMN numeric_max numeric,
+ADD COLUMN answer_unit text,
+ADD COLUMN accepted_answers text[],
+ADD COLUMN case_sensitive boolean NOT NULL DEFAULT false,
+ALTER COLUMN option_a DROP NOT NULL,
+ALTER COLUMN option_b DROP NOT NULL,
+ALTER COLUMN correct_answer DROP NOT NULL;
+
+ALTER TABLE public.question_bank
+ADD COLUMN numeric_answer numeric,
+ADD COLUMN numeric_tolerance numeric CHECK (numeric_tolerance >= 0),
+ADD COLUMN numeric_min numeric,
+ADD COLUMN numeric_max numeric,
+ADD COLUMN answer_unit text,
+ADD COLUMN accepted_answers text[],
+ADD COLUMN case_sensitive boolean NOT NULL DEFAULT false,
+ALTER COLUMN option_a DROP NOT NULL,
+ALTER COLUMN option_b DROP NOT NULL,
+ALTER COLUMN correct_answer DROP NOT NULL;
+
+ALTER TABLE public.questions DROP CONSTRAINT IF EXISTS questions_question_type_check;
+ALTER TABLE public.questions ADD CONSTRAINT questions_question_type_check
+  CHECK (question_type IN ('single', 'multiple', 'true_false', 'numeric', 'short_text'));
+
+ALTER TABLE public.questions DROP CONSTRAINT IF EXISTS questions_correct_answer_check;
+ALTER TABLE public.questions ADD CONSTRAINT questions_correct_answer_check CHECK (
+  CASE WHEN question_type IN ('numeric', 'short_text') THEN
+    correct_answer IS NULL AND option_a IS NULL AND option_b IS NULL AND option_c IS NULL
+  ELSE
+    option_a IS NOT NULL AND option_b IS NOT NULL AND correct_answer IS NOT NULL
+    AND correct_answer ~ '^A?B?C?D?E?F?$' AND correct_answer <> ''
+    AND (question_type = 'multiple' OR length(correct_answer) = 1)
+    AND position(right(correct_answer, 1) IN 'ABCDEF') <= public.option_count(option_c, option_d, option_e, option_f)
+  END
+);
+
+ALTER TABLE public.questions ADD CONSTRAINT questions_typed_answer_check CHECK (
+  CASE question_type
+    WHEN 'numeric' THEN numeric_answer IS NOT NULL
+      OR (numeric_min IS NOT NULL AND numeric_max IS NOT NULL AND numeric_min <= numeric_max)
+    WHEN 'short_text' THEN COALESCE(cardinality(accepted_answers), 0) > 0
+    ELSE true
+  END
+);
+
+ALTER TABLE public.question_bank DROP CONSTRAINT IF EXISTS question_bank_question_type_check;
+ALTER TABLE public.question_bank ADD CONSTRAINT question_bank_question_type_check
+  CHECK (question_type IN ('single', 'multiple', 'true_false', 'numeric', 'short_text'));
+
+ALTER TABLE public.question_bank DROP CONSTRAINT IF EXISTS question_bank_correct_answer_check;
+ALTER TABLE public.question_bank ADD CONSTRAINT question_bank_correct_answer_check CHECK (
+  CASE WHEN question_type IN ('numeric', 'short_text') THEN
+    correct_answer IS NULL AND option_a IS NULL AND option_b IS NULL AND option_c IS NULL
+  ELSE
+    option_a IS NOT NULL AND option_b IS NOT NULL AND correct_answer IS NOT NULL
+    AND correct_answer ~ '^A?B?C?D?E?F?$' AND correct_answer <> ''
+    AND (question_type = 'multiple' OR length(correct_answer) = 1)
+    AND position(right(correct_answer, 1) IN 'ABCDEF') <= public.option_count(option_c, option_d, option_e, option_f)
+  END
+) NOT VALID;
+
+-- Legacy keys that still aren't option letters are left for an admin to fix;
+-- until then the check applies to new and edited questions only
+DO $$
+BEGIN
+  ALTER TABLE public.question_bank VALIDATE CONSTRAINT question_bank_correct_answer_check;
+EXCEPTION WHEN check_violation THEN
+  RAISE NOTICE 'Some question_bank rows have a correct_answer that is not a valid key; fix them, then VALIDATE CONSTRAINT question_bank_correct_answer_check';
+END;
+$$;
+
+ALTER TABLE public.question_bank ADD CONSTRAINT question_bank_typed_answer_check CHECK (
+  CASE question_type
+    WHEN 'numeric' THEN numeric_answer IS NOT NULL
+      OR (numeric_min IS NOT NULL AND numeric_max IS NOT NULL AND numeric_min <= numeric_max)
+    WHEN 'short_text' THEN COALESCE(cardinality(accepted_answers), 0) > 0
+    ELSE true
+  END
+);
+
+-- What the student typed; selected_answer stays null for typed questions
+ALTER TABLE public.answers ADD COLUMN response_text text;
+
+DROP FUNCTION IF EXISTS public.get_review_questions(uuid);
+CREATE FUNCTION public.get_review_questions(_attempt_id uuid)
+RETURNS TABLE (
+  id uuid,
+  question_text text,
+  option_a text,
+  option_b text,
+  option_c text,
+  option_d text,
+  option_e text,
+  option_f text,
+  correct_answer text,
+  assessment_id uuid,
+  option_order text,
+  question_type text,
+  scoring_mode text,
+  numeric_answer numeric,
+  numeric_tolerance numeric,
+  numeric_min numeric,
+  numeric_max numeric,
+  answer_unit text,
+  accepted_answers text[]
+)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _assessment_id uuid;
+  _student uuid;
+  _question_ids uuid[];
+  _option_orders jsonb;
+BEGIN
+  SELECT a.assessment_id, a.student_id, a.question_ids, a.option_orders
+  INTO _assessment_id, _student, _question_ids, _option_orders
+  FROM public.attempts a WHERE a.id = _attempt_id;
+
+  IF _assessment_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF _student <> auth.uid()
+     AND NOT has_role(auth.uid(),'teacher'::app_role)
+     AND NOT has_role(auth.uid(),'admin'::app_role) THEN
+    RETURN;
+  END IF;
+
+  -- Unshuffled questions show their own options in authored order
+  RETURN QUERY
+  WITH ordered AS (
+    SELECT q, COALESCE(
+             _option_orders ->> q.id::text,
+             CASE WHEN q.option_a IS NOT NULL
+               THEN left('ABCDEF', public.option_count(q.option_c, q.option_d, q.option_e, q.option_f))
+               ELSE ''
+             END
+           ) AS ord,
+           array_position(_question_ids, q.id) AS pos
+    FROM public.questions q
+    WHERE q.assessment_id = _assessment_id
+      AND (_question_ids IS NULL OR q.id = ANY(_question_ids))
+  )
+  SELECT (o.q).id, (o.q).question_text,
+         public.question_option(o.q, substr(o.ord, 1, 1)),
+         public.question_option(o.q, substr(o.ord, 2, 1)),
+         public.question_option(o.q, substr(o.ord, 3, 1)),
+         public.question_option(o.q, substr(o.ord, 4, 1)),
+         public.question_option(o.q, substr(o.ord, 5, 1)),
+         public.question_option(o.q, substr(o.ord, 6, 1)),
+         public.display_letters((o.q).correct_answer, o.ord),
+         (o.q).assessment_id,
+         o.ord,
+         (o.q).question_type,
+         (o.q).scoring_mode,
+         (o.q).numeric_answer,
+         (o.q).numeric_tolerance,
+         (o.q).numeric_min,
+         (o.q).numeric_max,
+         (o.q).answer_unit,
+         (o.q).accepted_answers
+  FROM ordered o
+  ORDER BY o.pos NULLS LAST, (o.q).created_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_review_questions(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_review_questions(uuid) TO authenticated;
+
+-- Practice is graded in the browser from the letter key, so it sticks to
+-- choice questions
+CREATE OR REPLACE FUNCTION public.get_practice_questions(_subject_id uuid)
+ RETURNS TABLE(id uuid, question_text text, option_a text, option_b text, option_c text, option_d text, option_e text, option_f text, correct_answer text, assessment_id uuid, subject_id uuid, subject_name text, question_type text, scoring_mode text)
+ LANGUAGE sql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT q.id, q.question_text, q.option_a, q.option_b, q.option_c, q.option_d, q.option_e, q.option_f,
+         q.correct_answer, q.assessment_id, a.subject_id, s.name AS subject_name,
+         q.question_type, q.scoring_mode
+  FROM public.questions q
+  JOIN public.assessments a ON a.id = q.assessment_id
+  LEFT JOIN public.subjects s ON s.id = a.subject_id
+  WHERE a.class_id = public.get_user_class(auth.uid())
+    AND (_subject_id IS NULL OR a.subject_id = _subject_id)
+    AND q.question_type IN ('single', 'multiple', 'true_false');
+$function$;
+
+CREATE OR REPLACE FUNCTION public.get_question_bank_practice(_subject_id uuid)
+RETURNS TABLE (
+  id uuid,
+  question_text text,
+  option_a text,
+  option_b text,
+  option_c text,
+  option_d text,
+  option_e text,
+  option_f text,
+  subject_id uuid,
+  subject_name text,
+  question_type text,
+  scoring_mode text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT qb.id, qb.question_text, qb.option_a, qb.option_b, qb.option_c, qb.option_d, qb.option_e, qb.option_f,
+         qb.subject_id, s.name AS subject_name, qb.question_type, qb.scoring_mode
+  FROM public.question_bank qb
+  LEFT JOIN public.subjects s ON s.id = qb.subject_id
+  WHERE (qb.class_id IS NULL OR qb.class_id = public.get_user_class(auth.uid()))
+    AND (_subject_id IS NULL OR qb.subject_id = _subject_id)
+    AND qb.question_type IN ('single', 'multiple', 'true_false');
+$$;
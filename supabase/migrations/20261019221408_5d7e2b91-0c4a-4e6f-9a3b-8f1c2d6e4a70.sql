@@ -0,0 +1,260 @@
+-- Images on question stems and options. Columns hold paths in the private
+-- question-images bucket (layout: <uploader_id>/<filename>); copying a
+-- question copies the paths, so the image goes wherever the question goes.
+ALTER TABLE public.questions
+  ADD COLUMN question_image text,
+  ADD COLUMN option_a_image text,
+  ADD COLUMN option_b_image text,
+  ADD COLUMN option_c_image text,
+  ADD COLUMN option_d_image text,
+  ADD COLUMN option_e_image text,
+  ADD COLUMN option_f_image text;
+
+ALTER TABLE public.question_bank
+  ADD COLUMN question_image text,
+  ADD COLUMN option_a_image text,
+  ADD COLUMN option_b_image text,
+  ADD COLUMN option_c_image text,
+  ADD COLUMN option_d_image text,
+  ADD COLUMN option_e_image text,
+  ADD COLUMN option_f_image text;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('question-images', 'question-images', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Staff see every question image; a student only sees images used by a
+-- question in their class's assessments or in the bank they can practise from
+CREATE OR REPLACE FUNCTION public.can_view_question_image(_user_id uuid, _path text)
+RETURNS boolean
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin'::app_role)
+    OR public.has_role(_user_id, 'teacher'::app_role)
+    OR EXISTS (
+      SELECT 1
+      FROM public.questions q
+      JOIN public.assessments a ON a.id = q.assessment_id
+      WHERE a.class_id = public.get_user_class(_user_id)
+        AND _path IN (q.question_image, q.option_a_image, q.option_b_image, q.option_c_image,
+                      q.option_d_image, q.option_e_image, q.option_f_image)
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM public.question_bank qb
+      WHERE (qb.class_id IS NULL OR qb.class_id = public.get_user_class(_user_id))
+        AND _path IN (qb.question_image, qb.option_a_image, qb.option_b_image, qb.option_c_image,
+                      qb.option_d_image, qb.option_e_image, qb.option_f_image)
+    );
+$$;
+
+DROP POLICY IF EXISTS "Users read question images they can see" ON storage.objects;
+CREATE POLICY "Users read question images they can see"
+  ON storage.objects FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'question-images'
+    AND public.can_view_question_image(auth.uid(), name)
+  );
+
+DROP POLICY IF EXISTS "Staff upload question images to own folder" ON storage.objects;
+CREATE POLICY "Staff upload question images to own folder"
+  ON storage.objects FOR INSERT TO authenticated
+  WITH CHECK (
+    bucket_id = 'question-images'
+    AND (public.has_role(auth.uid(), 'admin'::app_role) OR public.has_role(auth.uid(), 'teacher'::app_role))
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+DROP POLICY IF EXISTS "Uploader or admin deletes question images" ON storage.objects;
+CREATE POLICY "Uploader or admin deletes question images"
+  ON storage.objects FOR DELETE TO authenticated
+  USING (
+    bucket_id = 'question-images' AND (
+      owner = auth.uid() OR public.has_role(auth.uid(), 'admin'::app_role)
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.question_option_image(_q public.questions, _letter text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _letter
+    WHEN 'A' THEN _q.option_a_image
+    WHEN 'B' THEN _q.option_b_image
+    WHEN 'C' THEN _q.option_c_image
+    WHEN 'D' THEN _q.option_d_image
+    WHEN 'E' THEN _q.option_e_image
+    WHEN 'F' THEN _q.option_f_image
+  END;
+$$;
+
+DROP FUNCTION IF EXISTS public.get_review_questions(uuid);
+CREATE FUNCTION public.get_review_questions(_attempt_id uuid)
+RETURNS TABLE (
+  id uuid,
+  question_text text,
+  option_a text,
+  option_b text,
+  option_c text,
+  option_d text,
+  option_e text,
+  option_f text,
+  correct_answer text,
+  assessment_id uuid,
+  option_order text,
+  question_type text,
+  scoring_mode text,
+  numeric_answer numeric,
+  numeric_tolerance numeric,
+  numeric_min numeric,
+  numeric_max numeric,
+  answer_unit text,
+  accepted_answers text[],
+  question_image text,
+  option_a_image text,
+  option_b_image text,
+  option_c_image text,
+  option_d_image text,
+  option_e_image text,
+  option_f_image text
+)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _assessment_id uuid;
+  _student uuid;
+  _question_ids uuid[];
+  _option_orders jsonb;
+BEGIN
+  SELECT a.assessment_id, a.student_id, a.question_ids, a.option_orders
+  INTO _assessment_id, _student, _question_ids, _option_orders
+  FROM public.attempts a WHERE a.id = _attempt_id;
+
+  IF _assessment_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF _student <> auth.uid()
+     AND NOT has_role(auth.uid(),'teacher'::app_role)
+     AND NOT has_role(auth.uid(),'admin'::app_role) THEN
+    RETURN;
+  END IF;
+
+  -- Unshuffled questions show their own options in authored order
+  RETURN QUERY
+  WITH ordered AS (
+    SELECT q, COALESCE(
+             _option_orders ->> q.id::text,
+             CASE WHEN q.option_a IS NOT NULL
+               THEN left('ABCDEF', public.option_count(q.option_c, q.option_d, q.option_e, q.option_f))
+               ELSE ''
+             END
+           ) AS ord,
+           array_position(_question_ids, q.id) AS pos
+    FROM public.questions q
+    WHERE q.assessment_id = _assessment_id
+      AND (_question_ids IS NULL OR q.id = ANY(_question_ids))
+  )
+  SELECT (o.q).id, (o.q).question_text,
+         public.question_option(o.q, substr(o.ord, 1, 1)),
+         public.question_option(o.q, substr(o.ord, 2, 1)),
+         public.question_option(o.q, substr(o.ord, 3, 1)),
+         public.question_option(o.q, substr(o.ord, 4, 1)),
+         public.question_option(o.q, substr(o.ord, 5, 1)),
+         public.question_option(o.q, substr(o.ord, 6, 1)),
+         public.display_letters((o.q).correct_answer, o.ord),
+         (o.q).assessment_id,
+         o.ord,
+         (o.q).question_type,
+         (o.q).scoring_mode,
+         (o.q).numeric_answer,
+         (o.q).numeric_tolerance,
+         (o.q).numeric_min,
+         (o.q).numeric_max,
+         (o.q).answer_unit,
+         (o.q).accepted_answers,
+         (o.q).question_image,
+         public.question_option_image(o.q, substr(o.ord, 1, 1)),
+         public.question_option_image(o.q, substr(o.ord, 2, 1)),
+         public.question_option_image(o.q, substr(o.ord, 3, 1)),
+         public.question_option_image(o.q, substr(o.ord, 4, 1)),
+         public.question_option_image(o.q, substr(o.ord, 5, 1)),
+         public.question_option_image(o.q, substr(o.ord, 6, 1))
+  FROM ordered o
+  ORDER BY o.pos NULLS LAST, (o.q).created_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_review_questions(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_review_questions(uuid) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.get_practice_questions(uuid);
+CREATE FUNCTION public.get_practice_questions(_subject_id uuid)
+ RETURNS TABLE(id uuid, question_text text, option_a text, option_b text, option_c text, option_d text, option_e text, option_f text, correct_answer text, assessment_id uuid, subject_id uuid, subject_name text, question_type text, scoring_mode text, question_image text, option_a_image text, option_b_image text, option_c_image text, option_d_image text, option_e_image text, option_f_image text)
+ LANGUAGE sql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT q.id, q.question_text, q.option_a, q.option_b, q.option_c, q.option_d, q.option_e, q.option_f,
+         q.correct_answer, q.assessment_id, a.subject_id, s.name AS subject_name,
+         q.question_type, q.scoring_mode,
+         q.question_image, q.option_a_image, q.option_b_image, q.option_c_image,
+         q.option_d_image, q.option_e_image, q.option_f_image
+  FROM public.questions q
+  JOIN public.assessments a ON a.id = q.assessment_id
+  LEFT JOIN public.subjects s ON s.id = a.subject_id
+  WHERE a.class_id = public.get_user_class(auth.uid())
+    AND (_subject_id IS NULL OR a.subject_id = _subject_id)
+    AND q.question_type IN ('single', 'multiple', 'true_false');
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.get_practice_questions(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_practice_questions(uuid) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.get_question_bank_practice(uuid);
+CREATE FUNCTION public.get_question_bank_practice(_subject_id uuid)
+RETURNS TABLE (
+  id uuid,
+  question_text text,
+  option_a text,
+  option_b text,
+  option_c text,
+  option_d text,
+  option_e text,
+  option_f text,
+  subject_id uuid,
+  subject_name text,
+  question_type text,
+  scoring_mode text,
+  question_image text,
+  option_a_image text,
+  option_b_image text,
+  option_c_image text,
+  option_d_image text,
+  option_e_image text,
+  option_f_image text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT qb.id, qb.question_text, qb.option_a, qb.option_b, qb.option_c, qb.option_d, qb.option_e, qb.option_f,
+         qb.subject_id, s.name AS subject_name, qb.question_type, qb.scoring_mode,
+         qb.question_image, qb.option_a_image, qb.option_b_image, qb.option_c_image,
+         qb.option_d_image, qb.option_e_image, qb.option_f_image
+  FROM public.question_bank qb
+  LEFT JOIN public.subjects s ON s.id = qb.subject_id
+  WHERE (qb.class_id IS NULL OR qb.class_id = public.get_user_class(auth.uid()))
+    AND (_subject_id IS NULL OR qb.subject_id = _subject_id)
+    AND qb.question_type IN ('single', 'multiple', 'true_false');
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_question_bank_practice(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_question_bank_practice(uuid) TO authenticated;
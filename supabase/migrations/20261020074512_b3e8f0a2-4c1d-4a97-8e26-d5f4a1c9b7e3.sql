@@ -0,0 +1,161 @@
+-- Per-question explanations with an optional reference (a textbook section,
+-- class material or link), shown once a question has been graded
+ALTER TABLE public.questions
+  ADD COLUMN explanation text,
+  ADD COLUMN reference_title text,
+  ADD COLUMN reference_url text CHECK (reference_url IS NULL OR reference_url ~* '^https?://');
+
+ALTER TABLE public.question_bank
+  ADD COLUMN explanation text,
+  ADD COLUMN reference_title text,
+  ADD COLUMN reference_url text CHECK (reference_url IS NULL OR reference_url ~* '^https?://');
+
+DROP FUNCTION IF EXISTS public.get_review_questions(uuid);
+CREATE FUNCTION public.get_review_questions(_attempt_id uuid)
+RETURNS TABLE (
+  id uuid,
+  question_text text,
+  option_a text,
+  option_b text,
+  option_c text,
+  option_d text,
+  option_e text,
+  option_f text,
+  correct_answer text,
+  assessment_id uuid,
+  option_order text,
+  question_type text,
+  scoring_mode text,
+  numeric_answer numeric,
+  numeric_tolerance numeric,
+  numeric_min numeric,
+  numeric_max numeric,
+  answer_unit text,
+  accepted_answers text[],
+  question_image text,
+  option_a_image text,
+  option_b_image text,
+  option_c_image text,
+  option_d_image text,
+  option_e_image text,
+  option_f_image text,
+  explanation text,
+  reference_title text,
+  reference_url text
+)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _assessment_id uuid;
+  _student uuid;
+  _question_ids uuid[];
+  _option_orders jsonb;
+BEGIN
+  SELECT a.assessment_id, a.student_id, a.question_ids, a.option_orders
+  INTO _assessment_id, _student, _question_ids, _option_orders
+  FROM public.attempts a WHERE a.id = _attempt_id;
+
+  IF _assessment_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF _student <> auth.uid()
+     AND NOT has_role(auth.uid(),'teacher'::app_role)
+     AND NOT has_role(auth.uid(),'admin'::app_role) THEN
+    RETURN;
+  END IF;
+
+  -- Unshuffled questions show their own options in authored order
+  RETURN QUERY
+  WITH ordered AS (
+    SELECT q, COALESCE(
+             _option_orders ->> q.id::text,
+             CASE WHEN q.option_a IS NOT NULL
+               THEN left('ABCDEF', public.option_count(q.option_c, q.option_d, q.option_e, q.option_f))
+               ELSE ''
+             END
+           ) AS ord,
+           array_position(_question_ids, q.id) AS pos
+    FROM public.questions q
+    WHERE q.assessment_id = _assessment_id
+      AND (_question_ids IS NULL OR q.id = ANY(_question_ids))
+  )
+  SELECT (o.q).id, (o.q).question_text,
+         public.question_option(o.q, substr(o.ord, 1, 1)),
+         public.question_option(o.q, substr(o.ord, 2, 1)),
+         public.question_option(o.q, substr(o.ord, 3, 1)),
+         public.question_option(o.q, substr(o.ord, 4, 1)),
+         public.question_option(o.q, substr(o.ord, 5, 1)),
+         public.question_option(o.q, substr(o.ord, 6, 1)),
+         public.display_letters((o.q).correct_answer, o.ord),
+         (o.q).assessment_id,
+         o.ord,
+         (o.q).question_type,
+         (o.q).scoring_mode,
+         (o.q).numeric_answer,
+         (o.q).numeric_tolerance,
+         (o.q).numeric_min,
+         (o.q).numeric_max,
+         (o.q).answer_unit,
+         (o.q).accepted_answers,
+         (o.q).question_image,
+         public.question_option_image(o.q, substr(o.ord, 1, 1)),
+         public.question_option_image(o.q, substr(o.ord, 2, 1)),
+         public.question_option_image(o.q, substr(o.ord, 3, 1)),
+         public.question_option_image(o.q, substr(o.ord, 4, 1)),
+         public.question_option_image(o.q, substr(o.ord, 5, 1)),
+         public.question_option_image(o.q, substr(o.ord, 6, 1)),
+         (o.q).explanation,
+         (o.q).reference_title,
+         (o.q).reference_url
+  FROM ordered o
+  ORDER BY o.pos NULLS LAST, (o.q).created_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_review_questions(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_review_questions(uuid) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.get_practice_questions(uuid);
+CREATE FUNCTION public.get_practice_questions(_subject_id uuid)
+ RETURNS TABLE(id uuid, question_text text, option_a text, option_b text, option_c text, option_d text, option_e text, option_f text, correct_answer text, assessment_id uuid, subject_id uuid, subject_name text, question_type text, scoring_mode text, question_image text, option_a_image text, option_b_image text, option_c_image text, option_d_image text, option_e_image text, option_f_image text, explanation text, reference_title text, reference_url text)
+ LANGUAGE sql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT q.id, q.question_text, q.option_a, q.option_b, q.option_c, q.option_d, q.option_e, q.option_f,
+         q.correct_answer, q.assessment_id, a.subject_id, s.name AS subject_name,
+         q.question_type, q.scoring_mode,
+         q.question_image, q.option_a_image, q.option_b_image, q.option_c_image,
+         q.option_d_image, q.option_e_image, q.option_f_image,
+         q.explanation, q.reference_title, q.reference_url
+  FROM public.questions q
+  JOIN public.assessments a ON a.id = q.assessment_id
+  LEFT JOIN public.subjects s ON s.id = a.subject_id
+  WHERE a.class_id = public.get_user_class(auth.uid())
+    AND (_subject_id IS NULL OR a.subject_id = _subject_id)
+    AND q.question_type IN ('single', 'multiple', 'true_false');
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.get_practice_questions(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_practice_questions(uuid) TO authenticated;
+
+-- Bank practice reveals the key and the explanation together, after grading
+DROP FUNCTION IF EXISTS public.grade_question_bank(uuid[]);
+CREATE FUNCTION public.grade_question_bank(_question_ids uuid[])
+RETURNS TABLE (id uuid, correct_answer text, explanation text, reference_title text, reference_url text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT qb.id, qb.correct_answer, qb.explanation, qb.reference_title, qb.reference_url
+  FROM public.question_bank qb
+  WHERE qb.id = ANY(_question_ids)
+    AND (qb.class_id IS NULL OR qb.class_id = public.get_user_class(auth.uid()));
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.grade_question_bank(uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.grade_question_bank(uuid[]) TO authenticated;
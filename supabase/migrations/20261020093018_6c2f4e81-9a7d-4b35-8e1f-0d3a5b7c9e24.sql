@@ -0,0 +1,200 @@
+-- Topics and subtopics below each subject, e.g. Musculoskeletal → Knee → ACL
+CREATE TABLE public.topics (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  subject_id uuid NOT NULL REFERENCES public.subjects(id) ON DELETE CASCADE,
+  parent_id uuid REFERENCES public.topics(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(btrim(name)) BETWEEN 1 AND 100),
+  created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Sibling topics have distinct names; top-level topics are siblings within a subject
+CREATE UNIQUE INDEX topics_sibling_name_key
+  ON public.topics (subject_id, COALESCE(parent_id, '00000000-0000-0000-0000-000000000000'::uuid), lower(btrim(name)));
+CREATE INDEX topics_parent_id_idx ON public.topics (parent_id);
+
+-- A topic and everything below it
+CREATE OR REPLACE FUNCTION public.topic_subtree(_topic_id uuid)
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH RECURSIVE tree AS (
+    SELECT t.id FROM public.topics t WHERE t.id = _topic_id
+    UNION
+    SELECT c.id FROM public.topics c JOIN tree ON c.parent_id = tree.id
+  )
+  SELECT id FROM tree;
+$$;
+
+-- Subtopics stay in their parent's subject and can't be moved below themselves
+CREATE OR REPLACE FUNCTION public.check_topic_parent()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.topics WHERE id = NEW.parent_id AND subject_id = NEW.subject_id) THEN
+    RAISE EXCEPTION 'A subtopic must belong to the same subject as its parent';
+  END IF;
+  IF TG_OP = 'UPDATE' AND NEW.parent_id IN (SELECT public.topic_subtree(NEW.id)) THEN
+    RAISE EXCEPTION 'A topic cannot be moved below one of its own subtopics';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_topic_parent
+  BEFORE INSERT OR UPDATE OF parent_id, subject_id ON public.topics
+  FOR EACH ROW EXECUTE FUNCTION public.check_topic_parent();
+
+ALTER TABLE public.topics ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view topics"
+  ON public.topics FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage topics"
+  ON public.topics FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Teachers extend and rename the taxonomy of their own subjects; only
+-- admins delete topics, since that untags questions across the school
+CREATE POLICY "Teachers can add topics for their subjects"
+  ON public.topics FOR INSERT
+  WITH CHECK (
+    has_role(auth.uid(), 'teacher'::app_role) AND EXISTS (
+      SELECT 1 FROM public.teacher_subjects WHERE teacher_id = auth.uid() AND subject_id = topics.subject_id
+    )
+  );
+
+CREATE POLICY "Teachers can rename topics for their subjects"
+  ON public.topics FOR UPDATE
+  USING (
+    has_role(auth.uid(), 'teacher'::app_role) AND EXISTS (
+      SELECT 1 FROM public.teacher_subjects WHERE teacher_id = auth.uid() AND subject_id = topics.subject_id
+    )
+  );
+
+-- Each question is filed under one topic at any level, plus free-form tags
+ALTER TABLE public.questions
+  ADD COLUMN topic_id uuid REFERENCES public.topics(id) ON DELETE SET NULL,
+  ADD COLUMN tags text[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.question_bank
+  ADD COLUMN topic_id uuid REFERENCES public.topics(id) ON DELETE SET NULL,
+  ADD COLUMN tags text[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX questions_topic_id_idx ON public.questions (topic_id);
+CREATE INDEX question_bank_topic_id_idx ON public.question_bank (topic_id);
+CREATE INDEX question_bank_tags_idx ON public.question_bank USING gin (tags);
+
+-- Practice can be narrowed to a topic and its subtopics
+DROP FUNCTION IF EXISTS public.get_practice_questions(uuid);
+CREATE FUNCTION public.get_practice_questions(_subject_id uuid, _topic_id uuid DEFAULT NULL)
+ RETURNS TABLE(id uuid, question_text text, option_a text, option_b text, option_c text, option_d text, option_e text, option_f text, correct_answer text, assessment_id uuid, subject_id uuid, subject_name text, question_type text, scoring_mode text, question_image text, option_a_image text, option_b_image text, option_c_image text, option_d_image text, option_e_image text, option_f_image text, explanation text, reference_title text, reference_url text, topic_id uuid)
+ LANGUAGE sql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT q.id, q.question_text, q.option_a, q.option_b, q.option_c, q.option_d, q.option_e, q.option_f,
+         q.correct_answer, q.assessment_id, a.subject_id, s.name AS subject_name,
+         q.question_type, q.scoring_mode,
+         q.question_image, q.option_a_image, q.option_b_image, q.option_c_image,
+         q.option_d_image, q.option_e_image, q.option_f_image,
+         q.explanation, q.reference_title, q.reference_url, q.topic_id
+  FROM public.questions q
+  JOIN public.assessments a ON a.id = q.assessment_id
+  LEFT JOIN public.subjects s ON s.id = a.subject_id
+  WHERE a.class_id = public.get_user_class(auth.uid())
+    AND (_subject_id IS NULL OR a.subject_id = _subject_id)
+    AND (_topic_id IS NULL OR q.topic_id IN (SELECT public.topic_subtree(_topic_id)))
+    AND q.question_type IN ('single', 'multiple', 'true_false');
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.get_practice_questions(uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_practice_questions(uuid, uuid) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.get_question_bank_practice(uuid);
+CREATE FUNCTION public.get_question_bank_practice(_subject_id uuid, _topic_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  id uuid,
+  question_text text,
+  option_a text,
+  option_b text,
+  option_c text,
+  option_d text,
+  option_e text,
+  option_f text,
+  subject_id uuid,
+  subject_name text,
+  question_type text,
+  scoring_mode text,
+  question_image text,
+  option_a_image text,
+  option_b_image text,
+  option_c_image text,
+  option_d_image text,
+  option_e_image text,
+  option_f_image text,
+  topic_id uuid
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT qb.id, qb.question_text, qb.option_a, qb.option_b, qb.option_c, qb.option_d, qb.option_e, qb.option_f,
+         qb.subject_id, s.name AS subject_name, qb.question_type, qb.scoring_mode,
+         qb.question_image, qb.option_a_image, qb.option_b_image, qb.option_c_image,
+         qb.option_d_image, qb.option_e_image, qb.option_f_image, qb.topic_id
+  FROM public.question_bank qb
+  LEFT JOIN public.subjects s ON s.id = qb.subject_id
+  WHERE (qb.class_id IS NULL OR qb.class_id = public.get_user_class(auth.uid()))
+    AND (_subject_id IS NULL OR qb.subject_id = _subject_id)
+    AND (_topic_id IS NULL OR qb.topic_id IN (SELECT public.topic_subtree(_topic_id)))
+    AND qb.question_type IN ('single', 'multiple', 'true_false');
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_question_bank_practice(uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_question_bank_practice(uuid, uuid) TO authenticated;
+
+-- Marks earned per topic across a student's submitted attempts. Every
+-- question the student was given counts, answered or not; the client rolls
+-- the totals up to parent topics.
+CREATE OR REPLACE FUNCTION public.get_topic_scores(_student_id uuid)
+RETURNS TABLE (topic_id uuid, questions bigint, earned numeric)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _student_id <> auth.uid()
+     AND NOT has_role(auth.uid(),'teacher'::app_role)
+     AND NOT has_role(auth.uid(),'admin'::app_role) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT q.topic_id,
+         count(*),
+         COALESCE(sum(COALESCE(an.credit, CASE WHEN an.is_correct THEN 1 ELSE 0 END)), 0)::numeric
+  FROM public.attempts at
+  JOIN public.questions q
+    ON q.assessment_id = at.assessment_id
+   AND (at.question_ids IS NULL OR q.id = ANY(at.question_ids))
+  LEFT JOIN public.answers an ON an.attempt_id = at.id AND an.question_id = q.id
+  WHERE at.student_id = _student_id
+    AND at.submitted_at IS NOT NULL
+    AND q.topic_id IS NOT NULL
+  GROUP BY q.topic_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_topic_scores(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_topic_scores(uuid) TO authenticated;
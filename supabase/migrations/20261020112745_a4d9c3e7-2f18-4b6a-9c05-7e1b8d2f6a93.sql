@@ -0,0 +1,83 @@
+-- Authored difficulty, as judged by whoever wrote the question
+ALTER TABLE public.questions
+  ADD COLUMN difficulty text CHECK (difficulty IN ('easy', 'medium', 'hard'));
+
+ALTER TABLE public.question_bank
+  ADD COLUMN difficulty text CHECK (difficulty IN ('easy', 'medium', 'hard'));
+
+-- Assessment questions imported from the bank remember where they came
+-- from, so the bank question's measured difficulty covers every copy
+ALTER TABLE public.questions
+  ADD COLUMN bank_question_id uuid REFERENCES public.question_bank(id) ON DELETE SET NULL;
+
+CREATE INDEX questions_bank_question_id_idx ON public.questions (bank_question_id);
+
+-- Existing copies are matched to the bank by their text within the subject
+UPDATE public.questions q
+SET bank_question_id = m.bank_id
+FROM (
+  SELECT DISTINCT ON (q2.id) q2.id AS question_id, qb.id AS bank_id
+  FROM public.questions q2
+  JOIN public.assessments a ON a.id = q2.assessment_id
+  JOIN public.question_bank qb
+    ON qb.subject_id = a.subject_id
+   AND lower(btrim(qb.question_text)) = lower(btrim(q2.question_text))
+  ORDER BY q2.id, qb.created_at
+) m
+WHERE q.id = m.question_id;
+
+-- Responses and correct responses per assessment question, over submitted
+-- attempts; the client turns the rate into easy, medium or hard
+CREATE OR REPLACE FUNCTION public.get_question_difficulty(_question_ids uuid[])
+RETURNS TABLE (question_id uuid, responses bigint, correct bigint)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(),'teacher'::app_role) AND NOT has_role(auth.uid(),'admin'::app_role) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT an.question_id,
+         count(*),
+         count(*) FILTER (WHERE an.is_correct)
+  FROM public.answers an
+  JOIN public.attempts at ON at.id = an.attempt_id AND at.submitted_at IS NOT NULL
+  WHERE an.question_id = ANY(_question_ids)
+    AND an.is_correct IS NOT NULL
+  GROUP BY an.question_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_question_difficulty(uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_question_difficulty(uuid[]) TO authenticated;
+
+-- The same for bank questions, across every assessment copy of each
+CREATE OR REPLACE FUNCTION public.get_bank_question_difficulty(_question_ids uuid[])
+RETURNS TABLE (question_id uuid, responses bigint, correct bigint)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(),'teacher'::app_role) AND NOT has_role(auth.uid(),'admin'::app_role) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT q.bank_question_id,
+         count(*),
+         count(*) FILTER (WHERE an.is_correct)
+  FROM public.answers an
+  JOIN public.attempts at ON at.id = an.attempt_id AND at.submitted_at IS NOT NULL
+  JOIN public.questions q ON q.id = an.question_id
+  WHERE q.bank_question_id = ANY(_question_ids)
+    AND an.is_correct IS NOT NULL
+  GROUP BY q.bank_question_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_bank_question_difficulty(uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_bank_question_difficulty(uuid[]) TO authenticated;
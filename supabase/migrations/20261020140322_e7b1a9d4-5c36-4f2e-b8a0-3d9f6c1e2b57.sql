@@ -0,0 +1,84 @@
+-- Every saved state of an assessment or bank question, kept even after the
+-- question is deleted so disputes about what a question said can be settled
+CREATE TABLE public.question_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  source text NOT NULL CHECK (source IN ('assessment', 'bank')),
+  question_id uuid NOT NULL,
+  version integer NOT NULL,
+  -- The row as saved, without its id and created_at
+  content jsonb NOT NULL,
+  edited_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  edited_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (source, question_id, version)
+);
+
+ALTER TABLE public.question_versions ENABLE ROW LEVEL SECURITY;
+
+-- Same reach as the questions themselves: admins see everything, teachers
+-- the bank and their own assessments. Rows are only written by the triggers
+-- below and never changed.
+CREATE POLICY "Staff view question versions"
+  ON public.question_versions
+  FOR SELECT
+  USING (
+    has_role(auth.uid(), 'admin'::app_role)
+    OR (
+      has_role(auth.uid(), 'teacher'::app_role)
+      AND (
+        source = 'bank'
+        OR EXISTS (
+          SELECT 1 FROM public.assessments a
+          WHERE a.id = (question_versions.content->>'assessment_id')::uuid
+            AND a.teacher_id = auth.uid()
+        )
+      )
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.record_question_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _source text := CASE WHEN TG_TABLE_NAME = 'question_bank' THEN 'bank' ELSE 'assessment' END;
+  _content jsonb := to_jsonb(NEW) - 'id' - 'created_at';
+  _editor uuid := auth.uid();
+BEGIN
+  IF TG_OP = 'UPDATE' AND _content = to_jsonb(OLD) - 'id' - 'created_at' THEN
+    RETURN NEW;
+  END IF;
+
+  IF _editor IS NULL AND _source = 'bank' THEN
+    _editor := (_content->>'added_by')::uuid;
+  END IF;
+
+  INSERT INTO public.question_versions (source, question_id, version, content, edited_by)
+  SELECT _source, NEW.id, COALESCE(max(v.version), 0) + 1, _content, _editor
+  FROM public.question_versions v
+  WHERE v.source = _source AND v.question_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_question_version
+  AFTER INSERT OR UPDATE ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.record_question_version();
+
+CREATE TRIGGER record_question_bank_version
+  AFTER INSERT OR UPDATE ON public.question_bank
+  FOR EACH ROW EXECUTE FUNCTION public.record_question_version();
+
+CREATE INDEX question_versions_question_idx ON public.question_versions (source, question_id, version DESC);
+
+-- Existing questions start their history at version 1, as created
+INSERT INTO public.question_versions (source, question_id, version, content, edited_by, edited_at)
+SELECT 'bank', qb.id, 1, to_jsonb(qb) - 'id' - 'created_at', qb.added_by, qb.created_at
+FROM public.question_bank qb;
+
+INSERT INTO public.question_versions (source, question_id, version, content, edited_by, edited_at)
+SELECT 'assessment', q.id, 1, to_jsonb(q) - 'id' - 'created_at', a.teacher_id, COALESCE(q.created_at, now())
+FROM public.questions q
+JOIN public.assessments a ON a.id = q.assessment_id;
@@ -0,0 +1,217 @@
+-- The questions of each attempt exactly as the student was given them: stem,
+-- options, images and answer key. Grading, review and topic scores read these
+-- copies, so editing or deleting a question after an exam leaves past
+-- attempts as they were. Students only reach them through the functions below.
+CREATE TABLE public.attempt_questions (
+  attempt_id uuid NOT NULL REFERENCES public.attempts(id) ON DELETE CASCADE,
+  question_id uuid NOT NULL,
+  -- The questions row as it stood when the attempt's paper was drawn
+  content jsonb NOT NULL,
+  PRIMARY KEY (attempt_id, question_id)
+);
+
+ALTER TABLE public.attempt_questions ENABLE ROW LEVEL SECURITY;
+
+-- Written by the get-assessment-questions function with the service role
+CREATE POLICY "Staff view attempt questions"
+  ON public.attempt_questions
+  FOR SELECT
+  USING (has_role(auth.uid(), 'teacher'::app_role) OR has_role(auth.uid(), 'admin'::app_role));
+
+-- Answers outlive the question they answer; the copy above says what it was
+ALTER TABLE public.answers DROP CONSTRAINT IF EXISTS answers_question_id_fkey;
+
+-- Attempts whose paper is already drawn keep today's version of each question
+INSERT INTO public.attempt_questions (attempt_id, question_id, content)
+SELECT at.id, q.id, to_jsonb(q)
+FROM public.attempts at
+JOIN public.questions q
+  ON q.assessment_id = at.assessment_id
+ AND (at.question_ids IS NULL OR q.id = ANY(at.question_ids))
+WHERE at.question_ids IS NOT NULL OR at.submitted_at IS NOT NULL;
+
+DROP FUNCTION IF EXISTS public.get_review_questions(uuid);
+CREATE FUNCTION public.get_review_questions(_attempt_id uuid)
+RETURNS TABLE (
+  id uuid,
+  question_text text,
+  option_a text,
+  option_b text,
+  option_c text,
+  option_d text,
+  option_e text,
+  option_f text,
+  correct_answer text,
+  assessment_id uuid,
+  option_order text,
+  question_type text,
+  scoring_mode text,
+  numeric_answer numeric,
+  numeric_tolerance numeric,
+  numeric_min numeric,
+  numeric_max numeric,
+  answer_unit text,
+  accepted_answers text[],
+  question_image text,
+  option_a_image text,
+  option_b_image text,
+  option_c_image text,
+  option_d_image text,
+  option_e_image text,
+  option_f_image text,
+  explanation text,
+  reference_title text,
+  reference_url text
+)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _assessment_id uuid;
+  _student uuid;
+  _question_ids uuid[];
+  _option_orders jsonb;
+BEGIN
+  SELECT a.assessment_id, a.student_id, a.question_ids, a.option_orders
+  INTO _assessment_id, _student, _question_ids, _option_orders
+  FROM public.attempts a WHERE a.id = _attempt_id;
+
+  IF _assessment_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF _student <> auth.uid()
+     AND NOT has_role(auth.uid(),'teacher'::app_role)
+     AND NOT has_role(auth.uid(),'admin'::app_role) THEN
+    RETURN;
+  END IF;
+
+  -- The attempt's own copies, as questions rows so the option helpers apply.
+  -- Attempts from before copies were kept fall back to the live questions.
+  -- Unshuffled questions show their own options in authored order.
+  RETURN QUERY
+  WITH given AS (
+    SELECT jsonb_populate_record(NULL::public.questions, aq.content) AS q
+    FROM public.attempt_questions aq
+    WHERE aq.attempt_id = _attempt_id
+    UNION ALL
+    SELECT q
+    FROM public.questions q
+    WHERE q.assessment_id = _assessment_id
+      AND (_question_ids IS NULL OR q.id = ANY(_question_ids))
+      AND NOT EXISTS (SELECT 1 FROM public.attempt_questions aq WHERE aq.attempt_id = _attempt_id)
+  ),
+  ordered AS (
+    SELECT g.q, COALESCE(
+             _option_orders ->> (g.q).id::text,
+             CASE WHEN (g.q).option_a IS NOT NULL
+               THEN left('ABCDEF', public.option_count((g.q).option_c, (g.q).option_d, (g.q).option_e, (g.q).option_f))
+               ELSE ''
+             END
+           ) AS ord,
+           array_position(_question_ids, (g.q).id) AS pos
+    FROM given g
+  )
+  SELECT (o.q).id, (o.q).question_text,
+         public.question_option(o.q, substr(o.ord, 1, 1)),
+         public.question_option(o.q, substr(o.ord, 2, 1)),
+         public.question_option(o.q, substr(o.ord, 3, 1)),
+         public.question_option(o.q, substr(o.ord, 4, 1)),
+         public.question_option(o.q, substr(o.ord, 5, 1)),
+         public.question_option(o.q, substr(o.ord, 6, 1)),
+         public.display_letters((o.q).correct_answer, o.ord),
+         (o.q).assessment_id,
+         o.ord,
+         (o.q).question_type,
+         (o.q).scoring_mode,
+         (o.q).numeric_answer,
+         (o.q).numeric_tolerance,
+         (o.q).numeric_min,
+         (o.q).numeric_max,
+         (o.q).answer_unit,
+         (o.q).accepted_answers,
+         (o.q).question_image,
+         public.question_option_image(o.q, substr(o.ord, 1, 1)),
+         public.question_option_image(o.q, substr(o.ord, 2, 1)),
+         public.question_option_image(o.q, substr(o.ord, 3, 1)),
+         public.question_option_image(o.q, substr(o.ord, 4, 1)),
+         public.question_option_image(o.q, substr(o.ord, 5, 1)),
+         public.question_option_image(o.q, substr(o.ord, 6, 1)),
+         (o.q).explanation,
+         (o.q).reference_title,
+         (o.q).reference_url
+  FROM ordered o
+  ORDER BY o.pos NULLS LAST, (o.q).created_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_review_questions(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_review_questions(uuid) TO authenticated;
+
+-- Topics as they were when each attempt was taken
+CREATE OR REPLACE FUNCTION public.get_topic_scores(_student_id uuid)
+RETURNS TABLE (topic_id uuid, questions bigint, earned numeric)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _student_id <> auth.uid()
+     AND NOT has_role(auth.uid(),'teacher'::app_role)
+     AND NOT has_role(auth.uid(),'admin'::app_role) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT (aq.content->>'topic_id')::uuid,
+         count(*),
+         COALESCE(sum(COALESCE(an.credit, CASE WHEN an.is_correct THEN 1 ELSE 0 END)), 0)::numeric
+  FROM public.attempts at
+  JOIN public.attempt_questions aq ON aq.attempt_id = at.id
+  LEFT JOIN public.answers an ON an.attempt_id = at.id AND an.question_id = aq.question_id
+  WHERE at.student_id = _student_id
+    AND at.submitted_at IS NOT NULL
+    AND aq.content->>'topic_id' IS NOT NULL
+  GROUP BY 1;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_topic_scores(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_topic_scores(uuid) TO authenticated;
+
+-- Students keep seeing the images of questions they were given, even after
+-- the question's image is replaced
+CREATE OR REPLACE FUNCTION public.can_view_question_image(_user_id uuid, _path text)
+RETURNS boolean
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin'::app_role)
+    OR public.has_role(_user_id, 'teacher'::app_role)
+    OR EXISTS (
+      SELECT 1
+      FROM public.questions q
+      JOIN public.assessments a ON a.id = q.assessment_id
+      WHERE a.class_id = public.get_user_class(_user_id)
+        AND _path IN (q.question_image, q.option_a_image, q.option_b_image, q.option_c_image,
+                      q.option_d_image, q.option_e_image, q.option_f_image)
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM public.question_bank qb
+      WHERE (qb.class_id IS NULL OR qb.class_id = public.get_user_class(_user_id))
+        AND _path IN (qb.question_image, qb.option_a_image, qb.option_b_image, qb.option_c_image,
+                      qb.option_d_image, qb.option_e_image, qb.option_f_image)
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM public.attempt_questions aq
+      JOIN public.attempts at ON at.id = aq.attempt_id
+      WHERE at.student_id = _user_id
+        AND _path IN (aq.content->>'question_image', aq.content->>'option_a_image', aq.content->>'option_b_image',
+                      aq.content->>'option_c_image', aq.content->>'option_d_image', aq.content->>'option_e_image',
+                      aq.content->>'option_f_image')
+    );
+$$;
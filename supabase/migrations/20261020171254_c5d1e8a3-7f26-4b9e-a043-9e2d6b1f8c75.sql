@@ -0,0 +1,193 @@
+-- Corrections to a question's answer key after a sitting. A question can be
+-- voided (no longer counted towards anyone's total) or, for single-answer
+-- questions, accept other options as correct besides the key. Both are copied
+-- into each attempt's questions like the rest of the key.
+ALTER TABLE public.questions
+  ADD COLUMN voided boolean NOT NULL DEFAULT false,
+  ADD COLUMN accepted_options text[];
+
+-- Mock exam answers per question, kept so a corrected key can regrade mock
+-- results. Written by submit-mock-exam-subject; unanswered questions are kept
+-- too, with no answer and no credit earned.
+CREATE TABLE public.mock_exam_answers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  attempt_id uuid NOT NULL REFERENCES public.mock_exam_attempts(id) ON DELETE CASCADE,
+  assessment_id uuid NOT NULL REFERENCES public.assessments(id) ON DELETE CASCADE,
+  question_id uuid NOT NULL,
+  selected_answer text,
+  response_text text,
+  is_correct boolean,
+  -- Null when the question is voided
+  credit numeric,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (attempt_id, question_id)
+);
+
+CREATE INDEX mock_exam_answers_question_id_idx ON public.mock_exam_answers (question_id);
+
+ALTER TABLE public.mock_exam_answers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "View mock exam answers"
+  ON public.mock_exam_answers
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.mock_exam_attempts
+      WHERE id = mock_exam_answers.attempt_id
+        AND (student_id = auth.uid() OR has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'teacher'::app_role))
+    )
+  );
+
+DROP FUNCTION IF EXISTS public.get_review_questions(uuid);
+CREATE FUNCTION public.get_review_questions(_attempt_id uuid)
+RETURNS TABLE (
+  id uuid,
+  question_text text,
+  option_a text,
+  option_b text,
+  option_c text,
+  option_d text,
+  option_e text,
+  option_f text,
+  correct_answer text,
+  assessment_id uuid,
+  option_order text,
+  question_type text,
+  scoring_mode text,
+  numeric_answer numeric,
+  numeric_tolerance numeric,
+  numeric_min numeric,
+  numeric_max numeric,
+  answer_unit text,
+  accepted_answers text[],
+  question_image text,
+  option_a_image text,
+  option_b_image text,
+  option_c_image text,
+  option_d_image text,
+  option_e_image text,
+  option_f_image text,
+  explanation text,
+  reference_title text,
+  reference_url text,
+  voided boolean
+)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _assessment_id uuid;
+  _student uuid;
+  _question_ids uuid[];
+  _option_orders jsonb;
+BEGIN
+  SELECT a.assessment_id, a.student_id, a.question_ids, a.option_orders
+  INTO _assessment_id, _student, _question_ids, _option_orders
+  FROM public.attempts a WHERE a.id = _attempt_id;
+
+  IF _assessment_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF _student <> auth.uid()
+     AND NOT has_role(auth.uid(),'teacher'::app_role)
+     AND NOT has_role(auth.uid(),'admin'::app_role) THEN
+    RETURN;
+  END IF;
+
+  -- The attempt's own copies, as questions rows so the option helpers apply.
+  -- Attempts from before copies were kept fall back to the live questions.
+  -- Unshuffled questions show their own options in authored order. Options
+  -- accepted in a regrade are shown as correct alongside the key.
+  RETURN QUERY
+  WITH given AS (
+    SELECT jsonb_populate_record(NULL::public.questions, aq.content) AS q
+    FROM public.attempt_questions aq
+    WHERE aq.attempt_id = _attempt_id
+    UNION ALL
+    SELECT q
+    FROM public.questions q
+    WHERE q.assessment_id = _assessment_id
+      AND (_question_ids IS NULL OR q.id = ANY(_question_ids))
+      AND NOT EXISTS (SELECT 1 FROM public.attempt_questions aq WHERE aq.attempt_id = _attempt_id)
+  ),
+  ordered AS (
+    SELECT g.q, COALESCE(
+             _option_orders ->> (g.q).id::text,
+             CASE WHEN (g.q).option_a IS NOT NULL
+               THEN left('ABCDEF', public.option_count((g.q).option_c, (g.q).option_d, (g.q).option_e, (g.q).option_f))
+               ELSE ''
+             END
+           ) AS ord,
+           array_position(_question_ids, (g.q).id) AS pos
+    FROM given g
+  )
+  SELECT (o.q).id, (o.q).question_text,
+         public.question_option(o.q, substr(o.ord, 1, 1)),
+         public.question_option(o.q, substr(o.ord, 2, 1)),
+         public.question_option(o.q, substr(o.ord, 3, 1)),
+         public.question_option(o.q, substr(o.ord, 4, 1)),
+         public.question_option(o.q, substr(o.ord, 5, 1)),
+         public.question_option(o.q, substr(o.ord, 6, 1)),
+         public.display_letters((o.q).correct_answer || COALESCE(array_to_string((o.q).accepted_options, ''), ''), o.ord),
+         (o.q).assessment_id,
+         o.ord,
+         (o.q).question_type,
+         (o.q).scoring_mode,
+         (o.q).numeric_answer,
+         (o.q).numeric_tolerance,
+         (o.q).numeric_min,
+         (o.q).numeric_max,
+         (o.q).answer_unit,
+         (o.q).accepted_answers,
+         (o.q).question_image,
+         public.question_option_image(o.q, substr(o.ord, 1, 1)),
+         public.question_option_image(o.q, substr(o.ord, 2, 1)),
+         public.question_option_image(o.q, substr(o.ord, 3, 1)),
+         public.question_option_image(o.q, substr(o.ord, 4, 1)),
+         public.question_option_image(o.q, substr(o.ord, 5, 1)),
+         public.question_option_image(o.q, substr(o.ord, 6, 1)),
+         (o.q).explanation,
+         (o.q).reference_title,
+         (o.q).reference_url,
+         (o.q).voided
+  FROM ordered o
+  ORDER BY o.pos NULLS LAST, (o.q).created_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_review_questions(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_review_questions(uuid) TO authenticated;
+
+-- Voided questions count towards no topic
+CREATE OR REPLACE FUNCTION public.get_topic_scores(_student_id uuid)
+RETURNS TABLE (topic_id uuid, questions bigint, earned numeric)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _student_id <> auth.uid()
+     AND NOT has_role(auth.uid(),'teacher'::app_role)
+     AND NOT has_role(auth.uid(),'admin'::app_role) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT (aq.content->>'topic_id')::uuid,
+         count(*),
+         COALESCE(sum(COALESCE(an.credit, CASE WHEN an.is_correct THEN 1 ELSE 0 END)), 0)::numeric
+  FROM public.attempts at
+  JOIN public.attempt_questions aq ON aq.attempt_id = at.id
+  LEFT JOIN public.answers an ON an.attempt_id = at.id AND an.question_id = aq.question_id
+  WHERE at.student_id = _student_id
+    AND at.submitted_at IS NOT NULL
+    AND aq.content->>'topic_id' IS NOT NULL
+    AND COALESCE((aq.content->>'voided')::boolean, false) = false
+  GROUP BY 1;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_topic_scores(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_topic_scores(uuid) TO authenticated;
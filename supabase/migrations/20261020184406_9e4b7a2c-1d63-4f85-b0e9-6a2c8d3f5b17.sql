@@ -0,0 +1,92 @@
+-- Bank questions folded into another as duplicates, as they were when
+-- merged. Kept after the merge so a merged question's usage can be traced to
+-- the question that replaced it.
+CREATE TABLE public.question_bank_merges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kept_id uuid NOT NULL,
+  merged_id uuid NOT NULL,
+  content jsonb NOT NULL,
+  merged_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  merged_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX question_bank_merges_kept_id_idx ON public.question_bank_merges (kept_id);
+
+ALTER TABLE public.question_bank_merges ENABLE ROW LEVEL SECURITY;
+
+-- Only written by merge_bank_questions below
+CREATE POLICY "Staff view question bank merges"
+  ON public.question_bank_merges
+  FOR SELECT
+  USING (has_role(auth.uid(), 'teacher'::app_role) OR has_role(auth.uid(), 'admin'::app_role));
+
+-- Folds duplicates into the question kept. Assessment questions copied from
+-- a merged question point at the kept one, so its measured difficulty covers
+-- every copy; tags are combined and blanks filled from the merged questions.
+CREATE OR REPLACE FUNCTION public.merge_bank_questions(_keep_id uuid, _merge_ids uuid[])
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _subject uuid;
+  _merged integer;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can merge questions';
+  END IF;
+
+  _merge_ids := array_remove(_merge_ids, _keep_id);
+
+  SELECT subject_id INTO _subject FROM public.question_bank WHERE id = _keep_id;
+  IF _subject IS NULL THEN
+    RAISE EXCEPTION 'The question to keep no longer exists';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.question_bank WHERE id = ANY(_merge_ids) AND subject_id <> _subject) THEN
+    RAISE EXCEPTION 'Only questions of the same subject can be merged';
+  END IF;
+
+  UPDATE public.question_bank k
+  SET tags = ARRAY(
+        SELECT DISTINCT t
+        FROM public.question_bank m, unnest(m.tags) AS t
+        WHERE m.id = _keep_id OR m.id = ANY(_merge_ids)
+        ORDER BY t
+      ),
+      topic_id = COALESCE(k.topic_id, (
+        SELECT m.topic_id FROM public.question_bank m
+        WHERE m.id = ANY(_merge_ids) AND m.topic_id IS NOT NULL
+        ORDER BY m.created_at LIMIT 1
+      )),
+      difficulty = COALESCE(k.difficulty, (
+        SELECT m.difficulty FROM public.question_bank m
+        WHERE m.id = ANY(_merge_ids) AND m.difficulty IS NOT NULL
+        ORDER BY m.created_at LIMIT 1
+      )),
+      explanation = COALESCE(k.explanation, (
+        SELECT m.explanation FROM public.question_bank m
+        WHERE m.id = ANY(_merge_ids) AND m.explanation IS NOT NULL
+        ORDER BY m.created_at LIMIT 1
+      ))
+  WHERE k.id = _keep_id;
+
+  INSERT INTO public.question_bank_merges (kept_id, merged_id, content, merged_by)
+  SELECT _keep_id, m.id, to_jsonb(m), auth.uid()
+  FROM public.question_bank m
+  WHERE m.id = ANY(_merge_ids);
+
+  UPDATE public.questions SET bank_question_id = _keep_id WHERE bank_question_id = ANY(_merge_ids);
+
+  -- Earlier merges into a question merged now follow it
+  UPDATE public.question_bank_merges SET kept_id = _keep_id WHERE kept_id = ANY(_merge_ids);
+
+  DELETE FROM public.question_bank WHERE id = ANY(_merge_ids);
+  GET DIAGNOSTICS _merged = ROW_COUNT;
+  RETURN _merged;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.merge_bank_questions(uuid, uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.merge_bank_questions(uuid, uuid[]) TO authenticated;
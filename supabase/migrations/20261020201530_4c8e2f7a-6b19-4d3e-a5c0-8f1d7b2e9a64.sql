@@ -0,0 +1,268 @@
+-- Bank questions are reviewed before they reach students: authors save
+-- drafts and submit them, and an admin or a lead of the question's subject
+-- approves or rejects them with a comment. Only approved questions are
+-- practised, shown to students or offered to assessment and mock builders.
+
+-- Leads review the bank questions of their subject
+ALTER TABLE public.teacher_subjects
+  ADD COLUMN is_lead boolean NOT NULL DEFAULT false;
+
+-- Everything already in the bank has been in use, so it starts approved
+ALTER TABLE public.question_bank
+  ADD COLUMN status text NOT NULL DEFAULT 'approved' CHECK (status IN ('draft', 'submitted', 'approved', 'rejected')),
+  ADD COLUMN review_comment text,
+  ADD COLUMN reviewed_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  ADD COLUMN reviewed_at timestamptz;
+
+ALTER TABLE public.question_bank ALTER COLUMN status SET DEFAULT 'draft';
+
+CREATE INDEX question_bank_status_idx ON public.question_bank (status);
+
+CREATE OR REPLACE FUNCTION public.can_review_subject(_user_id uuid, _subject_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin'::app_role)
+    OR EXISTS (
+      SELECT 1 FROM public.teacher_subjects ts
+      WHERE ts.teacher_id = _user_id AND ts.subject_id = _subject_id AND ts.is_lead
+    );
+$$;
+
+-- Every decision on a question and every submission, with the reviewer's comment
+CREATE TABLE public.question_bank_reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  question_id uuid NOT NULL REFERENCES public.question_bank(id) ON DELETE CASCADE,
+  status text NOT NULL CHECK (status IN ('draft', 'submitted', 'approved', 'rejected')),
+  comment text,
+  reviewed_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX question_bank_reviews_question_idx ON public.question_bank_reviews (question_id, created_at DESC);
+
+ALTER TABLE public.question_bank_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the trigger below
+CREATE POLICY "Authors and reviewers view question reviews"
+  ON public.question_bank_reviews
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.question_bank qb
+      WHERE qb.id = question_bank_reviews.question_id
+        AND (qb.added_by = auth.uid() OR public.can_review_subject(auth.uid(), qb.subject_id))
+    )
+  );
+
+-- Authors write and submit; only reviewers approve, reject or comment. An
+-- approved question its author edits goes back to the queue.
+CREATE OR REPLACE FUNCTION public.enforce_question_bank_review()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _reviewer boolean := auth.uid() IS NULL OR public.can_review_subject(auth.uid(), NEW.subject_id);
+  _review_columns text[] := ARRAY['status', 'review_comment', 'reviewed_by', 'reviewed_at'];
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NOT _reviewer AND NEW.status NOT IN ('draft', 'submitted') THEN
+      NEW.status := 'draft';
+    END IF;
+    IF NOT _reviewer THEN
+      NEW.review_comment := NULL;
+    END IF;
+  ELSIF NOT _reviewer THEN
+    IF NEW.status IN ('approved', 'rejected') AND NEW.status IS DISTINCT FROM OLD.status THEN
+      RAISE EXCEPTION 'Only a subject lead or an admin can approve or reject questions';
+    END IF;
+    NEW.review_comment := OLD.review_comment;
+    NEW.reviewed_by := OLD.reviewed_by;
+    NEW.reviewed_at := OLD.reviewed_at;
+    IF OLD.status = 'approved' AND NEW.status = 'approved'
+       AND (to_jsonb(NEW) - _review_columns) <> (to_jsonb(OLD) - _review_columns) THEN
+      NEW.status := 'submitted';
+    END IF;
+  END IF;
+
+  IF NEW.status IN ('approved', 'rejected') AND (TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status) THEN
+    IF NEW.status = 'rejected' AND btrim(COALESCE(NEW.review_comment, '')) = '' THEN
+      RAISE EXCEPTION 'Give a reason for rejecting the question';
+    END IF;
+    NEW.reviewed_by := auth.uid();
+    NEW.reviewed_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_question_bank_review
+  BEFORE INSERT OR UPDATE ON public.question_bank
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_question_bank_review();
+
+CREATE OR REPLACE FUNCTION public.log_question_bank_review()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (TG_OP = 'INSERT' AND NEW.status <> 'draft') OR (TG_OP = 'UPDATE' AND NEW.status IS DISTINCT FROM OLD.status) THEN
+    INSERT INTO public.question_bank_reviews (question_id, status, comment, reviewed_by)
+    VALUES (
+      NEW.id,
+      NEW.status,
+      CASE WHEN NEW.status IN ('approved', 'rejected') THEN NEW.review_comment END,
+      COALESCE(auth.uid(), NEW.added_by)
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_question_bank_review
+  AFTER INSERT OR UPDATE ON public.question_bank
+  FOR EACH ROW EXECUTE FUNCTION public.log_question_bank_review();
+
+-- Review decisions aren't edits to the question, so they add no version
+CREATE OR REPLACE FUNCTION public.record_question_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _source text := CASE WHEN TG_TABLE_NAME = 'question_bank' THEN 'bank' ELSE 'assessment' END;
+  _ignored text[] := ARRAY['id', 'created_at', 'status', 'review_comment', 'reviewed_by', 'reviewed_at'];
+  _content jsonb := to_jsonb(NEW) - _ignored;
+  _editor uuid := auth.uid();
+BEGIN
+  IF TG_OP = 'UPDATE' AND _content = to_jsonb(OLD) - _ignored THEN
+    RETURN NEW;
+  END IF;
+
+  IF _editor IS NULL AND _source = 'bank' THEN
+    _editor := (_content->>'added_by')::uuid;
+  END IF;
+
+  INSERT INTO public.question_versions (source, question_id, version, content, edited_by)
+  SELECT _source, NEW.id, COALESCE(max(v.version), 0) + 1, _content, _editor
+  FROM public.question_versions v
+  WHERE v.source = _source AND v.question_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Teachers see approved questions, their own and those they review
+DROP POLICY IF EXISTS "Staff view question bank" ON public.question_bank;
+CREATE POLICY "Staff view question bank"
+  ON public.question_bank
+  FOR SELECT
+  USING (
+    has_role(auth.uid(), 'admin'::app_role)
+    OR (
+      has_role(auth.uid(), 'teacher'::app_role)
+      AND (status = 'approved' OR added_by = auth.uid() OR public.can_review_subject(auth.uid(), subject_id))
+    )
+  );
+
+CREATE POLICY "Subject leads review questions"
+  ON public.question_bank
+  FOR UPDATE
+  USING (public.can_review_subject(auth.uid(), subject_id));
+
+CREATE OR REPLACE FUNCTION public.get_question_bank_practice(_subject_id uuid, _topic_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  id uuid,
+  question_text text,
+  option_a text,
+  option_b text,
+  option_c text,
+  option_d text,
+  option_e text,
+  option_f text,
+  subject_id uuid,
+  subject_name text,
+  question_type text,
+  scoring_mode text,
+  question_image text,
+  option_a_image text,
+  option_b_image text,
+  option_c_image text,
+  option_d_image text,
+  option_e_image text,
+  option_f_image text,
+  topic_id uuid
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT qb.id, qb.question_text, qb.option_a, qb.option_b, qb.option_c, qb.option_d, qb.option_e, qb.option_f,
+         qb.subject_id, s.name AS subject_name, qb.question_type, qb.scoring_mode,
+         qb.question_image, qb.option_a_image, qb.option_b_image, qb.option_c_image,
+         qb.option_d_image, qb.option_e_image, qb.option_f_image, qb.topic_id
+  FROM public.question_bank qb
+  LEFT JOIN public.subjects s ON s.id = qb.subject_id
+  WHERE (qb.class_id IS NULL OR qb.class_id = public.get_user_class(auth.uid()))
+    AND (_subject_id IS NULL OR qb.subject_id = _subject_id)
+    AND (_topic_id IS NULL OR qb.topic_id IN (SELECT public.topic_subtree(_topic_id)))
+    AND qb.question_type IN ('single', 'multiple', 'true_false')
+    AND qb.status = 'approved';
+$$;
+
+CREATE OR REPLACE FUNCTION public.grade_question_bank(_question_ids uuid[])
+RETURNS TABLE (id uuid, correct_answer text, explanation text, reference_title text, reference_url text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT qb.id, qb.correct_answer, qb.explanation, qb.reference_title, qb.reference_url
+  FROM public.question_bank qb
+  WHERE qb.id = ANY(_question_ids)
+    AND (qb.class_id IS NULL OR qb.class_id = public.get_user_class(auth.uid()))
+    AND qb.status = 'approved';
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_view_question_image(_user_id uuid, _path text)
+RETURNS boolean
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin'::app_role)
+    OR public.has_role(_user_id, 'teacher'::app_role)
+    OR EXISTS (
+      SELECT 1
+      FROM public.questions q
+      JOIN public.assessments a ON a.id = q.assessment_id
+      WHERE a.class_id = public.get_user_class(_user_id)
+        AND _path IN (q.question_image, q.option_a_image, q.option_b_image, q.option_c_image,
+                      q.option_d_image, q.option_e_image, q.option_f_image)
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM public.question_bank qb
+      WHERE (qb.class_id IS NULL OR qb.class_id = public.get_user_class(_user_id))
+        AND qb.status = 'approved'
+        AND _path IN (qb.question_image, qb.option_a_image, qb.option_b_image, qb.option_c_image,
+                      qb.option_d_image, qb.option_e_image, qb.option_f_image)
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM public.attempt_questions aq
+      JOIN public.attempts at ON at.id = aq.attempt_id
+      WHERE at.student_id = _user_id
+        AND _path IN (aq.content->>'question_image', aq.content->>'option_a_image', aq.content->>'option_b_image',
+                      aq.content->>'option_c_image', aq.content->>'option_d_image', aq.content->>'option_e_image',
+                      aq.content->>'option_f_image')
+    );
+$$;
@@ -0,0 +1,31 @@
+-- Students keep their update policy on attempts for the question pointer, but
+-- the presented questions, option orders, progress counters and results are
+-- written only by the edge functions (service role) and SECURITY DEFINER
+-- functions. Grading reads question_ids, so a student trimming it could drop
+-- the questions they got wrong. Nor can an attempt move to another
+-- assessment or student, which would dodge the attempt limit and cooldown.
+CREATE OR REPLACE FUNCTION public.protect_attempt_grading_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user = 'authenticated' THEN
+    NEW.assessment_id := OLD.assessment_id;
+    NEW.student_id := OLD.student_id;
+    NEW.question_ids := OLD.question_ids;
+    NEW.option_orders := OLD.option_orders;
+    NEW.answered_count := OLD.answered_count;
+    NEW.total_questions := OLD.total_questions;
+    NEW.score := OLD.score;
+    NEW.passed := OLD.passed;
+    NEW.submitted_at := OLD.submitted_at;
+    NEW.auto_submitted := OLD.auto_submitted;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_attempts_grading
+BEFORE UPDATE ON public.attempts
+FOR EACH ROW EXECUTE FUNCTION public.protect_attempt_grading_columns();
@@ -0,0 +1,79 @@
+-- Two starts racing each other both passed the attempt checks, as each
+-- counted the student's attempts before the other's insert was committed. A
+-- per-student, per-assessment lock makes the second insert wait and then see
+-- the first, and the index keeps a student to one open attempt regardless.
+CREATE OR REPLACE FUNCTION public.enforce_attempt_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _assessment public.assessments;
+  _count integer;
+  _last public.attempts;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.assessment_id::text || NEW.student_id::text));
+
+  SELECT * INTO _assessment FROM public.assessments WHERE id = NEW.assessment_id;
+
+  IF _assessment.opens_at IS NOT NULL AND now() < _assessment.opens_at THEN
+    RAISE EXCEPTION 'This assessment opens at %', to_char(_assessment.opens_at, 'YYYY-MM-DD HH24:MI TZ');
+  END IF;
+
+  IF _assessment.closes_at IS NOT NULL AND now() >= _assessment.closes_at THEN
+    RAISE EXCEPTION 'This assessment closed at %', to_char(_assessment.closes_at, 'YYYY-MM-DD HH24:MI TZ');
+  END IF;
+
+  IF _assessment.latest_start_at IS NOT NULL AND now() > _assessment.latest_start_at THEN
+    RAISE EXCEPTION 'The latest start time for this assessment was %', to_char(_assessment.latest_start_at, 'YYYY-MM-DD HH24:MI TZ');
+  END IF;
+
+  SELECT count(*) INTO _count
+  FROM public.attempts
+  WHERE assessment_id = NEW.assessment_id AND student_id = NEW.student_id;
+
+  SELECT * INTO _last
+  FROM public.attempts
+  WHERE assessment_id = NEW.assessment_id AND student_id = NEW.student_id
+  ORDER BY started_at DESC
+  LIMIT 1;
+
+  IF _last.id IS NOT NULL AND _last.submitted_at IS NULL THEN
+    RAISE EXCEPTION 'You already have an attempt in progress for this assessment';
+  END IF;
+
+  IF _assessment.max_attempts IS NOT NULL AND _count >= _assessment.max_attempts THEN
+    RAISE EXCEPTION 'You have used all % attempt(s) for this assessment', _assessment.max_attempts;
+  END IF;
+
+  IF _last.id IS NOT NULL
+     AND _last.submitted_at + make_interval(mins => _assessment.attempt_cooldown_minutes) > now() THEN
+    RAISE EXCEPTION 'You can start another attempt after %',
+      to_char(_last.submitted_at + make_interval(mins => _assessment.attempt_cooldown_minutes), 'YYYY-MM-DD HH24:MI TZ');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Starting used to insert a new attempt on every click, so some students
+-- have several open attempts at one assessment. Keep the newest and delete
+-- the rest (their drafts, copies and events go with them); none of them was
+-- ever submitted, so no result is lost.
+DELETE FROM public.attempts a
+USING (
+  SELECT id,
+         row_number() OVER (
+           PARTITION BY assessment_id, student_id
+           ORDER BY started_at DESC NULLS LAST, id DESC
+         ) AS newest
+  FROM public.attempts
+  WHERE submitted_at IS NULL
+) ranked
+WHERE a.id = ranked.id
+  AND ranked.newest > 1;
+
+CREATE UNIQUE INDEX attempts_one_open_per_student
+  ON public.attempts (assessment_id, student_id)
+  WHERE submitted_at IS NULL;
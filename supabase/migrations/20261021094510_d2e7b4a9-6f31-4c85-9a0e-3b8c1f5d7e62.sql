@@ -0,0 +1,65 @@
+-- Subject leads review other teachers' questions; they don't rewrite them
+-- and they don't approve their own. A lead's own questions go through review
+-- like any teacher's. Admins keep full control of the bank.
+CREATE OR REPLACE FUNCTION public.enforce_question_bank_review()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _admin boolean := auth.uid() IS NULL OR public.has_role(auth.uid(), 'admin'::app_role);
+  _reviewer boolean;
+  _review_columns text[] := ARRAY['status', 'review_comment', 'reviewed_by', 'reviewed_at'];
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NOT _admin AND NEW.status NOT IN ('draft', 'submitted') THEN
+      NEW.status := 'draft';
+    END IF;
+    IF NOT _admin THEN
+      NEW.review_comment := NULL;
+    END IF;
+  ELSE
+    _reviewer := _admin OR (
+      OLD.added_by IS DISTINCT FROM auth.uid()
+      AND public.can_review_subject(auth.uid(), OLD.subject_id)
+    );
+
+    IF NOT _reviewer THEN
+      IF NEW.status IN ('approved', 'rejected') AND NEW.status IS DISTINCT FROM OLD.status THEN
+        IF OLD.added_by = auth.uid() AND public.can_review_subject(auth.uid(), OLD.subject_id) THEN
+          RAISE EXCEPTION 'Another subject lead or an admin has to review your own questions';
+        END IF;
+        RAISE EXCEPTION 'Only a subject lead or an admin can approve or reject questions';
+      END IF;
+      NEW.review_comment := OLD.review_comment;
+      NEW.reviewed_by := OLD.reviewed_by;
+      NEW.reviewed_at := OLD.reviewed_at;
+      IF OLD.status = 'approved' AND NEW.status = 'approved'
+         AND (to_jsonb(NEW) - _review_columns) <> (to_jsonb(OLD) - _review_columns) THEN
+        NEW.status := 'submitted';
+      END IF;
+    ELSIF NOT _admin AND (to_jsonb(NEW) - _review_columns) <> (to_jsonb(OLD) - _review_columns) THEN
+      RAISE EXCEPTION 'Subject leads can review other teachers'' questions but not edit them';
+    END IF;
+  END IF;
+
+  IF NEW.status IN ('approved', 'rejected') AND (TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status) THEN
+    IF NEW.status = 'rejected' AND btrim(COALESCE(NEW.review_comment, '')) = '' THEN
+      RAISE EXCEPTION 'Give a reason for rejecting the question';
+    END IF;
+    NEW.reviewed_by := auth.uid();
+    NEW.reviewed_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Leads can't move a question out of the subjects they review
+DROP POLICY IF EXISTS "Subject leads review questions" ON public.question_bank;
+CREATE POLICY "Subject leads review questions"
+  ON public.question_bank
+  FOR UPDATE
+  USING (public.can_review_subject(auth.uid(), subject_id))
+  WITH CHECK (public.can_review_subject(auth.uid(), subject_id));
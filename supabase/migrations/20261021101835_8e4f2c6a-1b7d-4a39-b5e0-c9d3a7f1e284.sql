@@ -0,0 +1,33 @@
+-- Two edits of the same question saved at once both read the same latest
+-- version and collided on the unique version number, failing the edit. A
+-- per-question lock makes the second wait for the first's version.
+CREATE OR REPLACE FUNCTION public.record_question_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _source text := CASE WHEN TG_TABLE_NAME = 'question_bank' THEN 'bank' ELSE 'assessment' END;
+  _ignored text[] := ARRAY['id', 'created_at', 'status', 'review_comment', 'reviewed_by', 'reviewed_at'];
+  _content jsonb := to_jsonb(NEW) - _ignored;
+  _editor uuid := auth.uid();
+BEGIN
+  IF TG_OP = 'UPDATE' AND _content = to_jsonb(OLD) - _ignored THEN
+    RETURN NEW;
+  END IF;
+
+  IF _editor IS NULL AND _source = 'bank' THEN
+    _editor := (_content->>'added_by')::uuid;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext(_source || NEW.id::text));
+
+  INSERT INTO public.question_versions (source, question_id, version, content, edited_by)
+  SELECT _source, NEW.id, COALESCE(max(v.version), 0) + 1, _content, _editor
+  FROM public.question_versions v
+  WHERE v.source = _source AND v.question_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,96 @@
+-- Mock exam attempts keep their own copy of each question, one subject's
+-- assessment at a time, so grading, regrades and the results page see the
+-- paper the student sat even after the question is edited or deleted
+CREATE TABLE public.mock_exam_attempt_questions (
+  attempt_id uuid NOT NULL REFERENCES public.mock_exam_attempts(id) ON DELETE CASCADE,
+  assessment_id uuid NOT NULL REFERENCES public.assessments(id) ON DELETE CASCADE,
+  question_id uuid NOT NULL,
+  -- The questions row as it stood when the subject was first loaded
+  content jsonb NOT NULL,
+  PRIMARY KEY (attempt_id, question_id)
+);
+
+CREATE INDEX mock_exam_attempt_questions_question_id_idx ON public.mock_exam_attempt_questions (question_id);
+
+ALTER TABLE public.mock_exam_attempt_questions ENABLE ROW LEVEL SECURITY;
+
+-- Written by the get-assessment-questions function with the service role
+CREATE POLICY "Staff view mock exam attempt questions"
+  ON public.mock_exam_attempt_questions
+  FOR SELECT
+  USING (has_role(auth.uid(), 'teacher'::app_role) OR has_role(auth.uid(), 'admin'::app_role));
+
+-- Subjects already submitted keep today's version of the questions they recorded
+INSERT INTO public.mock_exam_attempt_questions (attempt_id, assessment_id, question_id, content)
+SELECT ma.attempt_id, ma.assessment_id, q.id, to_jsonb(q)
+FROM public.mock_exam_answers ma
+JOIN public.questions q ON q.id = ma.question_id;
+
+-- One copy of each question given in a mock exam, for the results page
+CREATE OR REPLACE FUNCTION public.get_mock_exam_questions(_mock_exam_id uuid)
+RETURNS TABLE (assessment_id uuid, content jsonb)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(),'teacher'::app_role) AND NOT has_role(auth.uid(),'admin'::app_role) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT DISTINCT ON (mq.question_id) mq.assessment_id, mq.content
+  FROM public.mock_exam_attempt_questions mq
+  JOIN public.mock_exam_attempts ma ON ma.id = mq.attempt_id
+  WHERE ma.mock_exam_id = _mock_exam_id
+  ORDER BY mq.question_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_mock_exam_questions(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_mock_exam_questions(uuid) TO authenticated;
+
+-- Students keep seeing the images of the mock questions they were given
+CREATE OR REPLACE FUNCTION public.can_view_question_image(_user_id uuid, _path text)
+RETURNS boolean
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin'::app_role)
+    OR public.has_role(_user_id, 'teacher'::app_role)
+    OR EXISTS (
+      SELECT 1
+      FROM public.questions q
+      JOIN public.assessments a ON a.id = q.assessment_id
+      WHERE a.class_id = public.get_user_class(_user_id)
+        AND _path IN (q.question_image, q.option_a_image, q.option_b_image, q.option_c_image,
+                      q.option_d_image, q.option_e_image, q.option_f_image)
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM public.question_bank qb
+      WHERE (qb.class_id IS NULL OR qb.class_id = public.get_user_class(_user_id))
+        AND qb.status = 'approved'
+        AND _path IN (qb.question_image, qb.option_a_image, qb.option_b_image, qb.option_c_image,
+                      qb.option_d_image, qb.option_e_image, qb.option_f_image)
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM public.attempt_questions aq
+      JOIN public.attempts at ON at.id = aq.attempt_id
+      WHERE at.student_id = _user_id
+        AND _path IN (aq.content->>'question_image', aq.content->>'option_a_image', aq.content->>'option_b_image',
+                      aq.content->>'option_c_image', aq.content->>'option_d_image', aq.content->>'option_e_image',
+                      aq.content->>'option_f_image')
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM public.mock_exam_attempt_questions mq
+      JOIN public.mock_exam_attempts ma ON ma.id = mq.attempt_id
+      WHERE ma.student_id = _user_id
+        AND _path IN (mq.content->>'question_image', mq.content->>'option_a_image', mq.content->>'option_b_image',
+                      mq.content->>'option_c_image', mq.content->>'option_d_image', mq.content->>'option_e_image',
+                      mq.content->>'option_f_image')
+    );
+$$;
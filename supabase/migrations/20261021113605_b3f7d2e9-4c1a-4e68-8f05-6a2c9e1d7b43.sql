@@ -0,0 +1,50 @@
+-- Autosaved mock exam answers, so a subject submitted after the deadline is
+-- graded from what the student had answered in time instead of nothing
+CREATE TABLE public.mock_exam_answer_drafts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  attempt_id uuid NOT NULL REFERENCES public.mock_exam_attempts(id) ON DELETE CASCADE,
+  question_id uuid NOT NULL,
+  selected_answer text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (attempt_id, question_id)
+);
+ALTER TABLE public.mock_exam_answer_drafts ENABLE ROW LEVEL SECURITY;
+
+-- Set on insert too, so a draft can't claim to have been saved before the deadline
+CREATE TRIGGER update_mock_exam_answer_drafts_updated_at BEFORE INSERT OR UPDATE ON public.mock_exam_answer_drafts FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Students write drafts only while their attempt is open and unlocked
+CREATE POLICY "Students manage drafts for open mock exam attempts"
+  ON public.mock_exam_answer_drafts FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.mock_exam_attempts a
+      WHERE a.id = mock_exam_answer_drafts.attempt_id
+        AND a.student_id = auth.uid()
+        AND a.is_completed IS NOT TRUE
+        AND a.locked_at IS NULL
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.mock_exam_attempts a
+      WHERE a.id = mock_exam_answer_drafts.attempt_id
+        AND a.student_id = auth.uid()
+        AND a.is_completed IS NOT TRUE
+        AND a.locked_at IS NULL
+    )
+  );
+
+CREATE POLICY "Students view their own mock exam drafts"
+  ON public.mock_exam_answer_drafts FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.mock_exam_attempts a
+      WHERE a.id = mock_exam_answer_drafts.attempt_id AND a.student_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Staff view all mock exam drafts"
+  ON public.mock_exam_answer_drafts FOR SELECT
+  USING (has_role(auth.uid(), 'teacher'::app_role) OR has_role(auth.uid(), 'admin'::app_role));
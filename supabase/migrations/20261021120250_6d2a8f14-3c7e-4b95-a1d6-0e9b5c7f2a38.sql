@@ -0,0 +1,54 @@
+-- A draft's updated_at is the server's time on insert as well as update, so
+-- a student can't re-insert a draft claiming it was saved before the deadline
+DROP TRIGGER IF EXISTS update_answer_drafts_updated_at ON public.answer_drafts;
+CREATE TRIGGER update_answer_drafts_updated_at BEFORE INSERT OR UPDATE ON public.answer_drafts FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Drafts stop changing once the deadline (plus the same grace the submit
+-- functions allow) has passed; what was saved by then is what gets graded
+DROP POLICY IF EXISTS "Students manage drafts for open attempts" ON public.answer_drafts;
+CREATE POLICY "Students manage drafts for open attempts"
+  ON public.answer_drafts FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.attempts a
+      WHERE a.id = answer_drafts.attempt_id
+        AND a.student_id = auth.uid()
+        AND a.submitted_at IS NULL
+        AND a.locked_at IS NULL
+        AND (a.deadline_at IS NULL OR now() <= a.deadline_at + interval '60 seconds')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.attempts a
+      WHERE a.id = answer_drafts.attempt_id
+        AND a.student_id = auth.uid()
+        AND a.submitted_at IS NULL
+        AND a.locked_at IS NULL
+        AND (a.deadline_at IS NULL OR now() <= a.deadline_at + interval '60 seconds')
+    )
+  );
+
+DROP POLICY IF EXISTS "Students manage drafts for open mock exam attempts" ON public.mock_exam_answer_drafts;
+CREATE POLICY "Students manage drafts for open mock exam attempts"
+  ON public.mock_exam_answer_drafts FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.mock_exam_attempts a
+      WHERE a.id = mock_exam_answer_drafts.attempt_id
+        AND a.student_id = auth.uid()
+        AND a.is_completed IS NOT TRUE
+        AND a.locked_at IS NULL
+        AND (a.deadline_at IS NULL OR now() <= a.deadline_at + interval '60 seconds')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.mock_exam_attempts a
+      WHERE a.id = mock_exam_answer_drafts.attempt_id
+        AND a.student_id = auth.uid()
+        AND a.is_completed IS NOT TRUE
+        AND a.locked_at IS NULL
+        AND (a.deadline_at IS NULL OR now() <= a.deadline_at + interval '60 seconds')
+    )
+  );